@@ -0,0 +1,286 @@
+/**
+ * Async Race Detector Module
+ *
+ * Effects that set state when a request resolves race with their own re-runs. When a
+ * dependency changes before the response arrives, the effect starts a second request, and
+ * whichever finishes last wins, even if it belongs to the old dependency value:
+ *
+ * ```tsx
+ * useEffect(() => {
+ *   fetchUser(id).then(setUser); // Switching from user 1 to 2 can end up showing user 1
+ * }, [id]);
+ * ```
+ *
+ * Setters called after an `await` or in a `.then()`/`.catch()`/`.finally()` callback are
+ * reported unless the effect cancels the request in its cleanup: a `.abort()`/`.cancel()`
+ * call, or a local `ignore`/`cancelled` flag set by the cleanup and checked before the update.
+ * Effects whose dependencies never change (none, setters, refs, dispatch) only run once per
+ * mount and are skipped.
+ */
+
+import * as t from '@babel/types';
+import traverse, { NodePath } from '@babel/traverse';
+import { HookAnalysis } from './types';
+import { StabilityConfig } from './state-extractor';
+import { hasReactiveDependency } from './stale-closure-detector';
+import {
+  createAnalysis,
+  getCalleeName,
+  getEffectDependencyArray,
+  getMemberPath,
+  isEffectHook,
+  isHookIgnored,
+} from './utils';
+
+/** Promise methods whose callbacks run after the request settles */
+const PROMISE_CALLBACK_METHODS = new Set(['then', 'catch', 'finally']);
+
+/** Methods that cancel a pending request (AbortController, axios/RxJS style cancel tokens) */
+const CANCEL_METHODS = new Set(['abort', 'cancel']);
+
+/** A state update that runs after the effect's async work settles */
+interface AsyncStateUpdate {
+  setter: string;
+  /** The local function that calls the setter, for indirect updates */
+  via?: string;
+}
+
+/**
+ * Check if a call is `promise.then(...)`, `.catch(...)` or `.finally(...)`.
+ */
+function isPromiseCallbackCall(node: t.Node | null | undefined): node is t.CallExpression {
+  return (
+    t.isCallExpression(node) &&
+    t.isMemberExpression(node.callee) &&
+    t.isIdentifier(node.callee.property) &&
+    PROMISE_CALLBACK_METHODS.has(node.callee.property.name)
+  );
+}
+
+/**
+ * Get the start of the first `await` in a function body (nested functions excluded).
+ */
+function getFirstAwaitStart(fn: t.Function): number {
+  let firstAwait = Infinity;
+  traverse(fn.body, {
+    noScope: true,
+    Function(path: NodePath<t.Function>) {
+      path.skip();
+    },
+    AwaitExpression(path: NodePath<t.AwaitExpression>) {
+      firstAwait = Math.min(firstAwait, path.node.start ?? Infinity);
+    },
+  });
+  return firstAwait;
+}
+
+/**
+ * Check if a call inside an effect callback runs after async work: inside a promise callback,
+ * or after an `await` in an async function.
+ */
+function runsAfterAsyncWork(callPath: NodePath, effectCallback: t.Node): boolean {
+  const start = callPath.node.start ?? 0;
+  let current: NodePath | null = callPath.parentPath;
+  while (current) {
+    if (current.isFunction()) {
+      if (current.listKey === 'arguments' && isPromiseCallbackCall(current.parent)) return true;
+      if (current.node.async && start > getFirstAwaitStart(current.node)) return true;
+    }
+    if (current.node === effectCallback) break;
+    current = current.parentPath;
+  }
+  return false;
+}
+
+/**
+ * Find state updates an effect makes after its async work settles.
+ */
+function findAsyncStateUpdates(
+  callbackPath: NodePath<t.Function>,
+  setterNames: Set<string>,
+  localFunctionSetters: Map<string, string[]>
+): AsyncStateUpdate[] {
+  const updates: AsyncStateUpdate[] = [];
+
+  const addUpdates = (name: string) => {
+    if (setterNames.has(name)) {
+      updates.push({ setter: name });
+      return;
+    }
+    for (const setter of localFunctionSetters.get(name) ?? []) {
+      updates.push({ setter, via: name });
+    }
+  };
+
+  callbackPath.traverse({
+    CallExpression(callPath: NodePath<t.CallExpression>) {
+      const node = callPath.node;
+
+      // fetchUser(id).then(setUser): the setter is passed as the promise callback
+      if (isPromiseCallbackCall(node)) {
+        for (const arg of node.arguments) {
+          if (t.isIdentifier(arg)) addUpdates(arg.name);
+        }
+      }
+
+      if (t.isIdentifier(node.callee) && runsAfterAsyncWork(callPath, callbackPath.node)) {
+        addUpdates(node.callee.name);
+      }
+    },
+  });
+
+  return updates.filter(
+    (update, index) => updates.findIndex((other) => other.setter === update.setter) === index
+  );
+}
+
+/**
+ * Check if a read of a flag is a condition: `if (!ignore)`, `!cancelled && setData(data)`.
+ */
+function isConditionRead(refPath: NodePath): boolean {
+  let current = refPath;
+  while (current.parentPath?.isUnaryExpression({ operator: '!' })) current = current.parentPath;
+  const parent = current.parentPath;
+  if (parent?.isIfStatement() || parent?.isConditionalExpression()) {
+    return parent.node.test === current.node;
+  }
+  return parent?.isLogicalExpression() ?? false;
+}
+
+/**
+ * Check if an effect cancels its async work: its cleanup calls `.abort()`/`.cancel()`, or
+ * sets a flag declared in the effect (`ignore = true`) that the effect checks before
+ * updating state. Creating an AbortController or resetting a timer variable doesn't cancel.
+ */
+function hasCancellation(callbackPath: NodePath<t.Function>): boolean {
+  let cancelled = false;
+  const callbackScope = callbackPath.scope;
+
+  const checkCleanup = (cleanupPath: NodePath) => {
+    cleanupPath.traverse({
+      AssignmentExpression(assignPath: NodePath<t.AssignmentExpression>) {
+        const left = assignPath.node.left;
+        if (!t.isIdentifier(left)) return;
+        const binding = assignPath.scope.getBinding(left.name);
+        if (!binding || binding.scope !== callbackScope) return;
+        const isChecked = binding.referencePaths.some(
+          (refPath) => !refPath.isDescendant(cleanupPath) && isConditionRead(refPath)
+        );
+        if (isChecked) {
+          cancelled = true;
+          assignPath.stop();
+        }
+      },
+      CallExpression(callPath: NodePath<t.CallExpression>) {
+        const name = getCalleeName(callPath.node);
+        if (name && CANCEL_METHODS.has(name) && t.isMemberExpression(callPath.node.callee)) {
+          cancelled = true;
+          callPath.stop();
+        }
+      },
+    });
+  };
+
+  callbackPath.traverse({
+    ReturnStatement(returnPath: NodePath<t.ReturnStatement>) {
+      if (returnPath.getFunctionParent()?.node !== callbackPath.node) return;
+      const argument = returnPath.get('argument');
+      if (argument.isFunction()) checkCleanup(argument);
+      if (cancelled) returnPath.stop();
+    },
+  });
+
+  return cancelled;
+}
+
+/**
+ * Detect effects that set state after an `await` or `.then()` without cancelling the
+ * request when their dependencies change.
+ *
+ * @param ast - The file AST
+ * @param stateInfo - State variables and their setters (from extractStateInfo)
+ * @param stabilityConfig - Stable hook configuration, to skip effects that never re-run
+ * @param filePath - Path to the file being analyzed
+ * @param fileContent - File content for comment detection
+ * @param localFunctionSetters - Local functions and the setters they call
+ */
+export function detectAsyncEffectRaces(
+  ast: t.Node,
+  stateInfo: Map<string, string>,
+  stabilityConfig: StabilityConfig,
+  filePath: string,
+  fileContent?: string,
+  localFunctionSetters: Map<string, string[]> = new Map()
+): HookAnalysis[] {
+  const results: HookAnalysis[] = [];
+  const setterNames = new Set(stateInfo.values());
+  const setterToState = new Map(Array.from(stateInfo, ([state, setter]) => [setter, state]));
+
+  traverse(ast, {
+    CallExpression(hookPath: NodePath<t.CallExpression>) {
+      const hookName = getCalleeName(hookPath.node);
+      if (!hookName || !isEffectHook(hookName)) return;
+
+      // Effects whose dependencies never change run once: there is no newer request to race with
+      const depsArray = getEffectDependencyArray(hookPath.node);
+      if (!depsArray) return;
+      const depsPath = hookPath
+        .get('arguments')
+        .find((argPath) => argPath.node === depsArray) as NodePath<t.ArrayExpression>;
+      if (!hasReactiveDependency(depsPath, stateInfo, stabilityConfig)) return;
+
+      const callbackPath = hookPath.get('arguments.0') as NodePath;
+      if (!callbackPath.isFunction()) return;
+
+      const line = hookPath.node.loc?.start.line || 0;
+      if (fileContent && isHookIgnored(fileContent, line)) return;
+
+      const updates = findAsyncStateUpdates(callbackPath, setterNames, localFunctionSetters);
+      if (updates.length === 0 || hasCancellation(callbackPath)) return;
+
+      const setters = updates.map((update) => update.setter);
+      const setterList = updates
+        .map((update) =>
+          update.via ? `${update.setter}() (via ${update.via}())` : `${update.setter}()`
+        )
+        .join(', ');
+      const dependencies = depsArray.elements
+        .map((element) => getMemberPath(element))
+        .filter((name): name is string => name !== null);
+      const dependencyList =
+        dependencies.length > 0 ? `'${dependencies.join("', '")}'` : 'a dependency';
+      const firstSetter = setters[0];
+      const exampleCall = `${firstSetter}(data)`;
+
+      results.push(
+        createAnalysis({
+          type: 'potential-issue',
+          errorCode: 'RLD-504',
+          category: 'warning',
+          severity: 'medium',
+          confidence: updates.every((update) => update.via) ? 'medium' : 'high',
+          hookType: hookName,
+          line,
+          file: filePath,
+          problematicDependency: dependencies[0] ?? firstSetter,
+          stateVariable: setterToState.get(firstSetter),
+          setterFunction: firstSetter,
+          actualStateModifications: setters,
+          stateReads: [],
+          explanation:
+            `${hookName} calls ${setterList} after an await/.then(), but nothing cancels the ` +
+            `pending work when the effect re-runs. If ${dependencyList} changes before it ` +
+            `finishes, responses can arrive out of order and an older one overwrites the newer ` +
+            `state, or updates the component after it unmounts.`,
+          suggestion:
+            `Ignore stale results with a flag set in the cleanup: ` +
+            `let ignore = false; load().then((data) => { if (!ignore) ${exampleCall}; }); ` +
+            `return () => { ignore = true; }; ` +
+            `Or pass an AbortController's signal to the request and call controller.abort() in the cleanup.`,
+        })
+      );
+    },
+  });
+
+  return results;
+}
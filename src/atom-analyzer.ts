@@ -0,0 +1,193 @@
+/**
+ * Atom Analyzer Module
+ *
+ * Jotai and Recoil identify state by the atom object itself. Calling an atom factory in a
+ * component body creates a new atom on every render:
+ *
+ * ```tsx
+ * function Counter() {
+ *   const [count, setCount] = useAtom(atom(0)); // New atom every render
+ * }
+ * ```
+ *
+ * The component subscribes to a different atom each render, so its value resets to the
+ * initial value and effects depending on the atom re-run. Factories are recognized when they
+ * are imported from jotai, jotai/utils, jotai-optics or recoil, or listed in the
+ * `atomFactories` option. Atoms created inside useMemo, useState/useRef initializers or
+ * callbacks are not flagged.
+ */
+
+import * as t from '@babel/types';
+import traverse, { NodePath } from '@babel/traverse';
+import { HookAnalysis } from './types';
+import {
+  createAnalysis,
+  getCalleeName,
+  getFunctionName,
+  isAtomFactory,
+  isHookIgnored,
+} from './utils';
+
+/** Modules that export atom and selector factories */
+const ATOM_LIBRARY_MODULES = new Set(['jotai', 'jotai/utils', 'jotai-optics', 'recoil']);
+
+/** Atom and selector factories exported by the atom libraries */
+const LIBRARY_ATOM_FACTORIES = new Set([
+  'atom',
+  'atomFamily',
+  'atomWithStorage',
+  'atomWithReset',
+  'atomWithDefault',
+  'atomWithReducer',
+  'atomWithRefresh',
+  'atomWithLazy',
+  'atomWithObservable',
+  'selectAtom',
+  'splitAtom',
+  'focusAtom',
+  'loadable',
+  'unwrap',
+  'selector',
+  'selectorFamily',
+]);
+
+/** Hooks that only keep their first argument, so a new atom passed to them is discarded */
+const INITIAL_VALUE_HOOKS = new Set(['useState', 'useRef']);
+
+/**
+ * Find the hook an atom is passed to: directly (`useAtom(atom(0))`) or through the variable
+ * it is assigned to (`const a = atom(0); useAtomValue(a)`).
+ */
+function findConsumingHook(
+  callPath: NodePath<t.CallExpression>,
+  fnPath: NodePath<t.Function>,
+  atomName: string | null
+): string | null {
+  const parent = callPath.parentPath;
+  if (parent?.isCallExpression() && parent.node.arguments.includes(callPath.node)) {
+    const hookName = getCalleeName(parent.node);
+    return hookName && /^use[A-Z]/.test(hookName) ? hookName : null;
+  }
+  if (!atomName) return null;
+
+  let consumer: string | null = null;
+  fnPath.traverse({
+    Function(innerPath: NodePath<t.Function>) {
+      innerPath.skip();
+    },
+    CallExpression(innerCall: NodePath<t.CallExpression>) {
+      const hookName = getCalleeName(innerCall.node);
+      if (
+        hookName &&
+        /^use[A-Z]/.test(hookName) &&
+        innerCall.node.arguments.some((arg) => t.isIdentifier(arg, { name: atomName }))
+      ) {
+        consumer = hookName;
+        innerCall.stop();
+      }
+    },
+  });
+  return consumer;
+}
+
+/**
+ * Get the local name of an atom/selector factory call: a factory imported from an atom
+ * library (aliases included) or one listed in `atomFactories`.
+ */
+function getAtomFactoryName(callPath: NodePath<t.CallExpression>): string | null {
+  const callee = callPath.node.callee;
+  if (!t.isIdentifier(callee)) return null;
+
+  const binding = callPath.scope.getBinding(callee.name);
+  const specifier = binding?.path.node;
+  const importDeclaration = binding?.kind === 'module' ? binding.path.parent : null;
+  if (
+    t.isImportDeclaration(importDeclaration) &&
+    ATOM_LIBRARY_MODULES.has(importDeclaration.source.value) &&
+    t.isImportSpecifier(specifier)
+  ) {
+    const imported = t.isIdentifier(specifier.imported)
+      ? specifier.imported.name
+      : specifier.imported.value;
+    if (LIBRARY_ATOM_FACTORIES.has(imported)) return callee.name;
+  }
+
+  return isAtomFactory(callee.name) ? callee.name : null;
+}
+
+/**
+ * Detect atom/selector factory calls evaluated in a component or custom hook's render body.
+ *
+ * @param ast - The file AST
+ * @param filePath - Path to the file being analyzed
+ * @param fileContent - File content for comment detection
+ */
+export function detectAtomsInRender(
+  ast: t.Node,
+  filePath: string,
+  fileContent?: string
+): HookAnalysis[] {
+  const results: HookAnalysis[] = [];
+
+  traverse(ast, {
+    CallExpression(callPath: NodePath<t.CallExpression>) {
+      const factoryName = getAtomFactoryName(callPath);
+      if (!factoryName) return;
+
+      // Module-level atoms are the intended usage. Inside useMemo, callbacks or other
+      // atoms' read functions, the nearest function is not a component or hook.
+      const fnPath = callPath.getFunctionParent();
+      if (!fnPath) return;
+      const ownerName = getFunctionName(fnPath);
+      if (!ownerName || !/^([A-Z]|use[A-Z])/.test(ownerName)) return;
+
+      // useState(atom(0)) / useRef(atom(0)) keep the first atom
+      const parent = callPath.parentPath;
+      if (parent?.isCallExpression()) {
+        const hookName = getCalleeName(parent.node);
+        if (hookName && INITIAL_VALUE_HOOKS.has(hookName)) return;
+      }
+
+      const line = callPath.node.loc?.start.line || 0;
+      if (fileContent && isHookIgnored(fileContent, line)) return;
+
+      const atomName =
+        parent?.isVariableDeclarator() && t.isIdentifier(parent.node.id)
+          ? parent.node.id.name
+          : null;
+      const consumer = findConsumingHook(callPath, fnPath, atomName);
+      const subject = atomName ? `'${atomName}'` : `The ${factoryName}() result`;
+
+      results.push(
+        createAnalysis({
+          type: 'potential-issue',
+          errorCode: 'RLD-105',
+          category: 'warning',
+          severity: consumer ? 'high' : 'medium',
+          confidence: 'high',
+          hookType: factoryName,
+          line,
+          column: callPath.node.loc?.start.column,
+          file: filePath,
+          problematicDependency: atomName ?? factoryName,
+          stateVariable: undefined,
+          setterFunction: undefined,
+          actualStateModifications: [],
+          stateReads: [],
+          explanation:
+            `${subject} is created with ${factoryName}() during the render of '${ownerName}', ` +
+            `so every render creates a new atom. ` +
+            (consumer
+              ? `${consumer}() subscribes to a different atom each time: the value resets to ` +
+                `its initial state, updates are lost, and effects depending on it re-run.`
+              : `Anything that reads it or lists it as a dependency sees a new atom each render.`),
+          suggestion:
+            `Hoist the ${factoryName}() call to module scope, or create it once with ` +
+            `useMemo(() => ${factoryName}(...), [deps]) when it depends on props.`,
+        })
+      );
+    },
+  });
+
+  return results;
+}
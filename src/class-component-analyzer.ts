@@ -0,0 +1,513 @@
+/**
+ * Class Component Analyzer Module
+ *
+ * Detects infinite loop patterns in class component lifecycles:
+ * 1. this.setState() inside render() - synchronous render loop
+ * 2. Unguarded this.setState() in componentDidUpdate - update loop
+ * 3. getDerivedStateFromProps that always returns a fresh object
+ *
+ * Reuses the render-phase guard logic from guard-analyzer.ts and the CFG path
+ * analysis from control-flow/setState-analyzer.ts, so class components get the
+ * same confirmed/potential split as hooks.
+ *
+ * @example
+ * ```tsx
+ * // BUG: componentDidUpdate runs after every update, and every update sets state
+ * class Profile extends React.Component {
+ *   componentDidUpdate() {
+ *     this.setState({ loaded: true });
+ *   }
+ * }
+ * ```
+ */
+
+import * as t from '@babel/types';
+import traverse, { NodePath } from '@babel/traverse';
+import { HookAnalysis } from './types';
+import {
+  isHookIgnored,
+  createAnalysis,
+  isStrictModeEnabled,
+  getConfidenceExplanation,
+  getMemberPath,
+} from './utils';
+import {
+  analyzeRenderPhaseGuard,
+  isLifecycleComparisonGuard,
+  LifecycleValues,
+} from './guard-analyzer';
+import {
+  analyzeEachSetStateCall,
+  extractPathConditions,
+  type SetStateCallAnalysis,
+} from './control-flow';
+
+/** Base classes that make a class a React component */
+const CLASS_COMPONENT_BASES = new Set(['Component', 'PureComponent']);
+
+/** Class components have a single setter for the whole state object */
+const CLASS_SETTER = 'this.setState';
+const CLASS_STATE_INFO = new Map([['state', CLASS_SETTER]]);
+
+/**
+ * Check if a class extends React.Component / React.PureComponent (or the named imports).
+ */
+export function isClassComponent(node: t.Class): boolean {
+  const superClass = node.superClass;
+  if (!superClass) return false;
+
+  if (t.isIdentifier(superClass)) {
+    return CLASS_COMPONENT_BASES.has(superClass.name);
+  }
+
+  return (
+    t.isMemberExpression(superClass) &&
+    t.isIdentifier(superClass.object) &&
+    superClass.object.name === 'React' &&
+    t.isIdentifier(superClass.property) &&
+    CLASS_COMPONENT_BASES.has(superClass.property.name)
+  );
+}
+
+/**
+ * Check if a call expression is `this.setState(...)`.
+ */
+function isThisSetStateCall(node: t.CallExpression): boolean {
+  const callee = node.callee;
+  return (
+    t.isMemberExpression(callee) &&
+    t.isThisExpression(callee.object) &&
+    t.isIdentifier(callee.property) &&
+    callee.property.name === 'setState'
+  );
+}
+
+/**
+ * Get the name of a class member key (render, componentDidUpdate, etc.)
+ */
+function getMemberName(key: t.Node): string | null {
+  if (t.isIdentifier(key)) return key.name;
+  if (t.isStringLiteral(key)) return key.value;
+  return null;
+}
+
+/**
+ * Map the names bound by a lifecycle parameter or destructuring pattern to the
+ * `this.props`/`this.state` paths they hold: `prevProps` -> `this.props`,
+ * `{ id, user: { name } }` -> `this.props.id`, `this.props.user.name`.
+ */
+function bindLifecyclePattern(pattern: t.Node, target: string, names: Map<string, string>): void {
+  if (t.isAssignmentPattern(pattern)) {
+    bindLifecyclePattern(pattern.left, target, names);
+  } else if (t.isIdentifier(pattern)) {
+    names.set(pattern.name, target);
+  } else if (t.isObjectPattern(pattern)) {
+    for (const prop of pattern.properties) {
+      if (t.isObjectProperty(prop) && !prop.computed && t.isIdentifier(prop.key)) {
+        bindLifecyclePattern(prop.value, `${target}.${prop.key.name}`, names);
+      }
+    }
+  }
+}
+
+/**
+ * Collect the previous props/state parameters of componentDidUpdate(prevProps, prevState)
+ * and the current props/state destructured in its body (`const { id } = this.props`).
+ */
+function getLifecycleValues(method: t.ClassMethod): LifecycleValues {
+  const values: LifecycleValues = { previous: new Map(), current: new Map() };
+  const [prevProps, prevState] = method.params;
+  if (prevProps) bindLifecyclePattern(prevProps, 'this.props', values.previous);
+  if (prevState) bindLifecyclePattern(prevState, 'this.state', values.previous);
+
+  for (const statement of method.body.body) {
+    if (!t.isVariableDeclaration(statement)) continue;
+    for (const declarator of statement.declarations) {
+      const source = getMemberPath(declarator.init);
+      if (source === 'this.props' || source === 'this.state') {
+        bindLifecyclePattern(declarator.id, source, values.current);
+      }
+    }
+  }
+  return values;
+}
+
+/**
+ * Get ancestor stack as array of nodes for guard analysis, stopping at the method boundary.
+ */
+function getAncestorStack(path: NodePath, boundary: NodePath): t.Node[] {
+  const ancestors: t.Node[] = [];
+  let current: NodePath | null = path;
+  while (current && current !== boundary) {
+    ancestors.push(current.node);
+    current = current.parentPath;
+  }
+  return ancestors;
+}
+
+/**
+ * Detect lifecycle loop patterns in class components.
+ */
+export function detectClassComponentIssues(
+  ast: t.Node,
+  filePath: string,
+  fileContent?: string
+): HookAnalysis[] {
+  const results: HookAnalysis[] = [];
+
+  traverse(ast, {
+    Class(classPath: NodePath<t.Class>) {
+      if (!isClassComponent(classPath.node)) return;
+
+      const className = classPath.node.id?.name ?? 'AnonymousComponent';
+
+      for (const memberPath of classPath.get('body.body') as NodePath[]) {
+        const member = memberPath.node;
+
+        if (t.isClassMethod(member)) {
+          const name = getMemberName(member.key);
+          const methodPath = memberPath as NodePath<t.ClassMethod>;
+
+          if (name === 'render' && !member.static) {
+            checkRenderMethod(methodPath, className, filePath, fileContent, results);
+          } else if (name === 'componentDidUpdate' && !member.static) {
+            checkComponentDidUpdate(methodPath, className, filePath, fileContent, results);
+          } else if (name === 'getDerivedStateFromProps' && member.static) {
+            checkGetDerivedStateFromProps(member, className, filePath, fileContent, results);
+          }
+        }
+
+        // static getDerivedStateFromProps = (props, state) => ({ ... })
+        if (
+          t.isClassProperty(member) &&
+          member.static &&
+          getMemberName(member.key) === 'getDerivedStateFromProps' &&
+          (t.isArrowFunctionExpression(member.value) || t.isFunctionExpression(member.value))
+        ) {
+          checkGetDerivedStateFromProps(member.value, className, filePath, fileContent, results);
+        }
+      }
+    },
+  });
+
+  return results;
+}
+
+/**
+ * Check render() for this.setState calls that run during render.
+ * Calls inside nested functions (event handlers, callbacks) are safe.
+ */
+function checkRenderMethod(
+  methodPath: NodePath<t.ClassMethod>,
+  className: string,
+  filePath: string,
+  fileContent: string | undefined,
+  results: HookAnalysis[]
+): void {
+  methodPath.traverse({
+    CallExpression(callPath: NodePath<t.CallExpression>) {
+      if (!isThisSetStateCall(callPath.node)) return;
+
+      // Inside an arrow function or nested function - not executed during render
+      if (callPath.getFunctionParent() !== methodPath) return;
+
+      const line = callPath.node.loc?.start.line || 0;
+      if (fileContent && isHookIgnored(fileContent, line)) return;
+
+      const guardAnalysis = analyzeRenderPhaseGuard(
+        callPath.node,
+        getAncestorStack(callPath, methodPath),
+        CLASS_SETTER,
+        'state'
+      );
+
+      if (guardAnalysis?.isSafe) return;
+
+      if (guardAnalysis) {
+        results.push(
+          createAnalysis({
+            type: 'potential-issue',
+            errorCode: 'RLD-102',
+            category: 'warning',
+            severity: 'medium',
+            confidence: 'high',
+            hookType: 'render',
+            line,
+            column: callPath.node.loc?.start.column,
+            file: filePath,
+            problematicDependency: 'state',
+            stateVariable: 'state',
+            setterFunction: CLASS_SETTER,
+            actualStateModifications: [CLASS_SETTER],
+            stateReads: [],
+            explanation:
+              `'this.setState()' is called inside ${className}.render() with a guard condition. ` +
+              `While the guard may eventually stop the updates, render() should be a pure function ` +
+              `of props and state and this can cause multiple re-renders before stabilizing.`,
+            suggestion:
+              `Derive the value during render instead of storing it, or move the update into ` +
+              `componentDidUpdate with a prevProps/prevState comparison.`,
+          })
+        );
+        return;
+      }
+
+      results.push(
+        createAnalysis({
+          type: 'confirmed-infinite-loop',
+          errorCode: 'RLD-102',
+          category: 'critical',
+          severity: 'high',
+          confidence: 'high',
+          hookType: 'render',
+          line,
+          column: callPath.node.loc?.start.column,
+          file: filePath,
+          problematicDependency: 'state',
+          stateVariable: 'state',
+          setterFunction: CLASS_SETTER,
+          actualStateModifications: [CLASS_SETTER],
+          stateReads: [],
+          explanation:
+            `'this.setState()' is called directly inside ${className}.render(). ` +
+            `This causes an infinite loop because each setState triggers a re-render, which calls setState again.`,
+          suggestion: `Move 'this.setState()' into componentDidMount, componentDidUpdate (with a guard), or an event handler.`,
+        })
+      );
+    },
+  });
+}
+
+/**
+ * Check componentDidUpdate for this.setState calls that are not guarded by a
+ * comparison against prevProps/prevState. Each call is checked on its own and the worst
+ * result is reported: a guarded call doesn't make an unguarded one safe.
+ */
+function checkComponentDidUpdate(
+  methodPath: NodePath<t.ClassMethod>,
+  className: string,
+  filePath: string,
+  fileContent: string | undefined,
+  results: HookAnalysis[]
+): void {
+  const method = methodPath.node;
+  const methodLine = method.loc?.start.line || 0;
+
+  if (fileContent && isHookIgnored(fileContent, methodLine)) return;
+
+  // componentDidUpdate(prevProps, prevState, snapshot)
+  const lifecycleValues = getLifecycleValues(method);
+
+  let setStateCalls: SetStateCallAnalysis[];
+  try {
+    setStateCalls = analyzeEachSetStateCall(method.body, CLASS_STATE_INFO, []);
+  } catch (error) {
+    // CFG building can fail on very unusual code patterns
+    if (process.env.DEBUG) {
+      console.warn(`[CFG] Failed to analyze componentDidUpdate in ${filePath}:`, error);
+    }
+    return;
+  }
+
+  const callResults = setStateCalls
+    .map((setStateAnalysis) =>
+      analyzeDidUpdateSetState(
+        setStateAnalysis,
+        className,
+        lifecycleValues,
+        methodLine,
+        filePath,
+        fileContent
+      )
+    )
+    .filter((result): result is HookAnalysis => result !== null);
+  const worst =
+    callResults.find((result) => result.type === 'confirmed-infinite-loop') ??
+    callResults.find((result) => result.type === 'potential-issue') ??
+    callResults[0];
+  if (worst) results.push(worst);
+}
+
+/**
+ * Classify one this.setState call in componentDidUpdate: an unconditional call loops, a
+ * call guarded by a prevProps/prevState comparison is safe, any other condition needs review.
+ */
+function analyzeDidUpdateSetState(
+  setStateAnalysis: SetStateCallAnalysis,
+  className: string,
+  lifecycleValues: LifecycleValues,
+  methodLine: number,
+  filePath: string,
+  fileContent: string | undefined
+): HookAnalysis | null {
+  if (!setStateAnalysis.isReachable) return null;
+
+  const line = setStateAnalysis.cfgNode?.astNode?.loc?.start.line ?? methodLine;
+  if (fileContent && isHookIgnored(fileContent, line)) return null;
+
+  if (setStateAnalysis.isUnconditional) {
+    return createAnalysis({
+      type: 'confirmed-infinite-loop',
+      errorCode: 'RLD-203',
+      category: 'critical',
+      severity: 'high',
+      confidence: 'high',
+      hookType: 'componentDidUpdate',
+      line,
+      file: filePath,
+      problematicDependency: 'state',
+      stateVariable: 'state',
+      setterFunction: CLASS_SETTER,
+      actualStateModifications: [CLASS_SETTER],
+      stateReads: [],
+      explanation:
+        `${className}.componentDidUpdate calls 'this.setState()' unconditionally. ` +
+        `componentDidUpdate runs after every update, so each setState schedules another update, creating an infinite loop.`,
+      suggestion:
+        `Compare against the previous values before updating: ` +
+        `if (prevProps.value !== this.props.value) { this.setState(...) }`,
+      debugInfo: {
+        reason: `CFG analysis: ${setStateAnalysis.explanation}`,
+        guardInfo: { hasGuard: false },
+      },
+    });
+  }
+
+  // Deferred callbacks (setTimeout, etc.) have no CFG paths - they don't update synchronously
+  if (setStateAnalysis.hasEffectiveGuard && setStateAnalysis.paths.length === 0) return null;
+
+  const pathConditions = setStateAnalysis.paths.map((path) => extractPathConditions(path));
+  const isGuardedByComparison =
+    pathConditions.length > 0 &&
+    pathConditions.every((conditions) =>
+      conditions.some((condition) =>
+        isLifecycleComparisonGuard(condition.conditionNode, condition.branchTaken, lifecycleValues)
+      )
+    );
+
+  if (isGuardedByComparison) {
+    return createAnalysis({
+      type: 'safe-pattern',
+      errorCode: 'RLD-203',
+      category: 'safe',
+      severity: 'low',
+      confidence: 'high',
+      hookType: 'componentDidUpdate',
+      line,
+      file: filePath,
+      problematicDependency: 'state',
+      stateVariable: 'state',
+      setterFunction: CLASS_SETTER,
+      actualStateModifications: [CLASS_SETTER],
+      stateReads: [],
+      explanation: `${className}.componentDidUpdate only calls 'this.setState()' when previous props/state differ from the current ones.`,
+      debugInfo: {
+        reason: `CFG analysis: every path to this.setState() compares ${[...lifecycleValues.previous.keys()].join('/')} with current values`,
+        guardInfo: { hasGuard: true, guardType: 'equality-guard' },
+      },
+    });
+  }
+
+  const confidenceContext = { isConditional: true, isStrictMode: isStrictModeEnabled() };
+  const confidenceExplanation = getConfidenceExplanation('medium', confidenceContext);
+  return createAnalysis({
+    type: 'potential-issue',
+    errorCode: 'RLD-501',
+    category: 'warning',
+    severity: 'medium',
+    confidence: 'medium',
+    hookType: 'componentDidUpdate',
+    line,
+    file: filePath,
+    problematicDependency: 'state',
+    stateVariable: 'state',
+    setterFunction: CLASS_SETTER,
+    actualStateModifications: [CLASS_SETTER],
+    stateReads: [],
+    explanation:
+      `${className}.componentDidUpdate conditionally calls 'this.setState()', but the condition ` +
+      `does not compare prevProps/prevState with the current values. Review to ensure it prevents infinite loops.${confidenceExplanation}`,
+    suggestion: `Guard the update with a comparison such as: if (prevState.value !== this.state.value) { ... }`,
+    debugInfo: {
+      reason: `CFG analysis: ${setStateAnalysis.explanation}`,
+      guardInfo: { hasGuard: true, guardType: 'conditional' },
+    },
+  });
+}
+
+/**
+ * Check if a getDerivedStateFromProps implementation returns a new object on every call
+ * (no path returns null or falls through).
+ */
+function alwaysReturnsNewObject(
+  fn: t.ClassMethod | t.ArrowFunctionExpression | t.FunctionExpression
+): boolean {
+  if (!t.isBlockStatement(fn.body)) {
+    return t.isObjectExpression(fn.body);
+  }
+
+  // Without a trailing return the function can fall through and return undefined
+  const statements = fn.body.body;
+  if (!t.isReturnStatement(statements[statements.length - 1])) return false;
+
+  let returnCount = 0;
+  let allReturnObjects = true;
+
+  traverse(fn.body, {
+    noScope: true,
+    Function(innerPath) {
+      innerPath.skip(); // Returns in nested functions don't belong to this method
+    },
+    ReturnStatement(returnPath: NodePath<t.ReturnStatement>) {
+      returnCount++;
+      if (!t.isObjectExpression(returnPath.node.argument)) {
+        allReturnObjects = false;
+        returnPath.stop();
+      }
+    },
+  });
+
+  return returnCount > 0 && allReturnObjects;
+}
+
+/**
+ * Check getDerivedStateFromProps for implementations that always return a fresh object.
+ */
+function checkGetDerivedStateFromProps(
+  fn: t.ClassMethod | t.ArrowFunctionExpression | t.FunctionExpression,
+  className: string,
+  filePath: string,
+  fileContent: string | undefined,
+  results: HookAnalysis[]
+): void {
+  const line = fn.loc?.start.line || 0;
+  if (fileContent && isHookIgnored(fileContent, line)) return;
+
+  if (!alwaysReturnsNewObject(fn)) return;
+
+  results.push(
+    createAnalysis({
+      type: 'potential-issue',
+      errorCode: 'RLD-103',
+      category: 'warning',
+      severity: 'medium',
+      confidence: 'high',
+      hookType: 'getDerivedStateFromProps',
+      line,
+      file: filePath,
+      problematicDependency: 'state',
+      stateVariable: 'state',
+      setterFunction: undefined,
+      actualStateModifications: [],
+      stateReads: [],
+      explanation:
+        `${className}.getDerivedStateFromProps returns a new object on every call. ` +
+        `It runs before every render (including renders caused by setState), so it overwrites local ` +
+        `state updates and makes every prevState comparison in componentDidUpdate see a change, ` +
+        `which can turn a guarded update into a loop.`,
+      suggestion:
+        `Return null when nothing changed: store the previous prop in state and only return ` +
+        `an update when it differs, e.g. if (props.value !== state.prevValue) return { ..., prevValue: props.value }; return null;`,
+    })
+  );
+}
@@ -0,0 +1,478 @@
+/**
+ * Cleanup Leak Detector Module
+ *
+ * Effects that subscribe to something (an event listener, an interval, a store or socket)
+ * must undo it in their cleanup. Otherwise every re-run adds another subscription, and the
+ * old ones keep running after the component unmounts:
+ *
+ * ```tsx
+ * useEffect(() => {
+ *   window.addEventListener('resize', onResize); // Never removed
+ * }, [onResize]);
+ * ```
+ *
+ * Subscribe-style calls are paired with the calls that undo them (addEventListener with
+ * removeEventListener, setInterval with clearInterval, ...). The built-in table can be
+ * extended with the `cleanupPairs` option. A subscription counts as cleaned up when the
+ * cleanup calls its teardown (or passes it by reference: `timers.forEach(clearInterval)`),
+ * uses the handle it returned (`clearInterval(id)`, `unsub()`), or when the effect returns
+ * that handle directly (`return store.subscribe(listener)`). A cleanup returned inside a branch
+ * only counts for subscriptions made in that branch.
+ */
+
+import * as t from '@babel/types';
+import traverse, { NodePath } from '@babel/traverse';
+import { HookAnalysis } from './types';
+import { UnstableVariable } from './state-extractor';
+import {
+  createAnalysis,
+  getCalleeName,
+  getConfiguredCleanupPairs,
+  getEffectDependencyArray,
+  getMemberPath,
+  isEffectHook,
+  isHookIgnored,
+} from './utils';
+
+/**
+ * Subscribe-style calls (function, method or constructor names) and the calls that undo them.
+ * An empty list means the call returns its own unsubscribe function.
+ */
+const DEFAULT_CLEANUP_PAIRS: Record<string, string[]> = {
+  addEventListener: ['removeEventListener'],
+  addListener: ['removeListener'],
+  on: ['off', 'removeListener'],
+  setInterval: ['clearInterval'],
+  subscribe: [],
+  observe: ['unobserve', 'disconnect'],
+  onSnapshot: [],
+  onAuthStateChanged: [],
+  onValue: ['off'],
+  WebSocket: ['close'],
+  EventSource: ['close'],
+};
+
+/** A subscribe-style call made by an effect */
+interface Subscription {
+  name: string;
+  teardowns: string[];
+  node: t.CallExpression | t.NewExpression;
+  path: NodePath<t.CallExpression | t.NewExpression>;
+  /** Where the call's result is stored: `id`, `timer.current` */
+  handle: string | null;
+}
+
+/** What an effect's cleanup does */
+interface CleanupFacts {
+  /** Functions and methods called (or passed by reference), with their first string argument */
+  calls: Array<{ name: string; firstArg: string | null }>;
+  /** Variables and member paths read (`id`, `timer.current`) */
+  reads: Set<string>;
+  /** Handles returned directly from the effect (`return unsubscribe`) */
+  returnedHandles: Set<string>;
+  /** Subscribe calls whose result is the cleanup itself (`return store.subscribe(fn)`) */
+  returnedCalls: Set<t.Node>;
+  hasCleanup: boolean;
+}
+
+/**
+ * Get the first argument of a call when it is a string (an event name).
+ */
+function getFirstStringArg(
+  node: t.CallExpression | t.OptionalCallExpression | t.NewExpression
+): string | null {
+  const first = node.arguments[0];
+  return t.isStringLiteral(first) ? first.value : null;
+}
+
+/**
+ * Check if an addEventListener call removes itself: `{ once: true }` or `{ signal }`
+ * (aborting the signal removes the listener).
+ */
+function hasSelfRemovingOptions(node: t.CallExpression | t.NewExpression): boolean {
+  const options = node.arguments[2];
+  if (!t.isObjectExpression(options)) return false;
+  return options.properties.some(
+    (property) =>
+      t.isObjectProperty(property) &&
+      t.isIdentifier(property.key) &&
+      (property.key.name === 'signal' ||
+        (property.key.name === 'once' && !t.isBooleanLiteral(property.value, { value: false })))
+  );
+}
+
+/**
+ * Check if a return statement only runs on some of the paths that make a subscription: it
+ * sits in a branch (if/else, switch case, catch, loop body) that doesn't contain the call,
+ * as in `addEventListener(...); if (enabled) return () => removeEventListener(...)`.
+ */
+function isReturnedOnSomePaths(returnPath: NodePath, subscriptionPath: NodePath): boolean {
+  let current = returnPath;
+  while (current.parentPath && !current.parentPath.isFunction()) {
+    const parent = current.parentPath;
+    const isBranch =
+      (parent.isIfStatement() && current.key !== 'test') ||
+      parent.isSwitchCase() ||
+      parent.isCatchClause() ||
+      (parent.isLoop() && current.key === 'body');
+    const branch = parent.isSwitchCase() ? parent : current;
+    if (isBranch && !subscriptionPath.isDescendant(branch)) return true;
+    current = parent;
+  }
+  return false;
+}
+
+/**
+ * Get the cleanup functions an effect returns, resolving `return cleanup` to its declaration.
+ * With a subscription, only cleanups returned on every path that makes it are included.
+ */
+function getCleanupFunctions(
+  callbackPath: NodePath<t.Function>,
+  subscriptionPath?: NodePath
+): NodePath<t.Function>[] {
+  const cleanups: NodePath<t.Function>[] = [];
+  const addCleanup = (argument: NodePath) => {
+    if (argument.isFunction()) {
+      cleanups.push(argument);
+    } else if (argument.isIdentifier()) {
+      const bindingPath = argument.scope.getBinding(argument.node.name)?.path;
+      if (bindingPath?.isFunction()) cleanups.push(bindingPath);
+      const init = bindingPath?.isVariableDeclarator() ? bindingPath.get('init') : null;
+      if (init && !Array.isArray(init) && init.isFunction()) cleanups.push(init);
+    }
+  };
+
+  callbackPath.traverse({
+    ReturnStatement(returnPath: NodePath<t.ReturnStatement>) {
+      if (returnPath.getFunctionParent()?.node !== callbackPath.node) return;
+      if (subscriptionPath && isReturnedOnSomePaths(returnPath, subscriptionPath)) return;
+      addCleanup(returnPath.get('argument') as NodePath);
+    },
+  });
+  return cleanups;
+}
+
+/**
+ * Collect what an effect's cleanup does, on every path that makes the subscription if given.
+ */
+function getCleanupFacts(
+  callbackPath: NodePath<t.Function>,
+  subscriptionPath?: NodePath
+): CleanupFacts {
+  const facts: CleanupFacts = {
+    calls: [],
+    reads: new Set(),
+    returnedHandles: new Set(),
+    returnedCalls: new Set(),
+    hasCleanup: false,
+  };
+
+  // useEffect(() => store.subscribe(listener), [])
+  const body = callbackPath.node.body;
+  if (!t.isBlockStatement(body)) facts.returnedCalls.add(body);
+
+  callbackPath.traverse({
+    ReturnStatement(returnPath: NodePath<t.ReturnStatement>) {
+      if (returnPath.getFunctionParent()?.node !== callbackPath.node) return;
+      if (subscriptionPath && isReturnedOnSomePaths(returnPath, subscriptionPath)) return;
+      const argument = returnPath.node.argument;
+      if (!argument) return;
+      facts.returnedCalls.add(argument);
+      const handle = getMemberPath(argument);
+      if (handle) facts.returnedHandles.add(handle);
+    },
+  });
+
+  for (const cleanupPath of getCleanupFunctions(callbackPath, subscriptionPath)) {
+    facts.hasCleanup = true;
+    const cleanupBody = cleanupPath.node.body;
+    if (!t.isBlockStatement(cleanupBody)) {
+      const handle = getMemberPath(cleanupBody);
+      if (handle) facts.reads.add(handle);
+    }
+    addCleanupCalls(cleanupPath, facts, true);
+  }
+
+  return facts;
+}
+
+/**
+ * Get the name of a function or method a cleanup calls, including optional calls
+ * (`target?.removeEventListener(...)`, `unsubscribe?.()`).
+ */
+function getCleanupCallName(node: t.CallExpression | t.OptionalCallExpression): string | null {
+  const callee = node.callee;
+  if (t.isIdentifier(callee)) return callee.name;
+  if (
+    (t.isMemberExpression(callee) || t.isOptionalMemberExpression(callee)) &&
+    t.isIdentifier(callee.property)
+  ) {
+    return callee.property.name;
+  }
+  return null;
+}
+
+/**
+ * Record the calls and reads of a cleanup function. With `followLocalCalls`, local
+ * functions it calls (`return () => stop()`) are included one level deep.
+ */
+function addCleanupCalls(
+  cleanupPath: NodePath<t.Function>,
+  facts: CleanupFacts,
+  followLocalCalls: boolean
+): void {
+  cleanupPath.traverse({
+    'CallExpression|OptionalCallExpression'(callPath: NodePath) {
+      const node = callPath.node as t.CallExpression | t.OptionalCallExpression;
+      const name = getCleanupCallName(node);
+      if (name) facts.calls.push({ name, firstArg: getFirstStringArg(node) });
+      // Teardowns passed by reference: timers.forEach(clearInterval), subs.forEach(off)
+      for (const arg of node.arguments) {
+        const teardown = getMemberPath(arg)?.split('.').pop();
+        if (teardown) facts.calls.push({ name: teardown, firstArg: null });
+      }
+
+      if (!followLocalCalls || !t.isIdentifier(node.callee)) return;
+      const bindingPath = callPath.scope.getBinding(node.callee.name)?.path;
+      const init = bindingPath?.isVariableDeclarator() ? bindingPath.get('init') : null;
+      const helperPath = bindingPath?.isFunction()
+        ? bindingPath
+        : init && !Array.isArray(init) && init.isFunction()
+          ? init
+          : null;
+      if (helperPath && helperPath.node !== cleanupPath.node) {
+        addCleanupCalls(helperPath, facts, false);
+      }
+    },
+    'Identifier|MemberExpression|OptionalMemberExpression'(readPath: NodePath) {
+      const handle = getMemberPath(readPath.node);
+      if (handle) facts.reads.add(handle);
+    },
+  });
+}
+
+/**
+ * Find where a subscribe call's result is stored: `const id = setInterval(...)`,
+ * `timer.current = setInterval(...)`.
+ */
+function getSubscriptionHandle(subscriptionPath: NodePath): string | null {
+  const parent = subscriptionPath.parent;
+  if (t.isVariableDeclarator(parent) && parent.init === subscriptionPath.node) {
+    return getMemberPath(parent.id);
+  }
+  if (t.isAssignmentExpression(parent) && parent.right === subscriptionPath.node) {
+    return getMemberPath(parent.left);
+  }
+  return null;
+}
+
+/**
+ * Check if the effect's cleanup undoes a subscription.
+ */
+function isCleanedUp(subscription: Subscription, facts: CleanupFacts): boolean {
+  const { node, handle } = subscription;
+  if (facts.returnedCalls.has(node)) return true;
+  if (handle && (facts.reads.has(handle) || facts.returnedHandles.has(handle))) return true;
+
+  const eventName = getFirstStringArg(node);
+  return facts.calls.some(
+    (call) =>
+      subscription.teardowns.includes(call.name) &&
+      (eventName === null || call.firstArg === null || call.firstArg === eventName)
+  );
+}
+
+/**
+ * Find the subscribe-style calls an effect makes outside its cleanup.
+ */
+function findSubscriptions(
+  callbackPath: NodePath<t.Function>,
+  pairs: Record<string, string[]>
+): Subscription[] {
+  const cleanupNodes = new Set<t.Node>(getCleanupFunctions(callbackPath).map((path) => path.node));
+  const subscriptions: Subscription[] = [];
+
+  const checkCall = (callPath: NodePath<t.CallExpression | t.NewExpression>) => {
+    const name = getCalleeName(callPath.node);
+    if (!name || !Object.prototype.hasOwnProperty.call(pairs, name)) return;
+    // Constructors only pair as `new WebSocket()`, methods only as calls
+    if (callPath.isNewExpression() !== /^[A-Z]/.test(name)) return;
+    if (callPath.findParent((parent) => cleanupNodes.has(parent.node))) return;
+    if (hasSelfRemovingOptions(callPath.node)) return;
+
+    subscriptions.push({
+      name,
+      teardowns: pairs[name],
+      node: callPath.node,
+      path: callPath,
+      handle: getSubscriptionHandle(callPath),
+    });
+  };
+
+  callbackPath.traverse({ CallExpression: checkCall, NewExpression: checkCall });
+
+  return subscriptions;
+}
+
+/**
+ * Find an unstable variable by name within a component's scope.
+ */
+function findUnstableVar(
+  unstableVars: Map<string, UnstableVariable>,
+  varName: string,
+  hookLine: number
+): UnstableVariable | undefined {
+  for (const unstableVar of unstableVars.values()) {
+    if (
+      unstableVar.name === varName &&
+      unstableVar.componentStartLine !== undefined &&
+      unstableVar.componentEndLine !== undefined &&
+      hookLine >= unstableVar.componentStartLine &&
+      hookLine <= unstableVar.componentEndLine
+    ) {
+      return unstableVar;
+    }
+  }
+  return unstableVars.get(varName);
+}
+
+/**
+ * Find the setters the subscription handlers call (directly or by reference).
+ */
+function findHandlerSetters(subscriptions: Subscription[], setterNames: Set<string>): string[] {
+  const setters = new Set<string>();
+  for (const { node } of subscriptions) {
+    for (const arg of node.arguments) {
+      if (t.isIdentifier(arg) && setterNames.has(arg.name)) setters.add(arg.name);
+      if (!t.isFunction(arg)) continue;
+      traverse(arg, {
+        noScope: true,
+        CallExpression(callPath: NodePath<t.CallExpression>) {
+          const callee = callPath.node.callee;
+          if (t.isIdentifier(callee) && setterNames.has(callee.name)) setters.add(callee.name);
+        },
+      });
+    }
+  }
+  return Array.from(setters);
+}
+
+/**
+ * Describe how to undo a subscription, for suggestions.
+ */
+function describeTeardown(subscription: Subscription): string {
+  const { name, teardowns, node } = subscription;
+  const handle = subscription.handle ?? (/^[A-Z]/.test(name) ? 'connection' : 'unsubscribe');
+
+  if (teardowns.length === 0) {
+    return `keep the unsubscribe function ${name}() returns and call it (const ${handle} = ${name}(...); return ${handle};)`;
+  }
+  if (t.isIdentifier(node.callee) || t.isNewExpression(node)) {
+    const teardown = teardowns[0];
+    return t.isNewExpression(node)
+      ? `call ${handle}.${teardown}() (const ${handle} = new ${name}(...); return () => ${handle}.${teardown}();)`
+      : `call ${teardown}() with the id it returns (const id = ${name}(...); return () => ${teardown}(id);)`;
+  }
+
+  const target = t.isMemberExpression(node.callee) ? getMemberPath(node.callee.object) : null;
+  const args = node.arguments
+    .slice(0, 2)
+    .map((arg) => (t.isStringLiteral(arg) ? `'${arg.value}'` : (getMemberPath(arg) ?? '...')))
+    .join(', ');
+  return `call ${target ? `${target}.` : ''}${teardowns[0]}(${args}) in the cleanup`;
+}
+
+/**
+ * Detect effects that subscribe to events, timers, stores or sockets without undoing it
+ * in their cleanup.
+ *
+ * @param ast - The file AST
+ * @param stateInfo - State variables and their setters (from extractStateInfo)
+ * @param unstableVars - Variables recreated on every render (from extractUnstableVariables)
+ * @param filePath - Path to the file being analyzed
+ * @param fileContent - File content for comment detection
+ */
+export function detectMissingEffectCleanups(
+  ast: t.Node,
+  stateInfo: Map<string, string>,
+  unstableVars: Map<string, UnstableVariable>,
+  filePath: string,
+  fileContent?: string
+): HookAnalysis[] {
+  const results: HookAnalysis[] = [];
+  const pairs = { ...DEFAULT_CLEANUP_PAIRS, ...getConfiguredCleanupPairs() };
+  const setterNames = new Set(stateInfo.values());
+
+  traverse(ast, {
+    CallExpression(hookPath: NodePath<t.CallExpression>) {
+      const hookName = getCalleeName(hookPath.node);
+      if (!hookName || !isEffectHook(hookName)) return;
+
+      const callbackPath = hookPath.get('arguments')[0];
+      if (!callbackPath?.isFunction()) return;
+
+      const line = hookPath.node.loc?.start.line || 0;
+      if (fileContent && isHookIgnored(fileContent, line)) return;
+
+      const facts = getCleanupFacts(callbackPath);
+      const leaks = findSubscriptions(callbackPath, pairs).filter(
+        (subscription) =>
+          !isCleanedUp(subscription, getCleanupFacts(callbackPath, subscription.path))
+      );
+      if (leaks.length === 0) return;
+      // The cleanup exists but is only returned in some branches
+      const cleanedUpOnSomePaths = leaks.every((leak) => isCleanedUp(leak, facts));
+
+      const depsArray = getEffectDependencyArray(hookPath.node);
+      const unstableDep = depsArray?.elements.find((element) => {
+        if (!t.isIdentifier(element)) return false;
+        const unstableVar = findUnstableVar(unstableVars, element.name, line);
+        return unstableVar !== undefined && !unstableVar.isMemoized && !unstableVar.isModuleLevel;
+      }) as t.Identifier | undefined;
+      const rerunsEveryRender = !depsArray || unstableDep !== undefined;
+      const setters = findHandlerSetters(leaks, setterNames);
+
+      const calls = leaks.map((leak) => `${leak.name}()`);
+      const callList = [...new Set(calls)].join(', ');
+      const rerunReason = !depsArray
+        ? 'The effect has no dependency array, so it runs after every render'
+        : unstableDep
+          ? `'${unstableDep.name}' is recreated on every render, so the effect re-runs after every render`
+          : depsArray.elements.length > 0
+            ? 'Each time a dependency changes, the effect re-runs'
+            : null;
+      const consequence = rerunReason
+        ? `${rerunReason} and adds another subscription without removing the old one.` +
+          (rerunsEveryRender && setters.length > 0
+            ? ` Each handler calls ${setters.map((setter) => `${setter}()`).join(', ')}, so every render adds another state update per event and the renders cascade.`
+            : ' The old handlers keep running, including after the component unmounts.')
+        : 'The subscription keeps running after the component unmounts (and is added twice in development with StrictMode).';
+
+      results.push(
+        createAnalysis({
+          type: 'potential-issue',
+          errorCode: 'RLD-505',
+          category: 'warning',
+          severity: rerunsEveryRender ? 'high' : 'medium',
+          confidence: facts.hasCleanup ? 'medium' : 'high',
+          hookType: hookName,
+          line,
+          file: filePath,
+          problematicDependency: unstableDep?.name ?? leaks[0].name,
+          stateVariable: undefined,
+          setterFunction: setters[0],
+          actualStateModifications: setters,
+          stateReads: [],
+          explanation: cleanedUpOnSomePaths
+            ? `${hookName} calls ${callList} but only returns the cleanup that undoes it on some paths. ${consequence}`
+            : `${hookName} calls ${callList} without undoing it in the cleanup. ${consequence}`,
+          suggestion: cleanedUpOnSomePaths
+            ? `Return the cleanup on every path that subscribes, not only inside the condition: ${leaks.map(describeTeardown).join('; ')}.`
+            : `Return a cleanup function from the effect: ${leaks.map(describeTeardown).join('; ')}.`,
+        })
+      );
+    },
+  });
+
+  return results;
+}
@@ -233,6 +233,36 @@ function generateSarifReport(results: DetectionResults): SarifReport {
       shortDescription: { text: 'setState called during render via function call' },
       properties: { category: 'critical' },
     },
+    {
+      id: 'RLD-102',
+      name: 'Class Render setState',
+      shortDescription: { text: 'this.setState called in class component render()' },
+      properties: { category: 'critical' },
+    },
+    {
+      id: 'RLD-103',
+      name: 'Derived State Always New',
+      shortDescription: { text: 'getDerivedStateFromProps always returns a new object' },
+      properties: { category: 'warning' },
+    },
+    {
+      id: 'RLD-104',
+      name: 'use() Render Promise',
+      shortDescription: { text: 'use() with a promise created during render' },
+      properties: { category: 'critical' },
+    },
+    {
+      id: 'RLD-105',
+      name: 'Atom In Render',
+      shortDescription: { text: 'Jotai/Recoil atom created during render' },
+      properties: { category: 'warning' },
+    },
+    {
+      id: 'RLD-106',
+      name: 'Navigation Update In Render',
+      shortDescription: { text: 'navigation.setOptions()/setParams() called during render' },
+      properties: { category: 'critical' },
+    },
     {
       id: 'RLD-200',
       name: 'Effect Loop',
@@ -251,6 +281,18 @@ function generateSarifReport(results: DetectionResults): SarifReport {
       shortDescription: { text: 'useLayoutEffect unconditional setState loop' },
       properties: { category: 'critical' },
     },
+    {
+      id: 'RLD-203',
+      name: 'componentDidUpdate Loop',
+      shortDescription: { text: 'componentDidUpdate unguarded this.setState loop' },
+      properties: { category: 'critical' },
+    },
+    {
+      id: 'RLD-204',
+      name: 'Effect Cascade Loop',
+      shortDescription: { text: 'Update cycle spanning multiple effects in one component' },
+      properties: { category: 'critical' },
+    },
     {
       id: 'RLD-300',
       name: 'Cross-File Loop',
@@ -263,6 +305,28 @@ function generateSarifReport(results: DetectionResults): SarifReport {
       shortDescription: { text: 'Cross-file conditional modification' },
       properties: { category: 'warning' },
     },
+    {
+      id: 'RLD-302',
+      name: 'Callback Prop Loop',
+      shortDescription: {
+        text: 'Parent/child loop through a callback prop called in a child effect',
+      },
+      properties: { category: 'critical' },
+    },
+    {
+      id: 'RLD-303',
+      name: 'Context Feedback Loop',
+      shortDescription: { text: "Context consumer effect updates its own provider's value" },
+      properties: { category: 'critical' },
+    },
+    {
+      id: 'RLD-304',
+      name: 'Key Remount Loop',
+      shortDescription: {
+        text: 'Unstable key remounts a child whose mount effect updates the parent',
+      },
+      properties: { category: 'critical' },
+    },
     {
       id: 'RLD-400',
       name: 'Unstable Object',
@@ -311,23 +375,61 @@ function generateSarifReport(results: DetectionResults): SarifReport {
       shortDescription: { text: 'Unstable getSnapshot in useSyncExternalStore' },
       properties: { category: 'critical' },
     },
+    {
+      id: 'RLD-408',
+      name: 'Nested Component',
+      shortDescription: { text: 'Component declared inside another component' },
+      properties: { category: 'warning' },
+    },
+    {
+      id: 'RLD-409',
+      name: 'Unstable Selector',
+      shortDescription: { text: 'Store selector returns a new reference on every call' },
+      properties: { category: 'warning' },
+    },
     {
       id: 'RLD-410',
       name: 'Object Spread Risk',
       shortDescription: { text: 'Object spread guard risk' },
       properties: { category: 'warning' },
     },
+    {
+      id: 'RLD-411',
+      name: 'Unstable Subscribe',
+      shortDescription: { text: 'Unstable subscribe in useSyncExternalStore' },
+      properties: { category: 'performance' },
+    },
+    {
+      id: 'RLD-412',
+      name: 'Derived State Effect',
+      shortDescription: { text: 'Derived state set in effect' },
+      properties: { category: 'performance' },
+    },
+    {
+      id: 'RLD-413',
+      name: 'Unstable Key',
+      shortDescription: {
+        text: 'Key prop changes on every render (random, time-based or serialized)',
+      },
+      properties: { category: 'warning' },
+    },
     {
       id: 'RLD-420',
       name: 'Callback Modifies Dep',
       shortDescription: { text: 'useCallback/useMemo modifies dependency' },
       properties: { category: 'warning' },
     },
+    {
+      id: 'RLD-430',
+      name: 'Request Storm',
+      shortDescription: { text: 'Effect with unstable deps sends a network request' },
+      properties: { category: 'critical' },
+    },
     {
       id: 'RLD-500',
       name: 'Missing Deps Array',
-      shortDescription: { text: 'useEffect missing dependency array' },
-      properties: { category: 'critical' },
+      shortDescription: { text: 'Hook missing dependency array' },
+      properties: { category: 'warning' },
     },
     {
       id: 'RLD-501',
@@ -335,12 +437,48 @@ function generateSarifReport(results: DetectionResults): SarifReport {
       shortDescription: { text: 'Conditional modification needs review' },
       properties: { category: 'warning' },
     },
+    {
+      id: 'RLD-502',
+      name: 'Stale Effect Closure',
+      shortDescription: { text: 'Missing effect dependency (stale closure)' },
+      properties: { category: 'warning' },
+    },
+    {
+      id: 'RLD-503',
+      name: 'Stale Memo Closure',
+      shortDescription: { text: 'Missing memo dependency (stale closure)' },
+      properties: { category: 'warning' },
+    },
+    {
+      id: 'RLD-504',
+      name: 'Async Effect Race',
+      shortDescription: { text: 'Async effect race condition' },
+      properties: { category: 'warning' },
+    },
+    {
+      id: 'RLD-505',
+      name: 'Missing Effect Cleanup',
+      shortDescription: { text: 'Subscription without cleanup' },
+      properties: { category: 'warning' },
+    },
     {
       id: 'RLD-600',
       name: 'Ref Mutation Risk',
       shortDescription: { text: 'Render-phase ref mutation with state value' },
       properties: { category: 'warning' },
     },
+    {
+      id: 'RLD-601',
+      name: 'Ref Read During Render',
+      shortDescription: { text: 'ref.current read during render' },
+      properties: { category: 'warning' },
+    },
+    {
+      id: 'RLD-700',
+      name: 'Server Component Hook',
+      shortDescription: { text: 'Client hook in a Server Component' },
+      properties: { category: 'warning' },
+    },
   ];
 
   return {
@@ -1222,6 +1360,20 @@ program
     console.log(chalk.gray('  stableHooks: Hooks that return stable references (e.g., useQuery)'));
     console.log(chalk.gray('  unstableHooks: Hooks that return unstable references'));
     console.log(chalk.gray('  customFunctions: Custom function stability settings'));
+    console.log(
+      chalk.gray(
+        '  effectHooks: Hooks that behave like useEffect (comparison: reference, deep-equal, debounced)'
+      )
+    );
+    console.log(
+      chalk.gray('  atomFactories: Extra functions that create atoms (flagged in render)')
+    );
+    console.log(
+      chalk.gray('  serverComponents: Treat Next.js App Router route files as Server Components')
+    );
+    console.log(
+      chalk.gray('  cleanupPairs: Subscribe calls and their teardown (checked in effect cleanups)')
+    );
     console.log(chalk.gray('  ignore: Additional patterns to ignore'));
     console.log(chalk.gray('  minSeverity: Minimum severity to report (high, medium, low)'));
     console.log(chalk.gray('  minConfidence: Minimum confidence to report (high, medium, low)'));
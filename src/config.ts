@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { detectApplicablePresets, getDetectedPresetNames, mergePresets } from './presets';
+import type { EffectHookConfig } from './types';
 
 /**
  * Configuration schema for rcd (React Circular Dependencies detector)
@@ -66,9 +67,42 @@ export interface RcdConfig {
       stable?: boolean;
       /** Whether this function is async/deferred (won't cause immediate re-renders) */
       deferred?: boolean;
+      /** Whether this function sends a network request (e.g. an API client method) */
+      network?: boolean;
     }
   >;
 
+  /**
+   * Hooks that behave like useEffect (run after render, re-run when dependencies change).
+   * `comparison` controls how dependencies are compared: 'reference' (like useEffect),
+   * 'deep-equal' (inline objects/arrays don't re-trigger) or 'debounced' (runs after a delay).
+   * @example { "useUpdateEffect": {}, "useDeepCompareEffect": { "comparison": "deep-equal" } }
+   */
+  effectHooks?: Record<string, EffectHookConfig>;
+
+  /**
+   * Additional functions that create atoms or selectors, e.g. wrappers around Jotai/Recoil.
+   * Factories imported from jotai, jotai/utils, jotai-optics or recoil are always recognized.
+   * Calling them during render creates a new atom on every render.
+   * @example ["atom", "atomWithStorage", "createAppAtom"]
+   */
+  atomFactories?: string[];
+
+  /**
+   * Treat Next.js App Router route files (page.tsx, layout.tsx, ... under app/) without a
+   * "use client" directive as React Server Components: their hook calls are reported and
+   * they are not analyzed for loops. Enabled by the Next.js preset.
+   */
+  serverComponents?: boolean;
+
+  /**
+   * Subscribe-style calls and the calls that undo them, checked in effect cleanups.
+   * Added to the built-in pairs (addEventListener/removeEventListener, setInterval/clearInterval,
+   * ...). Use an empty list for calls that return their own unsubscribe function.
+   * @example { "subscribeToChat": ["unsubscribeFromChat"], "listen": [] }
+   */
+  cleanupPairs?: Record<string, string[]>;
+
   /**
    * Enable strict mode using TypeScript Compiler API for more accurate stability detection.
    * Requires a TypeScript project with tsconfig.json.
@@ -111,6 +145,10 @@ export const DEFAULT_CONFIG: Required<RcdConfig> = {
   minConfidence: 'medium', // Default to medium to reduce false positives
   includePotentialIssues: true,
   customFunctions: {},
+  effectHooks: {},
+  atomFactories: [],
+  serverComponents: false,
+  cleanupPairs: {},
   strictMode: undefined as unknown as boolean, // undefined = auto-detect based on tsconfig.json
   tsconfigPath: undefined as unknown as string,
   noPresets: false,
@@ -179,6 +217,8 @@ export function loadConfigWithInfo(
           stableHookPatterns: merged.stableHookPatterns,
           unstableHookPatterns: merged.unstableHookPatterns,
           customFunctions: merged.customFunctions,
+          effectHooks: merged.effectHooks,
+          serverComponents: merged.serverComponents,
         };
 
         if (options?.verbose) {
@@ -303,6 +343,10 @@ export function mergeConfig(
     minConfidence: userConfig.minConfidence ?? defaults.minConfidence,
     includePotentialIssues: userConfig.includePotentialIssues ?? defaults.includePotentialIssues,
     customFunctions: { ...defaults.customFunctions, ...userConfig.customFunctions },
+    effectHooks: { ...defaults.effectHooks, ...userConfig.effectHooks },
+    atomFactories: [...defaults.atomFactories, ...(userConfig.atomFactories || [])],
+    serverComponents: userConfig.serverComponents ?? defaults.serverComponents,
+    cleanupPairs: { ...defaults.cleanupPairs, ...userConfig.cleanupPairs },
     strictMode: userConfig.strictMode ?? defaults.strictMode,
     tsconfigPath: userConfig.tsconfigPath ?? defaults.tsconfigPath,
     noPresets: userConfig.noPresets ?? defaults.noPresets,
@@ -0,0 +1,613 @@
+/**
+ * Context Loop Detector Module
+ *
+ * Detects feedback loops between a context provider and one of its consumers:
+ *
+ * ```tsx
+ * // Provider
+ * const [settings, setSettings] = useState(defaults);
+ * <SettingsContext.Provider value={{ settings, update: setSettings }}>
+ *
+ * // Consumer
+ * const ctx = useContext(SettingsContext);
+ * useEffect(() => {
+ *   ctx.update({ ...ctx.settings, ready: true }); // provider state changes → new value → effect re-runs
+ * }, [ctx]);
+ * ```
+ *
+ * Providers are matched to consumers by the context they render (same file or imported).
+ * The provider value is classified with the RLD-404 rule: an unstable value changes on every
+ * provider render, while a useMemo'd value only changes when its dependencies do. A loop is
+ * reported when the setter the consumer calls changes something the consumer's effect depends on.
+ */
+
+import * as path from 'path';
+import * as t from '@babel/types';
+import traverse, { NodePath } from '@babel/traverse';
+import { HookAnalysis } from './types';
+import { ParsedFile } from './parser';
+import {
+  extractStateInfo,
+  extractUnstableVariables,
+  StabilityConfig,
+  UnstableVariable,
+} from './state-extractor';
+import { TypeChecker } from './type-checker';
+import { buildLocalFunctionSetterMap } from './effect-analyzer';
+import { isUnstableProviderValue } from './jsx-prop-analyzer';
+import {
+  createAnalysis,
+  findImportedFile,
+  getConfidenceExplanation,
+  getEffectDependencyArray,
+  getFunctionName,
+  isConditionalInEffect,
+  isEffectHook,
+  isHookIgnored,
+  isStrictModeEnabled,
+} from './utils';
+
+/** Marker for a dependency on the whole context value */
+const WHOLE_VALUE = '*';
+
+interface ProviderInfo {
+  file: ParsedFile;
+  /** Local name of the context in the provider file (e.g. ThemeContext for ThemeContext.Provider) */
+  contextName: string;
+  line: number;
+  componentName: string;
+  /** Same rule as RLD-404: false when the value is recreated on every render */
+  isStable: boolean;
+  /** Fields of the provided object, when its shape is known */
+  fields: Map<string, t.Node>;
+  /** useMemo dependencies of the value, when it is memoized */
+  memoDeps: Set<string> | null;
+  stateInfo: Map<string, string>;
+  unstableVars: Map<string, UnstableVariable>;
+  localFunctionSetters: Map<string, string[]>;
+}
+
+interface ContextConsumption {
+  contextName: string;
+  contextKey: string;
+  ownerPath: NodePath<t.Function>;
+  /** Destructured local name -> context field */
+  locals: Map<string, string>;
+  /** Name of the variable holding the whole context value, if not destructured */
+  objectName: string | null;
+}
+
+const providerCache = new WeakMap<t.File, ProviderInfo[]>();
+const unstableVarsCache = new WeakMap<t.File, Map<string, UnstableVariable>>();
+
+/**
+ * Build a key identifying a context by the file and name it is declared with.
+ */
+function resolveContextKey(
+  file: ParsedFile,
+  localName: string,
+  allParsedFiles: ParsedFile[]
+): string {
+  const imp = file.imports.find((i) => i.imports.includes(localName));
+  if (!imp) return `${file.file}#${localName}`;
+
+  const importedName = imp.importedNames.get(localName) ?? localName;
+  const sourceFile = findImportedFile(file, imp, allParsedFiles);
+  if (!sourceFile || importedName === '*') return `${imp.source}#${importedName}`;
+
+  if (importedName === 'default') {
+    const defaultExport = sourceFile.exports.find((exp) => exp.isDefault);
+    return `${sourceFile.file}#${defaultExport?.name ?? 'default'}`;
+  }
+  return `${sourceFile.file}#${importedName}`;
+}
+
+/**
+ * Collect the fields of an object literal (shorthand, key: value and methods).
+ */
+function getObjectFields(node: t.ObjectExpression): Map<string, t.Node> {
+  const fields = new Map<string, t.Node>();
+  for (const prop of node.properties) {
+    if (t.isObjectProperty(prop) && !prop.computed && t.isIdentifier(prop.key)) {
+      fields.set(prop.key.name, prop.value);
+    } else if (t.isObjectMethod(prop) && !prop.computed && t.isIdentifier(prop.key)) {
+      fields.set(prop.key.name, prop);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Get the object returned by a useMemo callback: () => ({ ... }) or () => { return { ... }; }
+ */
+function getMemoizedObject(callback: t.Node | undefined): t.ObjectExpression | null {
+  if (!t.isArrowFunctionExpression(callback) && !t.isFunctionExpression(callback)) return null;
+  if (t.isObjectExpression(callback.body)) return callback.body;
+  if (t.isBlockStatement(callback.body)) {
+    const last = callback.body.body[callback.body.body.length - 1];
+    if (t.isReturnStatement(last) && t.isObjectExpression(last.argument)) return last.argument;
+  }
+  return null;
+}
+
+/**
+ * Get unstable variables for a file, computing them once per AST.
+ */
+function getUnstableVars(
+  file: ParsedFile,
+  typeChecker?: TypeChecker | null,
+  config?: StabilityConfig
+): Map<string, UnstableVariable> {
+  let unstableVars = unstableVarsCache.get(file.ast);
+  if (!unstableVars) {
+    unstableVars = extractUnstableVariables(file.ast, file.file, typeChecker, config);
+    unstableVarsCache.set(file.ast, unstableVars);
+  }
+  return unstableVars;
+}
+
+/**
+ * Find all Context.Provider elements in a file. Results are cached per AST.
+ */
+function findProviders(
+  file: ParsedFile,
+  typeChecker?: TypeChecker | null,
+  config?: StabilityConfig
+): ProviderInfo[] {
+  const cached = providerCache.get(file.ast);
+  if (cached) return cached;
+
+  const providers: ProviderInfo[] = [];
+  const unstableVars = getUnstableVars(file, typeChecker, config);
+  let stateInfo: Map<string, string> | null = null;
+  let localFunctionSetters: Map<string, string[]> | null = null;
+
+  traverse(file.ast, {
+    JSXOpeningElement(elementPath: NodePath<t.JSXOpeningElement>) {
+      const name = elementPath.node.name;
+      if (
+        !t.isJSXMemberExpression(name) ||
+        !t.isJSXIdentifier(name.object) ||
+        name.property.name !== 'Provider'
+      ) {
+        return;
+      }
+
+      const valueAttr = elementPath.node.attributes.find(
+        (attr): attr is t.JSXAttribute =>
+          t.isJSXAttribute(attr) && t.isJSXIdentifier(attr.name, { name: 'value' })
+      );
+      if (!valueAttr || !t.isJSXExpressionContainer(valueAttr.value)) return;
+      const expression = valueAttr.value.expression;
+      if (t.isJSXEmptyExpression(expression)) return;
+
+      const line = valueAttr.loc?.start.line || 0;
+      let fields = new Map<string, t.Node>();
+      let memoDeps: Set<string> | null = null;
+
+      if (t.isObjectExpression(expression)) {
+        fields = getObjectFields(expression);
+      } else if (t.isIdentifier(expression)) {
+        const binding = elementPath.scope.getBinding(expression.name);
+        const decl = binding?.path.node;
+        if (t.isVariableDeclarator(decl) && decl.init) {
+          if (t.isObjectExpression(decl.init)) {
+            fields = getObjectFields(decl.init);
+          } else if (
+            t.isCallExpression(decl.init) &&
+            t.isIdentifier(decl.init.callee, { name: 'useMemo' })
+          ) {
+            const memoized = getMemoizedObject(decl.init.arguments[0]);
+            if (memoized) fields = getObjectFields(memoized);
+            const depsArg = decl.init.arguments[1];
+            if (t.isArrayExpression(depsArg)) {
+              memoDeps = new Set(
+                depsArg.elements
+                  .filter((el): el is t.Identifier => t.isIdentifier(el))
+                  .map((el) => el.name)
+              );
+            }
+          }
+        }
+      }
+
+      stateInfo ??= extractStateInfo(file.ast, config).stateVariables;
+      localFunctionSetters ??= buildLocalFunctionSetterMap(file.ast, stateInfo);
+
+      const owner = elementPath.getFunctionParent();
+      providers.push({
+        file,
+        contextName: name.object.name,
+        line,
+        componentName: (owner && getFunctionName(owner)) ?? 'provider',
+        isStable: !isUnstableProviderValue(expression, unstableVars, line),
+        fields,
+        memoDeps,
+        stateInfo,
+        unstableVars,
+        localFunctionSetters,
+      });
+    },
+  });
+
+  providerCache.set(file.ast, providers);
+  return providers;
+}
+
+/**
+ * Get the provider state variables a context field updates when called.
+ */
+function getUpdatedProviderState(provider: ProviderInfo, field: string): string[] {
+  const fieldNode = provider.fields.get(field);
+  if (!fieldNode) return [];
+
+  const setterToState = new Map<string, string>();
+  provider.stateInfo.forEach((setter, state) => setterToState.set(setter, state));
+
+  const statesForCallee = (name: string): string[] => {
+    const direct = setterToState.get(name);
+    if (direct) return [direct];
+    return (provider.localFunctionSetters.get(name) ?? [])
+      .map((setter) => setterToState.get(setter))
+      .filter((state): state is string => state !== undefined);
+  };
+
+  if (t.isIdentifier(fieldNode)) {
+    return statesForCallee(fieldNode.name);
+  }
+
+  if (t.isFunction(fieldNode)) {
+    const states = new Set<string>();
+    traverse(fieldNode, {
+      noScope: true,
+      CallExpression(callPath: NodePath<t.CallExpression>) {
+        if (t.isIdentifier(callPath.node.callee)) {
+          statesForCallee(callPath.node.callee.name).forEach((state) => states.add(state));
+        }
+      },
+    });
+    return [...states];
+  }
+
+  return [];
+}
+
+/**
+ * Check if a node reads any of the given identifiers.
+ */
+function referencesAny(node: t.Node, names: string[]): boolean {
+  if (t.isIdentifier(node)) return names.includes(node.name);
+  let found = false;
+  traverse(node, {
+    noScope: true,
+    Identifier(idPath: NodePath<t.Identifier>) {
+      if (names.includes(idPath.node.name) && idPath.isReferencedIdentifier()) {
+        found = true;
+        idPath.stop();
+      }
+    },
+  });
+  return found;
+}
+
+/**
+ * Work out whether updating `updatedState` in the provider changes a consumer dependency.
+ * Returns the description of why the dependency changes, or null if it doesn't.
+ */
+function getChangedDependency(
+  provider: ProviderInfo,
+  updatedState: string[],
+  dependencies: Set<string> | null
+): { dependency: string; reason: string } | null {
+  const valueChanges = !provider.isStable
+    ? true
+    : provider.memoDeps
+      ? updatedState.some((state) => provider.memoDeps!.has(state))
+      : [...provider.fields.values()].some((field) => referencesAny(field, updatedState));
+
+  const stateList = updatedState.map((state) => `'${state}'`).join(', ');
+  const valueReason = !provider.isStable
+    ? 'the provider value is recreated on every render (see RLD-404)'
+    : `the provider value is memoized but depends on ${stateList}`;
+
+  if (!dependencies) {
+    return valueChanges
+      ? {
+          dependency: WHOLE_VALUE,
+          reason: `${valueReason}, and the effect has no dependency array`,
+        }
+      : null;
+  }
+
+  if (dependencies.has(WHOLE_VALUE) && valueChanges) {
+    return { dependency: WHOLE_VALUE, reason: valueReason };
+  }
+
+  for (const field of dependencies) {
+    const fieldNode = provider.fields.get(field);
+    if (!fieldNode) continue;
+
+    if (referencesAny(fieldNode, updatedState)) {
+      return {
+        dependency: field,
+        reason: `the provider's '${field}' field is derived from ${stateList}`,
+      };
+    }
+    if (valueChanges && isUnstableProviderValue(fieldNode, provider.unstableVars, provider.line)) {
+      return {
+        dependency: field,
+        reason: `the provider's '${field}' field is recreated whenever the provider value changes`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Map a callee or dependency expression in the consumer to a context field.
+ */
+function getContextField(node: t.Node, consumption: ContextConsumption): string | null {
+  if (t.isIdentifier(node)) {
+    if (node.name === consumption.objectName) return WHOLE_VALUE;
+    return consumption.locals.get(node.name) ?? null;
+  }
+  if (
+    (t.isMemberExpression(node) || t.isOptionalMemberExpression(node)) &&
+    consumption.objectName &&
+    t.isIdentifier(node.object, { name: consumption.objectName }) &&
+    t.isIdentifier(node.property) &&
+    !node.computed
+  ) {
+    return node.property.name;
+  }
+  return null;
+}
+
+/**
+ * Find useContext() consumptions in a file.
+ */
+function findConsumptions(file: ParsedFile, allParsedFiles: ParsedFile[]): ContextConsumption[] {
+  const consumptions: ContextConsumption[] = [];
+
+  traverse(file.ast, {
+    VariableDeclarator(declPath: NodePath<t.VariableDeclarator>) {
+      const init = declPath.node.init;
+      if (
+        !t.isCallExpression(init) ||
+        !t.isIdentifier(init.callee, { name: 'useContext' }) ||
+        !t.isIdentifier(init.arguments[0])
+      ) {
+        return;
+      }
+
+      const ownerPath = declPath.getFunctionParent();
+      if (!ownerPath) return;
+
+      const contextName = init.arguments[0].name;
+      const locals = new Map<string, string>();
+      let objectName: string | null = null;
+
+      const id = declPath.node.id;
+      if (t.isIdentifier(id)) {
+        objectName = id.name;
+      } else if (t.isObjectPattern(id)) {
+        for (const prop of id.properties) {
+          if (!t.isObjectProperty(prop) || prop.computed || !t.isIdentifier(prop.key)) continue;
+          const value = t.isAssignmentPattern(prop.value) ? prop.value.left : prop.value;
+          if (t.isIdentifier(value)) locals.set(value.name, prop.key.name);
+        }
+      } else {
+        return;
+      }
+
+      consumptions.push({
+        contextName,
+        contextKey: resolveContextKey(file, contextName, allParsedFiles),
+        ownerPath,
+        locals,
+        objectName,
+      });
+    },
+  });
+
+  return consumptions;
+}
+
+/**
+ * Detect provider/consumer feedback loops for the contexts consumed in a file.
+ *
+ * @param file - The consumer file being analyzed
+ * @param stateInfo - Map of state variables to their setters in the consumer file
+ * @param unstableVars - Unstable variables in the consumer file (reused if it also renders the provider)
+ * @param allParsedFiles - All parsed files, used to find providers
+ * @param typeChecker - Type checker used to analyze provider files
+ * @param config - Stability config used to analyze provider files
+ */
+export function detectContextFeedbackLoops(
+  file: ParsedFile,
+  stateInfo: Map<string, string>,
+  unstableVars: Map<string, UnstableVariable>,
+  allParsedFiles: ParsedFile[],
+  typeChecker?: TypeChecker | null,
+  config?: StabilityConfig
+): HookAnalysis[] {
+  const results: HookAnalysis[] = [];
+
+  const consumptions = findConsumptions(file, allParsedFiles);
+  if (consumptions.length === 0) return results;
+
+  if (!unstableVarsCache.has(file.ast)) {
+    unstableVarsCache.set(file.ast, unstableVars);
+  }
+  const allProviders = allParsedFiles.flatMap((parsed) =>
+    findProviders(parsed, typeChecker, config).map((provider) => ({
+      provider,
+      contextKey: resolveContextKey(parsed, provider.contextName, allParsedFiles),
+    }))
+  );
+
+  for (const consumption of consumptions) {
+    const providers = allProviders
+      .filter((entry) => entry.contextKey === consumption.contextKey)
+      .map((entry) => entry.provider);
+    if (providers.length === 0) continue;
+
+    const { ownerPath } = consumption;
+    const ownerName = getFunctionName(ownerPath) ?? 'component';
+
+    ownerPath.traverse({
+      CallExpression(effectPath: NodePath<t.CallExpression>) {
+        const callee = effectPath.node.callee;
+        if (!t.isIdentifier(callee) || !isEffectHook(callee.name)) return;
+        if (effectPath.getFunctionParent() !== ownerPath) return;
+
+        const effectLine = effectPath.node.loc?.start.line || 0;
+        if (isHookIgnored(file.content, effectLine)) return;
+
+        const effectFn = effectPath.get('arguments.0') as NodePath;
+        if (!effectFn.isArrowFunctionExpression() && !effectFn.isFunctionExpression()) return;
+
+        const depsArg = getEffectDependencyArray(effectPath.node);
+        let dependencies: Set<string> | null = null;
+        const depLocals: string[] = [];
+        if (t.isArrayExpression(depsArg)) {
+          dependencies = new Set();
+          for (const el of depsArg.elements) {
+            if (!el) continue;
+            if (t.isIdentifier(el)) depLocals.push(el.name);
+            const field = getContextField(el, consumption);
+            if (field) dependencies.add(field);
+          }
+        } else if (depsArg) {
+          return;
+        }
+
+        const reported = new Set<string>();
+
+        effectFn.traverse({
+          'CallExpression|OptionalCallExpression'(callPath: NodePath) {
+            // Calls inside nested functions (timers, listeners, promise callbacks) are deferred
+            if (callPath.getFunctionParent() !== effectFn) return;
+
+            const call = callPath.node as t.CallExpression | t.OptionalCallExpression;
+            const setterField = getContextField(call.callee, consumption);
+            if (!setterField || setterField === WHOLE_VALUE || reported.has(setterField)) return;
+
+            // `const { data, setData } = useContext(...)` with [data] is already covered by RLD-200
+            if (
+              t.isIdentifier(call.callee) &&
+              depLocals.some((dep) => stateInfo.get(dep) === (call.callee as t.Identifier).name)
+            ) {
+              return;
+            }
+
+            for (const provider of providers) {
+              const updatedState = getUpdatedProviderState(provider, setterField);
+              if (updatedState.length === 0) continue;
+
+              const change = getChangedDependency(provider, updatedState, dependencies);
+              if (!change) continue;
+
+              reported.add(setterField);
+              const isConditional = isConditionalInEffect(
+                callPath,
+                effectFn as NodePath<t.ArrowFunctionExpression | t.FunctionExpression>
+              );
+              results.push(
+                createContextLoopAnalysis({
+                  file,
+                  provider,
+                  effectLine,
+                  hookType: callee.name,
+                  ownerName,
+                  contextName: consumption.contextName,
+                  setterField,
+                  updatedState,
+                  change,
+                  isConditional,
+                })
+              );
+              break;
+            }
+          },
+        });
+      },
+    });
+  }
+
+  return results;
+}
+
+function createContextLoopAnalysis(params: {
+  file: ParsedFile;
+  provider: ProviderInfo;
+  effectLine: number;
+  hookType: string;
+  ownerName: string;
+  contextName: string;
+  setterField: string;
+  updatedState: string[];
+  change: { dependency: string; reason: string };
+  isConditional: boolean;
+}): HookAnalysis {
+  const { file, provider, effectLine, hookType, ownerName, contextName, setterField } = params;
+
+  const providerLocation =
+    provider.file.file === file.file
+      ? `line ${provider.line}`
+      : `${path.relative(path.dirname(file.file), provider.file.file)}:${provider.line}`;
+  const dependencyLabel =
+    params.change.dependency === WHOLE_VALUE
+      ? `the context value`
+      : `'${params.change.dependency}'`;
+
+  const flow =
+    `${ownerName}'s ${hookType} (line ${effectLine}) depends on ${dependencyLabel} from ${contextName} ` +
+    `and calls '${setterField}', which updates ${params.updatedState.map((s) => `'${s}'`).join(', ')} ` +
+    `in ${provider.componentName}'s provider (${providerLocation}); ${params.change.reason}`;
+
+  const suggestion =
+    `Only call '${setterField}' when the value actually differs, depend on the specific fields the effect reads, ` +
+    `or memoize the provider value with useMemo so unrelated updates don't re-trigger consumers.`;
+
+  if (!params.isConditional) {
+    return createAnalysis({
+      type: 'confirmed-infinite-loop',
+      errorCode: 'RLD-303',
+      category: 'critical',
+      severity: 'high',
+      confidence: 'high',
+      hookType,
+      line: effectLine,
+      file: file.file,
+      problematicDependency: params.change.dependency,
+      stateVariable: params.updatedState[0],
+      setterFunction: setterField,
+      actualStateModifications: [setterField],
+      stateReads: [],
+      explanation: `Context feedback loop: ${flow}. Each update re-runs the effect, which updates the provider again.`,
+      suggestion,
+    });
+  }
+
+  const confidenceContext = { isConditional: true, isStrictMode: isStrictModeEnabled() };
+  const confidenceExplanation = getConfidenceExplanation('medium', confidenceContext);
+  return createAnalysis({
+    type: 'potential-issue',
+    errorCode: 'RLD-303',
+    category: 'warning',
+    severity: 'medium',
+    confidence: 'medium',
+    hookType,
+    line: effectLine,
+    file: file.file,
+    problematicDependency: params.change.dependency,
+    stateVariable: params.updatedState[0],
+    setterFunction: setterField,
+    actualStateModifications: [setterField],
+    stateReads: [],
+    explanation: `Possible context feedback loop: ${flow}. The call is conditional - review that the condition eventually stops the cycle.${confidenceExplanation}`,
+    suggestion,
+  });
+}
@@ -43,8 +43,10 @@ export {
 // setState Analyzer (React-specific)
 export {
   analyzeSetStateCalls,
+  analyzeEachSetStateCall,
   hasUnconditionalSetStateCFG,
   type SetStateAnalysis,
+  type SetStateCallAnalysis,
 } from './setState-analyzer';
 
 // Visualizer
@@ -39,13 +39,21 @@ export interface SetStateAnalysis {
   explanation: string;
 }
 
+/**
+ * Result of analyzing one setState call, with the setter it calls.
+ */
+export interface SetStateCallAnalysis extends SetStateAnalysis {
+  setterName: string;
+}
+
 /**
  * Analyze all setState calls in a hook body using CFG.
  *
  * @param hookBody - The hook callback body (arrow function or function expression)
  * @param stateInfo - Map of state variable names to their setter functions
+ *   (class component setters are keyed as `this.setState`)
  * @param dependencies - Dependencies array of the hook
- * @returns Map of setter function names to their analysis results
+ * @returns Map of setter function names to their analysis results (the last call of each setter)
  */
 export function analyzeSetStateCalls(
   hookBody: t.Node,
@@ -53,6 +61,28 @@ export function analyzeSetStateCalls(
   dependencies: string[]
 ): Map<string, SetStateAnalysis> {
   const results = new Map<string, SetStateAnalysis>();
+  const calls = analyzeEachSetStateCall(hookBody, stateInfo, dependencies);
+  for (const { setterName, ...analysis } of calls) {
+    results.set(setterName, analysis);
+  }
+  return results;
+}
+
+/**
+ * Analyze each setState call in a hook body using CFG. Unlike analyzeSetStateCalls,
+ * several calls of the same setter are analyzed separately.
+ *
+ * @param hookBody - The hook callback body (arrow function or function expression)
+ * @param stateInfo - Map of state variable names to their setter functions
+ * @param dependencies - Dependencies array of the hook
+ * @returns The analysis of each call
+ */
+export function analyzeEachSetStateCall(
+  hookBody: t.Node,
+  stateInfo: Map<string, string>,
+  dependencies: string[]
+): SetStateCallAnalysis[] {
+  const results: SetStateCallAnalysis[] = [];
 
   // Get the actual function body
   let bodyToAnalyze: t.BlockStatement | t.Expression | null = null;
@@ -94,7 +124,8 @@ export function analyzeSetStateCalls(
     if (context.type === 'promise') {
       // Promise callbacks are treated as unconditional (will execute when promise settles)
       // But check if the setState inside the promise callback is itself conditional
-      results.set(setterName, {
+      results.push({
+        setterName,
         isUnconditional: !context.isConditionalWithinCallback,
         isReachable: true,
         hasEffectiveGuard: context.isConditionalWithinCallback,
@@ -105,7 +136,8 @@ export function analyzeSetStateCalls(
       });
     } else if (context.type === 'deferred') {
       // Deferred callbacks might never execute (could be cleared), so treat as conditional
-      results.set(setterName, {
+      results.push({
+        setterName,
         isUnconditional: false, // Deferred callbacks are conditional
         isReachable: true,
         hasEffectiveGuard: true, // The deferral itself acts as a guard
@@ -159,7 +191,8 @@ export function analyzeSetStateCalls(
       explanation = `${setterName}() is conditionally executed`;
     }
 
-    results.set(setterName, {
+    results.push({
+      setterName,
       isUnconditional,
       isReachable: reachability.reachable,
       hasEffectiveGuard,
@@ -192,13 +225,29 @@ export function hasUnconditionalSetStateCFG(
   return false;
 }
 
+/**
+ * Get the setter name for a callee.
+ * Handles plain setters (setCount) and class component setters (this.setState).
+ */
+function getCalleeSetterName(callee: t.Node): string | null {
+  if (t.isIdentifier(callee)) {
+    return callee.name;
+  }
+  if (t.isMemberExpression(callee) && t.isThisExpression(callee.object)) {
+    if (t.isIdentifier(callee.property) && !callee.computed) {
+      return `this.${callee.property.name}`;
+    }
+  }
+  return null;
+}
+
 /**
  * Find a setState call expression in an AST node.
  */
 function findSetterCall(node: t.Node, setterNames: Set<string>): t.CallExpression | null {
   if (t.isCallExpression(node)) {
-    const callee = node.callee;
-    if (t.isIdentifier(callee) && setterNames.has(callee.name)) {
+    const setterName = getCalleeSetterName(node.callee);
+    if (setterName && setterNames.has(setterName)) {
       return node;
     }
   }
@@ -214,10 +263,7 @@ function findSetterCall(node: t.Node, setterNames: Set<string>): t.CallExpressio
  * Get the setter function name from a call expression.
  */
 function getSetterName(call: t.CallExpression): string | null {
-  if (t.isIdentifier(call.callee)) {
-    return call.callee.name;
-  }
-  return null;
+  return getCalleeSetterName(call.callee);
 }
 
 /**
@@ -391,8 +437,9 @@ function findSettersInCallbacks(
       const callee = node.callee;
 
       // Check if it's a setState call inside a callback
-      if (ctx.type && t.isIdentifier(callee) && setterNames.has(callee.name)) {
-        foundSetters.set(callee.name, {
+      const calleeSetterName = getCalleeSetterName(callee);
+      if (ctx.type && calleeSetterName && setterNames.has(calleeSetterName)) {
+        foundSetters.set(calleeSetterName, {
           type: ctx.type,
           deferredType: ctx.deferredType,
           isConditionalWithinCallback: ctx.conditionalDepth > 0,
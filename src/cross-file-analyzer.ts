@@ -1,5 +1,6 @@
 import * as t from '@babel/types';
 import { ParsedFile } from './parser';
+import { isEffectHook } from './utils';
 
 export interface FunctionDefinition {
   name: string;
@@ -370,7 +371,9 @@ function findFunctionCalls(
       const calleeName = node.callee.name;
 
       // Check if this is a hook call
-      if (['useEffect', 'useCallback', 'useMemo', 'useLayoutEffect'].includes(calleeName)) {
+      const isHookCall =
+        isEffectHook(calleeName) || calleeName === 'useCallback' || calleeName === 'useMemo';
+      if (isHookCall) {
         currentContext = {
           inHook: true,
           hookType: calleeName,
@@ -379,10 +382,7 @@ function findFunctionCalls(
       }
 
       // Record function calls, especially those in hooks
-      if (
-        currentContext.inHook &&
-        !['useEffect', 'useCallback', 'useMemo', 'useLayoutEffect'].includes(calleeName)
-      ) {
+      if (currentContext.inHook && !isHookCall) {
         const args = extractArgumentNames(node.arguments);
         const passesStateSetters = args.filter((arg) => setterNames.includes(arg));
 
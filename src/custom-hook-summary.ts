@@ -0,0 +1,490 @@
+/**
+ * Custom Hook Summary Module
+ *
+ * Builds a summary of every project-local custom hook by analyzing its body, so callers
+ * can be classified without listing the hook in `stableHooks`/`unstableHooks` config:
+ *
+ * ```tsx
+ * export function useItems() {
+ *   const [items, setItems] = useState([]);
+ *   const reload = useCallback(() => setItems(load()), []);
+ *   return { items, reload };   // 'reload' is a stable updater of 'items'
+ * }
+ *
+ * const { items, reload } = useItems(); // items -> reload behaves like a state/setter pair
+ * ```
+ *
+ * A summary records which returned values keep their identity across renders and which
+ * setters (or functions wrapping setters) the hook exposes. Summaries are resolved for
+ * hooks defined in the same file and for hooks imported from other parsed files.
+ */
+
+import * as t from '@babel/types';
+import traverse, { NodePath } from '@babel/traverse';
+import { ParsedFile } from './parser';
+import { findImportedFile, getCalleeName, isBuiltinStableCall } from './utils';
+
+/** A value returned by a custom hook (an array element, an object field or the whole value) */
+export interface HookReturnValue {
+  /** True when the value keeps its identity across renders */
+  isStable: boolean;
+  /** State value, raw state setter, function that calls a setter, or any other value */
+  role: 'state' | 'setter' | 'updater' | 'value';
+  /** For setters and updaters: the return key (field name or array index) of the state they update */
+  updates?: string;
+  /** For updaters: true when every state update happens asynchronously (timers, promises, after await) */
+  isDeferred?: boolean;
+}
+
+export interface CustomHookSummary {
+  name: string;
+  file: string;
+  line: number;
+  returnShape: 'array' | 'object' | 'value' | 'none';
+  /** True when the returned value itself keeps its identity across renders */
+  returnsStableValue: boolean;
+  /** Returned values keyed by object field name or array index ('' for a single value) */
+  values: Map<string, HookReturnValue>;
+}
+
+/** Hooks whose result keeps its identity across renders */
+const MEMO_HOOKS = new Set(['useMemo', 'useCallback', 'useRef', 'useId']);
+
+/** Functions that run their callback asynchronously */
+const DEFERRING_FUNCTIONS = new Set([
+  'setTimeout',
+  'setInterval',
+  'requestAnimationFrame',
+  'requestIdleCallback',
+  'then',
+  'catch',
+  'finally',
+]);
+
+/** Summaries of the hooks defined in each file, keyed by AST so re-analysis reuses them */
+const definitionCache = new WeakMap<t.File, Map<string, CustomHookSummary>>();
+
+interface LocalBinding {
+  isStable: boolean;
+  role: HookReturnValue['role'];
+  /** Local name of the state variable (for state values) or of the state they update (for setters/updaters) */
+  stateName?: string;
+  isDeferred?: boolean;
+}
+
+function isCustomHookName(name: string): boolean {
+  return /^use[A-Z0-9]/.test(name);
+}
+
+/**
+ * Check whether a path belongs to `fn` itself rather than to a nested function.
+ * Paths may or may not be linked above `fn`, depending on whether the whole file was traversed.
+ */
+function isDirectlyIn(nodePath: NodePath, fn: t.Function): boolean {
+  const owner = nodePath.getFunctionParent();
+  return !owner || owner.node === fn;
+}
+
+/**
+ * Find the state setters a function calls, and whether every call is deferred.
+ * Calls inside timer/promise callbacks or after an `await` are deferred.
+ */
+function findSetterCalls(
+  fn: t.Function,
+  setterStates: Map<string, string>
+): { states: string[]; isDeferred: boolean } {
+  const states: string[] = [];
+  let isDeferred = true;
+  let firstAwait = Infinity;
+
+  // Traverse from the function itself so an expression body (`() => setX(1)`) is visited too
+  traverse(fn, {
+    noScope: true,
+    AwaitExpression(nodePath: NodePath<t.AwaitExpression>) {
+      if (isDirectlyIn(nodePath, fn)) {
+        firstAwait = Math.min(firstAwait, nodePath.node.start ?? Infinity);
+      }
+    },
+    CallExpression(nodePath: NodePath<t.CallExpression>) {
+      const name = getCalleeName(nodePath.node);
+      const stateName = name ? setterStates.get(name) : undefined;
+      if (!stateName) return;
+      if (!states.includes(stateName)) states.push(stateName);
+
+      // Walk up to the updater itself; any deferring callback on the way makes this call async
+      let deferred = (nodePath.node.start ?? 0) > firstAwait;
+      let current: NodePath | null = nodePath.getFunctionParent();
+      while (current && current.node !== fn && !deferred) {
+        const parent = current.parentPath;
+        if (
+          parent?.isCallExpression() &&
+          parent.node.arguments.includes(current.node as t.Expression)
+        ) {
+          const callee = parent.node.callee;
+          const calleeNode = t.isMemberExpression(callee) ? callee.property : callee;
+          if (t.isIdentifier(calleeNode) && DEFERRING_FUNCTIONS.has(calleeNode.name)) {
+            deferred = true;
+          }
+        }
+        current = current.getFunctionParent();
+      }
+      if (!deferred) isDeferred = false;
+    },
+  });
+
+  return { states, isDeferred: states.length > 0 && isDeferred };
+}
+
+/**
+ * Classify a function value: updaters call state setters, other functions are plain values.
+ */
+function classifyFunction(
+  fn: t.Function,
+  isStable: boolean,
+  setterStates: Map<string, string>
+): LocalBinding {
+  const { states, isDeferred } = findSetterCalls(fn, setterStates);
+  if (states.length === 0) return { isStable, role: 'value' };
+  return { isStable, role: 'updater', stateName: states[0], isDeferred };
+}
+
+/**
+ * Classify an expression in the hook body (an initializer or a returned value).
+ */
+function classifyExpression(
+  node: t.Node | null | undefined,
+  locals: Map<string, LocalBinding>,
+  setterStates: Map<string, string>
+): LocalBinding {
+  if (!node) return { isStable: true, role: 'value' };
+
+  if (t.isIdentifier(node)) {
+    return locals.get(node.name) ?? { isStable: true, role: 'value' };
+  }
+  if (t.isArrowFunctionExpression(node) || t.isFunctionExpression(node)) {
+    return classifyFunction(node, false, setterStates);
+  }
+  if (t.isObjectExpression(node) || t.isArrayExpression(node) || t.isNewExpression(node)) {
+    return { isStable: false, role: 'value' };
+  }
+  if (t.isCallExpression(node)) {
+    const name = getCalleeName(node);
+    if (name === 'useCallback') {
+      const callback = node.arguments[0];
+      if (t.isArrowFunctionExpression(callback) || t.isFunctionExpression(callback)) {
+        return classifyFunction(callback, true, setterStates);
+      }
+      return { isStable: true, role: 'value' };
+    }
+    if (name && MEMO_HOOKS.has(name)) {
+      return { isStable: true, role: 'value' };
+    }
+    // Other hooks follow the same use* heuristic as hooks called from a component
+    if (t.isIdentifier(node.callee) && isCustomHookName(node.callee.name)) {
+      return { isStable: true, role: 'value' };
+    }
+    // Any other call (items.filter(...), Object.keys(x), buildOptions()) may return a new value
+    return { isStable: isBuiltinStableCall(node), role: 'value' };
+  }
+
+  // Primitives and member access keep their identity
+  return { isStable: true, role: 'value' };
+}
+
+/**
+ * Collect the hook's local bindings: state pairs, memoized values and fresh values.
+ */
+function collectLocals(
+  body: t.BlockStatement,
+  locals: Map<string, LocalBinding>,
+  setterStates: Map<string, string>
+): void {
+  for (const statement of body.body) {
+    if (t.isFunctionDeclaration(statement) && statement.id) {
+      locals.set(statement.id.name, classifyFunction(statement, false, setterStates));
+      continue;
+    }
+    if (!t.isVariableDeclaration(statement)) continue;
+
+    for (const declarator of statement.declarations) {
+      const { id, init } = declarator;
+
+      if (t.isArrayPattern(id) && t.isCallExpression(init)) {
+        const name = getCalleeName(init);
+        const [stateEl, setterEl] = id.elements;
+        if ((name === 'useState' || name === 'useReducer') && t.isIdentifier(stateEl)) {
+          locals.set(stateEl.name, { isStable: true, role: 'state', stateName: stateEl.name });
+          if (t.isIdentifier(setterEl)) {
+            locals.set(setterEl.name, {
+              isStable: true,
+              role: 'setter',
+              stateName: stateEl.name,
+            });
+            setterStates.set(setterEl.name, stateEl.name);
+          }
+          continue;
+        }
+      }
+
+      if (t.isIdentifier(id)) {
+        locals.set(id.name, classifyExpression(init, locals, setterStates));
+      }
+    }
+  }
+}
+
+/**
+ * Map the values of a returned object or array literal to their bindings.
+ */
+function collectReturnedValues(
+  node: t.ObjectExpression | t.ArrayExpression,
+  locals: Map<string, LocalBinding>,
+  setterStates: Map<string, string>,
+  isMemoized: boolean
+): Map<string, LocalBinding> {
+  const entries = new Map<string, LocalBinding>();
+
+  const add = (key: string, value: t.Node | null | undefined) => {
+    const binding = classifyExpression(value, locals, setterStates);
+    entries.set(key, isMemoized ? { ...binding, isStable: true } : binding);
+  };
+
+  if (t.isArrayExpression(node)) {
+    node.elements.forEach((element, index) => {
+      if (element && !t.isSpreadElement(element)) add(String(index), element);
+    });
+    return entries;
+  }
+
+  for (const prop of node.properties) {
+    if (t.isObjectProperty(prop) && !prop.computed && t.isIdentifier(prop.key)) {
+      add(prop.key.name, prop.value);
+    } else if (t.isObjectMethod(prop) && !prop.computed && t.isIdentifier(prop.key)) {
+      const binding = classifyFunction(prop, isMemoized, setterStates);
+      entries.set(prop.key.name, binding);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Get the object/array literal produced by `useMemo(() => ({ ... }), deps)`.
+ */
+function getMemoizedLiteral(
+  node: t.Node | null | undefined
+): t.ObjectExpression | t.ArrayExpression | null {
+  if (!t.isCallExpression(node) || getCalleeName(node) !== 'useMemo') return null;
+  const factory = node.arguments[0];
+  if (!t.isArrowFunctionExpression(factory) && !t.isFunctionExpression(factory)) return null;
+
+  let result: t.Node | null | undefined = null;
+  if (t.isExpression(factory.body)) {
+    result = factory.body;
+  } else {
+    const lastStatement = factory.body.body[factory.body.body.length - 1];
+    if (t.isReturnStatement(lastStatement)) result = lastStatement.argument;
+  }
+  return t.isObjectExpression(result) || t.isArrayExpression(result) ? result : null;
+}
+
+/**
+ * Summarize a single custom hook function.
+ */
+function summarizeHook(name: string, fn: t.Function, filePath: string): CustomHookSummary {
+  const locals = new Map<string, LocalBinding>();
+  const declarations = new Map<string, t.Node | null | undefined>();
+  const setterStates = new Map<string, string>();
+  const summary: CustomHookSummary = {
+    name,
+    file: filePath,
+    line: fn.loc?.start.line || 0,
+    returnShape: 'none',
+    returnsStableValue: true,
+    values: new Map(),
+  };
+
+  let returned: t.Node | null | undefined;
+  if (t.isBlockStatement(fn.body)) {
+    collectLocals(fn.body, locals, setterStates);
+    for (const statement of fn.body.body) {
+      if (t.isVariableDeclaration(statement)) {
+        for (const declarator of statement.declarations) {
+          if (t.isIdentifier(declarator.id)) declarations.set(declarator.id.name, declarator.init);
+        }
+      }
+      if (t.isReturnStatement(statement)) returned = statement.argument;
+    }
+  } else {
+    returned = fn.body;
+  }
+
+  if (!returned) return summary;
+
+  // return value / return useMemo(() => ({ ... }))
+  const memoized = getMemoizedLiteral(
+    t.isIdentifier(returned) ? declarations.get(returned.name) : returned
+  );
+  const literal = t.isObjectExpression(returned) || t.isArrayExpression(returned) ? returned : null;
+  const returnedLiteral = memoized ?? literal;
+
+  let entries: Map<string, LocalBinding>;
+  if (returnedLiteral) {
+    summary.returnShape = t.isArrayExpression(returnedLiteral) ? 'array' : 'object';
+    summary.returnsStableValue = memoized !== null;
+    entries = collectReturnedValues(returnedLiteral, locals, setterStates, memoized !== null);
+  } else {
+    const binding = classifyExpression(returned, locals, setterStates);
+    summary.returnShape = 'value';
+    summary.returnsStableValue = binding.isStable;
+    entries = new Map([['', binding]]);
+  }
+
+  // Translate "updates local state X" into "updates the value returned under key K"
+  const stateKeys = new Map<string, string>();
+  for (const [key, binding] of entries) {
+    if (binding.role === 'state' && binding.stateName) stateKeys.set(binding.stateName, key);
+  }
+  for (const [key, binding] of entries) {
+    summary.values.set(key, {
+      isStable: binding.isStable,
+      role: binding.role,
+      updates:
+        binding.role === 'setter' || binding.role === 'updater'
+          ? stateKeys.get(binding.stateName ?? '')
+          : undefined,
+      isDeferred: binding.role === 'updater' ? binding.isDeferred : undefined,
+    });
+  }
+
+  return summary;
+}
+
+/**
+ * Summarize every top-level custom hook (`use*` function) defined in a file.
+ */
+export function summarizeCustomHooks(file: ParsedFile): Map<string, CustomHookSummary> {
+  const cached = definitionCache.get(file.ast);
+  if (cached) return cached;
+
+  const summaries = new Map<string, CustomHookSummary>();
+
+  for (const topLevel of file.ast.program.body) {
+    const statement =
+      t.isExportNamedDeclaration(topLevel) || t.isExportDefaultDeclaration(topLevel)
+        ? topLevel.declaration
+        : topLevel;
+
+    if (t.isFunctionDeclaration(statement) && statement.id && isCustomHookName(statement.id.name)) {
+      summaries.set(statement.id.name, summarizeHook(statement.id.name, statement, file.file));
+      continue;
+    }
+
+    if (t.isVariableDeclaration(statement)) {
+      for (const declarator of statement.declarations) {
+        const init = declarator.init;
+        if (
+          t.isIdentifier(declarator.id) &&
+          isCustomHookName(declarator.id.name) &&
+          (t.isArrowFunctionExpression(init) || t.isFunctionExpression(init))
+        ) {
+          summaries.set(declarator.id.name, summarizeHook(declarator.id.name, init, file.file));
+        }
+      }
+    }
+  }
+
+  definitionCache.set(file.ast, summaries);
+  return summaries;
+}
+
+/**
+ * Get summaries for every custom hook a file can call, keyed by the local name used in
+ * that file: hooks defined in the file itself and hooks imported from other parsed files.
+ */
+export function getCustomHookSummaries(
+  file: ParsedFile,
+  allParsedFiles: ParsedFile[]
+): Map<string, CustomHookSummary> {
+  const summaries = new Map(summarizeCustomHooks(file));
+
+  for (const imp of file.imports) {
+    const sourceFile = findImportedFile(file, imp, allParsedFiles);
+    if (!sourceFile) continue;
+    const sourceSummaries = summarizeCustomHooks(sourceFile);
+
+    for (const localName of imp.imports) {
+      const importedName = imp.importedNames.get(localName) ?? localName;
+      if (importedName === '*') continue;
+
+      const exportedName =
+        importedName === 'default'
+          ? sourceFile.exports.find((exp) => exp.isDefault)?.name
+          : importedName;
+      const summary = exportedName ? sourceSummaries.get(exportedName) : undefined;
+      if (summary) summaries.set(localName, summary);
+    }
+  }
+
+  return summaries;
+}
+
+/**
+ * Map the identifiers of a destructuring pattern (`const { a, b } = useX()` or
+ * `const [a, b] = useX()`) to the hook return values they receive.
+ */
+export function getDestructuredHookValues(
+  pattern: t.Node,
+  summary: CustomHookSummary
+): Map<string, { key: string; value: HookReturnValue }> {
+  const bindings = new Map<string, { key: string; value: HookReturnValue }>();
+
+  const bind = (target: t.Node | null, key: string) => {
+    const local = t.isAssignmentPattern(target) ? target.left : target;
+    const value = summary.values.get(key);
+    if (t.isIdentifier(local) && value) bindings.set(local.name, { key, value });
+  };
+
+  if (t.isArrayPattern(pattern) && summary.returnShape === 'array') {
+    pattern.elements.forEach((element, index) => bind(element, String(index)));
+  } else if (t.isObjectPattern(pattern) && summary.returnShape === 'object') {
+    for (const prop of pattern.properties) {
+      if (t.isObjectProperty(prop) && !prop.computed && t.isIdentifier(prop.key)) {
+        bind(prop.value, prop.key.name);
+      }
+    }
+  }
+
+  return bindings;
+}
+
+/**
+ * Find the state/setter pairs a destructured hook call exposes to its caller,
+ * e.g. `const { items, reload } = useItems()` gives items -> reload.
+ * Raw setters win over updaters, and synchronous updaters over deferred ones.
+ */
+export function getHookStatePairs(
+  pattern: t.Node,
+  summary: CustomHookSummary
+): Array<{ stateVariable: string; setter: string; isDeferred: boolean }> {
+  const bindings = getDestructuredHookValues(pattern, summary);
+  const localByKey = new Map([...bindings].map(([local, { key }]) => [key, local]));
+  const rank = (value: HookReturnValue) => (value.role === 'setter' ? 0 : value.isDeferred ? 2 : 1);
+
+  const pairs = new Map<string, { setter: string; value: HookReturnValue }>();
+  for (const [local, { value }] of bindings) {
+    if (value.role !== 'setter' && value.role !== 'updater') continue;
+    const stateVariable = value.updates !== undefined ? localByKey.get(value.updates) : undefined;
+    if (!stateVariable) continue;
+
+    const existing = pairs.get(stateVariable);
+    if (!existing || rank(value) < rank(existing.value)) {
+      pairs.set(stateVariable, { setter: local, value });
+    }
+  }
+
+  return [...pairs].map(([stateVariable, { setter, value }]) => ({
+    stateVariable,
+    setter,
+    isDeferred: value.role === 'updater' && value.isDeferred === true,
+  }));
+}
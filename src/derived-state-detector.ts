@@ -0,0 +1,303 @@
+/**
+ * Derived State Detector Module
+ *
+ * An effect whose only work is to set state to a value computed from its dependencies
+ * stores derived data in state ("you might not need an effect"):
+ *
+ * ```tsx
+ * const [fullName, setFullName] = useState('');
+ * useEffect(() => {
+ *   setFullName(first + ' ' + last);
+ * }, [first, last]);
+ * ```
+ *
+ * Every change renders twice: once with the stale value, then again after the effect sets
+ * the new one. Computing the value during render (or with useMemo) gives the same result in
+ * one render. Effects that do anything else (guards, requests, cleanups, functional updates),
+ * read values that aren't listed as dependencies, or set state that is also set elsewhere
+ * in the component are left alone.
+ */
+
+import * as t from '@babel/types';
+import traverse, { NodePath } from '@babel/traverse';
+import { HookAnalysis } from './types';
+import { analyzeStateInteractions } from './effect-analyzer';
+import {
+  createAnalysis,
+  getCalleeName,
+  getEffectDependencyArray,
+  getEffectHookComparison,
+  getMemberPath,
+  isEffectHook,
+  isHookIgnored,
+} from './utils';
+
+/** Calls whose result changes between calls with the same inputs */
+const IMPURE_CALLS = new Set(['Date.now', 'Math.random', 'performance.now', 'crypto.randomUUID']);
+
+/** A state update computed from the effect's dependencies */
+interface DerivedUpdate {
+  setter: string;
+  stateVar: string;
+  expression: t.Expression;
+}
+
+/**
+ * Get the setter calls that make up an effect body, or null if it does anything else:
+ * `() => setX(expr)` or `() => { setX(expr); setY(expr2); }`.
+ */
+function getSetterOnlyCalls(
+  callbackPath: NodePath<t.Function>,
+  setterNames: Set<string>
+): NodePath<t.CallExpression>[] | null {
+  const body = callbackPath.get('body');
+  const expressions = body.isBlockStatement()
+    ? body
+        .get('body')
+        .map((statement) =>
+          statement.isExpressionStatement() ? statement.get('expression') : null
+        )
+    : [body];
+  if (expressions.length === 0) return null;
+
+  const calls: NodePath<t.CallExpression>[] = [];
+  for (const expression of expressions) {
+    if (!expression?.isCallExpression()) return null;
+    const { callee, arguments: args } = expression.node;
+    if (
+      !t.isIdentifier(callee) ||
+      !setterNames.has(callee.name) ||
+      args.length !== 1 ||
+      !t.isExpression(args[0])
+    ) {
+      return null;
+    }
+    calls.push(expression);
+  }
+  return calls;
+}
+
+/**
+ * Check if an expression is computed only from the listed dependencies (plus module-level
+ * values and globals), without impure calls, awaits or functions.
+ */
+function isDerivedFromDependencies(
+  expressionPath: NodePath<t.Expression>,
+  dependencyRoots: Set<string>,
+  componentScope: NodePath['scope']
+): boolean {
+  if (
+    expressionPath.isLiteral() ||
+    expressionPath.isFunction() ||
+    expressionPath.isAwaitExpression() ||
+    expressionPath.isYieldExpression()
+  ) {
+    return false;
+  }
+
+  let pure = true;
+  let readsDependency = false;
+
+  const checkIdentifier = (idPath: NodePath<t.Identifier>) => {
+    const binding = idPath.scope.getBinding(idPath.node.name);
+    // Globals and module-level values don't change between renders
+    if (!binding || binding.scope.getFunctionParent() !== componentScope) return;
+    if (dependencyRoots.has(idPath.node.name)) {
+      readsDependency = true;
+    } else {
+      pure = false;
+    }
+  };
+
+  if (expressionPath.isIdentifier()) {
+    checkIdentifier(expressionPath);
+    return pure && readsDependency;
+  }
+
+  expressionPath.traverse({
+    ReferencedIdentifier(idPath: NodePath<t.Identifier | t.JSXIdentifier>) {
+      if (idPath.isIdentifier()) checkIdentifier(idPath);
+      if (!pure) idPath.stop();
+    },
+    'AwaitExpression|YieldExpression'(path: NodePath) {
+      pure = false;
+      path.stop();
+    },
+    CallExpression(callPath: NodePath<t.CallExpression>) {
+      const name = getMemberPath(callPath.node.callee);
+      if (name && IMPURE_CALLS.has(name)) {
+        pure = false;
+        callPath.stop();
+      }
+    },
+    NewExpression(newPath: NodePath<t.NewExpression>) {
+      // new Date() reads the clock; other constructors build a value like a literal
+      if (
+        t.isIdentifier(newPath.node.callee, { name: 'Date' }) &&
+        newPath.node.arguments.length === 0
+      ) {
+        pure = false;
+        newPath.stop();
+      }
+    },
+  });
+
+  return pure && readsDependency;
+}
+
+/**
+ * Get the source text of an expression, on one line.
+ */
+function getExpressionText(node: t.Node, fileContent?: string): string {
+  if (fileContent === undefined || node.start == null || node.end == null) return '...';
+  return fileContent.slice(node.start, node.end).replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * Check if computing an expression may be expensive enough to memoize: it calls a function
+ * or builds a new object/array (which would also be a new reference on every render).
+ */
+function isWorthMemoizing(node: t.Node): boolean {
+  if (
+    t.isCallExpression(node) ||
+    t.isNewExpression(node) ||
+    t.isObjectExpression(node) ||
+    t.isArrayExpression(node)
+  ) {
+    return true;
+  }
+  let found = false;
+  traverse(node, {
+    noScope: true,
+    'CallExpression|NewExpression|ObjectExpression|ArrayExpression'(path: NodePath) {
+      found = true;
+      path.stop();
+    },
+  });
+  return found;
+}
+
+/**
+ * Detect effects that only set state to values derived from their dependencies.
+ *
+ * @param ast - The file AST
+ * @param stateInfo - State variables and their setters (from extractStateInfo)
+ * @param refVars - Ref variable names (ref mutations mean the effect does more than derive state)
+ * @param filePath - Path to the file being analyzed
+ * @param fileContent - File content for comment detection and the derived expression
+ */
+export function detectDerivedStateEffects(
+  ast: t.Node,
+  stateInfo: Map<string, string>,
+  refVars: Set<string>,
+  filePath: string,
+  fileContent?: string
+): HookAnalysis[] {
+  const results: HookAnalysis[] = [];
+  const setterNames = new Set(stateInfo.values());
+  const setterToState = new Map(Array.from(stateInfo, ([state, setter]) => [setter, state]));
+
+  traverse(ast, {
+    CallExpression(hookPath: NodePath<t.CallExpression>) {
+      const hookName = getCalleeName(hookPath.node);
+      if (!hookName || !isEffectHook(hookName)) return;
+      // Debounced and deep-compare effects don't run on every dependency change, so deriving
+      // state in them isn't equivalent to computing it during render
+      if (getEffectHookComparison(hookName) !== 'reference') return;
+
+      const depsArray = getEffectDependencyArray(hookPath.node);
+      const callbackPath = hookPath.get('arguments')[0];
+      if (!depsArray || depsArray.elements.length === 0 || !callbackPath?.isFunction()) return;
+
+      const componentPath = hookPath.getFunctionParent();
+      if (!componentPath) return;
+
+      const line = hookPath.node.loc?.start.line || 0;
+      if (fileContent && isHookIgnored(fileContent, line)) return;
+
+      const calls = getSetterOnlyCalls(callbackPath, setterNames);
+      if (!calls) return;
+
+      // The effect must set state unconditionally and synchronously, and do nothing else
+      const interactions = analyzeStateInteractions(callbackPath.node, stateInfo, refVars);
+      if (
+        interactions.modifications.length === 0 ||
+        interactions.conditionalModifications.length > 0 ||
+        interactions.functionalUpdates.length > 0 ||
+        interactions.deferredModifications.length > 0 ||
+        interactions.cleanupModifications.length > 0 ||
+        interactions.refMutations.length > 0
+      ) {
+        return;
+      }
+
+      const dependencyRoots = new Set<string>();
+      for (const element of depsArray.elements) {
+        const dependency = getMemberPath(element);
+        if (dependency) dependencyRoots.add(dependency.split('.')[0]);
+      }
+
+      const updates: DerivedUpdate[] = [];
+      for (const callPath of calls) {
+        const setter = (callPath.node.callee as t.Identifier).name;
+        const stateVar = setterToState.get(setter);
+        // setCount(count + 1) depends on its own state: that's a loop, not derived state
+        if (!stateVar || dependencyRoots.has(stateVar)) return;
+        // State that is also set elsewhere (`onChange={(e) => setDraft(e.target.value)}`) is
+        // an editable copy that the effect resets, not derived data
+        const setterBinding = callPath.scope.getBinding(setter);
+        if (setterBinding?.referencePaths.some((refPath) => !refPath.isDescendant(callbackPath))) {
+          return;
+        }
+
+        const argumentPath = callPath.get('arguments')[0] as NodePath<t.Expression>;
+        if (!isDerivedFromDependencies(argumentPath, dependencyRoots, componentPath.scope)) {
+          return;
+        }
+        updates.push({ setter, stateVar, expression: argumentPath.node });
+      }
+
+      const first = updates[0];
+      const expressionText = getExpressionText(first.expression, fileContent);
+      const dependencyList = depsArray.elements
+        .map((element) => getMemberPath(element))
+        .filter((name): name is string => name !== null)
+        .join(', ');
+      const computed = updates
+        .map(
+          (update) =>
+            `const ${update.stateVar} = ${getExpressionText(update.expression, fileContent)};`
+        )
+        .join(' ');
+      const memoized = `const ${first.stateVar} = useMemo(() => ${expressionText}, [${dependencyList}]);`;
+      const stateList = updates.map((update) => `'${update.stateVar}'`).join(', ');
+
+      results.push(
+        createAnalysis({
+          type: 'potential-issue',
+          errorCode: 'RLD-412',
+          category: 'performance',
+          severity: 'low',
+          confidence: 'high',
+          hookType: hookName,
+          line,
+          file: filePath,
+          problematicDependency: first.stateVar,
+          stateVariable: first.stateVar,
+          setterFunction: first.setter,
+          actualStateModifications: updates.map((update) => update.setter),
+          stateReads: [],
+          explanation:
+            `${hookName} only sets ${stateList} to a value computed from its dependencies ` +
+            `(${first.setter}(${expressionText})). Storing derived data in state renders twice ` +
+            `on every change: first with the stale value, then again after the effect runs.`,
+          suggestion: isWorthMemoizing(first.expression)
+            ? `Compute it during render with useMemo and remove the state and the effect: ${memoized}`
+            : `Compute it during render and remove the state and the effect: ${computed}`,
+        })
+      );
+    },
+  });
+
+  return results;
+}
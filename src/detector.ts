@@ -431,6 +431,10 @@ export async function detectCircularDependencies(
     stableHookPatterns: config.stableHookPatterns,
     unstableHookPatterns: config.unstableHookPatterns,
     customFunctions: config.customFunctions,
+    effectHooks: config.effectHooks,
+    atomFactories: config.atomFactories,
+    serverComponents: config.serverComponents,
+    cleanupPairs: config.cleanupPairs,
     debug: options.debug,
     strictMode: strictModeDetection.enabled,
     tsconfigPath: strictModeDetection.tsconfigPath || config.tsconfigPath,
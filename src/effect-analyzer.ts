@@ -12,7 +12,7 @@
 import * as t from '@babel/types';
 import traverse, { NodePath } from '@babel/traverse';
 import { HookAnalysis, StateInteraction } from './types';
-import { isHookIgnored, createAnalysis } from './utils';
+import { isHookIgnored, createAnalysis, isEffectHook } from './utils';
 import { analyzeConditionalGuard } from './guard-analyzer';
 
 /**
@@ -283,8 +283,8 @@ export function detectUseEffectWithoutDeps(
       if (!t.isIdentifier(callPath.node.callee)) return;
       const hookName = callPath.node.callee.name;
 
-      // Only check useEffect and useLayoutEffect
-      if (hookName !== 'useEffect' && hookName !== 'useLayoutEffect') return;
+      // Only check effect hooks (useEffect, useLayoutEffect, configured effect hooks)
+      if (!isEffectHook(hookName)) return;
 
       const args = callPath.node.arguments;
 
@@ -0,0 +1,357 @@
+/**
+ * Effect Cascade Detector Module
+ *
+ * Detects infinite loops that only appear across several effects in the same component.
+ * hook-analyzer.ts judges each effect alone, so a cascade like this is missed:
+ *
+ * ```tsx
+ * useEffect(() => { setB(a + 1); }, [a]); // a → b
+ * useEffect(() => { setC(b + 1); }, [b]); // b → c
+ * useEffect(() => { setA(c + 1); }, [c]); // c → a (back to the first effect)
+ * ```
+ *
+ * For each component we build a "state → effect → setter" graph from the effects'
+ * StateInteraction data: an edge runs from effect X to effect Y when X sets a state
+ * variable that Y depends on. Any cycle through two or more effects is reported with
+ * every hop listed. Single-effect loops are left to hook-analyzer.ts.
+ */
+
+import * as t from '@babel/types';
+import traverse, { NodePath } from '@babel/traverse';
+import { HookAnalysis } from './types';
+import { analyzeStateInteractions } from './effect-analyzer';
+import { analyzeSetStateCalls, type SetStateAnalysis } from './control-flow';
+import { classifyDispatchCalls, type ReducerSummary } from './reducer-analyzer';
+import {
+  createAnalysis,
+  getConfidenceExplanation,
+  getEffectDependencyArray,
+  getFunctionName,
+  isEffectHook,
+  isHookIgnored,
+  isStrictModeEnabled,
+} from './utils';
+
+interface EffectNode {
+  hookName: string;
+  line: number;
+  /** State variables in the dependency array */
+  dependencies: string[];
+  /** Setters called during effect execution, and whether each call is conditional */
+  setters: Map<string, { isConditional: boolean }>;
+}
+
+interface CascadeEdge {
+  from: number;
+  to: number;
+  stateVariable: string;
+  setter: string;
+  isConditional: boolean;
+}
+
+/**
+ * Extract the root identifier from a dependency expression (state.count -> state).
+ */
+function getDependencyRoot(node: t.Node | null): string | null {
+  if (!node) return null;
+  if (t.isIdentifier(node)) return node.name;
+  if (t.isMemberExpression(node)) return getDependencyRoot(node.object);
+  return null;
+}
+
+/**
+ * Build the effect node for a single effect call: its state dependencies and the
+ * setters it calls synchronously (deferred, cleanup and safely guarded calls are excluded).
+ */
+function buildEffectNode(
+  node: t.CallExpression,
+  hookName: string,
+  stateInfo: Map<string, string>,
+  refVars: Set<string>,
+  localFunctionSetters: Map<string, string[]>,
+  reducerSummaries: Map<string, ReducerSummary>,
+  filePath: string
+): EffectNode | null {
+  const depsArray = getEffectDependencyArray(node);
+  if (!depsArray) return null;
+
+  const dependencies = depsArray.elements
+    .map((el) => getDependencyRoot(el))
+    .filter((name): name is string => name !== null && stateInfo.has(name));
+
+  const hookBody = node.arguments[0];
+  const interactions = analyzeStateInteractions(hookBody, stateInfo, refVars, localFunctionSetters);
+
+  let cfgAnalysis: Map<string, SetStateAnalysis> | null = null;
+  try {
+    cfgAnalysis = analyzeSetStateCalls(hookBody, stateInfo, dependencies);
+  } catch (error) {
+    // CFG building can fail on very unusual code patterns
+    if (process.env.DEBUG) {
+      console.warn(`[CFG] Failed to analyze setState calls in ${filePath}:`, error);
+    }
+  }
+
+  const setters = new Map<string, { isConditional: boolean }>();
+
+  for (const setter of interactions.modifications) {
+    const setterCfg = cfgAnalysis?.get(setter);
+    if (setterCfg && !setterCfg.isReachable) continue;
+    if (setterCfg?.hasEffectiveGuard && setterCfg.guardAnalysis) continue;
+    setters.set(setter, { isConditional: !(setterCfg?.isUnconditional ?? true) });
+  }
+
+  for (const setter of interactions.conditionalModifications) {
+    if (!setters.has(setter)) {
+      setters.set(setter, { isConditional: true });
+    }
+  }
+
+  // Dispatches whose reducer returns the current state don't re-render
+  for (const setter of setters.keys()) {
+    const reducerSummary = reducerSummaries.get(setter);
+    const dispatchAnalysis = reducerSummary
+      ? classifyDispatchCalls(hookBody, setter, reducerSummary)
+      : null;
+    if (dispatchAnalysis?.outcome === 'unchanged') {
+      setters.delete(setter);
+    } else if (dispatchAnalysis?.outcome === 'guarded') {
+      setters.set(setter, { isConditional: true });
+    }
+  }
+
+  return {
+    hookName,
+    line: node.loc?.start.line || 0,
+    dependencies,
+    setters,
+  };
+}
+
+/**
+ * Build edges between effects: X → Y when X sets a state variable Y depends on.
+ * Unconditional hops are preferred when several state variables link the same pair.
+ */
+function buildCascadeEdges(effects: EffectNode[], stateInfo: Map<string, string>): CascadeEdge[][] {
+  const edges: CascadeEdge[][] = effects.map(() => []);
+
+  effects.forEach((from, fromIndex) => {
+    effects.forEach((to, toIndex) => {
+      if (fromIndex === toIndex) return;
+
+      let best: CascadeEdge | null = null;
+      for (const stateVariable of to.dependencies) {
+        const setter = stateInfo.get(stateVariable);
+        const setterInfo = setter ? from.setters.get(setter) : undefined;
+        if (!setter || !setterInfo) continue;
+
+        if (!best || (best.isConditional && !setterInfo.isConditional)) {
+          best = {
+            from: fromIndex,
+            to: toIndex,
+            stateVariable,
+            setter,
+            isConditional: setterInfo.isConditional,
+          };
+        }
+      }
+
+      if (best) edges[fromIndex].push(best);
+    });
+  });
+
+  return edges;
+}
+
+/**
+ * Find elementary cycles through two or more effects.
+ * Each cycle is reported once, starting from its earliest effect.
+ */
+function findCascadeCycles(edges: CascadeEdge[][]): CascadeEdge[][] {
+  const cycles: CascadeEdge[][] = [];
+
+  for (let start = 0; start < edges.length; start++) {
+    const visited = new Set<number>([start]);
+    const path: CascadeEdge[] = [];
+
+    const walk = (current: number): void => {
+      for (const edge of edges[current]) {
+        if (edge.to === start) {
+          if (path.length >= 1) cycles.push([...path, edge]);
+          continue;
+        }
+        // Only visit later effects so each cycle is found once, from its earliest member
+        if (edge.to < start || visited.has(edge.to)) continue;
+
+        visited.add(edge.to);
+        path.push(edge);
+        walk(edge.to);
+        path.pop();
+        visited.delete(edge.to);
+      }
+    };
+
+    walk(start);
+  }
+
+  return cycles;
+}
+
+/**
+ * Describe a cycle hop by hop, e.g.
+ * "useEffect (line 5) sets 'b' via setB() → useEffect (line 9) depends on 'b' and sets 'c' via setC() → ..."
+ */
+function describeCycle(cycle: CascadeEdge[], effects: EffectNode[]): string {
+  const hops = cycle.map((edge, index) => {
+    const effect = effects[edge.from];
+    const setsPart = `sets '${edge.stateVariable}' via ${edge.setter}()`;
+    if (index === 0) {
+      return `${effect.hookName} (line ${effect.line}) ${setsPart}`;
+    }
+    const incoming = cycle[index - 1];
+    return `${effect.hookName} (line ${effect.line}) depends on '${incoming.stateVariable}' and ${setsPart}`;
+  });
+
+  const first = effects[cycle[0].from];
+  const last = cycle[cycle.length - 1];
+  hops.push(
+    `back to ${first.hookName} (line ${first.line}), which depends on '${last.stateVariable}'`
+  );
+
+  return hops.join(' → ');
+}
+
+/**
+ * Detect update cycles that span multiple effects within the same component.
+ *
+ * @param ast - The file AST
+ * @param stateInfo - Map of state variables to their setters
+ * @param filePath - Path to the file being analyzed
+ * @param fileContent - File content for comment detection
+ * @param refVars - Set of ref variable names
+ * @param localFunctionSetters - Map of local functions to the setters they call (transitively)
+ * @param reducerSummaries - Reducer summaries keyed by dispatch name
+ */
+export function detectEffectCascades(
+  ast: t.Node,
+  stateInfo: Map<string, string>,
+  filePath: string,
+  fileContent?: string,
+  refVars: Set<string> = new Set(),
+  localFunctionSetters: Map<string, string[]> = new Map(),
+  reducerSummaries: Map<string, ReducerSummary> = new Map()
+): HookAnalysis[] {
+  const results: HookAnalysis[] = [];
+  if (stateInfo.size === 0) return results;
+
+  // Group effect calls by the component (or custom hook) that declares them
+  const effectsByOwner = new Map<t.Node, { name: string; calls: t.CallExpression[] }>();
+
+  traverse(ast, {
+    CallExpression(nodePath: NodePath<t.CallExpression>) {
+      const callee = nodePath.node.callee;
+      if (!t.isIdentifier(callee) || !isEffectHook(callee.name)) return;
+
+      const owner = nodePath.getFunctionParent();
+      if (!owner) return;
+
+      const group = effectsByOwner.get(owner.node) ?? {
+        name: getFunctionName(owner) ?? 'component',
+        calls: [],
+      };
+      group.calls.push(nodePath.node);
+      effectsByOwner.set(owner.node, group);
+    },
+  });
+
+  for (const { name, calls } of effectsByOwner.values()) {
+    if (calls.length < 2) continue;
+
+    const effects = calls
+      .map((call) =>
+        buildEffectNode(
+          call,
+          (call.callee as t.Identifier).name,
+          stateInfo,
+          refVars,
+          localFunctionSetters,
+          reducerSummaries,
+          filePath
+        )
+      )
+      .filter((effect): effect is EffectNode => effect !== null);
+
+    const edges = buildCascadeEdges(effects, stateInfo);
+
+    for (const cycle of findCascadeCycles(edges)) {
+      const firstEffect = effects[cycle[0].from];
+      const line = firstEffect.line;
+
+      if (
+        fileContent &&
+        cycle.some((edge) => isHookIgnored(fileContent, effects[edge.from].line))
+      ) {
+        continue;
+      }
+
+      const isConditional = cycle.some((edge) => edge.isConditional);
+      const setters = cycle.map((edge) => edge.setter);
+      const hopDescription = describeCycle(cycle, effects);
+
+      if (!isConditional) {
+        results.push(
+          createAnalysis({
+            type: 'confirmed-infinite-loop',
+            errorCode: 'RLD-204',
+            category: 'critical',
+            severity: 'high',
+            confidence: 'high',
+            hookType: firstEffect.hookName,
+            line,
+            file: filePath,
+            problematicDependency: cycle[cycle.length - 1].stateVariable,
+            stateVariable: cycle[0].stateVariable,
+            setterFunction: cycle[0].setter,
+            actualStateModifications: setters,
+            stateReads: cycle.map((edge) => edge.stateVariable),
+            explanation:
+              `${cycle.length} effects in '${name}' trigger each other in a cycle: ${hopDescription}. ` +
+              `No single effect loops on its own, but together they re-run forever.`,
+            suggestion:
+              `Break the cycle: derive one of these values during render instead of syncing it in an effect, ` +
+              `or guard one of the setters so it only runs when the value actually changes.`,
+          })
+        );
+        continue;
+      }
+
+      const confidenceContext = { isConditional: true, isStrictMode: isStrictModeEnabled() };
+      const confidenceExplanation = getConfidenceExplanation('medium', confidenceContext);
+      results.push(
+        createAnalysis({
+          type: 'potential-issue',
+          errorCode: 'RLD-204',
+          category: 'warning',
+          severity: 'medium',
+          confidence: 'medium',
+          hookType: firstEffect.hookName,
+          line,
+          file: filePath,
+          problematicDependency: cycle[cycle.length - 1].stateVariable,
+          stateVariable: cycle[0].stateVariable,
+          setterFunction: cycle[0].setter,
+          actualStateModifications: setters,
+          stateReads: cycle.map((edge) => edge.stateVariable),
+          explanation:
+            `${cycle.length} effects in '${name}' can trigger each other in a cycle: ${hopDescription}. ` +
+            `At least one hop is conditional - review that the conditions eventually stop the cascade.${confidenceExplanation}`,
+          suggestion:
+            `Make sure each conditional setter only runs when the value actually changes, ` +
+            `or derive one of these values during render instead of syncing it in an effect.`,
+        })
+      );
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,394 @@
+/**
+ * Form Analyzer Module
+ *
+ * The React Hook Form preset marks `useForm`/`useWatch` as stable, but the values they
+ * watch change whenever the form is updated. An effect that depends on a watched field and
+ * updates that same field re-runs after every update:
+ *
+ * ```tsx
+ * const items = watch('items');
+ * useEffect(() => {
+ *   setValue('items', normalize(items)); // Updates the watched field → effect runs again
+ * }, [items]);
+ * ```
+ *
+ * `watch()`/`useWatch()` results are treated as state reads of their fields, and
+ * `setValue`/`resetField`/`reset`/`trigger` as modifications of the fields they touch.
+ * Guards around the updates are classified by guard-analyzer.ts.
+ */
+
+import * as t from '@babel/types';
+import traverse, { NodePath } from '@babel/traverse';
+import { ErrorCode, HookAnalysis } from './types';
+import { analyzeFormGuard } from './guard-analyzer';
+import {
+  createAnalysis,
+  getConfidenceExplanation,
+  getEffectDependencyArray,
+  isConditionalInEffect,
+  isEffectHook,
+  isHookIgnored,
+  isStrictModeEnabled,
+} from './utils';
+
+/** Hooks that return the form methods */
+const FORM_HOOKS = new Set(['useForm', 'useFormContext']);
+
+/** Form methods that update field values (or re-render field watchers) */
+const FORM_UPDATE_METHODS = new Set(['setValue', 'resetField', 'reset', 'trigger']);
+
+/** Matches every field: `watch()`, `reset()` */
+const ALL_FIELDS = '*';
+
+/** A watched value an effect depends on */
+interface WatchedDependency {
+  /** Dependency as written, e.g. `items` or `watch('items')` */
+  label: string;
+  /** Variable holding the watched value, null for inline `watch('x')` dependencies */
+  variable: string | null;
+  fields: string[];
+}
+
+/** A form update in the effect body that touches a watched field */
+interface FormUpdate {
+  call: NodePath<t.CallExpression>;
+  method: string;
+  calleeText: string;
+  field: string;
+  dependency: WatchedDependency;
+}
+
+/**
+ * Resolve a callee to the form method it calls: `setValue` destructured from useForm(),
+ * possibly renamed, or `form.setValue` where `form = useForm()`.
+ */
+function getFormMethod(callee: t.Node, scopePath: NodePath): string | null {
+  if (t.isIdentifier(callee)) {
+    const declarator = scopePath.scope.getBinding(callee.name)?.path.node;
+    if (!isFormHookDeclarator(declarator) || !t.isObjectPattern(declarator.id)) return null;
+    for (const prop of declarator.id.properties) {
+      if (
+        t.isObjectProperty(prop) &&
+        t.isIdentifier(prop.key) &&
+        t.isIdentifier(prop.value, { name: callee.name })
+      ) {
+        return prop.key.name;
+      }
+    }
+    return null;
+  }
+
+  if (
+    t.isMemberExpression(callee) &&
+    t.isIdentifier(callee.object) &&
+    t.isIdentifier(callee.property)
+  ) {
+    const declarator = scopePath.scope.getBinding(callee.object.name)?.path.node;
+    return isFormHookDeclarator(declarator) && t.isIdentifier(declarator.id)
+      ? callee.property.name
+      : null;
+  }
+
+  return null;
+}
+
+/**
+ * Check if a declarator is initialized with useForm()/useFormContext().
+ */
+function isFormHookDeclarator(node: t.Node | undefined): node is t.VariableDeclarator {
+  return (
+    t.isVariableDeclarator(node) &&
+    t.isCallExpression(node.init) &&
+    t.isIdentifier(node.init.callee) &&
+    FORM_HOOKS.has(node.init.callee.name)
+  );
+}
+
+/**
+ * Get the field names from a watch()/useWatch() name argument, or null if they can't be
+ * determined statically.
+ */
+function getFieldNames(arg: t.Node | undefined): string[] | null {
+  if (!arg) return [ALL_FIELDS];
+  if (t.isStringLiteral(arg)) return [arg.value];
+  if (t.isArrayExpression(arg) && arg.elements.every((el) => t.isStringLiteral(el))) {
+    return arg.elements.map((el) => (el as t.StringLiteral).value);
+  }
+  return null;
+}
+
+/**
+ * Get the fields a watch()/form.watch()/useWatch() call watches, or null if the call is not
+ * a watch call.
+ */
+function getWatchedFields(call: t.CallExpression, scopePath: NodePath): string[] | null {
+  if (t.isIdentifier(call.callee, { name: 'useWatch' })) {
+    const options = call.arguments[0];
+    if (!t.isObjectExpression(options)) return [ALL_FIELDS];
+    const nameProp = options.properties.find(
+      (prop): prop is t.ObjectProperty =>
+        t.isObjectProperty(prop) && t.isIdentifier(prop.key, { name: 'name' })
+    );
+    return getFieldNames(nameProp?.value);
+  }
+  if (getFormMethod(call.callee, scopePath) !== 'watch') return null;
+  // watch(callback) subscribes without re-rendering
+  if (t.isArrowFunctionExpression(call.arguments[0]) || t.isFunctionExpression(call.arguments[0])) {
+    return null;
+  }
+  return getFieldNames(call.arguments[0]);
+}
+
+/**
+ * Resolve an effect dependency to the form fields it watches.
+ */
+function resolveWatchedDependency(
+  element: t.Node | null,
+  effectPath: NodePath<t.CallExpression>
+): WatchedDependency | null {
+  // [watch('items')]
+  if (t.isCallExpression(element)) {
+    const fields = getWatchedFields(element, effectPath);
+    if (!fields) return null;
+    const arg = element.arguments[0];
+    const label = t.isStringLiteral(arg) ? `watch('${arg.value}')` : 'watch()';
+    return { label, variable: null, fields };
+  }
+
+  // [items] where items = watch('items') / useWatch({ name: 'items' })
+  let root: t.Node | null = element;
+  while (t.isMemberExpression(root)) root = root.object;
+  if (!t.isIdentifier(root)) return null;
+
+  const declarator = effectPath.scope.getBinding(root.name)?.path.node;
+  if (!t.isVariableDeclarator(declarator) || !t.isCallExpression(declarator.init)) return null;
+  const fields = getWatchedFields(declarator.init, effectPath);
+  if (!fields) return null;
+
+  // const [first, last] = watch(['first', 'last'])
+  if (t.isArrayPattern(declarator.id) && fields[0] !== ALL_FIELDS) {
+    const index = declarator.id.elements.findIndex((el) => t.isIdentifier(el, { name: root.name }));
+    return fields[index]
+      ? { label: root.name, variable: root.name, fields: [fields[index]] }
+      : null;
+  }
+  return { label: root.name, variable: root.name, fields };
+}
+
+/**
+ * Check if an updated field overlaps a watched field: the same field, a parent
+ * (`items` / `items.0.qty`) or a child of it.
+ */
+function fieldsOverlap(updated: string, watched: string): boolean {
+  if (updated === ALL_FIELDS || watched === ALL_FIELDS) return true;
+  return (
+    updated === watched || updated.startsWith(`${watched}.`) || watched.startsWith(`${updated}.`)
+  );
+}
+
+/**
+ * Find setValue/resetField/reset/trigger calls in the effect body that touch a watched field.
+ * Nested functions (event handlers, async callbacks) are skipped.
+ */
+function findFormUpdates(
+  callbackPath: NodePath<t.Function>,
+  dependencies: WatchedDependency[]
+): FormUpdate[] {
+  const updates: FormUpdate[] = [];
+
+  callbackPath.traverse({
+    Function(fnPath: NodePath<t.Function>) {
+      fnPath.skip();
+    },
+    CallExpression(callPath: NodePath<t.CallExpression>) {
+      const method = getFormMethod(callPath.node.callee, callPath);
+      if (!method || !FORM_UPDATE_METHODS.has(method)) return;
+
+      // reset() replaces every value; trigger() without a name validates every field
+      const fieldArg = callPath.node.arguments[0];
+      const field =
+        method === 'reset' || (method === 'trigger' && !fieldArg)
+          ? ALL_FIELDS
+          : t.isStringLiteral(fieldArg)
+            ? fieldArg.value
+            : null;
+      if (!field) return;
+
+      const dependency = dependencies.find((dep) =>
+        dep.fields.some((watched) => fieldsOverlap(field, watched))
+      );
+      if (!dependency) return;
+
+      const callee = callPath.node.callee;
+      const calleeText =
+        t.isMemberExpression(callee) && t.isIdentifier(callee.object)
+          ? `${callee.object.name}.${method}`
+          : t.isIdentifier(callee)
+            ? callee.name
+            : method;
+      updates.push({ call: callPath, method, calleeText, field, dependency });
+    },
+  });
+
+  return updates;
+}
+
+/**
+ * Describe the update call for explanations: `setValue('total')`, `reset()`.
+ */
+function describeUpdate(update: FormUpdate): string {
+  return update.field === ALL_FIELDS
+    ? `${update.calleeText}()`
+    : `${update.calleeText}('${update.field}')`;
+}
+
+/**
+ * Get a form-specific suggestion for an update that re-triggers its effect.
+ */
+function getFormSuggestion(update: FormUpdate): string {
+  if (update.method === 'reset') {
+    return (
+      `Reset the form once from the data it is based on (depend on the loaded data, not on ` +
+      `watched values), or pass values to useForm({ values }) and let React Hook Form keep them in sync.`
+    );
+  }
+  if (update.method === 'trigger') {
+    return (
+      `Validate dependent fields with the 'deps' option of register() or a resolver instead of ` +
+      `calling ${update.calleeText}() from an effect that watches them.`
+    );
+  }
+  return (
+    `Derive '${update.field}' during render instead of storing it in the form, or only set it ` +
+    `when it changes: if (getValues('${update.field}') !== next) ${update.calleeText}('${update.field}', next). ` +
+    `To react to user input, update the field from the source field's onChange instead of an effect.`
+  );
+}
+
+/**
+ * Detect effects that update a React Hook Form field they watch.
+ *
+ * @param ast - The file AST
+ * @param filePath - Path to the file being analyzed
+ * @param fileContent - File content for comment detection
+ */
+export function detectFormLoops(
+  ast: t.Node,
+  filePath: string,
+  fileContent?: string
+): HookAnalysis[] {
+  const results: HookAnalysis[] = [];
+
+  traverse(ast, {
+    CallExpression(effectPath: NodePath<t.CallExpression>) {
+      const hookName = t.isIdentifier(effectPath.node.callee) ? effectPath.node.callee.name : null;
+      if (!hookName || !isEffectHook(hookName)) return;
+
+      const depsArray = getEffectDependencyArray(effectPath.node);
+      const callbackPath = effectPath.get('arguments.0') as NodePath;
+      if (!depsArray || !callbackPath.isFunction()) return;
+
+      const line = effectPath.node.loc?.start.line || 0;
+      if (fileContent && isHookIgnored(fileContent, line)) return;
+
+      const dependencies = depsArray.elements
+        .map((element) => resolveWatchedDependency(element, effectPath))
+        .filter((dependency): dependency is WatchedDependency => dependency !== null);
+      if (dependencies.length === 0) return;
+
+      const updates = findFormUpdates(callbackPath, dependencies);
+      let safeUpdate: { update: FormUpdate; guardType: string } | null = null;
+
+      for (const update of updates) {
+        const { call, dependency } = update;
+        const ancestors: t.Node[] = [];
+        for (let p: NodePath | null = call; p && p !== callbackPath; p = p.parentPath) {
+          ancestors.push(p.node);
+        }
+        const guard = analyzeFormGuard(
+          call.node,
+          ancestors,
+          update.calleeText,
+          update.field,
+          dependency.variable
+        );
+        if (guard?.isSafe) {
+          safeUpdate ??= { update, guardType: guard.guardType };
+          continue;
+        }
+
+        const description = describeUpdate(update);
+        const callLine = call.node.loc?.start.line || line;
+        const watchedFields = dependency.fields.includes(ALL_FIELDS)
+          ? 'every field'
+          : dependency.fields.map((field) => `'${field}'`).join(', ');
+        const baseAnalysis = {
+          hookType: hookName,
+          line,
+          file: filePath,
+          problematicDependency: dependency.label,
+          stateVariable: dependency.label,
+          setterFunction: update.calleeText,
+          actualStateModifications: [update.calleeText],
+          stateReads: dependency.variable ? [dependency.variable] : [],
+          suggestion: getFormSuggestion(update),
+        };
+
+        if (guard || isConditionalInEffect(call, callbackPath)) {
+          const confidenceContext = { isConditional: true, isStrictMode: isStrictModeEnabled() };
+          const confidenceExplanation = getConfidenceExplanation('medium', confidenceContext);
+          results.push(
+            createAnalysis({
+              ...baseAnalysis,
+              type: 'potential-issue',
+              errorCode: 'RLD-501',
+              category: 'warning',
+              severity: 'medium',
+              confidence: 'medium',
+              explanation: `${hookName} conditionally calls ${description} (line ${callLine}) while depending on '${dependency.label}', which watches ${watchedFields}. Review that the condition stops once the field has been updated.${confidenceExplanation}`,
+            })
+          );
+          return;
+        }
+
+        const effectErrorCode: ErrorCode = hookName === 'useLayoutEffect' ? 'RLD-202' : 'RLD-200';
+        results.push(
+          createAnalysis({
+            ...baseAnalysis,
+            type: 'confirmed-infinite-loop',
+            errorCode: effectErrorCode,
+            category: 'critical',
+            severity: 'high',
+            confidence: 'high',
+            explanation: `${hookName} calls ${description} (line ${callLine}) while depending on '${dependency.label}', which watches ${watchedFields}. The update re-renders the watchers with a new value, so the effect runs again and updates the field again, creating an infinite loop.`,
+          })
+        );
+        return;
+      }
+
+      if (safeUpdate) {
+        const { update, guardType } = safeUpdate;
+        results.push(
+          createAnalysis({
+            type: 'safe-pattern',
+            errorCode: 'RLD-200',
+            category: 'safe',
+            severity: 'low',
+            confidence: 'high',
+            hookType: hookName,
+            line,
+            file: filePath,
+            problematicDependency: update.dependency.label,
+            stateVariable: update.dependency.label,
+            setterFunction: update.calleeText,
+            actualStateModifications: [update.calleeText],
+            stateReads: [],
+            explanation: `Hook calls ${describeUpdate(update)} while depending on '${update.dependency.label}' but has a ${guardType} that prevents infinite loops.`,
+          })
+        );
+      }
+    },
+  });
+
+  return results;
+}
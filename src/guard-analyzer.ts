@@ -7,11 +7,13 @@
  * - Equality guards: if (value !== newValue) setValue(newValue)
  * - Early return patterns: if (condition) return; setValue(...)
  * - Object spread risk detection
+ * - React Router fetcher guards: if (fetcher.state === 'idle' && !fetcher.data) fetcher.load(...)
+ * - React Hook Form guards: if (getValues('total') !== total) setValue('total', total)
  */
 
 import * as t from '@babel/types';
 import { GuardedModification } from './types';
-import { containsNode, usesObjectSpread, conditionInvolvesState } from './utils';
+import { containsNode, usesObjectSpread, conditionInvolvesState, getMemberPath } from './utils';
 
 /**
  * Analyze whether a conditional guard around a state setter prevents infinite loops.
@@ -97,6 +99,15 @@ export function analyzeCondition(
     }
   }
 
+  // Pattern 1c: `if (!searchParams.has('page'))` - sets the missing key, so only runs once
+  if (
+    condition.type === 'UnaryExpression' &&
+    condition.operator === '!' &&
+    isStateMethodCall(condition.argument, stateVar, 'has')
+  ) {
+    return { type: 'toggle-guard', isSafe: true };
+  }
+
   // Pattern 1b: `if (stateVar)` with setting to falsy
   if (condition.type === 'Identifier' && condition.name === stateVar) {
     const setterArg = setterCall.arguments?.[0];
@@ -124,17 +135,16 @@ export function analyzeCondition(
         return { type: 'equality-guard', isSafe: true };
       }
 
+      // Value read through a method of the state: `if (searchParams.get('page') !== page)`
+      if (isStateMethodCall(left, stateVar, 'get') || isStateMethodCall(right, stateVar, 'get')) {
+        return { type: 'equality-guard', isSafe: true };
+      }
+
       // Check for PROPERTY equality guard with object spread risk
       // Pattern: if (user.id !== 5) setUser({ ...user, id: 5 })
-      const leftIsMemberOfState =
-        left?.type === 'MemberExpression' &&
-        left.object?.type === 'Identifier' &&
-        left.object.name === stateVar;
-
-      const rightIsMemberOfState =
-        right?.type === 'MemberExpression' &&
-        right.object?.type === 'Identifier' &&
-        right.object.name === stateVar;
+      // Nested and optional reads count too: if (route.params?.tab !== tab)
+      const leftIsMemberOfState = isStatePropertyRead(left, stateVar);
+      const rightIsMemberOfState = isStatePropertyRead(right, stateVar);
 
       if (leftIsMemberOfState || rightIsMemberOfState) {
         // Check if setter creates a new object reference
@@ -172,6 +182,34 @@ export function analyzeCondition(
   return null;
 }
 
+/**
+ * Check if a node reads a property of the state variable: `user.id`, `route.params?.tab`.
+ */
+function isStatePropertyRead(node: t.Node | null | undefined, stateVar: string): boolean {
+  if (!t.isMemberExpression(node) && !t.isOptionalMemberExpression(node)) return false;
+  let object: t.Node = node;
+  while (t.isMemberExpression(object) || t.isOptionalMemberExpression(object)) {
+    object = object.object;
+  }
+  return t.isIdentifier(object, { name: stateVar });
+}
+
+/**
+ * Check if a node calls a method on the state variable, e.g. `searchParams.get('page')`.
+ */
+function isStateMethodCall(
+  node: t.Node | null | undefined,
+  stateVar: string,
+  methodName: string
+): boolean {
+  return (
+    t.isCallExpression(node) &&
+    t.isMemberExpression(node.callee) &&
+    t.isIdentifier(node.callee.object, { name: stateVar }) &&
+    t.isIdentifier(node.callee.property, { name: methodName })
+  );
+}
+
 /**
  * Check if a node is a falsy literal value (false, 0, '', null, undefined).
  * Used to detect toggle guard patterns where setting a falsy value terminates the loop.
@@ -507,3 +545,353 @@ export function checkEarlyReturnPattern(
 
   return false;
 }
+
+/**
+ * Local names that stand for props/state in a lifecycle method, mapped to the `this.props`
+ * / `this.state` path they hold.
+ */
+export interface LifecycleValues {
+  /** Previous values: `prevProps` -> `this.props`, destructured `{ id }` -> `this.props.id` */
+  previous: Map<string, string>;
+  /** Current values read into locals: `const { id } = this.props` -> `this.props.id` */
+  current: Map<string, string>;
+}
+
+/**
+ * Replace the root of a member path with the path it stands for:
+ * `prevProps.user.id` -> `this.props.user.id` when `prevProps` maps to `this.props`.
+ */
+function expandLifecyclePath(memberPath: string, aliases: Map<string, string>): string | null {
+  const [root] = memberPath.split('.');
+  const target = aliases.get(root);
+  return target ? target + memberPath.slice(root.length) : null;
+}
+
+/**
+ * Check whether one side of a comparison reads a previous value and the other side the
+ * matching current value: `prevProps.id` vs `this.props.id`.
+ */
+function comparesPreviousWithCurrent(
+  previousSide: t.Node,
+  currentSide: t.Node,
+  values: LifecycleValues
+): boolean {
+  const previousPath = getMemberPath(previousSide);
+  const currentPath = getMemberPath(currentSide);
+  if (!previousPath || !currentPath) return false;
+
+  const expected = expandLifecyclePath(previousPath, values.previous);
+  if (!expected) return false;
+  const actual = currentPath.startsWith('this.')
+    ? currentPath
+    : expandLifecyclePath(currentPath, values.current);
+  return actual === expected;
+}
+
+/**
+ * Check whether a branch condition in a class lifecycle method compares the
+ * previous props/state against the current ones.
+ *
+ * This is the class component equivalent of an equality guard:
+ * ```tsx
+ * componentDidUpdate(prevProps) {
+ *   if (prevProps.userId !== this.props.userId) {
+ *     this.setState({ user: null }); // Safe - only runs when userId changes
+ *   }
+ * }
+ * ```
+ *
+ * Both sides must read the same value: `prevProps.id !== undefined` does not change when
+ * the state update re-renders the component, so it does not stop the loop.
+ *
+ * @param condition - The branch condition from the CFG path
+ * @param branchTaken - Which branch leads to the setState call
+ * @param values - Local names holding previous and current props/state
+ */
+export function isLifecycleComparisonGuard(
+  condition: t.Node,
+  branchTaken: 'true' | 'false',
+  values: LifecycleValues
+): boolean {
+  if (t.isBinaryExpression(condition)) {
+    const { operator, left, right } = condition;
+    const isInequalityBranch =
+      ((operator === '!==' || operator === '!=') && branchTaken === 'true') ||
+      ((operator === '===' || operator === '==') && branchTaken === 'false');
+    if (!isInequalityBranch) return false;
+
+    return (
+      comparesPreviousWithCurrent(left, right, values) ||
+      comparesPreviousWithCurrent(right, left, values)
+    );
+  }
+
+  // Same logic as CFG guard detection: `a && b` on the true branch (or `a || b`
+  // on the false branch) evaluates both sides, so either side can be the guard
+  if (t.isLogicalExpression(condition)) {
+    if (
+      (condition.operator === '&&' && branchTaken === 'true') ||
+      (condition.operator === '||' && branchTaken === 'false')
+    ) {
+      return (
+        isLifecycleComparisonGuard(condition.left, branchTaken, values) ||
+        isLifecycleComparisonGuard(condition.right, branchTaken, values)
+      );
+    }
+    // `a || b` on the true branch (or `a && b` on the false branch) can be reached
+    // through either side, so both sides must be comparisons
+    return (
+      isLifecycleComparisonGuard(condition.left, branchTaken, values) &&
+      isLifecycleComparisonGuard(condition.right, branchTaken, values)
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Check if a node reads a property of a fetcher: `fetcher.state`, `fetcher.data`.
+ */
+function isFetcherProperty(
+  node: t.Node | null | undefined,
+  fetcherName: string,
+  property: string
+): boolean {
+  return (
+    (t.isMemberExpression(node) || t.isOptionalMemberExpression(node)) &&
+    t.isIdentifier(node.object, { name: fetcherName }) &&
+    t.isIdentifier(node.property, { name: property })
+  );
+}
+
+/**
+ * Check if a node is `null` or `undefined`.
+ */
+function isNullish(node: t.Node | null | undefined): boolean {
+  return t.isNullLiteral(node) || t.isIdentifier(node, { name: 'undefined' });
+}
+
+/**
+ * Classify a fetcher condition.
+ *
+ * @param condition - The condition to classify
+ * @param fetcherName - The fetcher variable name
+ * @param runsWhen - Whether the load runs when the condition is true (`if (...) load()`)
+ *   or false (`if (...) return; load()`)
+ */
+function classifyFetcherCondition(
+  condition: t.Node | null | undefined,
+  fetcherName: string,
+  runsWhen: boolean
+): 'data' | 'idle' | null {
+  if (!condition) return null;
+
+  // `!fetcher.data` / `!fetcher.state`
+  if (t.isUnaryExpression(condition) && condition.operator === '!') {
+    return classifyFetcherCondition(condition.argument, fetcherName, !runsWhen);
+  }
+
+  // `if (fetcher.data) return;`
+  if (isFetcherProperty(condition, fetcherName, 'data')) {
+    return runsWhen ? null : 'data';
+  }
+
+  if (t.isBinaryExpression(condition)) {
+    const { left, right, operator } = condition;
+    const isEquality = operator === '===' || operator === '==';
+    const isInequality = operator === '!==' || operator === '!=';
+    if (!isEquality && !isInequality) return null;
+    // The comparison holds when the load runs
+    const holdsWhenRunning = isEquality === runsWhen;
+
+    // `fetcher.data == null` / `fetcher.data !== undefined`
+    const dataSide = isFetcherProperty(left, fetcherName, 'data')
+      ? right
+      : isFetcherProperty(right, fetcherName, 'data')
+        ? left
+        : null;
+    if (dataSide && isNullish(dataSide)) {
+      return holdsWhenRunning ? 'data' : null;
+    }
+
+    // `fetcher.state === 'idle'` / `fetcher.state !== 'idle'` / `fetcher.state === 'loading'`
+    const stateSide = isFetcherProperty(left, fetcherName, 'state')
+      ? right
+      : isFetcherProperty(right, fetcherName, 'state')
+        ? left
+        : null;
+    if (t.isStringLiteral(stateSide)) {
+      const isIdle = stateSide.value === 'idle';
+      return holdsWhenRunning === isIdle ? 'idle' : null;
+    }
+    return null;
+  }
+
+  // Every side of `a && b` must hold for the load to run (`a || b` for an early return)
+  if (t.isLogicalExpression(condition)) {
+    const combinesRequirements =
+      (condition.operator === '&&' && runsWhen) || (condition.operator === '||' && !runsWhen);
+    if (!combinesRequirements) return null;
+    const results = [
+      classifyFetcherCondition(condition.left, fetcherName, runsWhen),
+      classifyFetcherCondition(condition.right, fetcherName, runsWhen),
+    ];
+    if (results.includes('data')) return 'data';
+    if (results.includes('idle')) return 'idle';
+  }
+
+  return null;
+}
+
+/**
+ * Analyze the guards around a React Router `fetcher.load()`/`fetcher.submit()` call in an
+ * effect that depends on the fetcher.
+ *
+ * The fetcher object changes whenever its state or data changes, so:
+ * - `if (!fetcher.data)` / `if (fetcher.data) return;` is a safe guard: once data has
+ *   loaded, the effect stops loading
+ * - `if (fetcher.state === 'idle')` only prevents overlapping loads: the fetcher returns to
+ *   'idle' after every load, so the effect loads again each time one finishes
+ *
+ * @param loadCall - The fetcher.load()/fetcher.submit() call
+ * @param ancestorStack - Ancestors of the call, nearest first
+ * @param fetcherName - The fetcher variable name
+ */
+export function analyzeFetcherGuard(
+  loadCall: t.CallExpression,
+  ancestorStack: t.Node[],
+  fetcherName: string
+): GuardedModification | null {
+  const setter =
+    t.isMemberExpression(loadCall.callee) && t.isIdentifier(loadCall.callee.property)
+      ? `${fetcherName}.${loadCall.callee.property.name}`
+      : fetcherName;
+  let found: 'data' | 'idle' | null = null;
+
+  for (const ancestor of ancestorStack) {
+    const guards: ('data' | 'idle' | null)[] = [];
+
+    if (t.isIfStatement(ancestor) && containsNode(ancestor.consequent, loadCall)) {
+      guards.push(classifyFetcherCondition(ancestor.test, fetcherName, true));
+    }
+
+    // Early returns before the call: `if (fetcher.state !== 'idle') return;`
+    if (t.isBlockStatement(ancestor)) {
+      for (const stmt of ancestor.body) {
+        if (containsNode(stmt, loadCall)) break;
+        const returns =
+          t.isIfStatement(stmt) &&
+          (t.isReturnStatement(stmt.consequent) ||
+            (t.isBlockStatement(stmt.consequent) &&
+              stmt.consequent.body.length === 1 &&
+              t.isReturnStatement(stmt.consequent.body[0])));
+        if (returns) {
+          guards.push(classifyFetcherCondition(stmt.test, fetcherName, false));
+        }
+      }
+    }
+
+    if (guards.includes('data')) {
+      found = 'data';
+      break;
+    }
+    if (guards.includes('idle')) found = 'idle';
+  }
+
+  if (found === 'data') {
+    return {
+      setter,
+      stateVariable: fetcherName,
+      guardType: 'fetcher-data-guard',
+      isSafe: true,
+    };
+  }
+  if (found === 'idle') {
+    return {
+      setter,
+      stateVariable: fetcherName,
+      guardType: 'fetcher-idle-guard',
+      isSafe: false,
+      warning:
+        `Checking ${fetcherName}.state === 'idle' only prevents overlapping requests. The fetcher ` +
+        `returns to 'idle' after every load, so the effect runs again and starts a new one.`,
+    };
+  }
+  return null;
+}
+
+/** React Hook Form methods that read the current value of a field */
+const FORM_VALUE_READERS = new Set(['getValues', 'watch']);
+
+/**
+ * Check if a condition compares the current value of a form field:
+ * `getValues('total') !== total` or `form.watch('total') !== total`.
+ */
+function comparesFormValue(condition: t.Node | null | undefined, fieldName: string): boolean {
+  if (t.isLogicalExpression(condition) && condition.operator === '&&') {
+    return (
+      comparesFormValue(condition.left, fieldName) || comparesFormValue(condition.right, fieldName)
+    );
+  }
+  if (!t.isBinaryExpression(condition)) return false;
+  if (condition.operator !== '!==' && condition.operator !== '!=') return false;
+
+  return [condition.left, condition.right].some((side) => {
+    if (!t.isCallExpression(side)) return false;
+    const callee = side.callee;
+    const methodName = t.isIdentifier(callee)
+      ? callee.name
+      : t.isMemberExpression(callee) && t.isIdentifier(callee.property)
+        ? callee.property.name
+        : null;
+    return (
+      methodName !== null &&
+      FORM_VALUE_READERS.has(methodName) &&
+      t.isStringLiteral(side.arguments[0], { value: fieldName })
+    );
+  });
+}
+
+/**
+ * Analyze the guards around a React Hook Form update (`setValue`, `reset`, `trigger`) in an
+ * effect that depends on a watched field.
+ *
+ * Guards on the watched variable go through analyzeConditionalGuard. Comparing the field's
+ * current value (`if (getValues('total') !== total)`) is also an equality guard: once the
+ * value is set, the condition is false.
+ *
+ * @param updateCall - The setValue()/reset()/trigger() call
+ * @param ancestorStack - Ancestors of the call, nearest first
+ * @param setterName - The update method as called (e.g. `setValue`, `form.setValue`)
+ * @param fieldName - The updated field
+ * @param watchedVar - The variable holding the watched value, if the dependency is one
+ */
+export function analyzeFormGuard(
+  updateCall: t.CallExpression,
+  ancestorStack: t.Node[],
+  setterName: string,
+  fieldName: string,
+  watchedVar: string | null
+): GuardedModification | null {
+  if (watchedVar) {
+    const guard = analyzeConditionalGuard(updateCall, ancestorStack, setterName, watchedVar, []);
+    if (guard) return guard;
+  }
+
+  for (const ancestor of ancestorStack) {
+    if (
+      t.isIfStatement(ancestor) &&
+      containsNode(ancestor.consequent, updateCall) &&
+      comparesFormValue(ancestor.test, fieldName)
+    ) {
+      return {
+        setter: setterName,
+        stateVariable: watchedVar ?? fieldName,
+        guardType: 'equality-guard',
+        isSafe: true,
+      };
+    }
+  }
+
+  return null;
+}
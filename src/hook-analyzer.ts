@@ -3,7 +3,7 @@
  *
  * Core hook node analysis logic for detecting state modification patterns.
  * This module handles:
- * - Individual hook analysis (useEffect, useCallback, useMemo)
+ * - Individual hook analysis (useEffect, useCallback, useMemo, useImperativeHandle)
  * - Cross-file modification detection
  * - CFG-based unconditional modification analysis
  * - Guard detection and safe pattern recognition
@@ -15,13 +15,21 @@ import { HookAnalysis, HookNodeInfo, ErrorCode } from './types';
 import { CrossFileAnalysis } from './cross-file-analyzer';
 import { analyzeSetStateCalls, type SetStateAnalysis } from './control-flow';
 import { analyzeStateInteractions } from './effect-analyzer';
+import { classifyDispatchCalls, type ReducerSummary } from './reducer-analyzer';
 import {
   isHookIgnored,
   createAnalysis,
   isStrictModeEnabled,
   getConfidenceExplanation,
+  isEffectHook,
+  getEffectHookComparison,
+  getEffectDependencyArray,
+  getHookCallbackIndex,
 } from './utils';
 
+/** Hooks that recreate their result when their dependencies change, without running effects */
+const MEMO_LIKE_HOOKS = new Set(['useCallback', 'useMemo', 'useImperativeHandle']);
+
 /**
  * Extract the root identifier from a dependency expression.
  * Handles both simple identifiers (count) and member expressions (state.count, state.nested.value).
@@ -44,7 +52,8 @@ function extractRootIdentifier(node: t.Node | null): string | null {
 
 /**
  * Find all hook call expressions in an AST.
- * Returns nodes for useEffect, useCallback, and useMemo hooks.
+ * Returns nodes for effect hooks (built-in and configured, see isEffectHook), useCallback, useMemo
+ * and useImperativeHandle.
  */
 export function findHookNodes(ast: t.Node): HookNodeInfo[] {
   const hookNodes: HookNodeInfo[] = [];
@@ -53,7 +62,7 @@ export function findHookNodes(ast: t.Node): HookNodeInfo[] {
     CallExpression(nodePath: NodePath<t.CallExpression>) {
       if (t.isIdentifier(nodePath.node.callee)) {
         const hookName = nodePath.node.callee.name;
-        if (['useEffect', 'useCallback', 'useMemo'].includes(hookName)) {
+        if (isEffectHook(hookName) || MEMO_LIKE_HOOKS.has(hookName)) {
           hookNodes.push({
             node: nodePath.node,
             hookName,
@@ -77,6 +86,8 @@ export function findHookNodes(ast: t.Node): HookNodeInfo[] {
  * @param fileContent - File content for comment detection
  * @param refVars - Set of ref variable names
  * @param localFunctionSetters - Map of local functions to the setters they call (transitively)
+ * @param deferredSetters - Custom hook updaters that only set state asynchronously
+ * @param reducerSummaries - Reducer summaries keyed by dispatch name (see reducer-analyzer.ts)
  */
 export function analyzeHookNode(
   hookNode: HookNodeInfo,
@@ -85,7 +96,9 @@ export function analyzeHookNode(
   crossFileAnalysis: CrossFileAnalysis,
   fileContent?: string,
   refVars: Set<string> = new Set(),
-  localFunctionSetters: Map<string, string[]> = new Map()
+  localFunctionSetters: Map<string, string[]> = new Map(),
+  deferredSetters: Set<string> = new Set(),
+  reducerSummaries: Map<string, ReducerSummary> = new Map()
 ): HookAnalysis | null {
   const { node, hookName, line } = hookNode;
 
@@ -98,10 +111,15 @@ export function analyzeHookNode(
     return null; // No dependencies array
   }
 
-  // Get dependencies
-  const depsArray = node.arguments[node.arguments.length - 1];
+  // Get dependencies (custom effect hooks may take extra arguments, e.g. a debounce delay)
+  const depsArray = isEffectHook(hookName)
+    ? getEffectDependencyArray(node)
+    : node.arguments[node.arguments.length - 1];
   if (!t.isArrayExpression(depsArray)) {
-    return null;
+    // useImperativeHandle(ref, create) has no deps; a non-literal deps argument can't be checked
+    return hookName === 'useImperativeHandle' && node.arguments.length < 3
+      ? createImperativeHandleWithoutDepsAnalysis(hookNode, filePath)
+      : null;
   }
 
   // Extract dependencies - handles both simple identifiers and member expressions
@@ -111,7 +129,7 @@ export function analyzeHookNode(
     .filter((name): name is string => name !== null);
 
   // Analyze hook body for state interactions
-  const hookBody = node.arguments[0];
+  const hookBody = node.arguments[getHookCallbackIndex(hookName)];
   const stateInteractions = analyzeStateInteractions(
     hookBody,
     stateInfo,
@@ -119,6 +137,22 @@ export function analyzeHookNode(
     localFunctionSetters
   );
 
+  // Custom hook updaters that set state asynchronously (e.g. a `refresh()` that fetches
+  // and then calls its setter) behave like deferred modifications, even when called directly
+  for (const setter of deferredSetters) {
+    const isCalled =
+      stateInteractions.modifications.includes(setter) ||
+      stateInteractions.conditionalModifications.includes(setter);
+    if (!isCalled) continue;
+    stateInteractions.modifications = stateInteractions.modifications.filter((s) => s !== setter);
+    stateInteractions.conditionalModifications = stateInteractions.conditionalModifications.filter(
+      (s) => s !== setter
+    );
+    if (!stateInteractions.deferredModifications.includes(setter)) {
+      stateInteractions.deferredModifications.push(setter);
+    }
+  }
+
   // CFG-based analysis for more accurate unconditional detection
   let cfgAnalysis: Map<string, SetStateAnalysis> | null = null;
   if (hookBody) {
@@ -139,8 +173,10 @@ export function analyzeHookNode(
 
   // IMPORTANT: useCallback and useMemo CANNOT cause infinite loops by themselves!
   // They only memoize functions/values - they don't auto-execute on dependency changes.
-  // Only useEffect/useLayoutEffect can directly cause infinite re-render loops.
-  const canCauseDirectLoop = hookName === 'useEffect' || hookName === 'useLayoutEffect';
+  // Only effect hooks (useEffect, useLayoutEffect, configured effect hooks) can directly
+  // cause infinite re-render loops.
+  const canCauseDirectLoop = isEffectHook(hookName);
+  const comparison = getEffectHookComparison(hookName);
 
   // Check if dependencies are only passed as references (not invoked)
   // e.g., addEventListener('resize', handleResize) - handleResize is passed, not called
@@ -179,6 +215,26 @@ export function analyzeHookNode(
         });
       }
 
+      // Deep-compare effects don't re-run for a new object with the same contents
+      if (guardedMod.guardType === 'object-spread-risk' && comparison === 'deep-equal') {
+        return createAnalysis({
+          type: 'safe-pattern',
+          errorCode: 'RLD-200',
+          category: 'safe',
+          severity: 'low',
+          confidence: 'high',
+          hookType: hookName,
+          line,
+          file: filePath,
+          problematicDependency: dep,
+          stateVariable: dep,
+          setterFunction: setter,
+          actualStateModifications: [setter],
+          stateReads: stateInteractions.reads,
+          explanation: `Hook modifies '${dep}' behind a property guard. ${hookName} compares dependencies structurally, so a new object with the same contents doesn't re-run it.`,
+        });
+      }
+
       // Handle risky guard patterns like object-spread-risk
       if (guardedMod.guardType === 'object-spread-risk') {
         const confidenceContext = { isConditional: true, isStrictMode: isStrictModeEnabled() };
@@ -277,6 +333,58 @@ export function analyzeHookNode(
       });
     }
 
+    // useReducer: the reducer decides whether a dispatched action changes state
+    const reducerSummary = reducerSummaries.get(setter);
+    const isDispatched =
+      stateInteractions.modifications.includes(setter) ||
+      stateInteractions.conditionalModifications.includes(setter);
+    if (reducerSummary && isDispatched && canCauseDirectLoop && hookBody) {
+      const dispatchAnalysis = classifyDispatchCalls(hookBody, setter, reducerSummary);
+      const actionList = dispatchAnalysis?.actionTypes.map((type) => `'${type}'`).join(', ');
+
+      if (dispatchAnalysis?.outcome === 'unchanged') {
+        return createAnalysis({
+          type: 'safe-pattern',
+          errorCode: 'RLD-200',
+          category: 'safe',
+          severity: 'low',
+          confidence: 'high',
+          hookType: hookName,
+          line,
+          file: filePath,
+          problematicDependency: dep,
+          stateVariable: dep,
+          setterFunction: setter,
+          actualStateModifications: [setter],
+          stateReads: stateInteractions.reads,
+          explanation: `${hookName} dispatches ${actionList} while depending on '${dep}', but '${reducerSummary.reducerName}' returns the current state for ${dispatchAnalysis.actionTypes.length > 1 ? 'these actions' : 'this action'}, so React skips the re-render.`,
+        });
+      }
+
+      if (dispatchAnalysis?.outcome === 'guarded') {
+        const confidenceContext = { isConditional: true, isStrictMode: isStrictModeEnabled() };
+        const confidenceExplanation = getConfidenceExplanation('medium', confidenceContext);
+        return createAnalysis({
+          type: 'potential-issue',
+          errorCode: 'RLD-501',
+          category: 'warning',
+          severity: 'medium',
+          confidence: 'medium',
+          hookType: hookName,
+          line,
+          file: filePath,
+          problematicDependency: dep,
+          stateVariable: dep,
+          setterFunction: setter,
+          actualStateModifications: [setter],
+          stateReads: stateInteractions.reads,
+          explanation: `${hookName} dispatches ${actionList} while depending on '${dep}'. '${reducerSummary.reducerName}' only returns a new state for ${dispatchAnalysis.actionTypes.length > 1 ? 'these actions' : 'this action'} on some paths - review that its guard eventually returns the current state.${confidenceExplanation}`,
+          suggestion: `Make sure the reducer returns the existing state object when nothing changed, e.g. if (state.value === action.value) return state;`,
+        });
+      }
+      // 'new' (or unresolved actions): the dispatch behaves like any other setter call
+    }
+
     // Check direct modifications
     if (stateInteractions.modifications.includes(setter)) {
       // Use CFG analysis if available for more accurate unconditional detection
@@ -319,6 +427,30 @@ export function analyzeHookNode(
         });
       }
 
+      if (canCauseDirectLoop && isUnconditionalByCFG && comparison === 'debounced') {
+        // Debounced effects run after a delay: the cycle never settles, but it doesn't
+        // block rendering, so report it as a warning rather than a confirmed loop
+        const confidenceContext = { isConditional: false, isStrictMode: isStrictModeEnabled() };
+        const confidenceExplanation = getConfidenceExplanation('medium', confidenceContext);
+        return createAnalysis({
+          type: 'potential-issue',
+          errorCode: 'RLD-200',
+          category: 'warning',
+          severity: 'medium',
+          confidence: 'medium',
+          hookType: hookName,
+          line,
+          file: filePath,
+          problematicDependency: dep,
+          stateVariable: dep,
+          setterFunction: setter,
+          actualStateModifications: stateInteractions.modifications,
+          stateReads: stateInteractions.reads,
+          explanation: `${hookName} modifies '${dep}' via '${setter}()' while depending on it. ${hookName} runs after a delay, so this doesn't freeze the page, but it re-runs after every delay and never settles.${confidenceExplanation}`,
+          suggestion: `Use a functional update: ${setter}(prev => ...) and remove '${dep}' from dependencies, OR add a guard condition to prevent unnecessary updates.`,
+        });
+      }
+
       if (canCauseDirectLoop && isUnconditionalByCFG) {
         // Determine if it's useEffect or useLayoutEffect for the error code
         const effectErrorCode: ErrorCode = hookName === 'useLayoutEffect' ? 'RLD-202' : 'RLD-200';
@@ -510,3 +642,34 @@ export function analyzeHookNode(
 
   return null;
 }
+
+/**
+ * useImperativeHandle without a dependency array recreates the handle after every render.
+ * Parents that use `ref.current` in effect dependencies, or store it in state, re-run or
+ * re-render each time.
+ */
+function createImperativeHandleWithoutDepsAnalysis(
+  hookNode: HookNodeInfo,
+  filePath: string
+): HookAnalysis {
+  return createAnalysis({
+    type: 'potential-issue',
+    errorCode: 'RLD-500',
+    category: 'warning',
+    severity: 'medium',
+    confidence: 'high',
+    hookType: hookNode.hookName,
+    line: hookNode.line,
+    file: filePath,
+    problematicDependency: 'missing-deps',
+    stateVariable: undefined,
+    setterFunction: undefined,
+    actualStateModifications: [],
+    stateReads: [],
+    explanation:
+      `useImperativeHandle has no dependency array, so it creates a new handle after every render. ` +
+      `Parents that depend on the handle (e.g. 'ref.current' in an effect's dependencies, or the ` +
+      `handle stored in state) re-run or re-render every time, which loops if they update this component.`,
+    suggestion: `Add a dependency array listing the values the handle uses: useImperativeHandle(ref, () => ({ ... }), [dep1, dep2]).`,
+  });
+}
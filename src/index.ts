@@ -52,6 +52,9 @@ export {
 export {
   detectSetStateDuringRender,
   detectRefMutationDuringRender,
+  detectRefReadDuringRender,
+  detectUsePromiseDuringRender,
+  detectNavigationUpdateDuringRender,
   isInsideSafeContext,
 } from './render-phase-detector';
 
@@ -59,6 +62,8 @@ export {
   analyzeConditionalGuard,
   analyzeCondition,
   checkEarlyReturnPattern,
+  analyzeFetcherGuard,
+  analyzeFormGuard,
 } from './guard-analyzer';
 
 export {
@@ -71,6 +76,55 @@ export { findHookNodes, analyzeHookNode } from './hook-analyzer';
 
 export { checkUnstableReferences } from './unstable-refs-detector';
 
+export { detectClassComponentIssues } from './class-component-analyzer';
+
+export { detectEffectCascades } from './effect-cascade-detector';
+
+export { detectCallbackPropLoops } from './prop-flow-analyzer';
+
+export { detectUnstableKeys } from './key-prop-detector';
+
+export { detectContextFeedbackLoops } from './context-loop-detector';
+
+export {
+  summarizeCustomHooks,
+  getCustomHookSummaries,
+  CustomHookSummary,
+  HookReturnValue,
+} from './custom-hook-summary';
+
+export {
+  getReducerSummaries,
+  classifyDispatchCalls,
+  ReducerSummary,
+  ReducerOutcome,
+} from './reducer-analyzer';
+
+export { detectNestedComponents } from './nested-component-detector';
+
+export { detectUnstableSelectors } from './selector-analyzer';
+
+export { detectAtomsInRender } from './atom-analyzer';
+
+export { detectRouterLoops } from './router-analyzer';
+
+export { detectFormLoops } from './form-analyzer';
+
+export {
+  detectServerComponentHooks,
+  getModuleDirective,
+  getServerModuleKind,
+  ServerModuleKind,
+} from './server-component-detector';
+
+export { detectStaleClosures } from './stale-closure-detector';
+
+export { detectAsyncEffectRaces } from './async-race-detector';
+
+export { detectMissingEffectCleanups } from './cleanup-leak-detector';
+
+export { detectDerivedStateEffects } from './derived-state-detector';
+
 // Shared types and utilities
 export {
   HookNodeInfo,
@@ -184,7 +184,11 @@ export function analyzeJsxProps(
       array: 'array',
       function: 'function',
       'function-call': 'function call result',
+      'hook-return': 'custom hook return value',
     };
+    const defaultNote = prop.unstableVar.defaultValue
+      ? ` (defaulted to \`${prop.unstableVar.defaultValue}\`)`
+      : '';
 
     if (prop.isContextProvider) {
       // Context provider with unstable value - this causes all consumers to re-render
@@ -205,7 +209,7 @@ export function analyzeJsxProps(
           actualStateModifications: [],
           stateReads: [],
           explanation:
-            `Context provider '${prop.componentName}' receives unstable ${typeDescriptions[prop.unstableVar.type]} '${prop.unstableVar.name}' as value. ` +
+            `Context provider '${prop.componentName}' receives unstable ${typeDescriptions[prop.unstableVar.type]} '${prop.unstableVar.name}'${defaultNote} as value. ` +
             `This creates a new object reference on every render, causing all context consumers to re-render unnecessarily.`,
           suggestion: `Wrap '${prop.unstableVar.name}' with useMemo to create a stable reference.`,
         })
@@ -243,7 +247,7 @@ export function analyzeJsxProps(
           actualStateModifications: [],
           stateReads: [],
           explanation:
-            `Unstable ${typeDescriptions[prop.unstableVar.type]} '${prop.unstableVar.name}' is passed as prop '${prop.propName}' to memoized component '${prop.componentName}'. ` +
+            `Unstable ${typeDescriptions[prop.unstableVar.type]} '${prop.unstableVar.name}'${defaultNote} is passed as prop '${prop.propName}' to memoized component '${prop.componentName}'. ` +
             `This creates a new reference on every render, defeating the purpose of React.memo() and causing unnecessary re-renders.`,
           suggestion: `Wrap '${prop.unstableVar.name}' with ${prop.unstableVar.type === 'function' ? 'useCallback' : 'useMemo'} to create a stable reference.`,
         })
@@ -276,6 +280,27 @@ function findUnstableVarByLine(
   return undefined;
 }
 
+/**
+ * Check if a Context.Provider value is recreated on every render.
+ * Identifiers follow the RLD-404 rule (bound to an unstable variable in the rendering
+ * component); inline object, array and function literals are always new.
+ */
+export function isUnstableProviderValue(
+  expression: t.Node,
+  unstableVars: Map<string, UnstableVariable>,
+  line: number
+): boolean {
+  if (t.isIdentifier(expression)) {
+    return findUnstableVarByLine(unstableVars, expression.name, line) !== undefined;
+  }
+  return (
+    t.isObjectExpression(expression) ||
+    t.isArrayExpression(expression) ||
+    t.isArrowFunctionExpression(expression) ||
+    t.isFunctionExpression(expression)
+  );
+}
+
 /**
  * Get the name of a JSX element (handles both simple and member expressions)
  */
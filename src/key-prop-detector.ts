@@ -0,0 +1,330 @@
+/**
+ * Key Prop Detector Module
+ *
+ * Detects `key` props that change between renders. React treats an element with a new key
+ * as a different element: it unmounts the old subtree and mounts a new one, resetting its
+ * state and re-running its mount effects.
+ *
+ * ```tsx
+ * <Row key={Math.random()} item={item} />   // New key (and a remount) on every render
+ * <Chart key={JSON.stringify(options)} />   // Remounts whenever any option changes
+ * ```
+ *
+ * When the remounted child updates the parent from a mount effect (through a callback prop),
+ * the parent re-renders, generates a new key and remounts the child again: a render loop.
+ */
+
+import * as t from '@babel/types';
+import traverse, { NodePath } from '@babel/traverse';
+import { HookAnalysis } from './types';
+import { ParsedFile } from './parser';
+import { findMountParentUpdates, MountParentUpdate } from './prop-flow-analyzer';
+import {
+  createAnalysis,
+  getConfidenceExplanation,
+  getMemberPath,
+  isHookIgnored,
+  isStrictModeEnabled,
+} from './utils';
+
+/** Calls that return a different value every time they are called */
+const PER_CALL_VALUES = new Set(['Math.random', 'Date.now', 'performance.now']);
+
+/** ID generators (uuid, nanoid, lodash, crypto): a new ID on every call */
+const ID_GENERATORS = new Set([
+  'uuid',
+  'uuidv4',
+  'v4',
+  'v1',
+  'nanoid',
+  'cuid',
+  'createId',
+  'ulid',
+  'uniqueId',
+  'randomUUID',
+]);
+
+/** What makes a key change */
+interface KeySource {
+  /** The call that produces the key, for messages: `Math.random()`, `JSON.stringify()` */
+  call: string;
+  /** 'per-render': a new value on every render; 'serialized': changes with the serialized value */
+  kind: 'per-render' | 'serialized';
+  /** Names the serialized value reads (empty for per-render keys) */
+  reads: Set<string>;
+}
+
+/**
+ * Collect the identifier names an expression reads.
+ */
+function getReadNames(node: t.Node): Set<string> {
+  const names = new Set<string>();
+  if (t.isIdentifier(node)) {
+    names.add(node.name);
+    return names;
+  }
+  traverse(node, {
+    noScope: true,
+    Identifier(idPath: NodePath<t.Identifier>) {
+      if (idPath.isReferencedIdentifier()) names.add(idPath.node.name);
+    },
+  });
+  return names;
+}
+
+/**
+ * Classify a single call: a per-call value (random, time, generated ID), a serialization,
+ * or neither.
+ */
+function classifyCall(node: t.Node): KeySource | null {
+  if (t.isNewExpression(node)) {
+    // new Date() reads the clock; new Date(value) is deterministic
+    if (t.isIdentifier(node.callee, { name: 'Date' }) && node.arguments.length === 0) {
+      return { call: 'new Date()', kind: 'per-render', reads: new Set() };
+    }
+    return null;
+  }
+  if (!t.isCallExpression(node)) return null;
+
+  const name = getMemberPath(node.callee);
+  if (!name) return null;
+  const lastPart = name.split('.').pop() as string;
+
+  if (PER_CALL_VALUES.has(name) || ID_GENERATORS.has(lastPart)) {
+    return { call: `${name}()`, kind: 'per-render', reads: new Set() };
+  }
+  if (name === 'JSON.stringify' && node.arguments[0]) {
+    return { call: 'JSON.stringify()', kind: 'serialized', reads: getReadNames(node.arguments[0]) };
+  }
+  return null;
+}
+
+/**
+ * Find what makes a key expression change, if anything. Values computed in nested functions
+ * or inside hooks (useMemo, useState initializers) are computed once and don't count.
+ */
+function findKeySource(node: t.Node): KeySource | null {
+  const sources: KeySource[] = [];
+  const own = classifyCall(node);
+  if (own) sources.push(own);
+
+  traverse(node, {
+    noScope: true,
+    Function(fnPath: NodePath<t.Function>) {
+      fnPath.skip();
+    },
+    CallExpression(callPath: NodePath<t.CallExpression>) {
+      if (/^use[A-Z]/.test(getMemberPath(callPath.node.callee)?.split('.').pop() ?? '')) {
+        callPath.skip();
+        return;
+      }
+      const source = classifyCall(callPath.node);
+      if (source) sources.push(source);
+    },
+    NewExpression(newPath: NodePath<t.NewExpression>) {
+      const source = classifyCall(newPath.node);
+      if (source) sources.push(source);
+    },
+  });
+
+  return sources.find((source) => source.kind === 'per-render') ?? sources[0] ?? null;
+}
+
+/**
+ * Resolve a key expression to what makes it change: the expression itself, or the
+ * initializer of a local `const key = ...` declared during render.
+ */
+function getKeySource(valuePath: NodePath<t.Expression>): KeySource | null {
+  const node = valuePath.node;
+  if (t.isLiteral(node) && !t.isTemplateLiteral(node)) return null;
+
+  if (t.isIdentifier(node)) {
+    const binding = valuePath.scope.getBinding(node.name);
+    const declarator = binding?.path.node;
+    // Module-level values are computed once
+    if (
+      !binding ||
+      !binding.scope.getFunctionParent() ||
+      !t.isVariableDeclarator(declarator) ||
+      !t.isIdentifier(declarator.id) ||
+      !declarator.init
+    ) {
+      return null;
+    }
+    return findKeySource(declarator.init);
+  }
+
+  return findKeySource(node);
+}
+
+/**
+ * Get the name of a JSX element for messages: `Row`, `List.Item`, `li`.
+ */
+function getElementName(name: t.JSXOpeningElement['name']): string {
+  if (t.isJSXIdentifier(name)) return name.name;
+  if (t.isJSXMemberExpression(name)) return `${getElementName(name.object)}.${name.property.name}`;
+  return `${name.namespace.name}:${name.name.name}`;
+}
+
+/**
+ * Detect `key` props that change between renders, and escalate them when the remounted
+ * child updates the parent from a mount effect.
+ *
+ * @param file - The file being analyzed
+ * @param stateInfo - Map of state variables to their setters in the file
+ * @param allParsedFiles - All parsed files, used to resolve imported child components
+ * @param localFunctionSetters - Map of local functions to the setters they call (transitively)
+ */
+export function detectUnstableKeys(
+  file: ParsedFile,
+  stateInfo: Map<string, string>,
+  allParsedFiles: ParsedFile[],
+  localFunctionSetters: Map<string, string[]> = new Map()
+): HookAnalysis[] {
+  const results: HookAnalysis[] = [];
+
+  traverse(file.ast, {
+    JSXAttribute(attrPath: NodePath<t.JSXAttribute>) {
+      const attr = attrPath.node;
+      if (!t.isJSXIdentifier(attr.name, { name: 'key' })) return;
+      if (
+        !t.isJSXExpressionContainer(attr.value) ||
+        t.isJSXEmptyExpression(attr.value.expression)
+      ) {
+        return;
+      }
+
+      const line = attr.loc?.start.line || 0;
+      if (isHookIgnored(file.content, line)) return;
+
+      const source = getKeySource(attrPath.get('value.expression') as NodePath<t.Expression>);
+      if (!source) return;
+
+      const elementPath = attrPath.parentPath as NodePath<t.JSXOpeningElement>;
+      const elementName = getElementName(elementPath.node.name);
+
+      // A serialized key only changes when the parent updates the state it serializes
+      const updates = findMountParentUpdates(
+        elementPath,
+        file,
+        stateInfo,
+        allParsedFiles,
+        localFunctionSetters
+      ).filter((update) => source.kind === 'per-render' || source.reads.has(update.stateVar));
+      const update = updates.find((candidate) => !candidate.isConditional) ?? updates[0];
+
+      results.push(
+        update
+          ? createRemountLoopAnalysis(file, line, attr.loc?.start.column, source, update)
+          : createUnstableKeyAnalysis(file, line, attr.loc?.start.column, source, elementName)
+      );
+    },
+  });
+
+  return results;
+}
+
+function createUnstableKeyAnalysis(
+  file: ParsedFile,
+  line: number,
+  column: number | undefined,
+  source: KeySource,
+  elementName: string
+): HookAnalysis {
+  const isPerRender = source.kind === 'per-render';
+  return createAnalysis({
+    type: 'potential-issue',
+    errorCode: 'RLD-413',
+    category: 'warning',
+    severity: isPerRender ? 'medium' : 'low',
+    confidence: isPerRender ? 'high' : 'medium',
+    hookType: 'jsx-key',
+    line,
+    column,
+    file: file.file,
+    problematicDependency: source.call,
+    stateVariable: undefined,
+    setterFunction: undefined,
+    actualStateModifications: [],
+    stateReads: [],
+    explanation: isPerRender
+      ? `The key of <${elementName}> comes from ${source.call}, which returns a new value on every render. ` +
+        `React treats each new key as a new element: it unmounts and remounts <${elementName}> after every render, ` +
+        `resetting its state and re-running its mount effects.`
+      : `The key of <${elementName}> is built with ${source.call}, so <${elementName}> is unmounted and remounted ` +
+        `whenever any part of the serialized value changes, and the value is serialized on every render.`,
+    suggestion: isPerRender
+      ? `Use a stable identifier from the data (e.g. key={item.id}). If the data has none, assign IDs once ` +
+        `when it is created or loaded, not during render.`
+      : `Key on a stable identifier (e.g. an id field). If the remount is intended, key on the specific ` +
+        `value that should reset <${elementName}>.`,
+  });
+}
+
+function createRemountLoopAnalysis(
+  file: ParsedFile,
+  line: number,
+  column: number | undefined,
+  source: KeySource,
+  update: MountParentUpdate
+): HookAnalysis {
+  const { childName, propName, setter, stateVar } = update;
+  const flow =
+    `<${childName}> is remounted with a new key, its ${update.hookType} (${update.childLocation}) ` +
+    `calls '${propName}' on mount, and the parent's handler calls '${setter}()'`;
+  const suggestion =
+    `Give <${childName}> a stable key (e.g. an id from the data) so it isn't remounted on every ` +
+    `parent render, and avoid notifying the parent from a mount effect.`;
+
+  if (source.kind === 'per-render' && !update.isConditional) {
+    return createAnalysis({
+      type: 'confirmed-infinite-loop',
+      errorCode: 'RLD-304',
+      category: 'critical',
+      severity: 'high',
+      confidence: 'high',
+      hookType: 'jsx-key',
+      line,
+      column,
+      file: file.file,
+      problematicDependency: source.call,
+      stateVariable: stateVar,
+      setterFunction: setter,
+      actualStateModifications: [setter],
+      stateReads: [],
+      explanation:
+        `Remount loop through an unstable key: the key comes from ${source.call}, ${flow}. ` +
+        `The update re-renders the parent, which generates a new key and remounts <${childName}> again.`,
+      suggestion,
+    });
+  }
+
+  const reason =
+    source.kind === 'per-render'
+      ? `The call or update is conditional - review that the condition eventually stops the cycle.`
+      : `The key serializes '${stateVar}', so this loops unless the update leaves the serialized value unchanged.`;
+  const confidenceContext = {
+    isConditional: update.isConditional,
+    isStrictMode: isStrictModeEnabled(),
+  };
+  return createAnalysis({
+    type: 'potential-issue',
+    errorCode: 'RLD-304',
+    category: 'warning',
+    severity: 'medium',
+    confidence: 'medium',
+    hookType: 'jsx-key',
+    line,
+    column,
+    file: file.file,
+    problematicDependency: source.call,
+    stateVariable: stateVar,
+    setterFunction: setter,
+    actualStateModifications: [setter],
+    stateReads: [],
+    explanation:
+      `Possible remount loop through the key built with ${source.call}: ${flow}. ${reason}` +
+      getConfidenceExplanation('medium', confidenceContext),
+    suggestion,
+  });
+}
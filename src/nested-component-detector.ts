@@ -0,0 +1,187 @@
+/**
+ * Nested Component Detector Module
+ *
+ * Detects components declared inside another component's body and rendered from it.
+ * The inner component is a new function (a new component type) on every render, so React
+ * unmounts and remounts its whole subtree each time: state is reset and mount effects
+ * run again. When a mount effect updates the parent, this becomes a render loop.
+ *
+ * @example
+ * ```tsx
+ * function List({ items }) {
+ *   const Row = ({ item }) => <li>{item.name}</li>; // New component type every render
+ *   return <ul>{items.map((item) => <Row key={item.id} item={item} />)}</ul>;
+ * }
+ * ```
+ */
+
+import * as t from '@babel/types';
+import traverse, { NodePath } from '@babel/traverse';
+import { HookAnalysis } from './types';
+import { isClassComponent } from './class-component-analyzer';
+import { createAnalysis, getComponentName, isHookIgnored } from './utils';
+
+/** A component declared inside another component */
+interface NestedComponent {
+  name: string;
+  line: number;
+  usesHooks: boolean;
+}
+
+/**
+ * Check if a function body calls hooks (useState, useEffect, custom useXxx, ...).
+ * Nested functions are skipped: their hook calls belong to other components.
+ */
+function callsHooks(fn: t.Function): boolean {
+  let found = false;
+
+  traverse(fn, {
+    noScope: true,
+    Function(fnPath: NodePath<t.Function>) {
+      fnPath.skip();
+    },
+    CallExpression(callPath: NodePath<t.CallExpression>) {
+      const callee = callPath.node.callee;
+      const name = t.isIdentifier(callee)
+        ? callee.name
+        : t.isMemberExpression(callee) && t.isIdentifier(callee.property)
+          ? callee.property.name
+          : null;
+      if (name && /^use[A-Z]/.test(name)) {
+        found = true;
+        callPath.stop();
+      }
+    },
+  });
+
+  return found;
+}
+
+/**
+ * Check if a component renders the given element, as JSX or via createElement().
+ */
+function rendersElement(componentPath: NodePath<t.Function>, name: string): boolean {
+  let found = false;
+
+  componentPath.traverse({
+    JSXOpeningElement(elementPath: NodePath<t.JSXOpeningElement>) {
+      if (t.isJSXIdentifier(elementPath.node.name, { name })) {
+        found = true;
+        elementPath.stop();
+      }
+    },
+    CallExpression(callPath: NodePath<t.CallExpression>) {
+      const callee = callPath.node.callee;
+      const isCreateElement =
+        t.isIdentifier(callee, { name: 'createElement' }) ||
+        (t.isMemberExpression(callee) &&
+          t.isIdentifier(callee.property, { name: 'createElement' }));
+      if (isCreateElement && t.isIdentifier(callPath.node.arguments[0], { name })) {
+        found = true;
+        callPath.stop();
+      }
+    },
+  });
+
+  return found;
+}
+
+/**
+ * Detect components declared inside another component and rendered from it.
+ *
+ * Only declarations directly in the outer component's render body count - a component
+ * created inside useMemo/useCallback or an event handler is left alone. Class components
+ * declared in the body are new classes on every render too.
+ *
+ * @param ast - The file AST
+ * @param filePath - Path to the file being analyzed
+ * @param fileContent - File content for comment detection
+ */
+export function detectNestedComponents(
+  ast: t.Node,
+  filePath: string,
+  fileContent?: string
+): HookAnalysis[] {
+  const results: HookAnalysis[] = [];
+  const nestedByOuter = new Map<NodePath<t.Function>, NestedComponent[]>();
+
+  const addNested = (componentPath: NodePath, nestedComponent: NestedComponent) => {
+    // The nearest enclosing function (past memo()/forwardRef() wrappers) must be a component
+    const outer = componentPath.getFunctionParent();
+    if (!outer || !getComponentName(outer)) return;
+
+    const nested = nestedByOuter.get(outer) ?? [];
+    nested.push(nestedComponent);
+    nestedByOuter.set(outer, nested);
+  };
+
+  traverse(ast, {
+    Function(fnPath: NodePath<t.Function>) {
+      const name = getComponentName(fnPath);
+      if (!name) return;
+
+      addNested(fnPath, {
+        name,
+        line: fnPath.node.loc?.start.line || 0,
+        usesHooks: callsHooks(fnPath.node),
+      });
+    },
+
+    Class(classPath: NodePath<t.Class>) {
+      if (!isClassComponent(classPath.node)) return;
+      const declarator = classPath.parent;
+      const name =
+        classPath.node.id?.name ??
+        (t.isVariableDeclarator(declarator) && t.isIdentifier(declarator.id)
+          ? declarator.id.name
+          : null);
+      if (!name || !/^[A-Z]/.test(name)) return;
+
+      addNested(classPath, {
+        name,
+        line: classPath.node.loc?.start.line || 0,
+        usesHooks: false,
+      });
+    },
+  });
+
+  for (const [outerPath, nestedComponents] of nestedByOuter) {
+    const outerName = getComponentName(outerPath);
+
+    for (const nested of nestedComponents) {
+      if (!rendersElement(outerPath, nested.name)) continue;
+      if (fileContent && isHookIgnored(fileContent, nested.line)) continue;
+
+      results.push(
+        createAnalysis({
+          type: 'potential-issue',
+          errorCode: 'RLD-408',
+          category: 'warning',
+          severity: nested.usesHooks ? 'high' : 'medium',
+          confidence: 'high',
+          hookType: 'nested-component',
+          line: nested.line,
+          file: filePath,
+          problematicDependency: nested.name,
+          stateVariable: undefined,
+          setterFunction: undefined,
+          actualStateModifications: [],
+          stateReads: [],
+          explanation:
+            `Component '${nested.name}' is declared inside '${outerName}' and rendered by it. ` +
+            `Every render of '${outerName}' creates a new '${nested.name}' component type, so React ` +
+            `unmounts and remounts its whole subtree` +
+            (nested.usesHooks
+              ? `: its state is reset and its mount effects run again on every render, ` +
+                `which loops if one of them updates '${outerName}'.`
+              : '.'),
+          suggestion:
+            `Move '${nested.name}' outside of '${outerName}' (to module level) and pass the ` +
+            `values it uses from '${outerName}' as props.`,
+        })
+      );
+    }
+  }
+
+  return results;
+}
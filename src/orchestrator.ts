@@ -6,11 +6,28 @@
  *
  * Detection modules:
  * - state-extractor.ts: State/ref/unstable variable extraction + stability heuristics
- * - render-phase-detector.ts: Render-phase setState detection
+ * - render-phase-detector.ts: Render-phase setState, ref mutation/read, use() promise and navigation update detection
  * - guard-analyzer.ts: Guard/condition analysis for safe patterns
  * - effect-analyzer.ts: useEffect/useLayoutEffect specific logic
  * - hook-analyzer.ts: Core hook node analysis
  * - unstable-refs-detector.ts: Unstable reference detection in dependency arrays
+ * - class-component-analyzer.ts: Class component lifecycle loops
+ * - effect-cascade-detector.ts: Update cycles spanning multiple effects
+ * - prop-flow-analyzer.ts: Parent/child loops through callback props
+ * - key-prop-detector.ts: Random/serialized keys that remount elements (and remount loops)
+ * - context-loop-detector.ts: Context provider/consumer feedback loops
+ * - custom-hook-summary.ts: Summaries of project-local custom hooks (stability, exposed setters)
+ * - reducer-analyzer.ts: useReducer reducer inspection for dispatch-in-effect classification
+ * - nested-component-detector.ts: Components declared inside other components
+ * - selector-analyzer.ts: Zustand/Redux selectors that return new references
+ * - atom-analyzer.ts: Jotai/Recoil atoms created during render
+ * - router-analyzer.ts: Effects that call fetcher.load()/navigate() while depending on router state
+ * - form-analyzer.ts: Effects that update React Hook Form fields they watch
+ * - server-component-detector.ts: Client hooks in Server Components and "use server" modules
+ * - stale-closure-detector.ts: Hook callbacks reading reactive values missing from their deps
+ * - async-race-detector.ts: Effects setting state after async work without cancellation
+ * - cleanup-leak-detector.ts: Effect subscriptions and timers without a matching cleanup
+ * - derived-state-detector.ts: Effects that only set state derived from their dependencies
  */
 
 import * as fs from 'fs';
@@ -33,12 +50,35 @@ import {
   isConfiguredDeferredFunction as _isConfiguredDeferredFunction,
   StabilityConfig,
 } from './state-extractor';
-import { detectSetStateDuringRender, detectRefMutationDuringRender } from './render-phase-detector';
+import {
+  detectSetStateDuringRender,
+  detectRefMutationDuringRender,
+  detectRefReadDuringRender,
+  detectUsePromiseDuringRender,
+  detectNavigationUpdateDuringRender,
+} from './render-phase-detector';
 import { detectUseEffectWithoutDeps, buildLocalFunctionSetterMap } from './effect-analyzer';
 import { findHookNodes, analyzeHookNode } from './hook-analyzer';
 import { checkUnstableReferences } from './unstable-refs-detector';
 import { analyzeJsxProps } from './jsx-prop-analyzer';
+import { detectNestedComponents } from './nested-component-detector';
+import { detectUnstableSelectors } from './selector-analyzer';
+import { detectAtomsInRender } from './atom-analyzer';
+import { detectRouterLoops } from './router-analyzer';
+import { detectFormLoops } from './form-analyzer';
+import { detectServerComponentHooks, getServerModuleKind } from './server-component-detector';
+import { detectStaleClosures } from './stale-closure-detector';
+import { detectAsyncEffectRaces } from './async-race-detector';
+import { detectMissingEffectCleanups } from './cleanup-leak-detector';
+import { detectDerivedStateEffects } from './derived-state-detector';
 import { detectUnstableSyncExternalStore } from './sync-external-store-detector';
+import { detectClassComponentIssues } from './class-component-analyzer';
+import { detectEffectCascades } from './effect-cascade-detector';
+import { detectCallbackPropLoops } from './prop-flow-analyzer';
+import { detectUnstableKeys } from './key-prop-detector';
+import { detectContextFeedbackLoops } from './context-loop-detector';
+import { getCustomHookSummaries } from './custom-hook-summary';
+import { getReducerSummaries } from './reducer-analyzer';
 import { setCurrentOptions, shouldLogToConsole } from './utils';
 
 // Re-export types for backward compatibility
@@ -207,23 +247,40 @@ function analyzeFileIntelligently(
     // Use the cached AST from ParsedFile instead of re-parsing
     const ast = file.ast;
 
-    // Extract state variables, their setters, and ref variables
-    const { stateVariables: stateInfo, refVariables: refVars } = extractStateInfo(ast);
+    // Server Components and "use server" modules never render on the client: report the
+    // client hooks they call instead of analyzing them for loops
+    const serverModuleKind = getServerModuleKind(ast, file.file);
+    if (serverModuleKind) {
+      return detectServerComponentHooks(ast, file.file, serverModuleKind, file.content);
+    }
 
-    // Get the appropriate type checker for this file
-    // If we have a pool (monorepo), get the checker for this specific file's tsconfig
-    // Otherwise, use the single type checker (single project mode)
-    const fileTypeChecker = typeCheckerPool?.getCheckerForFile(file.file) ?? typeChecker;
+    // Summarize the custom hooks this file can call (defined locally or imported)
+    const customHookSummaries = getCustomHookSummaries(file, allParsedFiles);
 
-    // Extract unstable local variables (objects, arrays, functions created in component body)
-    // Pass file path for type-aware stability checking in strict mode
+    // Configured stable/unstable hooks and presets take precedence over the summaries
     const stabilityConfig: StabilityConfig = {
       stableHooks: options.stableHooks,
       unstableHooks: options.unstableHooks,
       stableHookPatterns: options.stableHookPatterns,
       unstableHookPatterns: options.unstableHookPatterns,
       customFunctions: options.customFunctions,
+      customHookSummaries,
     };
+
+    // Extract state variables, their setters, and ref variables
+    const {
+      stateVariables: stateInfo,
+      refVariables: refVars,
+      deferredSetters,
+    } = extractStateInfo(ast, stabilityConfig);
+
+    // Get the appropriate type checker for this file
+    // If we have a pool (monorepo), get the checker for this specific file's tsconfig
+    // Otherwise, use the single type checker (single project mode)
+    const fileTypeChecker = typeCheckerPool?.getCheckerForFile(file.file) ?? typeChecker;
+
+    // Extract unstable local variables (objects, arrays, functions created in component body)
+    // Pass file path for type-aware stability checking in strict mode
     const unstableVars = extractUnstableVariables(ast, file.file, fileTypeChecker, stabilityConfig);
 
     // Check for setState during render (outside hooks/event handlers)
@@ -234,6 +291,23 @@ function analyzeFileIntelligently(
     const renderRefIssues = detectRefMutationDuringRender(ast, file.file, file.content);
     results.push(...renderRefIssues);
 
+    // Check for ref.current reads during render (stale output; lazy initialization is exempt)
+    const renderRefReadIssues = detectRefReadDuringRender(ast, file.file, file.content);
+    results.push(...renderRefReadIssues);
+
+    // Check for React 19 use() calls with promises created during render
+    const usePromiseIssues = detectUsePromiseDuringRender(
+      ast,
+      file.file,
+      file.content,
+      allParsedFiles
+    );
+    results.push(...usePromiseIssues);
+
+    // Check for React Navigation setOptions()/setParams() calls during render
+    const navigationUpdateIssues = detectNavigationUpdateDuringRender(ast, file.file, file.content);
+    results.push(...navigationUpdateIssues);
+
     // Check for useEffect without dependency array
     const noDepsIssues = detectUseEffectWithoutDeps(ast, stateInfo, file.file, file.content);
     results.push(...noDepsIssues);
@@ -250,6 +324,24 @@ function analyzeFileIntelligently(
     );
     results.push(...jsxPropIssues);
 
+    // Check for components declared inside other components (remounted on every render)
+    const nestedComponentIssues = detectNestedComponents(ast, file.file, file.content);
+    results.push(...nestedComponentIssues);
+
+    // Check for store selectors that return a new object/array on every call
+    const selectorIssues = detectUnstableSelectors(
+      ast,
+      file.file,
+      file.content,
+      stabilityConfig,
+      allParsedFiles
+    );
+    results.push(...selectorIssues);
+
+    // Check for atoms/selectors created during render (a new atom on every render)
+    const atomIssues = detectAtomsInRender(ast, file.file, file.content);
+    results.push(...atomIssues);
+
     // Check for unstable getSnapshot in useSyncExternalStore calls
     const syncExternalStoreIssues = detectUnstableSyncExternalStore(
       ast,
@@ -259,9 +351,65 @@ function analyzeFileIntelligently(
     );
     results.push(...syncExternalStoreIssues);
 
+    // Check class component lifecycles (render, componentDidUpdate, getDerivedStateFromProps)
+    const classComponentIssues = detectClassComponentIssues(ast, file.file, file.content);
+    results.push(...classComponentIssues);
+
     // Build map of local functions to the setters they call (for indirect modification detection)
     const localFunctionSetters = buildLocalFunctionSetterMap(ast, stateInfo);
 
+    // Resolve the reducers behind useReducer dispatch functions
+    const reducerSummaries = getReducerSummaries(file, allParsedFiles);
+
+    // Check for effects that load a fetcher or navigate while depending on router state
+    const routerIssues = detectRouterLoops(ast, file.file, file.content);
+    results.push(...routerIssues);
+
+    // Check for effects that setValue()/reset() a React Hook Form field they watch
+    const formIssues = detectFormLoops(ast, file.file, file.content);
+    results.push(...formIssues);
+
+    // Check for update cycles that span several effects in the same component
+    const cascadeIssues = detectEffectCascades(
+      ast,
+      stateInfo,
+      file.file,
+      file.content,
+      refVars,
+      localFunctionSetters,
+      reducerSummaries
+    );
+    results.push(...cascadeIssues);
+
+    // Check for parent/child loops through callback props (child effect calls parent handler)
+    const callbackPropIssues = detectCallbackPropLoops(
+      file,
+      stateInfo,
+      allParsedFiles,
+      localFunctionSetters
+    );
+    results.push(...callbackPropIssues);
+
+    // Check for keys that change on every render (remount loops when the child updates the parent)
+    const unstableKeyIssues = detectUnstableKeys(
+      file,
+      stateInfo,
+      allParsedFiles,
+      localFunctionSetters
+    );
+    results.push(...unstableKeyIssues);
+
+    // Check for consumer effects that update the provider of the context they depend on
+    const contextLoopIssues = detectContextFeedbackLoops(
+      file,
+      stateInfo,
+      unstableVars,
+      allParsedFiles,
+      fileTypeChecker,
+      stabilityConfig
+    );
+    results.push(...contextLoopIssues);
+
     // Analyze each hook
     const hookNodes = findHookNodes(ast);
 
@@ -286,12 +434,69 @@ function analyzeFileIntelligently(
         crossFileAnalysis,
         file.content,
         refVars,
-        localFunctionSetters
+        localFunctionSetters,
+        deferredSetters,
+        reducerSummaries
       );
       if (analysis) {
         results.push(analysis);
       }
     }
+
+    // Hooks with a loop reported above (confirmed, or a potential render/effect loop) get that
+    // report only: a loop matters more than the warnings below. Hooks with other findings
+    // (unstable dependencies, conditional updates) are still checked
+    const loopHooks = new Set(
+      results
+        .filter(
+          (issue) =>
+            issue.type === 'confirmed-infinite-loop' || /^RLD-[12]\d\d$/.test(issue.errorCode)
+        )
+        .map((issue) => `${issue.line}:${issue.hookType}`)
+    );
+    const isLoopHook = (issue: HookAnalysis) => loopHooks.has(`${issue.line}:${issue.hookType}`);
+
+    // Check for hook callbacks that read props/state missing from their dependency arrays
+    const staleClosureIssues = detectStaleClosures(
+      ast,
+      stateInfo,
+      stabilityConfig,
+      file.file,
+      file.content
+    );
+    results.push(...staleClosureIssues.filter((issue) => !isLoopHook(issue)));
+
+    // Check for effects that set state after await/.then() without cancelling stale requests
+    const asyncRaceIssues = detectAsyncEffectRaces(
+      ast,
+      stateInfo,
+      stabilityConfig,
+      file.file,
+      file.content,
+      localFunctionSetters
+    );
+    results.push(...asyncRaceIssues.filter((issue) => !isLoopHook(issue)));
+
+    // Check for effects that only copy values derived from their dependencies into state
+    const derivedStateIssues = detectDerivedStateEffects(
+      ast,
+      stateInfo,
+      refVars,
+      file.file,
+      file.content
+    );
+    results.push(...derivedStateIssues.filter((issue) => !isLoopHook(issue)));
+
+    // Check for effects that subscribe or start timers without undoing it in their cleanup.
+    // Reported alongside unstable dependencies, which turn the leak into one per render.
+    const cleanupLeakIssues = detectMissingEffectCleanups(
+      ast,
+      stateInfo,
+      unstableVars,
+      file.file,
+      file.content
+    );
+    results.push(...cleanupLeakIssues);
   } catch (error) {
     console.warn(`Could not parse ${file.file} for intelligent analysis:`, error);
   }
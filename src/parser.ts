@@ -49,6 +49,7 @@ export interface ParsedFile {
 const REACT_HOOKS = [
   'useEffect',
   'useLayoutEffect',
+  'useInsertionEffect',
   'useMemo',
   'useCallback',
   'useImperativeHandle',
@@ -245,7 +246,11 @@ function extractHookInfo(
   const args = path.node.arguments;
   let depsArray: t.ArrayExpression | null = null;
 
-  if (hookName === 'useEffect' || hookName === 'useLayoutEffect') {
+  if (
+    hookName === 'useEffect' ||
+    hookName === 'useLayoutEffect' ||
+    hookName === 'useInsertionEffect'
+  ) {
     if (args.length >= 2 && t.isArrayExpression(args[1])) {
       depsArray = args[1] as t.ArrayExpression;
     }
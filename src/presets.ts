@@ -5,6 +5,8 @@
  * automatically to reduce configuration burden for common libraries.
  */
 
+import type { EffectHookConfig } from './types';
+
 /**
  * Configuration for a library preset
  */
@@ -27,8 +29,13 @@ export interface LibraryPreset {
     {
       stable?: boolean;
       deferred?: boolean;
+      network?: boolean;
     }
   >;
+  /** Hooks that behave like useEffect, with how they compare their dependencies */
+  effectHooks?: Record<string, EffectHookConfig>;
+  /** Route files without "use client" are React Server Components (Next.js App Router) */
+  serverComponents?: boolean;
 }
 
 /**
@@ -90,6 +97,10 @@ export const LIBRARY_PRESETS: LibraryPreset[] = [
       'useFragment',
     ],
     unstableHooks: [],
+    customFunctions: {
+      // Query results expose fetchMore() next to refetch()
+      fetchMore: { network: true },
+    },
   },
   {
     name: 'RTK Query',
@@ -213,6 +224,11 @@ export const LIBRARY_PRESETS: LibraryPreset[] = [
       'useFormState',
     ],
     unstableHooks: [],
+    customFunctions: {
+      // Return the stored field values, not new objects
+      watch: { stable: true },
+      getValues: { stable: true },
+    },
   },
   {
     name: 'Formik',
@@ -224,6 +240,22 @@ export const LIBRARY_PRESETS: LibraryPreset[] = [
   // ============================================
   // Routing Libraries
   // ============================================
+  {
+    name: 'Next.js',
+    packages: ['next'],
+    stableHooks: [
+      'useRouter', // App Router instance is stable (next/navigation)
+      'usePathname',
+      'useSearchParams',
+      'useParams',
+      'useSelectedLayoutSegment',
+      'useSelectedLayoutSegments',
+      'useReportWebVitals',
+      'useServerInsertedHTML',
+    ],
+    unstableHooks: [],
+    serverComponents: true,
+  },
   {
     name: 'React Router',
     packages: ['react-router', 'react-router-dom'],
@@ -274,6 +306,28 @@ export const LIBRARY_PRESETS: LibraryPreset[] = [
     ],
     unstableHooks: [],
   },
+  {
+    name: 'React Navigation',
+    packages: [
+      '@react-navigation/native',
+      '@react-navigation/native-stack',
+      '@react-navigation/stack',
+      '@react-navigation/bottom-tabs',
+      '@react-navigation/drawer',
+    ],
+    stableHooks: [
+      'useNavigation', // Stable per screen; setOptions/setParams are analyzed separately
+      'useNavigationState',
+      'useIsFocused',
+      'useLinkTo',
+      'useLinkBuilder',
+      'useScrollToTop',
+      'useTheme',
+      'useHeaderHeight',
+      'useBottomTabBarHeight',
+    ],
+    unstableHooks: [],
+  },
   {
     name: 'Expo Router',
     packages: ['expo-router'],
@@ -292,8 +346,7 @@ export const LIBRARY_PRESETS: LibraryPreset[] = [
       'useSegments',
       'usePathname',
       'useUnstableGlobalHref',
-      // Focus/state hooks
-      'useFocusEffect',
+      // Focus hooks
       'useIsFocused',
     ],
     unstableHooks: [],
@@ -455,6 +508,12 @@ export const LIBRARY_PRESETS: LibraryPreset[] = [
       'useMeasure',
       'useScroll',
     ],
+    effectHooks: {
+      useUpdateEffect: { comparison: 'reference' },
+      useIsomorphicLayoutEffect: { comparison: 'reference' },
+      useDeepCompareEffect: { comparison: 'deep-equal' },
+      useShallowCompareEffect: { comparison: 'deep-equal' },
+    },
   },
   {
     name: 'usehooks-ts',
@@ -492,6 +551,31 @@ export const LIBRARY_PRESETS: LibraryPreset[] = [
       'useIntersectionObserver',
       'useResizeObserver',
     ],
+    effectHooks: {
+      useIsomorphicLayoutEffect: { comparison: 'reference' },
+    },
+  },
+  {
+    name: '@react-hookz/web',
+    packages: ['@react-hookz/web'],
+    stableHooks: [],
+    unstableHooks: [],
+    effectHooks: {
+      useUpdateEffect: { comparison: 'reference' },
+      useIsomorphicLayoutEffect: { comparison: 'reference' },
+      useDeepCompareEffect: { comparison: 'deep-equal' },
+      useDebouncedEffect: { comparison: 'debounced' },
+      useThrottledEffect: { comparison: 'debounced' },
+    },
+  },
+  {
+    name: 'use-deep-compare-effect',
+    packages: ['use-deep-compare-effect'],
+    stableHooks: [],
+    unstableHooks: [],
+    effectHooks: {
+      useDeepCompareEffect: { comparison: 'deep-equal' },
+    },
   },
   {
     name: '@uidotdev/usehooks',
@@ -555,13 +639,19 @@ export function mergePresets(presets: LibraryPreset[]): {
   unstableHooks: string[];
   stableHookPatterns: RegExp[];
   unstableHookPatterns: RegExp[];
-  customFunctions: Record<string, { stable?: boolean; deferred?: boolean }>;
+  customFunctions: Record<string, { stable?: boolean; deferred?: boolean; network?: boolean }>;
+  effectHooks: Record<string, EffectHookConfig>;
+  serverComponents: boolean;
 } {
   const stableHooks = new Set<string>();
   const unstableHooks = new Set<string>();
   const stableHookPatterns: RegExp[] = [];
   const unstableHookPatterns: RegExp[] = [];
-  const customFunctions: Record<string, { stable?: boolean; deferred?: boolean }> = {};
+  const customFunctions: Record<
+    string,
+    { stable?: boolean; deferred?: boolean; network?: boolean }
+  > = {};
+  const effectHooks: Record<string, EffectHookConfig> = {};
 
   for (const preset of presets) {
     for (const hook of preset.stableHooks) {
@@ -579,6 +669,9 @@ export function mergePresets(presets: LibraryPreset[]): {
     if (preset.customFunctions) {
       Object.assign(customFunctions, preset.customFunctions);
     }
+    if (preset.effectHooks) {
+      Object.assign(effectHooks, preset.effectHooks);
+    }
   }
 
   // Remove from stableHooks any that are explicitly in unstableHooks
@@ -593,6 +686,8 @@ export function mergePresets(presets: LibraryPreset[]): {
     stableHookPatterns,
     unstableHookPatterns,
     customFunctions,
+    effectHooks,
+    serverComponents: presets.some((preset) => preset.serverComponents === true),
   };
 }
 
@@ -0,0 +1,670 @@
+/**
+ * Prop Flow Analyzer Module
+ *
+ * Detects render loops that span a parent and a child component through callback props:
+ *
+ * ```tsx
+ * // Parent.tsx
+ * const [value, setValue] = useState('');
+ * <Field value={value} onChange={(v) => setValue(v)} />
+ *
+ * // Field.tsx
+ * function Field({ value, onChange }) {
+ *   useEffect(() => {
+ *     onChange(value.trim()); // parent sets state → Field re-renders → effect re-runs
+ *   }, [value, onChange]);
+ * }
+ * ```
+ *
+ * Child components (local or imported) are summarized once per file: which callback props
+ * each effect calls synchronously and which props it depends on. The parent side links
+ * each JSX attribute to the handler's state setters and reports a loop when the parent's
+ * update re-triggers the child effect - either through an unstable handler, a prop bound
+ * to the updated state, or an effect with no dependency array.
+ */
+
+import * as path from 'path';
+import * as t from '@babel/types';
+import traverse, { NodePath } from '@babel/traverse';
+import { HookAnalysis } from './types';
+import { ParsedFile } from './parser';
+import { analyzeSetStateCalls } from './control-flow';
+import {
+  createAnalysis,
+  findImportedFile,
+  getComponentName,
+  getConfidenceExplanation,
+  getEffectDependencyArray,
+  isConditionalInEffect,
+  isEffectHook,
+  isHookIgnored,
+  isStrictModeEnabled,
+} from './utils';
+
+/**
+ * A child effect that calls a callback prop during effect execution.
+ */
+interface CallbackPropEffect {
+  propName: string;
+  hookType: string;
+  effectLine: number;
+  callLine: number;
+  isConditional: boolean;
+  /** Props listed in the dependency array, or null when there is no dependency array */
+  dependencyProps: Set<string> | null;
+  /** True if the dependency array contains the whole props object */
+  dependsOnAllProps: boolean;
+}
+
+interface ChildComponentSummary {
+  name: string;
+  file: string;
+  content: string;
+  callbackEffects: CallbackPropEffect[];
+}
+
+/** How the parent's handler for a callback prop updates state */
+interface HandlerInfo {
+  /** False for inline functions and plain local functions (new identity every render) */
+  isStable: boolean;
+  /** Setter -> whether the handler calls it conditionally */
+  setters: Map<string, boolean>;
+}
+
+const summaryCache = new WeakMap<t.File, Map<string, ChildComponentSummary>>();
+
+/**
+ * Map local prop names to prop keys for a component.
+ * Handles `({ onChange, value: current })`, `(props)` and `const { onChange } = props`.
+ */
+function getPropBindings(fn: t.Function): {
+  locals: Map<string, string>;
+  propsName: string | null;
+} {
+  const locals = new Map<string, string>();
+  let propsName: string | null = null;
+
+  const addPattern = (pattern: t.ObjectPattern) => {
+    for (const prop of pattern.properties) {
+      if (!t.isObjectProperty(prop) || prop.computed || !t.isIdentifier(prop.key)) continue;
+      const value = t.isAssignmentPattern(prop.value) ? prop.value.left : prop.value;
+      if (t.isIdentifier(value)) {
+        locals.set(value.name, prop.key.name);
+      }
+    }
+  };
+
+  const firstParam = fn.params[0];
+  const param = t.isAssignmentPattern(firstParam) ? firstParam.left : firstParam;
+  if (t.isObjectPattern(param)) {
+    addPattern(param);
+  } else if (t.isIdentifier(param)) {
+    propsName = param.name;
+  }
+
+  if (propsName && t.isBlockStatement(fn.body)) {
+    for (const stmt of fn.body.body) {
+      if (!t.isVariableDeclaration(stmt)) continue;
+      for (const decl of stmt.declarations) {
+        if (t.isObjectPattern(decl.id) && t.isIdentifier(decl.init, { name: propsName })) {
+          addPattern(decl.id);
+        }
+      }
+    }
+  }
+
+  return { locals, propsName };
+}
+
+/**
+ * Resolve a callee or dependency expression to a prop key.
+ */
+function getPropKey(
+  node: t.Node,
+  locals: Map<string, string>,
+  propsName: string | null
+): string | null {
+  if (t.isIdentifier(node)) {
+    return locals.get(node.name) ?? null;
+  }
+  if (
+    (t.isMemberExpression(node) || t.isOptionalMemberExpression(node)) &&
+    propsName &&
+    t.isIdentifier(node.object, { name: propsName }) &&
+    t.isIdentifier(node.property) &&
+    !node.computed
+  ) {
+    return node.property.name;
+  }
+  return null;
+}
+
+/**
+ * Summarize the components in a file: which callback props their effects call.
+ * Results are cached per AST.
+ */
+function summarizeComponents(file: ParsedFile): Map<string, ChildComponentSummary> {
+  const cached = summaryCache.get(file.ast);
+  if (cached) return cached;
+
+  const summaries = new Map<string, ChildComponentSummary>();
+
+  traverse(file.ast, {
+    Function(fnPath: NodePath<t.Function>) {
+      const name = getComponentName(fnPath);
+      if (!name) return;
+
+      const { locals, propsName } = getPropBindings(fnPath.node);
+      if (locals.size === 0 && !propsName) return;
+
+      const callbackEffects: CallbackPropEffect[] = [];
+
+      fnPath.traverse({
+        CallExpression(effectPath: NodePath<t.CallExpression>) {
+          const callee = effectPath.node.callee;
+          if (!t.isIdentifier(callee) || !isEffectHook(callee.name)) return;
+          if (effectPath.getFunctionParent() !== fnPath) return;
+
+          const effectFn = effectPath.get('arguments.0') as NodePath;
+          if (!effectFn.isArrowFunctionExpression() && !effectFn.isFunctionExpression()) return;
+
+          // Dependencies mapped back to prop keys
+          const depsArg = getEffectDependencyArray(effectPath.node);
+          let dependencyProps: Set<string> | null = null;
+          let dependsOnAllProps = false;
+          if (t.isArrayExpression(depsArg)) {
+            dependencyProps = new Set();
+            for (const el of depsArg.elements) {
+              if (!el) continue;
+              if (propsName && t.isIdentifier(el, { name: propsName })) {
+                dependsOnAllProps = true;
+                continue;
+              }
+              const key = getPropKey(el, locals, propsName);
+              if (key) dependencyProps.add(key);
+            }
+          } else if (depsArg) {
+            return; // Non-literal dependency array - can't reason about it
+          }
+
+          effectFn.traverse({
+            'CallExpression|OptionalCallExpression'(callPath: NodePath) {
+              const call = callPath.node as t.CallExpression | t.OptionalCallExpression;
+              // Calls inside nested functions (timers, listeners, promise callbacks) are deferred
+              if (callPath.getFunctionParent() !== effectFn) return;
+
+              const propName = getPropKey(call.callee, locals, propsName);
+              if (!propName) return;
+
+              callbackEffects.push({
+                propName,
+                hookType: callee.name,
+                effectLine: effectPath.node.loc?.start.line || 0,
+                callLine: call.loc?.start.line || 0,
+                isConditional: isConditionalInEffect(
+                  callPath,
+                  effectFn as NodePath<t.ArrowFunctionExpression | t.FunctionExpression>
+                ),
+                dependencyProps,
+                dependsOnAllProps,
+              });
+            },
+          });
+        },
+      });
+
+      if (callbackEffects.length > 0) {
+        summaries.set(name, { name, file: file.file, content: file.content, callbackEffects });
+      }
+    },
+  });
+
+  summaryCache.set(file.ast, summaries);
+  return summaries;
+}
+
+/**
+ * Resolve a JSX component name to the summary of its definition (same file or imported).
+ */
+function resolveChildComponent(
+  componentName: string,
+  file: ParsedFile,
+  allParsedFiles: ParsedFile[]
+): ChildComponentSummary | null {
+  const local = summarizeComponents(file).get(componentName);
+  if (local) return local;
+
+  const imp = file.imports.find((i) => i.imports.includes(componentName));
+  if (!imp) return null;
+
+  const sourceFile = findImportedFile(file, imp, allParsedFiles);
+  if (!sourceFile) return null;
+
+  const importedName = imp.importedNames.get(componentName);
+  if (!importedName || importedName === '*') return null;
+
+  const summaries = summarizeComponents(sourceFile);
+  if (importedName === 'default') {
+    const defaultExport = sourceFile.exports.find((exp) => exp.isDefault);
+    if (!defaultExport) return null;
+    return summaries.get(defaultExport.name) ?? summaries.get('default') ?? null;
+  }
+
+  return summaries.get(importedName) ?? null;
+}
+
+/**
+ * Collect the state setters a handler function calls synchronously, and whether each is conditional.
+ */
+function getHandlerSetters(
+  fn: t.Node,
+  stateInfo: Map<string, string>,
+  localFunctionSetters: Map<string, string[]>
+): Map<string, boolean> {
+  const setters = new Map<string, boolean>();
+
+  try {
+    for (const [setter, analysis] of analyzeSetStateCalls(fn, stateInfo, [])) {
+      if (!analysis.isReachable) continue;
+      // Deferred calls (setTimeout etc.) don't update during the child's effect
+      if (analysis.hasEffectiveGuard && !analysis.guardAnalysis && analysis.paths.length === 0) {
+        continue;
+      }
+      setters.set(setter, !analysis.isUnconditional);
+    }
+  } catch {
+    // CFG building can fail on very unusual code patterns
+  }
+
+  // Handlers that delegate to local functions which call setters
+  traverse(fn, {
+    noScope: true,
+    CallExpression(callPath: NodePath<t.CallExpression>) {
+      if (!t.isIdentifier(callPath.node.callee)) return;
+      for (const setter of localFunctionSetters.get(callPath.node.callee.name) ?? []) {
+        if (!setters.has(setter)) setters.set(setter, true);
+      }
+    },
+  });
+
+  return setters;
+}
+
+/**
+ * Work out how a JSX attribute's handler updates parent state.
+ */
+function analyzeHandler(
+  valuePath: NodePath<t.Expression>,
+  stateInfo: Map<string, string>,
+  localFunctionSetters: Map<string, string[]>
+): HandlerInfo | null {
+  const setterNames = new Set(stateInfo.values());
+  const node = valuePath.node;
+
+  if (t.isArrowFunctionExpression(node) || t.isFunctionExpression(node)) {
+    return { isStable: false, setters: getHandlerSetters(node, stateInfo, localFunctionSetters) };
+  }
+
+  if (!t.isIdentifier(node)) return null;
+
+  // onChange={setValue} - setters have a stable identity
+  if (setterNames.has(node.name)) {
+    return { isStable: true, setters: new Map([[node.name, false]]) };
+  }
+
+  const binding = valuePath.scope.getBinding(node.name);
+  if (!binding) return null;
+
+  const decl = binding.path.node;
+  if (t.isFunctionDeclaration(decl)) {
+    return { isStable: false, setters: getHandlerSetters(decl, stateInfo, localFunctionSetters) };
+  }
+  if (!t.isVariableDeclarator(decl) || !decl.init) return null;
+
+  const init = decl.init;
+  if (t.isArrowFunctionExpression(init) || t.isFunctionExpression(init)) {
+    return { isStable: false, setters: getHandlerSetters(init, stateInfo, localFunctionSetters) };
+  }
+  if (
+    t.isCallExpression(init) &&
+    t.isIdentifier(init.callee, { name: 'useCallback' }) &&
+    init.arguments[0]
+  ) {
+    return {
+      isStable: true,
+      setters: getHandlerSetters(init.arguments[0], stateInfo, localFunctionSetters),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Get the state variables an attribute value reads (identifiers only).
+ */
+function getReferencedState(node: t.Node, stateNames: Set<string>): Set<string> {
+  const found = new Set<string>();
+  if (t.isIdentifier(node)) {
+    if (stateNames.has(node.name)) found.add(node.name);
+    return found;
+  }
+  traverse(node, {
+    noScope: true,
+    Identifier(idPath: NodePath<t.Identifier>) {
+      if (stateNames.has(idPath.node.name) && idPath.isReferencedIdentifier()) {
+        found.add(idPath.node.name);
+      }
+    },
+  });
+  return found;
+}
+
+/**
+ * Detect parent↔child render loops through callback props.
+ *
+ * @param file - The parent file being analyzed
+ * @param stateInfo - Map of state variables to their setters in the parent file
+ * @param allParsedFiles - All parsed files, used to resolve imported child components
+ * @param localFunctionSetters - Map of local functions to the setters they call (transitively)
+ */
+export function detectCallbackPropLoops(
+  file: ParsedFile,
+  stateInfo: Map<string, string>,
+  allParsedFiles: ParsedFile[],
+  localFunctionSetters: Map<string, string[]> = new Map()
+): HookAnalysis[] {
+  const results: HookAnalysis[] = [];
+  if (stateInfo.size === 0) return results;
+
+  const setterToState = new Map<string, string>();
+  stateInfo.forEach((setter, state) => setterToState.set(setter, state));
+  const stateNames = new Set(stateInfo.keys());
+
+  // Summarize same-file children before walking the JSX
+  summarizeComponents(file);
+
+  traverse(file.ast, {
+    JSXOpeningElement(elementPath: NodePath<t.JSXOpeningElement>) {
+      const nameNode = elementPath.node.name;
+      if (!t.isJSXIdentifier(nameNode) || !/^[A-Z]/.test(nameNode.name)) return;
+
+      const child = resolveChildComponent(nameNode.name, file, allParsedFiles);
+      if (!child) return;
+
+      // Props whose values read parent state
+      const stateBoundProps = new Map<string, Set<string>>();
+      for (const attr of elementPath.node.attributes) {
+        if (
+          t.isJSXAttribute(attr) &&
+          t.isJSXIdentifier(attr.name) &&
+          t.isJSXExpressionContainer(attr.value) &&
+          !t.isJSXEmptyExpression(attr.value.expression)
+        ) {
+          stateBoundProps.set(
+            attr.name.name,
+            getReferencedState(attr.value.expression, stateNames)
+          );
+        }
+      }
+
+      for (const attrPath of elementPath.get('attributes')) {
+        if (!attrPath.isJSXAttribute()) continue;
+        const attr = attrPath.node;
+        if (!t.isJSXIdentifier(attr.name) || !t.isJSXExpressionContainer(attr.value)) continue;
+
+        const propName = attr.name.name;
+        const effects = child.callbackEffects.filter((effect) => effect.propName === propName);
+        if (effects.length === 0) continue;
+
+        const line = attr.loc?.start.line || 0;
+        if (isHookIgnored(file.content, line)) continue;
+
+        const valuePath = attrPath.get('value.expression') as NodePath<t.Expression>;
+        const handler = analyzeHandler(valuePath, stateInfo, localFunctionSetters);
+        if (!handler || handler.setters.size === 0) continue;
+
+        for (const effect of effects) {
+          if (isHookIgnored(child.content, effect.effectLine)) continue;
+
+          for (const [setter, isHandlerConditional] of handler.setters) {
+            const stateVar = setterToState.get(setter);
+            if (!stateVar) continue;
+
+            const trigger = getRerunTrigger(effect, propName, handler, stateVar, stateBoundProps);
+            if (!trigger) continue;
+
+            results.push(
+              createCallbackLoopAnalysis({
+                file,
+                child,
+                effect,
+                line,
+                column: attr.loc?.start.column,
+                parentName: getEnclosingComponentName(elementPath),
+                childName: nameNode.name,
+                propName,
+                setter,
+                stateVar,
+                trigger,
+                isConditional: effect.isConditional || isHandlerConditional,
+              })
+            );
+            break; // One report per attribute/effect pair
+          }
+        }
+      }
+    },
+  });
+
+  return results;
+}
+
+/** A child effect that updates parent state through a callback prop when the child mounts */
+export interface MountParentUpdate {
+  childName: string;
+  /** Where the child effect is, relative to the parent file when it is in another file */
+  childLocation: string;
+  hookType: string;
+  propName: string;
+  setter: string;
+  stateVar: string;
+  isConditional: boolean;
+}
+
+/**
+ * Find the parent state a child element updates from its effects when it mounts.
+ * Every effect runs on mount whatever its dependencies, so a child that is remounted on
+ * each parent render (e.g. through an unstable `key`) calls these handlers every time.
+ *
+ * @param elementPath - The JSX element rendering the child
+ * @param file - The parent file
+ * @param stateInfo - Map of state variables to their setters in the parent file
+ * @param allParsedFiles - All parsed files, used to resolve imported child components
+ * @param localFunctionSetters - Map of local functions to the setters they call (transitively)
+ */
+export function findMountParentUpdates(
+  elementPath: NodePath<t.JSXOpeningElement>,
+  file: ParsedFile,
+  stateInfo: Map<string, string>,
+  allParsedFiles: ParsedFile[],
+  localFunctionSetters: Map<string, string[]> = new Map()
+): MountParentUpdate[] {
+  const updates: MountParentUpdate[] = [];
+  const nameNode = elementPath.node.name;
+  if (stateInfo.size === 0 || !t.isJSXIdentifier(nameNode) || !/^[A-Z]/.test(nameNode.name)) {
+    return updates;
+  }
+
+  const child = resolveChildComponent(nameNode.name, file, allParsedFiles);
+  if (!child) return updates;
+
+  const setterToState = new Map<string, string>();
+  stateInfo.forEach((setter, state) => setterToState.set(setter, state));
+
+  for (const attrPath of elementPath.get('attributes')) {
+    if (!attrPath.isJSXAttribute()) continue;
+    const attr = attrPath.node;
+    if (!t.isJSXIdentifier(attr.name) || !t.isJSXExpressionContainer(attr.value)) continue;
+
+    const propName = attr.name.name;
+    const effects = child.callbackEffects.filter((effect) => effect.propName === propName);
+    if (effects.length === 0) continue;
+
+    const valuePath = attrPath.get('value.expression') as NodePath<t.Expression>;
+    const handler = analyzeHandler(valuePath, stateInfo, localFunctionSetters);
+    if (!handler) continue;
+
+    for (const effect of effects) {
+      if (isHookIgnored(child.content, effect.effectLine)) continue;
+
+      for (const [setter, isHandlerConditional] of handler.setters) {
+        const stateVar = setterToState.get(setter);
+        if (!stateVar) continue;
+        updates.push({
+          childName: nameNode.name,
+          childLocation: getChildLocation(file, child, effect),
+          hookType: effect.hookType,
+          propName,
+          setter,
+          stateVar,
+          isConditional: effect.isConditional || isHandlerConditional,
+        });
+      }
+    }
+  }
+
+  return updates;
+}
+
+/**
+ * Describe where a child effect is: a line in the same file, or a relative path and line.
+ */
+function getChildLocation(
+  file: ParsedFile,
+  child: ChildComponentSummary,
+  effect: CallbackPropEffect
+): string {
+  return child.file === file.file
+    ? `line ${effect.effectLine}`
+    : `${path.relative(path.dirname(file.file), child.file)}:${effect.effectLine}`;
+}
+
+/**
+ * Work out why the parent's state update would make the child effect run again.
+ * Returns a human-readable reason, or null if the effect wouldn't re-run.
+ */
+function getRerunTrigger(
+  effect: CallbackPropEffect,
+  propName: string,
+  handler: HandlerInfo,
+  stateVar: string,
+  stateBoundProps: Map<string, Set<string>>
+): { dependency: string; reason: string } | null {
+  if (!effect.dependencyProps) {
+    return {
+      dependency: propName,
+      reason: `the child effect has no dependency array, so it runs after every render`,
+    };
+  }
+
+  if (!handler.isStable && (effect.dependsOnAllProps || effect.dependencyProps.has(propName))) {
+    return {
+      dependency: propName,
+      reason: `'${propName}' is recreated on every parent render and is listed in the child effect's dependencies`,
+    };
+  }
+
+  for (const [boundProp, states] of stateBoundProps) {
+    if (!states.has(stateVar)) continue;
+    if (effect.dependsOnAllProps || effect.dependencyProps.has(boundProp)) {
+      return {
+        dependency: boundProp,
+        reason: `the child effect depends on '${boundProp}', which the parent derives from '${stateVar}'`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the name of the component that renders a JSX element.
+ */
+function getEnclosingComponentName(elementPath: NodePath): string {
+  let fnPath = elementPath.getFunctionParent();
+  while (fnPath) {
+    const name = getComponentName(fnPath);
+    if (name) return name;
+    fnPath = fnPath.parentPath?.getFunctionParent() ?? null;
+  }
+  return 'parent component';
+}
+
+function createCallbackLoopAnalysis(params: {
+  file: ParsedFile;
+  child: ChildComponentSummary;
+  effect: CallbackPropEffect;
+  line: number;
+  column?: number;
+  parentName: string;
+  childName: string;
+  propName: string;
+  setter: string;
+  stateVar: string;
+  trigger: { dependency: string; reason: string };
+  isConditional: boolean;
+}): HookAnalysis {
+  const { file, child, effect, line, parentName, childName, propName, setter, stateVar } = params;
+
+  const childLocation = getChildLocation(file, child, effect);
+
+  const flow =
+    `${childName}'s ${effect.hookType} (${childLocation}) calls '${propName}', ` +
+    `${parentName}'s handler (line ${line}) calls '${setter}()', and ${params.trigger.reason}`;
+
+  const suggestion =
+    `Avoid notifying the parent from an effect: call '${propName}' from the event that caused the change, ` +
+    `lift the state into ${parentName}, or guard the call so it only fires when the value actually differs.`;
+
+  if (!params.isConditional) {
+    return createAnalysis({
+      type: 'confirmed-infinite-loop',
+      errorCode: 'RLD-302',
+      category: 'critical',
+      severity: 'high',
+      confidence: 'high',
+      hookType: effect.hookType,
+      line,
+      column: params.column,
+      file: file.file,
+      problematicDependency: params.trigger.dependency,
+      stateVariable: stateVar,
+      setterFunction: setter,
+      actualStateModifications: [setter],
+      stateReads: [],
+      explanation: `Parent/child render loop through the '${propName}' callback prop: ${flow}. Each update re-runs the effect, which updates the parent again.`,
+      suggestion,
+    });
+  }
+
+  const confidenceContext = { isConditional: true, isStrictMode: isStrictModeEnabled() };
+  const confidenceExplanation = getConfidenceExplanation('medium', confidenceContext);
+  return createAnalysis({
+    type: 'potential-issue',
+    errorCode: 'RLD-302',
+    category: 'warning',
+    severity: 'medium',
+    confidence: 'medium',
+    hookType: effect.hookType,
+    line,
+    column: params.column,
+    file: file.file,
+    problematicDependency: params.trigger.dependency,
+    stateVariable: stateVar,
+    setterFunction: setter,
+    actualStateModifications: [setter],
+    stateReads: [],
+    explanation: `Possible parent/child render loop through the '${propName}' callback prop: ${flow}. The call or update is conditional - review that the condition eventually stops the cycle.${confidenceExplanation}`,
+    suggestion,
+  });
+}
@@ -0,0 +1,374 @@
+/**
+ * Reducer Analyzer Module
+ *
+ * `useReducer` state is tracked like `useState`, but whether `dispatch()` changes state
+ * is decided by the reducer. React bails out of the re-render when the reducer returns
+ * the current state object, so this is safe:
+ *
+ * ```tsx
+ * function reducer(state, action) {
+ *   switch (action.type) {
+ *     case 'sync':
+ *       return state;                    // unchanged - no re-render
+ *     case 'increment':
+ *       return { ...state, count: state.count + 1 }; // new object - re-render
+ *   }
+ * }
+ *
+ * useEffect(() => { dispatch({ type: 'sync' }); }, [state]); // safe
+ * ```
+ *
+ * This module resolves the reducer passed to `useReducer` (inline, local or imported),
+ * classifies each action type by what its case returns, and classifies the dispatch
+ * calls of an effect from that.
+ */
+
+import * as t from '@babel/types';
+import traverse, { NodePath } from '@babel/traverse';
+import { ParsedFile } from './parser';
+import { findImportedFile } from './utils';
+
+/**
+ * What a reducer returns for an action:
+ * - unchanged: always the current state object
+ * - new: always a new value (object literal, spread, array, ...)
+ * - guarded: the current state on some paths, a new value on others
+ */
+export type ReducerOutcome = 'unchanged' | 'new' | 'guarded';
+
+export interface ReducerSummary {
+  reducerName: string;
+  file: string;
+  line: number;
+  /** Outcome per action type (the string literal compared against `action.type`) */
+  cases: Map<string, ReducerOutcome>;
+  /** Outcome for action types without their own case (`default:` or the final return) */
+  defaultOutcome: ReducerOutcome | null;
+}
+
+/** Reducer summaries per file, keyed by AST so re-analysis reuses them */
+const reducerCache = new WeakMap<t.File, Map<string, ReducerSummary>>();
+
+type ReducerFunction = t.FunctionDeclaration | t.ArrowFunctionExpression | t.FunctionExpression;
+
+/**
+ * Find a top-level function by name (`function x() {}` or `const x = () => {}`),
+ * optionally exported. `default` resolves the default export.
+ */
+function findTopLevelFunction(ast: t.File, name: string): ReducerFunction | null {
+  for (const statement of ast.program.body) {
+    if (name === 'default' && t.isExportDefaultDeclaration(statement)) {
+      const declaration = statement.declaration;
+      if (t.isFunctionDeclaration(declaration) || t.isArrowFunctionExpression(declaration)) {
+        return declaration;
+      }
+      if (t.isIdentifier(declaration)) return findTopLevelFunction(ast, declaration.name);
+      continue;
+    }
+
+    const declaration = t.isExportNamedDeclaration(statement) ? statement.declaration : statement;
+    if (t.isFunctionDeclaration(declaration) && declaration.id?.name === name) {
+      return declaration;
+    }
+    if (t.isVariableDeclaration(declaration)) {
+      for (const declarator of declaration.declarations) {
+        const init = declarator.init;
+        if (
+          t.isIdentifier(declarator.id, { name }) &&
+          (t.isArrowFunctionExpression(init) || t.isFunctionExpression(init))
+        ) {
+          return init;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolve the reducer passed to useReducer: inline, defined in this file, or imported.
+ */
+function resolveReducer(
+  file: ParsedFile,
+  reducerArg: t.Node | undefined,
+  allParsedFiles: ParsedFile[]
+): { fn: ReducerFunction; name: string; file: ParsedFile } | null {
+  if (t.isArrowFunctionExpression(reducerArg) || t.isFunctionExpression(reducerArg)) {
+    return { fn: reducerArg, name: 'reducer', file };
+  }
+  if (!t.isIdentifier(reducerArg)) return null;
+
+  const localName = reducerArg.name;
+  const imp = file.imports.find((i) => i.imports.includes(localName));
+  if (!imp) {
+    const fn = findTopLevelFunction(file.ast, localName);
+    return fn ? { fn, name: localName, file } : null;
+  }
+
+  const sourceFile = findImportedFile(file, imp, allParsedFiles);
+  const importedName = imp.importedNames.get(localName) ?? localName;
+  if (!sourceFile || importedName === '*') return null;
+  const fn = findTopLevelFunction(sourceFile.ast, importedName);
+  return fn ? { fn, name: localName, file: sourceFile } : null;
+}
+
+/**
+ * Classify the values returned by a block of reducer code.
+ * Returns null when the block doesn't return (e.g. a fall-through case).
+ */
+function classifyReturns(nodes: t.Node[], stateParam: string): ReducerOutcome | null {
+  let returnsState = false;
+  let returnsNew = false;
+
+  for (const node of nodes) {
+    const check = (argument: t.Node | null | undefined): void => {
+      if (t.isConditionalExpression(argument)) {
+        // cond ? state : { ...state, x } - one branch of each
+        check(argument.consequent);
+        check(argument.alternate);
+      } else if (t.isIdentifier(argument, { name: stateParam })) {
+        returnsState = true;
+      } else {
+        returnsNew = true;
+      }
+    };
+
+    if (t.isReturnStatement(node)) {
+      check(node.argument);
+      continue;
+    }
+
+    traverse(node, {
+      noScope: true,
+      Function(fnPath: NodePath<t.Function>) {
+        fnPath.skip(); // returns of nested callbacks don't return from the reducer
+      },
+      ReturnStatement(returnPath: NodePath<t.ReturnStatement>) {
+        check(returnPath.node.argument);
+      },
+    });
+  }
+
+  if (returnsState && returnsNew) return 'guarded';
+  if (returnsState) return 'unchanged';
+  if (returnsNew) return 'new';
+  return null;
+}
+
+/**
+ * Check if a switch case can `break` out of the switch. Breaks inside nested loops,
+ * switches and functions target those instead.
+ */
+function breaksOutOfSwitch(nodes: t.Node[]): boolean {
+  let found = false;
+  for (const node of nodes) {
+    if (t.isBreakStatement(node) && !node.label) return true;
+    traverse(node, {
+      noScope: true,
+      'Function|Loop|SwitchStatement'(innerPath: NodePath) {
+        innerPath.skip();
+      },
+      BreakStatement(breakPath: NodePath<t.BreakStatement>) {
+        if (!breakPath.node.label) {
+          found = true;
+          breakPath.stop();
+        }
+      },
+    });
+    if (found) return true;
+  }
+  return false;
+}
+
+/**
+ * Get the action type a condition tests: `action.type === 'x'` or `type === 'x'`.
+ */
+function getTestedActionType(test: t.Node, isActionType: (node: t.Node) => boolean): string | null {
+  if (!t.isBinaryExpression(test) || (test.operator !== '===' && test.operator !== '==')) {
+    return null;
+  }
+  if (isActionType(test.left) && t.isStringLiteral(test.right)) return test.right.value;
+  if (isActionType(test.right) && t.isStringLiteral(test.left)) return test.left.value;
+  return null;
+}
+
+/**
+ * Summarize a reducer: `switch (action.type)` cases and `if (action.type === ...)` chains.
+ */
+function summarizeReducer(fn: ReducerFunction, name: string, filePath: string): ReducerSummary {
+  const summary: ReducerSummary = {
+    reducerName: name,
+    file: filePath,
+    line: fn.loc?.start.line || 0,
+    cases: new Map(),
+    defaultOutcome: null,
+  };
+
+  const [stateParam, actionParam] = fn.params;
+  if (!t.isIdentifier(stateParam) || !t.isBlockStatement(fn.body)) return summary;
+
+  // action.type, or `type` when the action is destructured: (state, { type }) => ...
+  let typeBinding: string | null = null;
+  if (t.isObjectPattern(actionParam)) {
+    const typeProp = actionParam.properties.find(
+      (prop) => t.isObjectProperty(prop) && t.isIdentifier(prop.key, { name: 'type' })
+    );
+    if (typeProp && t.isObjectProperty(typeProp) && t.isIdentifier(typeProp.value)) {
+      typeBinding = typeProp.value.name;
+    }
+  }
+  const isActionType = (node: t.Node): boolean =>
+    (typeBinding !== null && t.isIdentifier(node, { name: typeBinding })) ||
+    (t.isIdentifier(actionParam) &&
+      t.isMemberExpression(node) &&
+      t.isIdentifier(node.object, { name: actionParam.name }) &&
+      t.isIdentifier(node.property, { name: 'type' }));
+
+  // A case that breaks out of the switch returns whatever the final return does
+  const lastStatement = fn.body.body[fn.body.body.length - 1];
+  const finalReturn = t.isReturnStatement(lastStatement) ? [lastStatement] : [];
+
+  for (const statement of fn.body.body) {
+    if (t.isSwitchStatement(statement) && isActionType(statement.discriminant)) {
+      // Empty fall-through cases share the outcome of the next case. Cases with code
+      // but no return (mutation + break) stay unknown unless a final return follows.
+      let pendingTypes: string[] = [];
+      let pendingDefault = false;
+      for (const switchCase of statement.cases) {
+        if (switchCase.test === null || switchCase.test === undefined) {
+          pendingDefault = true;
+        } else if (t.isStringLiteral(switchCase.test)) {
+          pendingTypes.push(switchCase.test.value);
+        }
+        if (switchCase.consequent.length === 0) continue;
+
+        const outcome = classifyReturns(
+          breaksOutOfSwitch(switchCase.consequent)
+            ? [...switchCase.consequent, ...finalReturn]
+            : switchCase.consequent,
+          stateParam.name
+        );
+        if (!outcome) {
+          pendingTypes = [];
+          pendingDefault = false;
+          continue;
+        }
+        for (const type of pendingTypes) summary.cases.set(type, outcome);
+        if (pendingDefault) summary.defaultOutcome = outcome;
+        pendingTypes = [];
+        pendingDefault = false;
+      }
+      continue;
+    }
+
+    if (t.isIfStatement(statement)) {
+      // if (action.type === 'a') {...} else if (action.type === 'b') {...} else {...}
+      let current: t.Statement | null | undefined = statement;
+      while (t.isIfStatement(current)) {
+        const type = getTestedActionType(current.test, isActionType);
+        if (!type) break;
+        const outcome = classifyReturns([current.consequent], stateParam.name);
+        if (outcome && !summary.cases.has(type)) summary.cases.set(type, outcome);
+        current = current.alternate;
+      }
+      if (current && !t.isIfStatement(current) && summary.defaultOutcome === null) {
+        summary.defaultOutcome = classifyReturns([current], stateParam.name);
+      }
+      continue;
+    }
+
+    // A final return after the cases handles every other action type
+    if (t.isReturnStatement(statement) && summary.defaultOutcome === null) {
+      summary.defaultOutcome = classifyReturns([statement], stateParam.name);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Summarize the reducers used by a file's useReducer calls, keyed by the dispatch name:
+ * `const [state, dispatch] = useReducer(reducer, initialState)`.
+ */
+export function getReducerSummaries(
+  file: ParsedFile,
+  allParsedFiles: ParsedFile[]
+): Map<string, ReducerSummary> {
+  const cached = reducerCache.get(file.ast);
+  if (cached) return cached;
+
+  const summaries = new Map<string, ReducerSummary>();
+
+  traverse(file.ast, {
+    VariableDeclarator(nodePath: NodePath<t.VariableDeclarator>) {
+      const { id, init } = nodePath.node;
+      if (
+        !t.isArrayPattern(id) ||
+        !t.isCallExpression(init) ||
+        !t.isIdentifier(init.callee, { name: 'useReducer' })
+      ) {
+        return;
+      }
+
+      const dispatch = id.elements[1];
+      if (!t.isIdentifier(dispatch)) return;
+
+      const reducer = resolveReducer(file, init.arguments[0], allParsedFiles);
+      if (!reducer) return;
+
+      summaries.set(dispatch.name, summarizeReducer(reducer.fn, reducer.name, reducer.file.file));
+    },
+  });
+
+  reducerCache.set(file.ast, summaries);
+  return summaries;
+}
+
+/**
+ * Classify the dispatch calls made in a hook body using the reducer summary.
+ * The most dangerous outcome wins (new > guarded > unchanged). Returns null when an
+ * action type can't be determined, so the caller falls back to treating dispatch
+ * like any other setter.
+ */
+export function classifyDispatchCalls(
+  hookBody: t.Node,
+  dispatchName: string,
+  summary: ReducerSummary
+): { outcome: ReducerOutcome; actionTypes: string[] } | null {
+  const outcomes: ReducerOutcome[] = [];
+  const actionTypes: string[] = [];
+  let isResolvable = true;
+
+  traverse(hookBody, {
+    noScope: true,
+    CallExpression(callPath: NodePath<t.CallExpression>) {
+      if (!t.isIdentifier(callPath.node.callee, { name: dispatchName })) return;
+
+      const action = callPath.node.arguments[0];
+      const typeProp = t.isObjectExpression(action)
+        ? action.properties.find(
+            (prop): prop is t.ObjectProperty =>
+              t.isObjectProperty(prop) && t.isIdentifier(prop.key, { name: 'type' })
+          )
+        : undefined;
+      const actionType = t.isStringLiteral(typeProp?.value) ? typeProp.value.value : null;
+      const outcome = actionType ? (summary.cases.get(actionType) ?? summary.defaultOutcome) : null;
+
+      if (!actionType || !outcome) {
+        isResolvable = false;
+        return;
+      }
+      actionTypes.push(actionType);
+      outcomes.push(outcome);
+    },
+  });
+
+  if (!isResolvable || outcomes.length === 0) return null;
+
+  const outcome: ReducerOutcome = outcomes.includes('new')
+    ? 'new'
+    : outcomes.includes('guarded')
+      ? 'guarded'
+      : 'unchanged';
+  return { outcome, actionTypes };
+}
@@ -4,6 +4,9 @@
  * Detects problematic patterns during the render phase:
  * 1. setState calls (outside hooks, event handlers, callbacks) - causes infinite loops
  * 2. ref.current mutations - violates React's concurrent mode expectations
+ * 3. ref.current reads - stale output, inconsistent under concurrent rendering
+ * 4. React 19 use() with a promise created during render - suspends forever
+ * 5. navigation.setOptions()/setParams() (React Navigation) - updates the navigator while rendering
  *
  * @example
  * ```tsx
@@ -30,12 +33,17 @@
 import * as t from '@babel/types';
 import traverse, { NodePath } from '@babel/traverse';
 import { HookAnalysis } from './types';
-import { isHookIgnored, createAnalysis } from './utils';
+import { ParsedFile } from './parser';
+import {
+  COMPONENT_WRAPPERS,
+  isHookIgnored,
+  createAnalysis,
+  findImportedInit,
+  getCalleeName,
+  getNavigationUpdateCallName,
+} from './utils';
 import { analyzeRenderPhaseGuard } from './guard-analyzer';
 
-/** React HOCs that wrap component functions */
-const REACT_COMPONENT_WRAPPERS = new Set(['memo', 'forwardRef']);
-
 /**
  * Extract the component function from a VariableDeclarator's init.
  * Handles:
@@ -63,7 +71,7 @@ function getComponentFunctionPath(
     let isWrapper = false;
 
     // Check for `memo(...)` or `forwardRef(...)`
-    if (t.isIdentifier(callee) && REACT_COMPONENT_WRAPPERS.has(callee.name)) {
+    if (t.isIdentifier(callee) && COMPONENT_WRAPPERS.has(callee.name)) {
       isWrapper = true;
     }
     // Check for `React.memo(...)` or `React.forwardRef(...)`
@@ -72,7 +80,7 @@ function getComponentFunctionPath(
       t.isIdentifier(callee.object) &&
       callee.object.name === 'React' &&
       t.isIdentifier(callee.property) &&
-      REACT_COMPONENT_WRAPPERS.has(callee.property.name)
+      COMPONENT_WRAPPERS.has(callee.property.name)
     ) {
       isWrapper = true;
     }
@@ -547,3 +555,607 @@ function checkComponentBodyForRefMutation(
     },
   });
 }
+
+/**
+ * Detect ref.current reads during render (outside hooks, event handlers, callbacks).
+ * Refs aren't part of React's rendering data flow: a ref written in an effect or handler
+ * doesn't trigger a render, so output computed from it shows the previous value, and
+ * concurrent renders can read different values for the same commit.
+ *
+ * Refs that always hold the same value during render are exempt:
+ * - lazy initialization: `if (ref.current === null) ref.current = new Player()`
+ * - refs that are never written or passed anywhere (they keep their initial value)
+ *
+ * @example
+ * ```tsx
+ * function Video() {
+ *   const playingRef = useRef(false);
+ *   return <p>{playingRef.current ? 'Playing' : 'Paused'}</p>; // Stale after a handler writes it
+ * }
+ * ```
+ */
+export function detectRefReadDuringRender(
+  ast: t.Node,
+  filePath: string,
+  fileContent?: string
+): HookAnalysis[] {
+  const results: HookAnalysis[] = [];
+
+  traverse(ast, {
+    FunctionDeclaration(funcPath: NodePath<t.FunctionDeclaration>) {
+      const funcName = funcPath.node.id?.name;
+      if (!funcName || !/^[A-Z]/.test(funcName)) return; // Not a component
+
+      checkComponentBodyForRefRead(funcPath, filePath, fileContent, results);
+    },
+
+    VariableDeclarator(varPath: NodePath<t.VariableDeclarator>) {
+      if (!t.isIdentifier(varPath.node.id) || !/^[A-Z]/.test(varPath.node.id.name)) return;
+
+      const funcPath = getComponentFunctionPath(varPath);
+      if (!funcPath) return;
+
+      checkComponentBodyForRefRead(funcPath, filePath, fileContent, results);
+    },
+  });
+
+  return results;
+}
+
+/** Array methods that call their callback right away: during render when called in render */
+const SYNC_CALLBACK_ARRAY_METHODS = new Set([
+  'map',
+  'flatMap',
+  'filter',
+  'forEach',
+  'reduce',
+  'find',
+  'findIndex',
+  'some',
+  'every',
+  'sort',
+  'toSorted',
+]);
+
+/**
+ * Check if a node runs while the component renders: directly in its body, or in a callback
+ * the body calls right away (`items.map((item) => ...)`, an IIFE).
+ */
+function runsDuringRender(nodePath: NodePath, componentPath: NodePath<t.Function>): boolean {
+  let fnPath = nodePath.getFunctionParent();
+  while (fnPath && fnPath !== componentPath) {
+    const call = fnPath.parentPath;
+    if (!call?.isCallExpression()) return false;
+    const isIife = call.node.callee === fnPath.node;
+    const isArrayCallback =
+      fnPath.listKey === 'arguments' &&
+      t.isMemberExpression(call.node.callee) &&
+      SYNC_CALLBACK_ARRAY_METHODS.has(getCalleeName(call.node) ?? '');
+    if (!isIife && !isArrayCallback) return false;
+    fnPath = fnPath.getFunctionParent();
+  }
+  return fnPath === componentPath;
+}
+
+/**
+ * Check if a node is `ref.current` for the given ref.
+ */
+function isRefCurrent(node: t.Node, refName: string): boolean {
+  return (
+    t.isMemberExpression(node) &&
+    t.isIdentifier(node.object, { name: refName }) &&
+    t.isIdentifier(node.property, { name: 'current' })
+  );
+}
+
+/**
+ * Check if a `ref.current` member expression is written: `ref.current = x`, `ref.current++`.
+ */
+function isRefCurrentWrite(memberPath: NodePath): boolean {
+  const parent = memberPath.parentPath;
+  return (
+    (parent?.isAssignmentExpression() && parent.node.left === memberPath.node) ||
+    (parent?.isUpdateExpression() ?? false)
+  );
+}
+
+/**
+ * Check if a test expression checks that a ref is still empty:
+ * `!ref.current`, `ref.current === null`, `ref.current == null`, `ref.current === undefined`.
+ */
+function isEmptyRefCheck(test: t.Node, refName: string): boolean {
+  const isEmptyValue = (node: t.Node) =>
+    t.isNullLiteral(node) || t.isIdentifier(node, { name: 'undefined' });
+
+  if (t.isUnaryExpression(test, { operator: '!' })) return isRefCurrent(test.argument, refName);
+  if (t.isBinaryExpression(test) && (test.operator === '===' || test.operator === '==')) {
+    return (
+      (isRefCurrent(test.left, refName) && isEmptyValue(test.right)) ||
+      (isEmptyValue(test.left) && isRefCurrent(test.right, refName))
+    );
+  }
+  return false;
+}
+
+/**
+ * Check if an expression is `ref.current ?? (ref.current = value)` (or with `||`).
+ */
+function isLazyRefFallback(node: t.Node, refName: string): boolean {
+  return (
+    t.isLogicalExpression(node) &&
+    (node.operator === '??' || node.operator === '||') &&
+    isRefCurrent(node.left, refName) &&
+    t.isAssignmentExpression(node.right, { operator: '=' }) &&
+    isRefCurrent(node.right.left, refName)
+  );
+}
+
+/**
+ * Check if a `ref.current` write is a lazy initialization: inside `if (<ref is empty>)`,
+ * a `ref.current ??= value` / `ref.current ||= value` assignment, or the fallback of
+ * `ref.current ?? (ref.current = value)`.
+ */
+function isLazyRefInit(writePath: NodePath, refName: string): boolean {
+  const parent = writePath.parentPath;
+  if (parent?.isAssignmentExpression() && ['??=', '||='].includes(parent.node.operator)) {
+    return true;
+  }
+  if (parent?.parentPath && isLazyRefFallback(parent.parentPath.node, refName)) return true;
+  const ifPath = writePath.findParent((p) => p.isIfStatement() || p.isFunction());
+  if (!ifPath?.isIfStatement()) return false;
+  return (
+    isEmptyRefCheck(ifPath.node.test, refName) && writePath.isDescendant(ifPath.get('consequent'))
+  );
+}
+
+/**
+ * Check a component's function body for ref.current reads that happen during render.
+ * Each ref is reported once, at its first render-phase read.
+ */
+function checkComponentBodyForRefRead(
+  funcPath: NodePath<t.FunctionDeclaration | t.ArrowFunctionExpression | t.FunctionExpression>,
+  filePath: string,
+  fileContent: string | undefined,
+  results: HookAnalysis[]
+): void {
+  if (!t.isBlockStatement(funcPath.node.body)) return; // Arrow function with expression body
+
+  const refNames: string[] = [];
+  funcPath.traverse({
+    CallExpression(callPath: NodePath<t.CallExpression>) {
+      const callee = callPath.node.callee;
+      const isUseRef =
+        t.isIdentifier(callee, { name: 'useRef' }) ||
+        (t.isMemberExpression(callee) && t.isIdentifier(callee.property, { name: 'useRef' }));
+      const declarator = callPath.parent;
+      if (
+        isUseRef &&
+        t.isVariableDeclarator(declarator) &&
+        t.isIdentifier(declarator.id) &&
+        callPath.getFunctionParent() === funcPath
+      ) {
+        refNames.push(declarator.id.name);
+      }
+    },
+  });
+
+  for (const refName of refNames) {
+    const binding = funcPath.scope.getBinding(refName);
+    if (!binding) continue;
+
+    const reads: NodePath<t.MemberExpression>[] = [];
+    const writes: NodePath[] = [];
+    let escapes = binding.constantViolations.length > 0;
+
+    for (const refPath of binding.referencePaths) {
+      const memberPath = refPath.parentPath;
+      if (
+        !memberPath?.isMemberExpression() ||
+        memberPath.node.object !== refPath.node ||
+        !t.isIdentifier(memberPath.node.property, { name: 'current' }) ||
+        memberPath.node.computed
+      ) {
+        // Passed as a ref prop or to a function: something else may write it
+        escapes = true;
+        continue;
+      }
+      if (isRefCurrentWrite(memberPath)) {
+        writes.push(memberPath);
+      } else {
+        reads.push(memberPath);
+      }
+    }
+
+    // A ref that only ever holds its initial or lazily initialized value reads the same
+    // value on every render
+    if (!escapes && writes.every((write) => isLazyRefInit(write, refName))) continue;
+
+    const renderReads = reads.filter((read) => {
+      // Reads in hook callbacks, event handlers and other nested functions run later
+      if (!runsDuringRender(read, funcPath)) return false;
+      // The emptiness checks of a lazy initialization
+      if (read.parentPath && isLazyRefFallback(read.parentPath.node, refName)) return false;
+      const ifPath = read.findParent((p) => p.isIfStatement() || p.isFunction());
+      if (!ifPath?.isIfStatement()) return true;
+      return !(read.isDescendant(ifPath.get('test')) && isEmptyRefCheck(ifPath.node.test, refName));
+    });
+    const unignored = renderReads.filter(
+      (read) => !fileContent || !isHookIgnored(fileContent, read.node.loc?.start.line || 0)
+    );
+    if (unignored.length === 0) continue;
+
+    const first = unignored[0];
+    const line = first.node.loc?.start.line || 0;
+    const otherLines = unignored
+      .slice(1)
+      .map((read) => read.node.loc?.start.line || 0)
+      .filter((otherLine) => otherLine !== line);
+    const alsoRead =
+      otherLines.length > 0
+        ? ` It is also read during render on line${otherLines.length > 1 ? 's' : ''} ${otherLines.join(', ')}.`
+        : '';
+
+    results.push(
+      createAnalysis({
+        type: 'potential-issue',
+        errorCode: 'RLD-601',
+        category: 'warning',
+        severity: 'medium',
+        confidence: 'high',
+        hookType: 'render',
+        line,
+        column: first.node.loc?.start.column,
+        file: filePath,
+        problematicDependency: refName,
+        stateVariable: undefined,
+        setterFunction: undefined,
+        actualStateModifications: [],
+        stateReads: [],
+        explanation:
+          `'${refName}.current' is read during render. Changing a ref doesn't re-render the ` +
+          `component, so output computed from it can show a stale value, and concurrent ` +
+          `renders may read different values for the same update.${alsoRead}`,
+        suggestion:
+          `If the value affects what is rendered, keep it in state (useState) instead of a ref. ` +
+          `Otherwise read '${refName}.current' only in effects or event handlers.`,
+      })
+    );
+  }
+}
+
+/** Module-level wrappers whose results return the same promise for the same arguments */
+const PROMISE_CACHE_WRAPPERS = new Set(['cache', 'memoize']);
+
+/** Hooks whose result keeps its identity across renders */
+const PROMISE_MEMO_HOOKS = new Set(['useMemo', 'useState', 'useRef']);
+
+/** A promise passed to `use()` that is created during render */
+interface RenderCreatedPromise {
+  /** How the promise is created, for messages: `fetchUser(...)`, `new Promise(...)` */
+  source: string;
+  /** False when it comes from a function imported from outside the analyzed files, which may be cached */
+  isCertain: boolean;
+  /** Only created in one branch of the argument: `use(promise ?? fetchUser(id))` */
+  isConditional?: boolean;
+}
+
+/**
+ * Check if a module-level initializer wraps a function in a cache: `cache(fetchUser)`.
+ */
+function isCacheWrapperCall(node: t.Node | null | undefined): boolean {
+  const wrapperName = getCalleeName(node);
+  return wrapperName !== null && PROMISE_CACHE_WRAPPERS.has(wrapperName);
+}
+
+/**
+ * Describe how the argument of `use()` creates a new promise on every render, or return
+ * null when it is cached. Safe sources:
+ * - functions wrapped in `cache()` at module level, in this file or an imported one:
+ *   `export const getUser = cache(fetchUser)`
+ * - module-level maps: `use(userPromises.get(id))`
+ * - memoized values: `use(useMemo(() => fetchUser(id), [id]))`
+ * - props and other values not created in this component
+ */
+function getRenderCreatedPromise(
+  arg: t.Node | undefined,
+  ownerPath: NodePath<t.Function>,
+  filePath: string,
+  allParsedFiles: ParsedFile[]
+): RenderCreatedPromise | null {
+  if (t.isNewExpression(arg) && t.isIdentifier(arg.callee, { name: 'Promise' })) {
+    return { source: 'new Promise(...)', isCertain: true };
+  }
+
+  // use(promise ?? fetchUser(id)), use(cached ? cached : fetchUser(id))
+  if (t.isLogicalExpression(arg) || t.isConditionalExpression(arg)) {
+    const branches = t.isLogicalExpression(arg)
+      ? [arg.left, arg.right]
+      : [arg.consequent, arg.alternate];
+    for (const branch of branches) {
+      const created = getRenderCreatedPromise(branch, ownerPath, filePath, allParsedFiles);
+      if (created) return { ...created, isConditional: true };
+    }
+    return null;
+  }
+
+  if (t.isIdentifier(arg)) {
+    // const promise = fetchUser(id); use(promise);
+    const binding = ownerPath.scope.getBinding(arg.name);
+    if (!binding || binding.scope.path.node !== ownerPath.node) return null;
+    const declarator = binding.path.node;
+    if (!t.isVariableDeclarator(declarator) || !t.isIdentifier(declarator.id)) return null;
+    const created = getRenderCreatedPromise(
+      declarator.init ?? undefined,
+      ownerPath,
+      filePath,
+      allParsedFiles
+    );
+    return created ? { ...created, source: `'${arg.name}' (${created.source})` } : null;
+  }
+
+  if (!t.isCallExpression(arg)) return null;
+
+  const callee = arg.callee;
+  const calleeName = getCalleeName(arg);
+  if (calleeName && PROMISE_MEMO_HOOKS.has(calleeName)) return null;
+
+  // A module-level cache: cachedFetch(id) where cachedFetch = cache(...), or cacheMap.get(id)
+  const rootName = t.isIdentifier(callee)
+    ? callee.name
+    : t.isMemberExpression(callee) && t.isIdentifier(callee.object)
+      ? callee.object.name
+      : null;
+  const rootBinding = rootName ? ownerPath.scope.getBinding(rootName) : undefined;
+  if (rootName && rootBinding?.scope.path.isProgram()) {
+    if (t.isMemberExpression(callee) && calleeName === 'get') return null;
+
+    if (rootBinding.kind === 'module') {
+      const init = findImportedInit(rootName, callee, filePath, allParsedFiles);
+      if (init === undefined) return { source: describeCall(arg), isCertain: false };
+      if (isCacheWrapperCall(init)) return null;
+    } else if (t.isVariableDeclarator(rootBinding.path.node)) {
+      if (isCacheWrapperCall(rootBinding.path.node.init)) return null;
+    }
+  }
+
+  return { source: describeCall(arg), isCertain: true };
+}
+
+/**
+ * Check if a call is React's `use()`: `use` imported from 'react' (possibly renamed), or
+ * `React.use` on the React import.
+ */
+function isReactUseCall(callPath: NodePath<t.CallExpression>): boolean {
+  const callee = callPath.node.callee;
+  const isReactImport = (name: string, importedName: string | null) => {
+    const binding = callPath.scope.getBinding(name);
+    if (!binding) return name === 'React' && importedName === null;
+    const declaration = binding.path.parent;
+    if (!t.isImportDeclaration(declaration) || declaration.source.value !== 'react') return false;
+    if (importedName === null) return !binding.path.isImportSpecifier();
+    const specifier = binding.path.node;
+    if (!t.isImportSpecifier(specifier)) return false;
+    const imported = specifier.imported;
+    return (t.isIdentifier(imported) ? imported.name : imported.value) === importedName;
+  };
+
+  if (t.isIdentifier(callee)) return isReactImport(callee.name, 'use');
+  return (
+    t.isMemberExpression(callee) &&
+    t.isIdentifier(callee.object) &&
+    t.isIdentifier(callee.property, { name: 'use' }) &&
+    isReactImport(callee.object.name, null)
+  );
+}
+
+/**
+ * Short source form of a call chain for explanations: `fetch(...).then(...)`.
+ */
+function describeCall(node: t.Node): string {
+  if (t.isIdentifier(node)) return node.name;
+  if (t.isMemberExpression(node) && t.isIdentifier(node.property)) {
+    return `${describeCall(node.object)}.${node.property.name}`;
+  }
+  if (t.isCallExpression(node)) return `${describeCall(node.callee)}(...)`;
+  return '...';
+}
+
+/**
+ * Detect React 19 `use()` calls whose promise is created during render.
+ * Each render creates a new promise, `use()` suspends on it, and when it resolves the
+ * component re-renders and creates another one - the component never finishes rendering.
+ *
+ * @example
+ * ```tsx
+ * function Profile({ id }) {
+ *   const user = use(fetchUser(id)); // New promise every render
+ * }
+ * ```
+ *
+ * Calls to functions imported from outside the analyzed files can't be checked for a
+ * cache() wrapper, and promises only created in one branch of the argument
+ * (`use(promise ?? fetchUser(id))`) only loop on some renders: both are reported as
+ * potential issues.
+ *
+ * @param allParsedFiles - All parsed files, used to resolve imported cache() wrappers
+ */
+export function detectUsePromiseDuringRender(
+  ast: t.Node,
+  filePath: string,
+  fileContent?: string,
+  allParsedFiles: ParsedFile[] = []
+): HookAnalysis[] {
+  const results: HookAnalysis[] = [];
+
+  traverse(ast, {
+    CallExpression(callPath: NodePath<t.CallExpression>) {
+      if (!isReactUseCall(callPath)) return;
+
+      // use() runs during render of the enclosing component or custom hook
+      const ownerPath = callPath.getFunctionParent();
+      if (!ownerPath) return;
+
+      const created = getRenderCreatedPromise(
+        callPath.node.arguments[0],
+        ownerPath,
+        filePath,
+        allParsedFiles
+      );
+      if (!created) return;
+
+      const line = callPath.node.loc?.start.line || 0;
+      if (fileContent && isHookIgnored(fileContent, line)) return;
+
+      const { source, isCertain, isConditional } = created;
+      const suggestion =
+        `Create the promise outside of render: pass it in from a parent or Server Component, ` +
+        `wrap the fetching function with cache() at module level, or memoize it with useMemo.`;
+
+      if (isConditional) {
+        results.push(
+          createAnalysis({
+            type: 'potential-issue',
+            errorCode: 'RLD-104',
+            category: 'warning',
+            severity: 'high',
+            confidence: 'medium',
+            hookType: 'use',
+            line,
+            column: callPath.node.loc?.start.column,
+            file: filePath,
+            problematicDependency: source,
+            stateVariable: undefined,
+            setterFunction: undefined,
+            actualStateModifications: [],
+            stateReads: [],
+            explanation:
+              `use() receives a new promise from ${source} on renders where its argument ` +
+              `falls back to that branch. On those renders use() suspends again each time a ` +
+              `new promise resolves and the component never finishes rendering.`,
+            suggestion,
+          })
+        );
+        return;
+      }
+
+      if (!isCertain) {
+        results.push(
+          createAnalysis({
+            type: 'potential-issue',
+            errorCode: 'RLD-104',
+            category: 'warning',
+            severity: 'medium',
+            confidence: 'medium',
+            hookType: 'use',
+            line,
+            column: callPath.node.loc?.start.column,
+            file: filePath,
+            problematicDependency: source,
+            stateVariable: undefined,
+            setterFunction: undefined,
+            actualStateModifications: [],
+            stateReads: [],
+            explanation:
+              `use() receives the promise returned by ${source}, which is called during render. ` +
+              `It is imported from outside the analyzed files, so it could not be checked for ` +
+              `caching: unless it returns the same promise for the same arguments, use() suspends ` +
+              `again each time a new promise resolves and the component never finishes rendering.`,
+            suggestion,
+          })
+        );
+        return;
+      }
+
+      results.push(
+        createAnalysis({
+          type: 'confirmed-infinite-loop',
+          errorCode: 'RLD-104',
+          category: 'critical',
+          severity: 'high',
+          confidence: 'high',
+          hookType: 'use',
+          line,
+          column: callPath.node.loc?.start.column,
+          file: filePath,
+          problematicDependency: source,
+          stateVariable: undefined,
+          setterFunction: undefined,
+          actualStateModifications: [],
+          stateReads: [],
+          explanation:
+            `use() receives a promise created during render by ${source}. ` +
+            `Every render creates a new promise, so use() suspends again each time it resolves ` +
+            `and the component never finishes rendering.`,
+          suggestion,
+        })
+      );
+    },
+  });
+
+  return results;
+}
+
+/**
+ * Detect React Navigation `navigation.setOptions()`/`setParams()` calls during render.
+ * They update the navigator's state while the screen renders, and the navigator re-renders
+ * the screen, which calls them again.
+ *
+ * @example
+ * ```tsx
+ * function ProfileScreen({ navigation }) {
+ *   navigation.setOptions({ title: user.name }); // Updates the navigator on every render
+ * }
+ * ```
+ */
+export function detectNavigationUpdateDuringRender(
+  ast: t.Node,
+  filePath: string,
+  fileContent?: string
+): HookAnalysis[] {
+  const results: HookAnalysis[] = [];
+
+  traverse(ast, {
+    CallExpression(callPath: NodePath<t.CallExpression>) {
+      const name = getNavigationUpdateCallName(callPath.node);
+      if (!name) return;
+
+      // Only calls in a component body: not module scope, hooks, handlers or header components
+      if (!callPath.getFunctionParent() || isInsideSafeContextGeneric(callPath)) return;
+
+      const line = callPath.node.loc?.start.line || 0;
+      if (fileContent && isHookIgnored(fileContent, line)) return;
+
+      const updates = name.endsWith('setParams')
+        ? `creates new route params`
+        : `stores new options in the navigator's state`;
+
+      results.push(
+        createAnalysis({
+          type: 'confirmed-infinite-loop',
+          errorCode: 'RLD-106',
+          category: 'critical',
+          severity: 'high',
+          confidence: 'high',
+          hookType: 'render',
+          line,
+          column: callPath.node.loc?.start.column,
+          file: filePath,
+          problematicDependency: name,
+          stateVariable: undefined,
+          setterFunction: name,
+          actualStateModifications: [name],
+          stateReads: [],
+          explanation:
+            `${name}() is called during render. It ${updates}, so the navigator re-renders ` +
+            `the screen and its header, and the screen calls ${name}() again on every render. ` +
+            `React also warns "Cannot update a component while rendering a different component".`,
+          suggestion: name.endsWith('setParams')
+            ? `Move ${name}() into a useEffect that only runs when the value changes, or pass the params when navigating to the screen.`
+            : `Move ${name}() into useLayoutEffect(() => { ${name}({...}) }, [deps]), or set static options on the <Stack.Screen options={...}> element.`,
+        })
+      );
+    },
+  });
+
+  return results;
+}
@@ -0,0 +1,433 @@
+/**
+ * Router Analyzer Module
+ *
+ * The React Router preset marks router hooks as stable, but some of them return state that
+ * changes when the effect itself acts on the router:
+ *
+ * ```tsx
+ * useEffect(() => {
+ *   fetcher.load('/api/user'); // fetcher changes on every state transition
+ * }, [fetcher]);
+ *
+ * useEffect(() => {
+ *   navigate(`?tab=${tab}`); // every navigation creates a new location
+ * }, [location]);
+ * ```
+ *
+ * `fetcher.load()`/`fetcher.submit()` modify the fetcher, and `navigate()` modifies the
+ * location, params and search params. `setSearchParams` is tracked as a regular state setter
+ * (see extractStateInfo). In Next.js, `router.push()`/`router.replace()` modify the pathname
+ * and search params, and the Pages Router's `useRouter()` object itself. In React Navigation
+ * and Expo Router, `navigation.setParams()`/`router.setParams()` modify the route and its
+ * params. Guards around these calls are classified by guard-analyzer.ts.
+ */
+
+import * as t from '@babel/types';
+import traverse, { NodePath } from '@babel/traverse';
+import { ErrorCode, GuardedModification, HookAnalysis } from './types';
+import { analyzeConditionalGuard, analyzeFetcherGuard } from './guard-analyzer';
+import {
+  createAnalysis,
+  getConfidenceExplanation,
+  getEffectDependencyArray,
+  getNavigationUpdateCallName,
+  isConditionalInEffect,
+  isEffectHook,
+  isHookIgnored,
+  isStrictModeEnabled,
+} from './utils';
+
+/** Router hooks whose return value changes on every navigation, with what they return */
+const ROUTER_STATE_HOOKS: Record<string, string> = {
+  useLocation: 'location',
+  useParams: 'params',
+  useSearchParams: 'searchParams',
+  usePathname: 'pathname',
+  useRoute: 'route',
+  useLocalSearchParams: 'params',
+  useGlobalSearchParams: 'params',
+};
+
+/** Route state that setParams() replaces (React Navigation, Expo Router) */
+const ROUTE_PARAMS_HOOKS = new Set(['useRoute', 'useLocalSearchParams', 'useGlobalSearchParams']);
+
+/**
+ * Router state that only changes with the URL: the pathname string, and Next.js App Router
+ * values (derived from the URL string). Navigating to the same URL keeps them, so a
+ * navigation only loops when the target URL differs on every run.
+ */
+const URL_KEYED_ROUTER_STATE_HOOKS = new Set(['usePathname']);
+
+/** Next.js router methods that navigate */
+const NEXT_NAVIGATION_METHODS = new Set(['push', 'replace']);
+
+/** Fetcher methods that start a request and move the fetcher through its states */
+const FETCHER_METHODS = new Set(['load', 'submit']);
+
+/** What an effect dependency holds */
+type RouterDependency =
+  | { kind: 'fetcher'; name: string }
+  | { kind: 'router-state'; name: string; hookName: string; urlKeyed: boolean };
+
+/** A call in the effect body that changes a dependency */
+interface RouterModification {
+  dependency: RouterDependency;
+  call: NodePath<t.CallExpression>;
+  calleeText: string;
+  isNextNavigation: boolean;
+}
+
+/**
+ * Get the module a local name was imported from: `import { useRouter } from 'next/router'`.
+ */
+function getImportSource(name: string, scopePath: NodePath): string | null {
+  const bindingPath = scopePath.scope.getBinding(name)?.path;
+  const declaration = bindingPath?.parentPath?.node;
+  return bindingPath?.isImportSpecifier() && t.isImportDeclaration(declaration)
+    ? declaration.source.value
+    : null;
+}
+
+/**
+ * Check if a local variable holds a Next.js router: `const router = useRouter()` with
+ * useRouter imported from next/navigation (App Router) or next/router (Pages Router).
+ */
+function isNextRouter(name: string, scopePath: NodePath): boolean {
+  const init = getHookInit(name, scopePath);
+  if (!init || init.hookName !== 'useRouter' || !t.isIdentifier(init.declarator.id)) return false;
+  const source = getImportSource(init.hookName, scopePath);
+  return source === 'next/navigation' || source === 'next/router';
+}
+
+/**
+ * Get the variable declarator and hook call a local variable was initialized from:
+ * `const fetcher = useFetcher()` or `const { pathname } = useLocation()`.
+ */
+function getHookInit(
+  name: string,
+  scopePath: NodePath
+): { declarator: t.VariableDeclarator; hookName: string } | null {
+  const declarator = scopePath.scope.getBinding(name)?.path.node;
+  if (!t.isVariableDeclarator(declarator) || !t.isCallExpression(declarator.init)) return null;
+  const callee = declarator.init.callee;
+  const hookName = t.isIdentifier(callee)
+    ? callee.name
+    : t.isMemberExpression(callee) && t.isIdentifier(callee.property)
+      ? callee.property.name
+      : null;
+  return hookName ? { declarator, hookName } : null;
+}
+
+/**
+ * Resolve an effect dependency to the router value it holds, if any.
+ * `[fetcher.load]` is skipped: the methods themselves are stable.
+ */
+function resolveDependency(element: t.Node | null, effectPath: NodePath): RouterDependency | null {
+  let node: t.Node | null = element;
+  if (t.isMemberExpression(node) && t.isIdentifier(node.property)) {
+    if (FETCHER_METHODS.has(node.property.name)) return null;
+  }
+  while (t.isMemberExpression(node)) node = node.object;
+  if (!t.isIdentifier(node)) return null;
+
+  // Screen components receive the same route object as useRoute() in their props
+  const binding = effectPath.scope.getBinding(node.name);
+  if (binding?.kind === 'param' && node.name === 'route') {
+    return { kind: 'router-state', name: node.name, hookName: 'useRoute', urlKeyed: false };
+  }
+
+  const init = getHookInit(node.name, effectPath);
+  if (!init) return null;
+
+  if (init.hookName === 'useFetcher' && t.isIdentifier(init.declarator.id)) {
+    return { kind: 'fetcher', name: node.name };
+  }
+  // The Pages Router's router object changes on every navigation (the App Router's is stable).
+  // `[router.query.id]` is not tracked: it may be a string that survives the navigation.
+  if (
+    t.isIdentifier(element) &&
+    isNextRouter(node.name, effectPath) &&
+    getImportSource(init.hookName, effectPath) === 'next/router'
+  ) {
+    return { kind: 'router-state', name: node.name, hookName: init.hookName, urlKeyed: false };
+  }
+  if (!(init.hookName in ROUTER_STATE_HOOKS)) return null;
+  // Only the first element of useSearchParams() is state, the second is its setter
+  if (t.isArrayPattern(init.declarator.id)) {
+    const [first] = init.declarator.id.elements;
+    if (!t.isIdentifier(first, { name: node.name })) return null;
+  }
+  const urlKeyed =
+    URL_KEYED_ROUTER_STATE_HOOKS.has(init.hookName) ||
+    getImportSource(init.hookName, effectPath) === 'next/navigation';
+  return { kind: 'router-state', name: node.name, hookName: init.hookName, urlKeyed };
+}
+
+/**
+ * Check if a callee navigates: the result of useNavigate(), the setter of useSearchParams()
+ * (only for location/params - as a setter of searchParams it is already covered by the state
+ * analysis), `router.push`/`router.replace` of a Next.js router, or `setParams()` of a
+ * React Navigation/Expo Router screen (only for the route and its params).
+ */
+function isNavigateCall(
+  callee: t.Node,
+  callPath: NodePath<t.CallExpression>,
+  dependency: RouterDependency
+): boolean {
+  if (t.isMemberExpression(callee)) {
+    if (!t.isIdentifier(callee.object) || !t.isIdentifier(callee.property)) return false;
+    if (callee.property.name === 'setParams') {
+      return (
+        dependency.kind === 'router-state' &&
+        ROUTE_PARAMS_HOOKS.has(dependency.hookName) &&
+        getNavigationUpdateCallName(callPath.node) !== null
+      );
+    }
+    return (
+      NEXT_NAVIGATION_METHODS.has(callee.property.name) &&
+      isNextRouter(callee.object.name, callPath)
+    );
+  }
+  if (!t.isIdentifier(callee)) return false;
+
+  const init = getHookInit(callee.name, callPath);
+  if (!init) return false;
+  if (init.hookName === 'useNavigate') return t.isIdentifier(init.declarator.id);
+  if (init.hookName !== 'useSearchParams' || dependency.kind !== 'router-state') return false;
+  if (dependency.hookName === 'useSearchParams' || !t.isArrayPattern(init.declarator.id)) {
+    return false;
+  }
+  return t.isIdentifier(init.declarator.id.elements[1], { name: callee.name });
+}
+
+/**
+ * Find calls in the effect body that modify one of the router dependencies.
+ * Nested functions (event handlers, async callbacks) are skipped: they don't run as part
+ * of the effect.
+ */
+function findRouterModifications(
+  callbackPath: NodePath<t.Function>,
+  dependencies: RouterDependency[]
+): RouterModification[] {
+  const modifications: RouterModification[] = [];
+
+  callbackPath.traverse({
+    Function(fnPath: NodePath<t.Function>) {
+      fnPath.skip();
+    },
+    CallExpression(callPath: NodePath<t.CallExpression>) {
+      const callee = callPath.node.callee;
+      for (const dependency of dependencies) {
+        if (
+          dependency.kind === 'fetcher' &&
+          t.isMemberExpression(callee) &&
+          t.isIdentifier(callee.object, { name: dependency.name }) &&
+          t.isIdentifier(callee.property) &&
+          FETCHER_METHODS.has(callee.property.name)
+        ) {
+          modifications.push({
+            dependency,
+            call: callPath,
+            calleeText: `${dependency.name}.${callee.property.name}`,
+            isNextNavigation: false,
+          });
+        }
+        if (dependency.kind === 'router-state' && isNavigateCall(callee, callPath, dependency)) {
+          const calleeText =
+            t.isMemberExpression(callee) &&
+            t.isIdentifier(callee.object) &&
+            t.isIdentifier(callee.property)
+              ? `${callee.object.name}.${callee.property.name}`
+              : t.isIdentifier(callee)
+                ? callee.name
+                : 'navigate';
+          const isNextNavigation =
+            t.isMemberExpression(callee) && !calleeText.endsWith('.setParams');
+          modifications.push({ dependency, call: callPath, calleeText, isNextNavigation });
+        }
+      }
+    },
+  });
+
+  return modifications;
+}
+
+/**
+ * Get the ancestors of a call up to (excluding) the effect callback, nearest first.
+ */
+function getAncestorStack(callPath: NodePath, callbackPath: NodePath<t.Function>): t.Node[] {
+  const ancestors: t.Node[] = [];
+  let current: NodePath | null = callPath;
+  while (current && current !== callbackPath) {
+    ancestors.push(current.node);
+    current = current.parentPath;
+  }
+  return ancestors;
+}
+
+/**
+ * Classify the guard around a router modification.
+ */
+function getRouterGuard(
+  modification: RouterModification,
+  callbackPath: NodePath<t.Function>
+): GuardedModification | null {
+  const { dependency, call, calleeText } = modification;
+  const ancestors = getAncestorStack(call, callbackPath);
+  if (dependency.kind === 'fetcher') {
+    return analyzeFetcherGuard(call.node, ancestors, dependency.name);
+  }
+  // analyzeConditionalGuard expects the outermost ancestor last
+  return analyzeConditionalGuard(call.node, ancestors, calleeText, dependency.name, []);
+}
+
+/**
+ * Detect effects that act on React Router state they depend on: `fetcher.load()` with the
+ * fetcher as a dependency, or `navigate()` with the location/params/search params.
+ *
+ * @param ast - The file AST
+ * @param filePath - Path to the file being analyzed
+ * @param fileContent - File content for comment detection
+ */
+export function detectRouterLoops(
+  ast: t.Node,
+  filePath: string,
+  fileContent?: string
+): HookAnalysis[] {
+  const results: HookAnalysis[] = [];
+
+  traverse(ast, {
+    CallExpression(effectPath: NodePath<t.CallExpression>) {
+      const hookName = t.isIdentifier(effectPath.node.callee) ? effectPath.node.callee.name : null;
+      if (!hookName || !isEffectHook(hookName)) return;
+
+      const depsArray = getEffectDependencyArray(effectPath.node);
+      const callbackPath = effectPath.get('arguments.0') as NodePath;
+      if (!depsArray || !callbackPath.isFunction()) return;
+
+      const line = effectPath.node.loc?.start.line || 0;
+      if (fileContent && isHookIgnored(fileContent, line)) return;
+
+      const dependencies = depsArray.elements
+        .map((element) => resolveDependency(element, effectPath))
+        .filter((dependency): dependency is RouterDependency => dependency !== null);
+      if (dependencies.length === 0) return;
+
+      const modifications = findRouterModifications(callbackPath, dependencies);
+      let safeModification: { modification: RouterModification; guardType: string } | null = null;
+
+      for (const modification of modifications) {
+        const { dependency, call, calleeText, isNextNavigation } = modification;
+        const guard = getRouterGuard(modification, callbackPath);
+        if (guard?.isSafe) {
+          safeModification ??= { modification, guardType: guard.guardType };
+          continue;
+        }
+
+        const callLine = call.node.loc?.start.line || line;
+        const baseAnalysis = {
+          hookType: hookName,
+          line,
+          file: filePath,
+          problematicDependency: dependency.name,
+          stateVariable: dependency.name,
+          setterFunction: calleeText,
+          actualStateModifications: [calleeText],
+          stateReads: [],
+        };
+        const urlKeyed = dependency.kind === 'router-state' && dependency.urlKeyed;
+        const isSetParams = calleeText.endsWith('.setParams');
+        const stateName =
+          dependency.kind === 'router-state' ? ROUTER_STATE_HOOKS[dependency.hookName] : null;
+        const changes =
+          dependency.kind === 'fetcher'
+            ? `The fetcher object changes on every state transition (idle → loading → idle) and when new data arrives`
+            : isSetParams
+              ? `Every ${calleeText}() call creates a new ${stateName} object, even with the same values`
+              : urlKeyed
+                ? `Navigating to a different URL changes '${dependency.name}'`
+                : `Every navigation creates a new ${stateName ?? 'router'} object, even for the same URL`;
+        const paramRead =
+          dependency.kind === 'router-state' && dependency.hookName === 'useRoute'
+            ? `${dependency.name}.params?.tab`
+            : `${dependency.name}.tab`;
+        const updateCheck = isSetParams
+          ? `Compare the current params before updating, e.g. if (${paramRead} !== tab) ${calleeText}({ tab })`
+          : isNextNavigation
+            ? `Compare the current URL before navigating, e.g. if (pathname !== target) ${calleeText}(target)`
+            : `Compare the current URL before navigating, e.g. if (location.pathname !== target) ${calleeText}(target)`;
+        const isConditional = guard !== null || isConditionalInEffect(call, callbackPath);
+
+        if (isConditional || urlKeyed) {
+          const confidenceContext = { isConditional, isStrictMode: isStrictModeEnabled() };
+          const confidenceExplanation = getConfidenceExplanation('medium', confidenceContext);
+          results.push(
+            createAnalysis({
+              ...baseAnalysis,
+              type: 'potential-issue',
+              errorCode: 'RLD-501',
+              category: 'warning',
+              severity: 'medium',
+              confidence: 'medium',
+              explanation:
+                (guard?.warning ??
+                  (isConditional
+                    ? `${hookName} conditionally calls ${calleeText}() (line ${callLine}) while depending on '${dependency.name}'. ${changes}, so review that the condition stops once the update has happened.`
+                    : `${hookName} calls ${calleeText}() (line ${callLine}) while depending on '${dependency.name}'. ${changes}, so the effect runs again and only settles once it navigates to the URL it is already on.`)) +
+                confidenceExplanation,
+              suggestion:
+                dependency.kind === 'fetcher'
+                  ? `Only load when there is no data yet: if (${dependency.name}.state === 'idle' && !${dependency.name}.data) ${calleeText}(...)`
+                  : `${updateCheck}.`,
+            })
+          );
+          return;
+        }
+
+        const effectErrorCode: ErrorCode = hookName === 'useLayoutEffect' ? 'RLD-202' : 'RLD-200';
+        results.push(
+          createAnalysis({
+            ...baseAnalysis,
+            type: 'confirmed-infinite-loop',
+            errorCode: effectErrorCode,
+            category: 'critical',
+            severity: 'high',
+            confidence: 'high',
+            explanation: `${hookName} calls ${calleeText}() (line ${callLine}) while depending on '${dependency.name}'. ${changes}, so the effect runs again and calls ${calleeText}() again, creating an infinite loop.`,
+            suggestion:
+              dependency.kind === 'fetcher'
+                ? `Depend on the values the request is built from instead of '${dependency.name}', or only load when there is no data yet: if (${dependency.name}.state === 'idle' && !${dependency.name}.data) ${calleeText}(...)`
+                : isSetParams
+                  ? `${updateCheck}, or pass the params when navigating to the screen.`
+                  : `${updateCheck}, or navigate from the event handler that causes the change.`,
+          })
+        );
+        return;
+      }
+
+      if (safeModification) {
+        const { modification, guardType } = safeModification;
+        results.push(
+          createAnalysis({
+            type: 'safe-pattern',
+            errorCode: 'RLD-200',
+            category: 'safe',
+            severity: 'low',
+            confidence: 'high',
+            hookType: hookName,
+            line,
+            file: filePath,
+            problematicDependency: modification.dependency.name,
+            stateVariable: modification.dependency.name,
+            setterFunction: modification.calleeText,
+            actualStateModifications: [modification.calleeText],
+            stateReads: [],
+            explanation: `Hook calls ${modification.calleeText}() while depending on '${modification.dependency.name}' but has a ${guardType} that prevents infinite loops.`,
+          })
+        );
+      }
+    },
+  });
+
+  return results;
+}
@@ -0,0 +1,332 @@
+/**
+ * Selector Analyzer Module
+ *
+ * Store hooks (Redux `useSelector`, Zustand `useXxxStore`) are configured as stable by the
+ * library presets, but what they return is whatever the selector returns. A selector that
+ * builds a new object or array returns a new reference on every call:
+ *
+ * ```tsx
+ * const { a, b } = useStore((s) => ({ a: s.a, b: s.b }));          // Zustand v5: loops forever
+ * const visible = useSelector((s) => s.items.filter((i) => i.done)); // Re-renders on every dispatch
+ * ```
+ *
+ * Zustand v5 compares selector results with Object.is, so a fresh object makes React
+ * re-render until "Maximum update depth exceeded". React-Redux re-renders the component on
+ * every store update. `useShallow` and `createSelector` memoization are recognized as safe,
+ * and so are `shallow`/`shallowEqual` equality functions, for the hooks that accept one:
+ * `useSelector` and hooks from `zustand/traditional` (v5 `create()` hooks ignore it).
+ *
+ * `useXxxStore` hooks are only treated as Zustand stores when they are created with
+ * `create()`/`createWithEqualityFn()` (in this file or an imported one), imported from
+ * `zustand`, or match a configured stable hook pattern such as the Zustand preset's.
+ */
+
+import * as t from '@babel/types';
+import traverse, { NodePath } from '@babel/traverse';
+import { HookAnalysis } from './types';
+import { ParsedFile } from './parser';
+import { StabilityConfig } from './state-extractor';
+import { createAnalysis, findImportedInit, getCalleeName, isHookIgnored } from './utils';
+
+/** Redux selector hooks (including the typed `useAppSelector` convention) */
+const REDUX_SELECTOR_HOOKS = new Set(['useSelector', 'useAppSelector', 'useTypedSelector']);
+
+/** Zustand store hooks: `useStore(api, selector)` and the `useXxxStore` convention */
+const ZUSTAND_STORE_HOOK_PATTERN = /^use(\w+)?Store$/;
+
+/** Modules that export Zustand's store hooks and factories */
+const ZUSTAND_MODULES = new Set(['zustand', 'zustand/traditional']);
+
+/** Zustand store factories; hooks made by createWithEqualityFn accept an equality function */
+const ZUSTAND_STORE_FACTORIES = new Set(['create', 'createWithEqualityFn']);
+
+/** Zustand hooks and factories (zustand/traditional) that honor an equality function */
+const ZUSTAND_EQUALITY_FN_APIS = new Set(['useStoreWithEqualityFn', 'createWithEqualityFn']);
+
+/** Wrappers that return a memoized or shallow-compared selector */
+const MEMOIZED_SELECTOR_FACTORIES = new Set([
+  'useShallow',
+  'createSelector',
+  'createStructuredSelector',
+  'createDraftSafeSelector',
+  'createCachedSelector',
+]);
+
+/** Array methods that always return a new array */
+const FRESH_ARRAY_METHODS = new Set(['map', 'filter', 'slice', 'concat', 'flatMap', 'toSorted']);
+
+type SelectorLibrary = 'redux' | 'zustand';
+
+interface StoreHook {
+  library: SelectorLibrary;
+  /** True when the hook compares selector results with its equality function argument */
+  honorsEqualityFn: boolean;
+}
+
+type SelectorFunction = t.ArrowFunctionExpression | t.FunctionExpression | t.FunctionDeclaration;
+
+/**
+ * Describe the fresh value a selector returns, or null if it can return a stable reference.
+ */
+function getFreshReturnValue(node: t.Node | null | undefined): string | null {
+  if (t.isObjectExpression(node)) return 'an object literal';
+  if (t.isArrayExpression(node)) return 'an array literal';
+  if (t.isNewExpression(node)) return 'a new instance';
+  // s.items ?? [] / s.user ? { ...s.user } : null
+  if (t.isLogicalExpression(node)) return getFreshReturnValue(node.right);
+  if (t.isConditionalExpression(node)) {
+    return getFreshReturnValue(node.consequent) ?? getFreshReturnValue(node.alternate);
+  }
+  if (!t.isCallExpression(node)) return null;
+
+  const calleeName = getCalleeName(node);
+  if (!calleeName) return null;
+  if (t.isMemberExpression(node.callee) && FRESH_ARRAY_METHODS.has(calleeName)) {
+    return `a .${calleeName}() result`;
+  }
+  if (
+    t.isMemberExpression(node.callee) &&
+    t.isIdentifier(node.callee.object, { name: 'Object' }) &&
+    ['keys', 'values', 'entries', 'assign'].includes(calleeName)
+  ) {
+    return `an Object.${calleeName}() result`;
+  }
+  if (
+    t.isMemberExpression(node.callee) &&
+    t.isIdentifier(node.callee.object, { name: 'Array' }) &&
+    calleeName === 'from'
+  ) {
+    return 'an Array.from() result';
+  }
+  return null;
+}
+
+/**
+ * Check what a selector function returns on any path. Returns of nested callbacks
+ * (e.g. inside `.map()`) are ignored.
+ */
+function getSelectorFreshValue(fn: SelectorFunction): string | null {
+  if (!t.isBlockStatement(fn.body)) return getFreshReturnValue(fn.body);
+
+  let fresh: string | null = null;
+  traverse(fn.body, {
+    noScope: true,
+    Function(fnPath: NodePath<t.Function>) {
+      fnPath.skip();
+    },
+    ReturnStatement(returnPath: NodePath<t.ReturnStatement>) {
+      fresh = getFreshReturnValue(returnPath.node.argument);
+      if (fresh) returnPath.stop();
+    },
+  });
+  return fresh;
+}
+
+/**
+ * Resolve a selector argument to the function it refers to. Identifiers resolve to local or
+ * module-level function declarations; memoized selector factories resolve to null (safe).
+ */
+function resolveSelector(
+  arg: t.Node | undefined,
+  callPath: NodePath<t.CallExpression>
+): SelectorFunction | null {
+  if (t.isArrowFunctionExpression(arg) || t.isFunctionExpression(arg)) return arg;
+  if (!t.isIdentifier(arg)) return null;
+
+  const binding = callPath.scope.getBinding(arg.name);
+  const declaration = binding?.path.node;
+  if (t.isFunctionDeclaration(declaration)) return declaration;
+  if (!t.isVariableDeclarator(declaration)) return null;
+
+  // createSelector(...) results are memoized and not resolved any further.
+  // useCallback only keeps the selector itself stable, not what it returns.
+  const init = declaration.init;
+  if (t.isArrowFunctionExpression(init) || t.isFunctionExpression(init)) return init;
+  if (t.isCallExpression(init) && getCalleeName(init) === 'useCallback') {
+    const callback = init.arguments[0];
+    return t.isArrowFunctionExpression(callback) || t.isFunctionExpression(callback)
+      ? callback
+      : null;
+  }
+  return null;
+}
+
+/**
+ * Get the Zustand factory a store hook is created with: `create(...)`, `create<T>()(...)`
+ * or `createWithEqualityFn(...)`.
+ */
+function getStoreFactory(init: t.Node | null | undefined): string | null {
+  if (!t.isCallExpression(init)) return null;
+  // create<State>()(...) is curried for TypeScript inference
+  const factoryCall = t.isCallExpression(init.callee) ? init.callee : init;
+  const name = getCalleeName(factoryCall);
+  return name && ZUSTAND_STORE_FACTORIES.has(name) ? name : null;
+}
+
+/**
+ * Identify a Redux or Zustand selector hook, and whether it honors an equality function.
+ * `useXxxStore` hooks must be created by a Zustand factory, imported from zustand, or match
+ * a configured stable hook pattern (the Zustand preset adds `useXxxStore`).
+ */
+function getStoreHook(
+  hookName: string,
+  callPath: NodePath<t.CallExpression>,
+  filePath: string,
+  stabilityConfig: StabilityConfig,
+  allParsedFiles: ParsedFile[]
+): StoreHook | null {
+  if (REDUX_SELECTOR_HOOKS.has(hookName)) return { library: 'redux', honorsEqualityFn: true };
+  if (!ZUSTAND_STORE_HOOK_PATTERN.test(hookName) && hookName !== 'useStoreWithEqualityFn') {
+    return null;
+  }
+
+  const callee = callPath.node.callee;
+  const binding = t.isIdentifier(callee) ? callPath.scope.getBinding(callee.name) : undefined;
+  const declaration = binding?.path.node;
+
+  // useStore / useStoreWithEqualityFn imported from zustand itself
+  const importDeclaration = binding?.kind === 'module' ? binding.path.parent : null;
+  if (
+    t.isImportDeclaration(importDeclaration) &&
+    ZUSTAND_MODULES.has(importDeclaration.source.value)
+  ) {
+    const imported = t.isImportSpecifier(declaration) ? declaration.imported : null;
+    const importedName = t.isIdentifier(imported) ? imported.name : (imported?.value ?? hookName);
+    return { library: 'zustand', honorsEqualityFn: ZUSTAND_EQUALITY_FN_APIS.has(importedName) };
+  }
+
+  // Store hooks created in this file or in an imported one
+  const init =
+    binding?.kind === 'module'
+      ? findImportedInit(hookName, callee, filePath, allParsedFiles)
+      : t.isVariableDeclarator(declaration)
+        ? declaration.init
+        : null;
+  const factory = getStoreFactory(init);
+  if (factory) {
+    return { library: 'zustand', honorsEqualityFn: ZUSTAND_EQUALITY_FN_APIS.has(factory) };
+  }
+
+  // Unresolved hooks are matched by name only when the Zustand preset (or user) configures it
+  if (stabilityConfig.stableHookPatterns?.some((pattern) => pattern.test(hookName))) {
+    return { library: 'zustand', honorsEqualityFn: false };
+  }
+  return null;
+}
+
+/**
+ * Find the selector and equality function arguments of a store hook call.
+ */
+function getSelectorArguments(
+  hookName: string,
+  node: t.CallExpression
+): { selector: t.Node | undefined; equalityFn: t.Node | undefined } {
+  const [first, second, third] = node.arguments;
+  // useStore(storeApi, selector, equalityFn?) / useStoreWithEqualityFn(storeApi, selector, equalityFn)
+  const takesStoreApi =
+    (hookName === 'useStore' || hookName === 'useStoreWithEqualityFn') &&
+    node.arguments.length >= 2 &&
+    !t.isArrowFunctionExpression(first) &&
+    !t.isFunctionExpression(first);
+  return takesStoreApi
+    ? { selector: second, equalityFn: third }
+    : { selector: first, equalityFn: second };
+}
+
+/**
+ * Detect store selectors that return a new object or array on every call.
+ *
+ * @param ast - The file AST
+ * @param filePath - Path to the file being analyzed
+ * @param fileContent - File content for comment detection
+ * @param stabilityConfig - Stable hook patterns, to recognize `useXxxStore` hooks by name
+ * @param allParsedFiles - All parsed files, to resolve imported store hooks
+ */
+export function detectUnstableSelectors(
+  ast: t.Node,
+  filePath: string,
+  fileContent?: string,
+  stabilityConfig: StabilityConfig = {},
+  allParsedFiles: ParsedFile[] = []
+): HookAnalysis[] {
+  const results: HookAnalysis[] = [];
+
+  traverse(ast, {
+    CallExpression(callPath: NodePath<t.CallExpression>) {
+      const hookName = getCalleeName(callPath.node);
+      if (!hookName) return;
+
+      const storeHook = getStoreHook(hookName, callPath, filePath, stabilityConfig, allParsedFiles);
+      if (!storeHook) return;
+
+      const { selector, equalityFn } = getSelectorArguments(hookName, callPath.node);
+
+      // useStore(useShallow(s => ...)) / useSelector(selectMemoized)
+      if (t.isCallExpression(selector)) {
+        const wrapper = getCalleeName(selector);
+        if (wrapper && MEMOIZED_SELECTOR_FACTORIES.has(wrapper)) return;
+      }
+      // useSelector(s => ..., shallowEqual) / useStoreWithEqualityFn(api, s => ..., shallow)
+      if (storeHook.honorsEqualityFn && equalityFn && !t.isObjectExpression(equalityFn)) return;
+      if (
+        storeHook.honorsEqualityFn &&
+        t.isObjectExpression(equalityFn) &&
+        equalityFn.properties.some(
+          (prop) => t.isObjectProperty(prop) && t.isIdentifier(prop.key, { name: 'equalityFn' })
+        )
+      ) {
+        return;
+      }
+
+      const selectorFn = resolveSelector(selector, callPath);
+      if (!selectorFn) return;
+
+      const freshValue = getSelectorFreshValue(selectorFn);
+      if (!freshValue) return;
+
+      const line = callPath.node.loc?.start.line || 0;
+      if (fileContent && isHookIgnored(fileContent, line)) return;
+
+      const selectorName = t.isIdentifier(selector) ? `'${selector.name}'` : 'The inline selector';
+      const isZustand = storeHook.library === 'zustand';
+      const ignoredEqualityFn =
+        isZustand && equalityFn && !storeHook.honorsEqualityFn
+          ? `The equality function passed to ${hookName}() is ignored: hooks created with ` +
+            `create() do not accept one in Zustand v5. `
+          : '';
+
+      results.push(
+        createAnalysis({
+          type: 'potential-issue',
+          errorCode: 'RLD-409',
+          category: isZustand ? 'warning' : 'performance',
+          severity: isZustand ? 'high' : 'medium',
+          confidence: 'high',
+          hookType: hookName,
+          line,
+          column: callPath.node.loc?.start.column,
+          file: filePath,
+          problematicDependency: t.isIdentifier(selector) ? selector.name : hookName,
+          stateVariable: undefined,
+          setterFunction: undefined,
+          actualStateModifications: [],
+          stateReads: [],
+          explanation:
+            `${selectorName} passed to ${hookName}() returns ${freshValue}, a new reference on every call. ` +
+            ignoredEqualityFn +
+            (isZustand
+              ? `Zustand v5 compares selector results with Object.is, so this re-renders until React ` +
+                `throws "Maximum update depth exceeded" (v4 re-renders on every store change).`
+              : `React-Redux compares selector results by reference, so the component re-renders ` +
+                `on every dispatched action, even when the selected data did not change.`),
+          suggestion: isZustand
+            ? `Wrap the selector with useShallow() (zustand/react/shallow), or select each value separately.`
+            : `Pass shallowEqual as the second argument, memoize the selector with createSelector(), ` +
+              `or select the raw state and derive the value with useMemo.`,
+        })
+      );
+    },
+  });
+
+  return results;
+}
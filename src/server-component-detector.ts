@@ -0,0 +1,160 @@
+/**
+ * Server Component Detector Module
+ *
+ * In the Next.js App Router, route files are React Server Components unless they start with
+ * "use client". Server Components render once on the server: they can't hold state or run
+ * effects, so client hooks throw and loop analysis doesn't apply:
+ *
+ * ```tsx
+ * // app/dashboard/page.tsx (no "use client")
+ * export default function Page() {
+ *   const [tab, setTab] = useState('overview'); // Error: useState only works in Client Components
+ * }
+ * ```
+ *
+ * Only route segment files (page, layout, template, ...) under an `app/` directory are
+ * treated as Server Components, and only with the `serverComponents` option (enabled by the
+ * Next.js preset). Other modules are Server or Client Components depending on who imports
+ * them. Modules marked "use server" contain Server Actions and are always server code.
+ */
+
+import * as path from 'path';
+import * as t from '@babel/types';
+import traverse, { NodePath } from '@babel/traverse';
+import { HookAnalysis } from './types';
+import { createAnalysis, isHookIgnored, isServerComponentsEnabled } from './utils';
+
+/** Where a server-only module runs its code */
+export type ServerModuleKind = 'server-component' | 'server-actions';
+
+/** App Router files that render a route segment */
+const ROUTE_SEGMENT_FILES = new Set([
+  'page',
+  'layout',
+  'template',
+  'loading',
+  'not-found',
+  'default',
+]);
+
+/** Hooks that need client state, effects or the browser (React, React DOM, next/navigation) */
+const CLIENT_ONLY_HOOKS = new Set([
+  'useState',
+  'useReducer',
+  'useEffect',
+  'useLayoutEffect',
+  'useInsertionEffect',
+  'useRef',
+  'useContext',
+  'useSyncExternalStore',
+  'useTransition',
+  'useDeferredValue',
+  'useImperativeHandle',
+  'useOptimistic',
+  'useActionState',
+  'useFormStatus',
+  'useRouter',
+  'usePathname',
+  'useSearchParams',
+  'useParams',
+  'useSelectedLayoutSegment',
+  'useSelectedLayoutSegments',
+]);
+
+/**
+ * Get the module-level directive of a file ("use client" / "use server"), if any.
+ */
+export function getModuleDirective(ast: t.File): 'use client' | 'use server' | null {
+  for (const directive of ast.program.directives) {
+    const value = directive.value.value;
+    if (value === 'use client' || value === 'use server') return value;
+  }
+  return null;
+}
+
+/**
+ * Check if a file is an App Router route segment file: `app/**\/page.tsx`, `layout.tsx`, ...
+ */
+function isRouteSegmentFile(filePath: string): boolean {
+  const segments = filePath.split(/[\\/]/);
+  const basename = path.basename(filePath, path.extname(filePath));
+  return segments.slice(0, -1).includes('app') && ROUTE_SEGMENT_FILES.has(basename);
+}
+
+/**
+ * Determine if a file only runs on the server: a "use server" module, or (with the
+ * `serverComponents` option) an App Router route file without "use client".
+ */
+export function getServerModuleKind(ast: t.File, filePath: string): ServerModuleKind | null {
+  const directive = getModuleDirective(ast);
+  if (directive === 'use server') return 'server-actions';
+  if (directive === 'use client' || !isServerComponentsEnabled()) return null;
+  return isRouteSegmentFile(filePath) ? 'server-component' : null;
+}
+
+/**
+ * Report client hook calls in a server-only module.
+ *
+ * @param ast - The file AST
+ * @param filePath - Path to the file being analyzed
+ * @param kind - Why the file runs on the server (see getServerModuleKind)
+ * @param fileContent - File content for comment detection
+ */
+export function detectServerComponentHooks(
+  ast: t.File,
+  filePath: string,
+  kind: ServerModuleKind,
+  fileContent?: string
+): HookAnalysis[] {
+  const results: HookAnalysis[] = [];
+  const fileName = path.basename(filePath);
+
+  traverse(ast, {
+    CallExpression(callPath: NodePath<t.CallExpression>) {
+      const callee = callPath.node.callee;
+      const hookName = t.isIdentifier(callee)
+        ? callee.name
+        : t.isMemberExpression(callee) && t.isIdentifier(callee.property)
+          ? callee.property.name
+          : null;
+      if (!hookName || !CLIENT_ONLY_HOOKS.has(hookName)) return;
+
+      const line = callPath.node.loc?.start.line || 0;
+      if (fileContent && isHookIgnored(fileContent, line)) return;
+
+      results.push(
+        createAnalysis({
+          type: 'potential-issue',
+          errorCode: 'RLD-700',
+          category: 'warning',
+          severity: 'high',
+          confidence: 'high',
+          hookType: hookName,
+          line,
+          column: callPath.node.loc?.start.column,
+          file: filePath,
+          problematicDependency: hookName,
+          stateVariable: undefined,
+          setterFunction: undefined,
+          actualStateModifications: [],
+          stateReads: [],
+          explanation:
+            kind === 'server-component'
+              ? `'${fileName}' is a Server Component (an App Router route file without "use client"), ` +
+                `but calls ${hookName}(). Server Components render once on the server, so client ` +
+                `hooks throw an error there. Loop analysis is skipped for this file.`
+              : `'${fileName}' is marked "use server": its exports are Server Actions that run on ` +
+                `the server, where ${hookName}() is not available.`,
+          suggestion:
+            kind === 'server-component'
+              ? `Add "use client" at the top of the file, or move the interactive part into a ` +
+                `Client Component and render it from '${fileName}'.`
+              : `Call ${hookName}() in the Client Component that invokes the action and pass ` +
+                `the values it needs as arguments.`,
+        })
+      );
+    },
+  });
+
+  return results;
+}
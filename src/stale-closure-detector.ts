@@ -0,0 +1,477 @@
+/**
+ * Stale Closure Detector Module
+ *
+ * The opposite of a dependency loop: a hook callback reads a reactive value that is missing
+ * from its dependency array, so it keeps seeing the value from the render it was created in:
+ *
+ * ```tsx
+ * const [count, setCount] = useState(0);
+ * const logCount = useCallback(() => console.log(count), []); // Always logs 0
+ * ```
+ *
+ * useImperativeHandle is checked like useCallback: a handle created with missing dependencies
+ * exposes methods that keep the values from the render it was created in.
+ *
+ * Reactive values are props, state, context, hook values and locals computed from them.
+ * Unlike the generic exhaustive-deps rule, values that can't go stale are not reported: state
+ * setters, refs, dispatch and navigate functions, actions destructured from stable hooks,
+ * stable setters returned by project-local custom hooks, and locals that don't read any reactive value (constants, objects and
+ * functions that only use module-level code).
+ */
+
+import * as t from '@babel/types';
+import traverse, { Binding, NodePath, Scope } from '@babel/traverse';
+import { ErrorCode, HookAnalysis } from './types';
+import { isConfiguredStableHook, StabilityConfig } from './state-extractor';
+import {
+  createAnalysis,
+  getCalleeName,
+  getEffectDependencyArray,
+  getHookCallbackIndex,
+  getMemberPath,
+  isEffectHook,
+  isHookIgnored,
+} from './utils';
+
+/** Memo hooks whose dependency array is the second argument */
+const MEMO_HOOKS = new Set(['useCallback', 'useMemo']);
+
+/** Hooks whose callback closes over values and whose dependency array is the last argument */
+const CLOSURE_HOOKS = new Set([...MEMO_HOOKS, 'useImperativeHandle']);
+
+/**
+ * Hooks whose result never changes. Hooks configured as stable (presets, `stableHooks`) only
+ * keep the same reference while their data is unchanged: `useSelector`, `useQuery` and
+ * `useParams` values still change, so they are reactive unless listed here.
+ */
+const CONSTANT_RESULT_HOOKS = new Set([
+  'useRef',
+  'useEffectEvent',
+  'useId',
+  'useDispatch',
+  'useNavigate',
+  'useNavigation',
+  'useQueryClient',
+  'useSetAtom',
+  'useSetRecoilState',
+  'useResetRecoilState',
+]);
+
+/** Method names destructured from a stable hook that never change: `setValue`, `trigger` */
+const STABLE_METHOD_NAME =
+  /^(set|get|reset|clear|trigger|dispatch|navigate|register|unregister)([A-Z]\w*)?$/;
+
+/** Hooks returning a tuple, with the index of the element that never changes (setter, dispatch) */
+const STABLE_TUPLE_INDEX: Record<string, number> = {
+  useState: 1,
+  useReducer: 1,
+  useTransition: 1,
+  useActionState: 1,
+  useOptimistic: 1,
+};
+
+/** What a reactive value is, for explanations */
+type ReactiveKind = 'state' | 'prop' | 'context' | 'hook value' | 'function' | 'derived value';
+
+/** A reactive value read in a hook callback and missing from the dependency array */
+interface MissingDependency {
+  /** The value as read: `count`, `user.id` */
+  name: string;
+  /** The local variable it is read from */
+  rootName: string;
+  kind: ReactiveKind;
+}
+
+/** Shared state for classifying the bindings of one component or custom hook */
+interface ReactivityContext {
+  ownerScope: Scope;
+  setterNames: Set<string>;
+  stabilityConfig: StabilityConfig;
+  cache: Map<Binding, boolean>;
+  visiting: Set<Binding>;
+}
+
+/**
+ * Get the key a destructured binding is read from: the array index or object field name
+ * (`const [a, b] = ...` -> '1' for b), or null for a plain identifier.
+ */
+function getDestructuredKey(pattern: t.Node, name: string): string | null {
+  if (t.isArrayPattern(pattern)) {
+    const index = pattern.elements.findIndex((element) => t.isIdentifier(element, { name }));
+    return index >= 0 ? String(index) : null;
+  }
+  if (t.isObjectPattern(pattern)) {
+    for (const property of pattern.properties) {
+      if (
+        t.isObjectProperty(property) &&
+        t.isIdentifier(property.key) &&
+        t.isIdentifier(property.value, { name })
+      ) {
+        return property.key.name;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Check if the result of a hook call, bound to `name`, can change between renders.
+ */
+function isReactiveHookResult(
+  hookName: string,
+  declarator: t.VariableDeclarator,
+  name: string,
+  ctx: ReactivityContext
+): boolean {
+  if (CONSTANT_RESULT_HOOKS.has(hookName)) return false;
+  if (ctx.setterNames.has(name)) return false;
+
+  const key = getDestructuredKey(declarator.id, name);
+  if (hookName in STABLE_TUPLE_INDEX) {
+    return key !== String(STABLE_TUPLE_INDEX[hookName]);
+  }
+  // Store actions and form methods (`const { setValue } = useForm()`) are constants
+  if (
+    key &&
+    STABLE_METHOD_NAME.test(key) &&
+    isConfiguredStableHook(hookName, ctx.stabilityConfig)
+  ) {
+    return false;
+  }
+
+  const summary = ctx.stabilityConfig.customHookSummaries?.get(hookName);
+  const value = summary?.values.get(key ?? '');
+  if (value && (value.role === 'setter' || value.role === 'updater') && value.isStable) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Check if a node reads a reactive binding of the component (other than `self`).
+ */
+function readsReactiveValue(path: NodePath, self: Binding | null, ctx: ReactivityContext): boolean {
+  const isReactiveReference = (idPath: NodePath<t.Identifier>) => {
+    const binding = idPath.scope.getBinding(idPath.node.name);
+    return (
+      binding !== undefined &&
+      binding !== self &&
+      binding.scope.getFunctionParent() === ctx.ownerScope &&
+      isReactiveBinding(binding, ctx)
+    );
+  };
+
+  if (path.isIdentifier()) return isReactiveReference(path);
+
+  let found = false;
+  path.traverse({
+    ReferencedIdentifier(idPath: NodePath<t.Identifier | t.JSXIdentifier>) {
+      if (idPath.isIdentifier() && isReactiveReference(idPath)) {
+        found = true;
+        idPath.stop();
+      }
+    },
+  });
+  return found;
+}
+
+/**
+ * Check if a binding declared in the component body can change between renders.
+ */
+function isReactiveBinding(binding: Binding, ctx: ReactivityContext): boolean {
+  const cached = ctx.cache.get(binding);
+  if (cached !== undefined) return cached;
+  // Recursive definitions (a function calling itself) don't make a value reactive
+  if (ctx.visiting.has(binding)) return false;
+  ctx.visiting.add(binding);
+
+  let reactive = true;
+  const bindingPath = binding.path;
+  if (binding.kind === 'param') {
+    reactive = true;
+  } else if (bindingPath.isFunctionDeclaration()) {
+    reactive = readsReactiveValue(bindingPath.get('body'), binding, ctx);
+  } else if (bindingPath.isVariableDeclarator() && binding.constantViolations.length === 0) {
+    const declarator = bindingPath.node;
+    const hookName = getCalleeName(declarator.init);
+    const memoDeps = t.isCallExpression(declarator.init) ? declarator.init.arguments[1] : null;
+    if (!declarator.init) {
+      reactive = true;
+    } else if (MEMO_HOOKS.has(hookName ?? '') && t.isArrayExpression(memoDeps)) {
+      // A memoized value only changes when one of its dependencies does
+      reactive = readsReactiveValue(bindingPath.get('init.arguments.1') as NodePath, binding, ctx);
+    } else if (hookName && /^use[A-Z]/.test(hookName)) {
+      reactive = isReactiveHookResult(hookName, declarator, binding.identifier.name, ctx);
+    } else {
+      reactive = readsReactiveValue(bindingPath.get('init') as NodePath, binding, ctx);
+    }
+  }
+
+  ctx.visiting.delete(binding);
+  ctx.cache.set(binding, reactive);
+  return reactive;
+}
+
+/**
+ * Describe what a reactive binding is, for explanations.
+ */
+function getReactiveKind(binding: Binding): ReactiveKind {
+  if (binding.kind === 'param') return 'prop';
+  const bindingPath = binding.path;
+  if (bindingPath.isFunctionDeclaration()) return 'function';
+  if (!bindingPath.isVariableDeclarator()) return 'derived value';
+
+  const init = bindingPath.node.init;
+  const hookName = getCalleeName(init);
+  if (hookName === 'useState' || hookName === 'useReducer') return 'state';
+  if (hookName === 'useContext' || hookName === 'use') return 'context';
+  if (hookName && /^use[A-Z]/.test(hookName)) return 'hook value';
+  if (t.isArrowFunctionExpression(init) || t.isFunctionExpression(init)) return 'function';
+  return 'derived value';
+}
+
+/**
+ * Get the path an identifier is read through: `user.id` for `user.id.toString()`.
+ * Method calls read the whole object: `user.getName()` reads `user`.
+ */
+function getReadPath(idPath: NodePath<t.Identifier>): string {
+  let current: NodePath = idPath;
+  let readPath = idPath.node.name;
+  while (
+    (current.parentPath?.isMemberExpression() ||
+      current.parentPath?.isOptionalMemberExpression()) &&
+    (current.parentPath.node as t.MemberExpression).object === current.node
+  ) {
+    const member = current.parentPath.node as t.MemberExpression;
+    if (member.computed || !t.isIdentifier(member.property)) break;
+    const parent = current.parentPath.parentPath;
+    const isMethodCall =
+      (parent?.isCallExpression() || parent?.isOptionalCallExpression()) &&
+      (parent.node as t.CallExpression).callee === member;
+    if (isMethodCall) break;
+    readPath = `${readPath}.${member.property.name}`;
+    current = current.parentPath;
+  }
+  return readPath;
+}
+
+/**
+ * Check if a dependency array suppresses the exhaustive-deps lint rule on purpose.
+ */
+function hasExhaustiveDepsDisable(
+  fileContent: string,
+  startLine: number,
+  endLine: number
+): boolean {
+  const lines = fileContent.split('\n').slice(Math.max(0, startLine - 2), endLine);
+  return lines.some((line) => line.includes('react-hooks/exhaustive-deps'));
+}
+
+/**
+ * Find the reactive values a hook callback reads that its dependency array doesn't cover.
+ */
+function findMissingDependencies(
+  callbackPath: NodePath<t.Function>,
+  depsArray: t.ArrayExpression,
+  ctx: ReactivityContext
+): MissingDependency[] {
+  const deps = depsArray.elements
+    .map((element) => getMemberPath(element))
+    .filter((dep): dep is string => dep !== null);
+  const isCovered = (readPath: string) =>
+    deps.some((dep) => dep === readPath || readPath.startsWith(`${dep}.`));
+
+  const missing: MissingDependency[] = [];
+  callbackPath.traverse({
+    ReferencedIdentifier(idPath: NodePath<t.Identifier | t.JSXIdentifier>) {
+      if (!idPath.isIdentifier()) return;
+      // `typeof value` in a type annotation is erased at compile time
+      if (idPath.findParent((parent) => parent.isTSTypeQuery())) return;
+      const binding = idPath.scope.getBinding(idPath.node.name);
+      if (!binding || binding.scope.getFunctionParent() !== ctx.ownerScope) return;
+      if (!isReactiveBinding(binding, ctx)) return;
+
+      const readPath = getReadPath(idPath);
+      if (isCovered(readPath) || missing.some((m) => m.name === readPath)) return;
+      missing.push({
+        name: readPath,
+        rootName: idPath.node.name,
+        kind: getReactiveKind(binding),
+      });
+    },
+  });
+
+  // Reading `user` covers `user.id`: keep the shortest path per variable
+  return missing.filter(
+    (dependency) => !missing.some((other) => dependency.name.startsWith(`${other.name}.`))
+  );
+}
+
+/**
+ * Find state variables the callback only reads to compute their own next value:
+ * `setCount(count + 1)` can use a functional update instead of depending on `count`.
+ */
+function findFunctionalUpdateCandidates(
+  callbackPath: NodePath<t.Function>,
+  missing: MissingDependency[],
+  stateInfo: Map<string, string>
+): string[] {
+  const candidates: string[] = [];
+  for (const dependency of missing) {
+    const setter = dependency.kind === 'state' ? stateInfo.get(dependency.rootName) : undefined;
+    if (!setter) continue;
+    let updatesWithValue = false;
+    callbackPath.traverse({
+      CallExpression(callPath: NodePath<t.CallExpression>) {
+        const argument = callPath.node.arguments[0];
+        if (
+          t.isIdentifier(callPath.node.callee, { name: setter }) &&
+          argument &&
+          !t.isFunction(argument)
+        ) {
+          callPath.traverse({
+            Identifier(idPath: NodePath<t.Identifier>) {
+              if (idPath.node.name === dependency.rootName) updatesWithValue = true;
+            },
+          });
+        }
+      },
+    });
+    if (updatesWithValue) candidates.push(`${setter}(${dependency.rootName} => ...)`);
+  }
+  return candidates;
+}
+
+/**
+ * Check if a dependency array lists a value that can change between renders, i.e. if the
+ * hook runs again after mount. Setters, refs and stable hook values never change.
+ *
+ * @param depsPath - The dependency array of a hook call in a component or custom hook
+ * @param stateInfo - State variables and their setters (from extractStateInfo)
+ * @param stabilityConfig - Stable hook configuration and custom hook summaries
+ */
+export function hasReactiveDependency(
+  depsPath: NodePath<t.ArrayExpression>,
+  stateInfo: Map<string, string>,
+  stabilityConfig: StabilityConfig
+): boolean {
+  const ownerPath = depsPath.getFunctionParent();
+  if (!ownerPath) return false;
+  return readsReactiveValue(depsPath, null, {
+    ownerScope: ownerPath.scope,
+    setterNames: new Set(stateInfo.values()),
+    stabilityConfig,
+    cache: new Map(),
+    visiting: new Set(),
+  });
+}
+
+/**
+ * Detect hook callbacks that read props, state, context or values derived from them
+ * without listing them as dependencies.
+ *
+ * @param ast - The file AST
+ * @param stateInfo - State variables and their setters (from extractStateInfo)
+ * @param stabilityConfig - Stable hook configuration and custom hook summaries
+ * @param filePath - Path to the file being analyzed
+ * @param fileContent - File content for comment detection
+ */
+export function detectStaleClosures(
+  ast: t.Node,
+  stateInfo: Map<string, string>,
+  stabilityConfig: StabilityConfig,
+  filePath: string,
+  fileContent?: string
+): HookAnalysis[] {
+  const results: HookAnalysis[] = [];
+  const setterNames = new Set(stateInfo.values());
+  const contexts = new Map<Scope, ReactivityContext>();
+
+  traverse(ast, {
+    CallExpression(hookPath: NodePath<t.CallExpression>) {
+      const hookName = getCalleeName(hookPath.node);
+      if (!hookName) return;
+      const isEffect = isEffectHook(hookName);
+      if (!isEffect && !CLOSURE_HOOKS.has(hookName)) return;
+
+      const callbackIndex = getHookCallbackIndex(hookName);
+      const depsArray = isEffect
+        ? getEffectDependencyArray(hookPath.node)
+        : hookPath.node.arguments[callbackIndex + 1];
+      const callbackPath = hookPath.get('arguments')[callbackIndex];
+      if (!t.isArrayExpression(depsArray) || !callbackPath?.isFunction()) return;
+
+      const ownerPath = hookPath.getFunctionParent();
+      if (!ownerPath) return;
+
+      const line = hookPath.node.loc?.start.line || 0;
+      const endLine = depsArray.loc?.end.line || line;
+      if (fileContent && isHookIgnored(fileContent, line)) return;
+      if (fileContent && hasExhaustiveDepsDisable(fileContent, line, endLine)) return;
+
+      let ctx = contexts.get(ownerPath.scope);
+      if (!ctx) {
+        ctx = {
+          ownerScope: ownerPath.scope,
+          setterNames,
+          stabilityConfig,
+          cache: new Map(),
+          visiting: new Set(),
+        };
+        contexts.set(ownerPath.scope, ctx);
+      }
+
+      const missing = findMissingDependencies(callbackPath, depsArray, ctx);
+      if (missing.length === 0) return;
+
+      const names = missing.map((dependency) => `'${dependency.name}' (${dependency.kind})`);
+      const list =
+        names.length === 1
+          ? names[0]
+          : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+      const first = missing[0].name;
+      const readsStateOrProps = missing.some(
+        (dependency) => dependency.kind === 'state' || dependency.kind === 'prop'
+      );
+      const consequence = isEffect
+        ? `When '${first}' changes, the effect doesn't re-run, and the callbacks it sets up (timers, listeners, subscriptions) keep using the value from the render it last ran in.`
+        : hookName === 'useCallback'
+          ? `The memoized callback keeps the values from the render it was created in, so calling it after '${first}' changes uses the old value.`
+          : hookName === 'useImperativeHandle'
+            ? `The handle keeps the values from the render it was created in, so a parent calling its methods after '${first}' changes gets the old value.`
+            : `The memoized value is not recomputed when '${first}' changes.`;
+      const functionalUpdates = findFunctionalUpdateCandidates(callbackPath, missing, stateInfo);
+      const missingNames = missing.map((dependency) => dependency.name).join(', ');
+      const errorCode: ErrorCode = isEffect ? 'RLD-502' : 'RLD-503';
+
+      results.push(
+        createAnalysis({
+          type: 'potential-issue',
+          errorCode,
+          category: 'warning',
+          severity: missing.some((dependency) => dependency.kind === 'state') ? 'high' : 'medium',
+          confidence: readsStateOrProps ? 'high' : 'medium',
+          hookType: hookName,
+          line,
+          file: filePath,
+          problematicDependency: first,
+          stateVariable: missing.find((dependency) => dependency.kind === 'state')?.rootName,
+          setterFunction: undefined,
+          actualStateModifications: [],
+          stateReads: missing.map((dependency) => dependency.name),
+          explanation:
+            `${hookName} reads ${list}, but ${missing.length === 1 ? 'it is' : 'they are'} missing ` +
+            `from the dependency array. ${consequence}`,
+          suggestion:
+            functionalUpdates.length > 0
+              ? `Use a functional update (${functionalUpdates.join(', ')}) instead of reading the current state, and add any other values to the dependency array.`
+              : isEffect
+                ? `Add ${missingNames} to the dependency array. If the effect should not re-run when ${missing.length === 1 ? 'it changes' : 'they change'}, read ${missing.length === 1 ? 'it' : 'them'} through a ref or useEffectEvent.`
+                : `Add ${missingNames} to the dependency array.`,
+        })
+      );
+    },
+  });
+
+  return results;
+}
@@ -12,13 +12,19 @@
  */
 
 import * as t from '@babel/types';
-import traverse, { NodePath } from '@babel/traverse';
+import traverse, { NodePath, Scope } from '@babel/traverse';
 import { TypeChecker } from './type-checker';
+import {
+  CustomHookSummary,
+  getDestructuredHookValues,
+  getHookStatePairs,
+} from './custom-hook-summary';
+import { getComponentName, getMemberPath, isBuiltinStableCall } from './utils';
 
 /** Information about a local variable that may be recreated on each render */
 export interface UnstableVariable {
   name: string;
-  type: 'object' | 'array' | 'function' | 'function-call';
+  type: 'object' | 'array' | 'function' | 'function-call' | 'hook-return';
   line: number;
   /** True if wrapped in useMemo/useCallback/useRef */
   isMemoized: boolean;
@@ -30,119 +36,18 @@ export interface UnstableVariable {
   componentStartLine?: number;
   /** End line of the component that contains this variable */
   componentEndLine?: number;
+  /** Default expression when the variable is a defaulted parameter, e.g. `[]` in `{ items = [] }` */
+  defaultValue?: string;
+  /** For hook return values: the summarized custom hook that recreates the value, e.g. `useItems` */
+  sourceHook?: string;
 }
 
 export interface StateAndRefInfo {
   stateVariables: Map<string, string>; // state var -> setter name
   refVariables: Set<string>; // ref variable names
+  deferredSetters: Set<string>; // custom hook updaters that only set state asynchronously
 }
 
-/** Function calls that return stable/primitive values */
-const STABLE_FUNCTION_CALLS = new Set([
-  'require',
-  'String',
-  'Number',
-  'Boolean',
-  'parseInt',
-  'parseFloat',
-]);
-
-/**
- * Method calls that return primitive values (string, number, boolean).
- * Primitives are compared by value, not reference, so they're stable.
- */
-const PRIMITIVE_RETURNING_METHODS = new Set([
-  // String methods
-  'join',
-  'toString',
-  'toLocaleString',
-  'valueOf',
-  'charAt',
-  'charCodeAt',
-  'codePointAt',
-  'substring',
-  'substr',
-  'slice',
-  'trim',
-  'trimStart',
-  'trimEnd',
-  'toLowerCase',
-  'toUpperCase',
-  'toLocaleLowerCase',
-  'toLocaleUpperCase',
-  'normalize',
-  'padStart',
-  'padEnd',
-  'repeat',
-  'replace',
-  'replaceAll',
-  // Number methods
-  'toFixed',
-  'toExponential',
-  'toPrecision',
-  // Array methods that return primitives
-  'indexOf',
-  'lastIndexOf',
-  'length', // Not a method but included for member expressions
-  // Boolean checks
-  'includes',
-  'startsWith',
-  'endsWith',
-  'every',
-  'some',
-  // Reduce can return primitives (commonly does)
-  // Note: We'll be conservative here - reduce CAN return objects
-]);
-
-/**
- * Static methods on built-in objects that return primitives.
- */
-const PRIMITIVE_RETURNING_STATIC_METHODS: Record<string, Set<string>> = {
-  Math: new Set([
-    'abs',
-    'acos',
-    'acosh',
-    'asin',
-    'asinh',
-    'atan',
-    'atan2',
-    'atanh',
-    'cbrt',
-    'ceil',
-    'clz32',
-    'cos',
-    'cosh',
-    'exp',
-    'expm1',
-    'floor',
-    'fround',
-    'hypot',
-    'imul',
-    'log',
-    'log10',
-    'log1p',
-    'log2',
-    'max',
-    'min',
-    'pow',
-    'random',
-    'round',
-    'sign',
-    'sin',
-    'sinh',
-    'sqrt',
-    'tan',
-    'tanh',
-    'trunc',
-  ]),
-  Number: new Set(['isFinite', 'isInteger', 'isNaN', 'isSafeInteger', 'parseFloat', 'parseInt']),
-  String: new Set(['fromCharCode', 'fromCodePoint']),
-  Object: new Set(['is', 'hasOwn']),
-  Array: new Set(['isArray']),
-  Date: new Set(['now', 'parse', 'UTC']),
-  JSON: new Set(['stringify']), // Returns string
-};
-
 /**
  * React hooks that are guaranteed to return stable values/references.
  * Note: useState and useReducer return tuples where the setter/dispatch is stable,
@@ -161,6 +66,8 @@ const STABLE_REACT_HOOKS = new Set([
 export interface StabilityCheckContext {
   filePath?: string;
   line?: number;
+  /** Scope of the call, to resolve where a called method comes from */
+  scope?: Scope;
 }
 
 /**
@@ -178,8 +85,11 @@ export interface StabilityConfig {
     {
       stable?: boolean;
       deferred?: boolean;
+      network?: boolean;
     }
   >;
+  /** Summaries of project-local custom hooks, keyed by the name used in the analyzed file */
+  customHookSummaries?: Map<string, CustomHookSummary>;
 }
 
 /**
@@ -213,8 +123,26 @@ export function isConfiguredUnstableHook(hookName: string, config: StabilityConf
 }
 
 /**
- * Check if a function is configured as stable via options
- * Reserved for future use when customFunctions config is fully integrated
+ * Get the summary of a project-local custom hook call.
+ * Hooks listed in stableHooks/unstableHooks (or matching a pattern) keep their configured
+ * behavior, so the summary is ignored for them.
+ */
+export function getCustomHookSummary(
+  init: t.Node | null | undefined,
+  config?: StabilityConfig
+): CustomHookSummary | undefined {
+  if (!config?.customHookSummaries || !t.isCallExpression(init) || !t.isIdentifier(init.callee)) {
+    return undefined;
+  }
+  const hookName = init.callee.name;
+  if (isConfiguredStableHook(hookName, config) || isConfiguredUnstableHook(hookName, config)) {
+    return undefined;
+  }
+  return config.customHookSummaries.get(hookName);
+}
+
+/**
+ * Check if a function is configured as stable via options (customFunctions[name].stable)
  */
 export function isConfiguredStableFunction(functionName: string, config: StabilityConfig): boolean {
   return config.customFunctions?.[functionName]?.stable ?? false;
@@ -256,6 +184,24 @@ export function checkFunctionReturnStability(
   }
 }
 
+/**
+ * Get the hook a called method comes from: `useCartStore` for `useCartStore.getState()`,
+ * `useForm` for `form.watch()` (with `form = useForm()`) or for `watch()` (with
+ * `const { watch } = useForm()`). Returns null for other calls.
+ */
+function getMethodSourceHook(callee: t.Node, scope?: Scope): string | null {
+  const isMethodCall = t.isMemberExpression(callee);
+  const receiver = isMethodCall ? callee.object : callee;
+  if (!t.isIdentifier(receiver)) return null;
+  if (isMethodCall && /^use[A-Z]/.test(receiver.name)) return receiver.name;
+
+  const declarator = scope?.getBinding(receiver.name)?.path.node;
+  if (!t.isVariableDeclarator(declarator) || !t.isCallExpression(declarator.init)) return null;
+  // Methods are called on the hook result (`form.watch`) or destructured from it (`watch`)
+  if (isMethodCall !== t.isIdentifier(declarator.id)) return null;
+  return t.isIdentifier(declarator.init.callee) ? declarator.init.callee.name : null;
+}
+
 /**
  * Check if a CallExpression is a stable function call (returns primitive or stable value)
  *
@@ -263,6 +209,8 @@ export function checkFunctionReturnStability(
  * 1. Built-in React hooks (STABLE_REACT_HOOKS)
  * 2. Known stable function calls (require, String, Number, etc.)
  * 3. User config + library presets (stableHooks, unstableHooks, patterns)
+ * 3b. Summaries of project-local custom hooks (see custom-hook-summary.ts)
+ * 3c. Functions configured as stable (customFunctions)
  * 4. TypeScript type checker (strict mode only, for unknown hooks)
  * 5. use* heuristic (fallback for unrecognized hooks)
  *
@@ -284,7 +232,7 @@ export function isStableFunctionCall(
   }
 
   // 2. Known stable function calls (require, String, Number, etc.)
-  if (t.isIdentifier(callee) && STABLE_FUNCTION_CALLS.has(callee.name)) {
+  if (t.isIdentifier(callee) && isBuiltinStableCall(init)) {
     return true;
   }
 
@@ -299,6 +247,35 @@ export function isStableFunctionCall(
     if (isConfiguredStableHook(callee.name, config)) {
       return true;
     }
+    // 3b. Project-local custom hooks: use what the hook body actually returns
+    const summary = config.customHookSummaries?.get(callee.name);
+    if (summary) {
+      return summary.returnsStableValue;
+    }
+  }
+
+  // 3c. Functions configured as stable: by full name (`formatDate`, `api.users.list`), or by
+  // method name when the method comes from a stable hook (`form.watch('items')` with
+  // `form = useForm()`, `watch('items')` destructured from useForm(), `useCartStore.getState()`)
+  if (config) {
+    const sourceHook = getMethodSourceHook(callee, context?.scope);
+    const methodName = t.isIdentifier(callee)
+      ? callee.name
+      : t.isMemberExpression(callee) && t.isIdentifier(callee.property)
+        ? callee.property.name
+        : null;
+    if (sourceHook) {
+      if (
+        methodName &&
+        isConfiguredStableFunction(methodName, config) &&
+        isConfiguredStableHook(sourceHook, config)
+      ) {
+        return true;
+      }
+    } else {
+      const fullName = getMemberPath(callee);
+      if (fullName && isConfiguredStableFunction(fullName, config)) return true;
+    }
   }
 
   // 4. In strict mode with type checker, use actual types for UNKNOWN hooks only
@@ -342,23 +319,18 @@ export function isStableFunctionCall(
   if (t.isMemberExpression(callee) && t.isIdentifier(callee.property)) {
     const methodName = callee.property.name;
 
-    // Methods that return primitives (strings, numbers, booleans)
-    if (PRIMITIVE_RETURNING_METHODS.has(methodName)) {
+    // Methods that return primitives (e.g., array.join(), Math.round(), Date.now())
+    if (isBuiltinStableCall(init)) {
       return true;
     }
 
-    // Check for static methods on built-in objects (e.g., Math.round(), Date.now())
-    if (t.isIdentifier(callee.object)) {
-      const objectName = callee.object.name;
-      const staticMethods = PRIMITIVE_RETURNING_STATIC_METHODS[objectName];
-      if (staticMethods?.has(methodName)) {
-        return true;
-      }
-    }
-
     // Zustand/store pattern: store.getState() returns stable references
     // Pattern: useXxxStore.getState() or xxxStore.getState()
-    if (methodName === 'getState') {
+    if (
+      methodName === 'getState' &&
+      t.isIdentifier(callee.object) &&
+      /store$/i.test(callee.object.name)
+    ) {
       return true;
     }
   }
@@ -460,6 +432,143 @@ export function addUnstableDestructuredVariables(
   }
 }
 
+/**
+ * Short source form of a default value for explanations: `[]`, `{ ... }`, `createFilters()`.
+ */
+function describeDefaultValue(node: t.Expression): string {
+  if (t.isArrayExpression(node)) return node.elements.length ? '[...]' : '[]';
+  if (t.isObjectExpression(node)) return node.properties.length ? '{ ... }' : '{}';
+  if (t.isArrowFunctionExpression(node)) return '() => ...';
+  if (t.isFunctionExpression(node)) return 'function () { ... }';
+  if (t.isCallExpression(node)) {
+    const callee = node.callee;
+    if (t.isIdentifier(callee)) return `${callee.name}()`;
+    if (t.isMemberExpression(callee) && t.isIdentifier(callee.property)) {
+      return `${t.isIdentifier(callee.object) ? `${callee.object.name}.` : ''}${callee.property.name}()`;
+    }
+  }
+  return 'default value';
+}
+
+/**
+ * Add parameters whose default value is recreated on every call:
+ * `function List({ items = [], options = {} })` or `function useFilters(options = {})`.
+ * Each time the argument (or prop) is omitted, the default is a new reference.
+ */
+function addUnstableParameterDefaults(
+  pattern: t.Node,
+  unstableVars: Map<string, UnstableVariable>,
+  componentBoundary: ComponentBoundaryInfo,
+  filePath?: string,
+  typeChecker?: TypeChecker | null,
+  config?: StabilityConfig
+): void {
+  if (t.isObjectPattern(pattern)) {
+    for (const prop of pattern.properties) {
+      if (t.isObjectProperty(prop)) {
+        addUnstableParameterDefaults(
+          prop.value,
+          unstableVars,
+          componentBoundary,
+          filePath,
+          typeChecker,
+          config
+        );
+      }
+    }
+    return;
+  }
+
+  if (t.isArrayPattern(pattern)) {
+    for (const element of pattern.elements) {
+      if (element) {
+        addUnstableParameterDefaults(
+          element,
+          unstableVars,
+          componentBoundary,
+          filePath,
+          typeChecker,
+          config
+        );
+      }
+    }
+    return;
+  }
+
+  if (!t.isAssignmentPattern(pattern)) return;
+  if (!t.isIdentifier(pattern.left)) {
+    // ({ a } = {}) - the names are bound inside the nested pattern
+    addUnstableParameterDefaults(
+      pattern.left,
+      unstableVars,
+      componentBoundary,
+      filePath,
+      typeChecker,
+      config
+    );
+    return;
+  }
+
+  const defaultValue = pattern.right;
+  const line = pattern.loc?.start.line || 0;
+  const context: StabilityCheckContext | undefined = filePath ? { filePath, line } : undefined;
+  const isUnstableDefault =
+    t.isObjectExpression(defaultValue) ||
+    t.isArrayExpression(defaultValue) ||
+    t.isArrowFunctionExpression(defaultValue) ||
+    t.isFunctionExpression(defaultValue) ||
+    (t.isCallExpression(defaultValue) &&
+      !isStableFunctionCall(defaultValue, context, typeChecker, config));
+  if (!isUnstableDefault) return;
+
+  const name = pattern.left.name;
+  unstableVars.set(`${componentBoundary.name}:${name}`, {
+    name,
+    type: getUnstableVarType(defaultValue),
+    line,
+    isMemoized: false,
+    isModuleLevel: false,
+    componentName: componentBoundary.name,
+    componentStartLine: componentBoundary.startLine,
+    componentEndLine: componentBoundary.endLine,
+    defaultValue: describeDefaultValue(defaultValue),
+  });
+}
+
+/**
+ * Add the destructured values of a summarized custom hook call. Only the values the hook
+ * recreates on every render become unstable; everything else is treated as stable.
+ */
+function addCustomHookDestructuredVariables(
+  id: t.LVal,
+  summary: CustomHookSummary,
+  line: number,
+  unstableVars: Map<string, UnstableVariable>,
+  stableVars: Set<string>,
+  componentBoundary?: ComponentBoundaryInfo
+): void {
+  const hookValues = getDestructuredHookValues(id, summary);
+
+  for (const name of extractIdentifiersFromPattern(id)) {
+    const hookValue = hookValues.get(name)?.value;
+    if (!hookValue || hookValue.isStable || !componentBoundary) {
+      stableVars.add(name);
+      continue;
+    }
+    unstableVars.set(`${componentBoundary.name}:${name}`, {
+      name,
+      type: 'hook-return',
+      line,
+      isMemoized: false,
+      isModuleLevel: false,
+      componentName: componentBoundary.name,
+      componentStartLine: componentBoundary.startLine,
+      componentEndLine: componentBoundary.endLine,
+      sourceHook: summary.name,
+    });
+  }
+}
+
 /**
  * Extract state variables and their setters from an AST.
  * Handles:
@@ -467,11 +576,18 @@ export function addUnstableDestructuredVariables(
  * - useReducer: const [state, dispatch] = useReducer(...)
  * - Custom hooks: const [state, setState] = useCustomHook(...)
  * - useContext: const { data, setData } = useContext(...)
+ * - React Router: const [searchParams, setSearchParams] = useSearchParams()
  * - useRef: const ref = useRef(...)
+ * - Summarized custom hooks: const { items, reload } = useItems() (see custom-hook-summary.ts)
+ *
+ * @param ast - The AST node to analyze
+ * @param config - Optional stability config; its custom hook summaries are used for hooks
+ *   not listed in stableHooks/unstableHooks
  */
-export function extractStateInfo(ast: t.Node): StateAndRefInfo {
+export function extractStateInfo(ast: t.Node, config?: StabilityConfig): StateAndRefInfo {
   const stateVariables = new Map<string, string>(); // state var -> setter name
   const refVariables = new Set<string>(); // ref variable names
+  const deferredSetters = new Set<string>(); // updaters that only set state asynchronously
 
   traverse(ast, {
     VariableDeclarator(nodePath: NodePath<t.VariableDeclarator>) {
@@ -526,6 +642,19 @@ export function extractStateInfo(ast: t.Node): StateAndRefInfo {
         }
       }
 
+      // Extract React Router search params: const [params, updateParams] = useSearchParams()
+      // Setting them navigates, which creates a new searchParams object
+      if (
+        t.isArrayPattern(nodePath.node.id) &&
+        t.isCallExpression(nodePath.node.init) &&
+        t.isIdentifier(nodePath.node.init.callee, { name: 'useSearchParams' })
+      ) {
+        const [first, second] = nodePath.node.id.elements;
+        if (t.isIdentifier(first) && t.isIdentifier(second)) {
+          stateVariables.set(first.name, second.name);
+        }
+      }
+
       // Extract useContext patterns: const { data, setData } = useContext(MyContext)
       if (
         t.isObjectPattern(nodePath.node.id) &&
@@ -557,10 +686,22 @@ export function extractStateInfo(ast: t.Node): StateAndRefInfo {
           }
         }
       }
+
+      // Extract state/updater pairs exposed by summarized custom hooks:
+      // const { items, reload } = useItems() where reload() calls setItems()
+      const hookSummary = getCustomHookSummary(nodePath.node.init, config);
+      if (hookSummary) {
+        for (const pair of getHookStatePairs(nodePath.node.id, hookSummary)) {
+          stateVariables.set(pair.stateVariable, pair.setter);
+          if (pair.isDeferred) {
+            deferredSetters.add(pair.setter);
+          }
+        }
+      }
     },
   });
 
-  return { stateVariables, refVariables };
+  return { stateVariables, refVariables, deferredSetters };
 }
 
 /**
@@ -604,6 +745,19 @@ export function extractUnstableVariables(
     memoizedVars.get(key)!.add(varName);
   };
 
+  // Track defaulted parameters of components (props) and custom hooks
+  const addParameterDefaults = (fn: t.Function, name: string): void => {
+    if (!/^[A-Z]/.test(name) && !/^use[A-Z]/.test(name)) return;
+    const boundary: ComponentBoundaryInfo = {
+      name,
+      startLine: fn.loc?.start.line || 0,
+      endLine: fn.loc?.end.line || 0,
+    };
+    for (const param of fn.params) {
+      addUnstableParameterDefaults(param, unstableVars, boundary, filePath, typeChecker, config);
+    }
+  };
+
   traverse(ast, {
     // Track function component boundaries
     FunctionDeclaration: {
@@ -617,6 +771,7 @@ export function extractUnstableVariables(
             endLine: nodePath.node.loc?.end.line || 0,
           });
         }
+        if (name) addParameterDefaults(nodePath.node, name);
       },
       exit(nodePath: NodePath<t.FunctionDeclaration>) {
         const name = nodePath.node.id?.name;
@@ -647,6 +802,20 @@ export function extractUnstableVariables(
           return;
         }
 
+        // Summarized project-local custom hooks: only values the hook recreates are unstable
+        const arrayHookSummary = getCustomHookSummary(init, config);
+        if (arrayHookSummary) {
+          addCustomHookDestructuredVariables(
+            id,
+            arrayHookSummary,
+            line,
+            unstableVars,
+            stateVars,
+            getCurrentComponent()
+          );
+          return;
+        }
+
         // Track custom hooks that follow the [state, setState] pattern
         // These are treated as state-like even though the hook itself isn't guaranteed stable
         if (
@@ -674,9 +843,7 @@ export function extractUnstableVariables(
         }
 
         // Skip stable function calls (React hooks, parseInt, etc.)
-        const context: StabilityCheckContext | undefined = filePath
-          ? { filePath, line }
-          : undefined;
+        const context: StabilityCheckContext = { filePath, line, scope: nodePath.scope };
         if (t.isCallExpression(init) && isStableFunctionCall(init, context, typeChecker, config)) {
           return;
         }
@@ -722,6 +889,20 @@ export function extractUnstableVariables(
           return;
         }
 
+        // Summarized project-local custom hooks: only values the hook recreates are unstable
+        const objectHookSummary = getCustomHookSummary(init, config);
+        if (objectHookSummary) {
+          addCustomHookDestructuredVariables(
+            id,
+            objectHookSummary,
+            line,
+            unstableVars,
+            stateVars,
+            getCurrentComponent()
+          );
+          return;
+        }
+
         // Track object destructuring from any custom hook (use* prefix)
         // Custom hooks typically return stable values from state management (Zustand, Redux, etc.)
         // or memoized values. Treating them as unstable causes many false positives.
@@ -738,9 +919,7 @@ export function extractUnstableVariables(
         }
 
         // Skip stable function calls (React hooks, parseInt, etc.)
-        const objContext: StabilityCheckContext | undefined = filePath
-          ? { filePath, line }
-          : undefined;
+        const objContext: StabilityCheckContext = { filePath, line, scope: nodePath.scope };
         if (
           t.isCallExpression(init) &&
           isStableFunctionCall(init, objContext, typeChecker, config)
@@ -750,6 +929,17 @@ export function extractUnstableVariables(
 
         // Inside component: destructuring from unstable source
         const objCurrentComp = getCurrentComponent();
+        // Props destructured in the body: const { items = [] } = props
+        if (objCurrentComp && t.isIdentifier(init)) {
+          addUnstableParameterDefaults(
+            id,
+            unstableVars,
+            objCurrentComp,
+            filePath,
+            typeChecker,
+            config
+          );
+        }
         if (objCurrentComp) {
           addUnstableDestructuredVariables(
             id,
@@ -871,22 +1061,22 @@ export function extractUnstableVariables(
       // Function call that likely returns new object/array: const config = createConfig()
       else if (t.isCallExpression(init)) {
         // Skip stable function calls (React hooks, parseInt, etc.)
-        const callContext: StabilityCheckContext | undefined = filePath
-          ? { filePath, line }
-          : undefined;
+        const callContext: StabilityCheckContext = { filePath, line, scope: nodePath.scope };
         if (isStableFunctionCall(init, callContext, typeChecker, config)) {
           return;
         }
-        // Other function calls may return new objects
+        // Other function calls may return new objects; summarized hooks are known to
+        const hookSummary = getCustomHookSummary(init, config);
         unstableVars.set(`${simpleCurrentComp.name}:${varName}`, {
           name: varName,
-          type: 'function-call',
+          type: hookSummary ? 'hook-return' : 'function-call',
           line,
           isMemoized: false,
           isModuleLevel: false,
           componentName: simpleCurrentComp.name,
           componentStartLine: simpleCurrentComp.startLine,
           componentEndLine: simpleCurrentComp.endLine,
+          sourceHook: hookSummary?.name,
         });
       }
     },
@@ -894,27 +1084,22 @@ export function extractUnstableVariables(
     // Track arrow function components
     ArrowFunctionExpression: {
       enter(nodePath: NodePath<t.ArrowFunctionExpression>) {
-        // Check if parent is a variable declarator with PascalCase name
-        const parent = nodePath.parent;
-        if (
-          t.isVariableDeclarator(parent) &&
-          t.isIdentifier(parent.id) &&
-          /^[A-Z]/.test(parent.id.name)
-        ) {
+        // Check if it's assigned to a PascalCase variable, directly or through memo()/forwardRef()
+        const componentName = getComponentName(nodePath);
+        if (componentName) {
           componentStack.push({
-            name: parent.id.name,
+            name: componentName,
             startLine: nodePath.node.loc?.start.line || 0,
             endLine: nodePath.node.loc?.end.line || 0,
           });
         }
+        const parent = nodePath.parent;
+        if (t.isVariableDeclarator(parent) && t.isIdentifier(parent.id)) {
+          addParameterDefaults(nodePath.node, parent.id.name);
+        }
       },
       exit(nodePath: NodePath<t.ArrowFunctionExpression>) {
-        const parent = nodePath.parent;
-        if (
-          t.isVariableDeclarator(parent) &&
-          t.isIdentifier(parent.id) &&
-          /^[A-Z]/.test(parent.id.name)
-        ) {
+        if (getComponentName(nodePath)) {
           componentStack.pop();
         }
       },
@@ -923,27 +1108,22 @@ export function extractUnstableVariables(
     // Track function expression components: const MyComponent = function() { ... }
     FunctionExpression: {
       enter(nodePath: NodePath<t.FunctionExpression>) {
-        // Check if parent is a variable declarator with PascalCase name
-        const parent = nodePath.parent;
-        if (
-          t.isVariableDeclarator(parent) &&
-          t.isIdentifier(parent.id) &&
-          /^[A-Z]/.test(parent.id.name)
-        ) {
+        // Check if it's assigned to a PascalCase variable, directly or through memo()/forwardRef()
+        const componentName = getComponentName(nodePath);
+        if (componentName) {
           componentStack.push({
-            name: parent.id.name,
+            name: componentName,
             startLine: nodePath.node.loc?.start.line || 0,
             endLine: nodePath.node.loc?.end.line || 0,
           });
         }
+        const parent = nodePath.parent;
+        if (t.isVariableDeclarator(parent) && t.isIdentifier(parent.id)) {
+          addParameterDefaults(nodePath.node, parent.id.name);
+        }
       },
       exit(nodePath: NodePath<t.FunctionExpression>) {
-        const parent = nodePath.parent;
-        if (
-          t.isVariableDeclarator(parent) &&
-          t.isIdentifier(parent.id) &&
-          /^[A-Z]/.test(parent.id.name)
-        ) {
+        if (getComponentName(nodePath)) {
           componentStack.pop();
         }
       },
@@ -10,7 +10,12 @@
  *   useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot?)
  *
  * The getSnapshot function must return a stable value (same reference for same data).
- * If it returns a new object/array each time, React will infinitely re-render.
+ * If it returns a new object/array each time, React will infinitely re-render. The same
+ * applies to getServerSnapshot during hydration.
+ *
+ * The subscribe function must be stable too: when it changes, React unsubscribes and
+ * subscribes again after the render (RLD-411). Stores that notify on subscribe turn this
+ * into a re-render loop.
  */
 
 import * as t from '@babel/types';
@@ -26,6 +31,7 @@ import {
 
 interface SyncExternalStoreCall {
   node: t.CallExpression;
+  path: NodePath<t.CallExpression>;
   line: number;
   column?: number;
 }
@@ -44,6 +50,7 @@ function findSyncExternalStoreCalls(ast: t.Node): SyncExternalStoreCall[] {
       ) {
         calls.push({
           node: nodePath.node,
+          path: nodePath,
           line: nodePath.node.loc?.start.line || 0,
           column: nodePath.node.loc?.start.column,
         });
@@ -134,8 +141,289 @@ function findUnstableVar(
   return unstableVars.get(varName);
 }
 
+/** Why a subscribe function changes on every render */
+interface SubscribeInstability {
+  /** Explanation of where the new function comes from */
+  reason: string;
+  /** The subscribe function, when its source is available */
+  fn: t.Function | null;
+  confidence: 'high' | 'medium';
+}
+
+/**
+ * Check if a node is a `useCallback(...)` / `React.useCallback(...)` call.
+ */
+function isUseCallbackCall(node: t.Node | null | undefined): node is t.CallExpression {
+  if (!t.isCallExpression(node)) return false;
+  const callee = node.callee;
+  return (
+    t.isIdentifier(callee, { name: 'useCallback' }) ||
+    (t.isMemberExpression(callee) && t.isIdentifier(callee.property, { name: 'useCallback' }))
+  );
+}
+
+/**
+ * Describe the first dependency of a useCallback that changes on every render: an inline
+ * object/array/function, or a variable recreated in the component.
+ */
+function findUnstableCallbackDependency(
+  depsArray: t.ArrayExpression,
+  unstableVars: Map<string, UnstableVariable>,
+  line: number
+): string | null {
+  for (const dep of depsArray.elements) {
+    if (t.isObjectExpression(dep) || t.isArrayExpression(dep) || isInlineFunction(dep)) {
+      return `an inline ${t.isObjectExpression(dep) ? 'object' : t.isArrayExpression(dep) ? 'array' : 'function'}`;
+    }
+    if (!t.isIdentifier(dep)) continue;
+    const unstableVar = findUnstableVar(unstableVars, dep.name, line);
+    if (unstableVar && !unstableVar.isMemoized && !unstableVar.isModuleLevel) {
+      return `'${dep.name}'`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Determine if the subscribe argument is a new function on every render: an inline
+ * function, a function declared in the component, or a useCallback with unstable deps.
+ * Module-level functions and store methods (`store.subscribe`) are stable.
+ */
+function getSubscribeInstability(
+  call: SyncExternalStoreCall,
+  unstableVars: Map<string, UnstableVariable>
+): SubscribeInstability | null {
+  const subscribeArg = call.node.arguments[0];
+
+  if (isInlineFunction(subscribeArg)) {
+    return {
+      reason: 'The subscribe function passed to useSyncExternalStore is created inline',
+      fn: subscribeArg as t.Function,
+      confidence: 'high',
+    };
+  }
+
+  if (!t.isIdentifier(subscribeArg)) return null;
+  const name = subscribeArg.name;
+  const binding = call.path.scope.getBinding(name);
+  const declarator = binding?.path.node;
+  const init = t.isVariableDeclarator(declarator) ? declarator.init : null;
+
+  if (isUseCallbackCall(init)) {
+    const callback = init.arguments[0];
+    const fn = isInlineFunction(callback) ? (callback as t.Function) : null;
+    const depsArray = init.arguments[1];
+    if (!t.isArrayExpression(depsArray)) {
+      return {
+        reason: `'${name}' passed as subscribe is wrapped in useCallback without a dependency array, which returns a new function`,
+        fn,
+        confidence: 'high',
+      };
+    }
+    const unstableDep = findUnstableCallbackDependency(depsArray, unstableVars, call.line);
+    return unstableDep
+      ? {
+          reason: `'${name}' passed as subscribe is wrapped in useCallback, but its dependency ${unstableDep} is recreated`,
+          fn,
+          confidence: 'medium',
+        }
+      : null;
+  }
+
+  // Functions declared inside the component or custom hook are recreated on every render
+  const fn = isInlineFunction(init)
+    ? (init as t.Function)
+    : t.isFunctionDeclaration(declarator)
+      ? declarator
+      : null;
+  if (!fn || !binding?.scope.path.isFunction()) return null;
+  return {
+    reason: `'${name}' passed as subscribe to useSyncExternalStore is recreated`,
+    fn,
+    confidence: 'high',
+  };
+}
+
+/**
+ * Get the name of the callback a subscribe function invokes synchronously while
+ * subscribing (`subscribe(callback) { callback(); ... }`), if any.
+ */
+function getSynchronousNotification(fn: t.Function | null): string | null {
+  const callbackParam = fn?.params[0];
+  if (!fn || !t.isIdentifier(callbackParam)) return null;
+  const callbackName = callbackParam.name;
+  let notifies = false;
+
+  traverse(fn.body, {
+    noScope: true,
+    Function(innerPath: NodePath<t.Function>) {
+      innerPath.skip();
+    },
+    CallExpression(callPath: NodePath<t.CallExpression>) {
+      if (t.isIdentifier(callPath.node.callee, { name: callbackName })) {
+        notifies = true;
+        callPath.stop();
+      }
+    },
+  });
+
+  return notifies ? callbackName : null;
+}
+
+/**
+ * Check the getSnapshot (2nd) or getServerSnapshot (3rd) argument for new references.
+ */
+function checkSnapshotArgument(
+  call: SyncExternalStoreCall,
+  argument: t.Node,
+  role: 'getSnapshot' | 'getServerSnapshot',
+  unstableVars: Map<string, UnstableVariable>,
+  filePath: string
+): HookAnalysis | null {
+  const { line, column } = call;
+  const isServer = role === 'getServerSnapshot';
+
+  // Case 1: Inline arrow function that returns new object/array
+  // useSyncExternalStore(subscribe, () => ({ data }))
+  if (isInlineFunction(argument)) {
+    const fn = argument as t.ArrowFunctionExpression | t.FunctionExpression;
+
+    if (returnsNewObjectOrArray(fn)) {
+      return createAnalysis({
+        type: 'confirmed-infinite-loop',
+        errorCode: 'RLD-407' as ErrorCode,
+        category: 'critical',
+        severity: 'high',
+        confidence: 'high',
+        hookType: 'useSyncExternalStore',
+        line,
+        column,
+        file: filePath,
+        problematicDependency: role,
+        stateVariable: undefined,
+        setterFunction: undefined,
+        actualStateModifications: [],
+        stateReads: [],
+        explanation: isServer
+          ? `The getServerSnapshot function passed to useSyncExternalStore returns a new object/array on every call. ` +
+            `React calls it during server rendering and hydration and compares the results by reference, ` +
+            `so a new object never matches the previous one and hydration loops ("The result of getServerSnapshot should be cached").`
+          : `The getSnapshot function passed to useSyncExternalStore returns a new object/array on every call. ` +
+            `This causes a synchronous infinite loop because React compares snapshots by reference, ` +
+            `and a new object is never equal to the previous one.`,
+        suggestion: isServer
+          ? `Return a constant defined outside the component (e.g. const SERVER_SNAPSHOT = { count: 0 }), or a primitive.`
+          : `Return a cached value, use a primitive, or memoize the result outside the callback.`,
+        debugInfo: {
+          reason: `Inline ${role} function returns new object/array literal`,
+        },
+      });
+    }
+  }
+
+  // Case 2: Variable reference that's an unstable function
+  // const getSnapshot = () => ({ data });
+  // useSyncExternalStore(subscribe, getSnapshot)
+  if (t.isIdentifier(argument)) {
+    const varName = argument.name;
+    const unstableVar = findUnstableVar(unstableVars, varName, line);
+
+    // Check if it's a function type
+    if (
+      unstableVar &&
+      !unstableVar.isMemoized &&
+      (unstableVar.type === 'function' ||
+        unstableVar.type === 'function-call' ||
+        unstableVar.type === 'hook-return')
+    ) {
+      const confidenceContext = {
+        usedTypeInference: true,
+        isConditional: false,
+        isStrictMode: isStrictModeEnabled(),
+      };
+      const confidenceExplanation = getConfidenceExplanation('medium', confidenceContext);
+      return createAnalysis({
+        type: 'potential-issue',
+        errorCode: 'RLD-407' as ErrorCode,
+        category: 'performance',
+        severity: 'medium',
+        confidence: 'medium',
+        hookType: 'useSyncExternalStore',
+        line,
+        column,
+        file: filePath,
+        problematicDependency: varName,
+        stateVariable: undefined,
+        setterFunction: undefined,
+        actualStateModifications: [],
+        stateReads: [],
+        explanation:
+          `'${varName}' passed as ${role} to useSyncExternalStore is recreated on every render. ` +
+          `If it returns a new object/array each time, this will cause an infinite loop.${confidenceExplanation}`,
+        suggestion: `Wrap '${varName}' with useCallback, or ensure it returns a stable reference.`,
+        debugInfo: {
+          reason: `Unstable ${unstableVar.type} '${varName}' used as ${role} argument`,
+          stateTracking: {
+            declaredStateVars: [],
+            setterFunctions: [],
+            stableVariables: [],
+            unstableVariables: Array.from(unstableVars.keys()),
+          },
+        },
+      });
+    }
+  }
+
+  return null;
+}
+
 /**
- * Detect unstable getSnapshot functions in useSyncExternalStore calls.
+ * Check the subscribe (1st) argument for a function that changes on every render.
+ */
+function checkSubscribeArgument(
+  call: SyncExternalStoreCall,
+  unstableVars: Map<string, UnstableVariable>,
+  filePath: string
+): HookAnalysis | null {
+  const instability = getSubscribeInstability(call, unstableVars);
+  if (!instability) return null;
+
+  const subscribeArg = call.node.arguments[0];
+  const notifiedCallback = getSynchronousNotification(instability.fn);
+
+  return createAnalysis({
+    type: 'potential-issue',
+    errorCode: 'RLD-411',
+    category: notifiedCallback ? 'warning' : 'performance',
+    severity: notifiedCallback ? 'high' : 'medium',
+    confidence: instability.confidence,
+    hookType: 'useSyncExternalStore',
+    line: call.line,
+    column: call.column,
+    file: filePath,
+    problematicDependency: t.isIdentifier(subscribeArg) ? subscribeArg.name : 'subscribe',
+    stateVariable: undefined,
+    setterFunction: undefined,
+    actualStateModifications: [],
+    stateReads: [],
+    explanation:
+      `${instability.reason} on every render, so React unsubscribes and subscribes again after every render. ` +
+      (notifiedCallback
+        ? `It calls '${notifiedCallback}' while subscribing: when that notification changes the snapshot, ` +
+          `the component re-renders, resubscribes and is notified again - an infinite loop.`
+        : `Stores that notify subscribers when they subscribe turn this into a re-render loop.`),
+    suggestion:
+      `Define subscribe outside the component, or wrap it with useCallback and stable dependencies, ` +
+      `e.g. useCallback((callback) => store.subscribe(callback), [store]).`,
+    debugInfo: {
+      reason: 'subscribe argument changes on every render',
+    },
+  });
+}
+
+/**
+ * Detect unstable subscribe, getSnapshot and getServerSnapshot functions in
+ * useSyncExternalStore calls.
  * Returns an array of HookAnalysis issues found.
  */
 export function detectUnstableSyncExternalStore(
@@ -148,107 +436,38 @@ export function detectUnstableSyncExternalStore(
   const calls = findSyncExternalStoreCalls(ast);
 
   for (const call of calls) {
-    const { node, line, column } = call;
-
     // Check for ignore comments
-    if (fileContent && isHookIgnored(fileContent, line)) {
+    if (fileContent && isHookIgnored(fileContent, call.line)) {
       continue;
     }
 
     // useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot?)
-    // We focus on getSnapshot (2nd argument) as it's the most common source of issues
-    const args = node.arguments;
+    const args = call.node.arguments;
     if (args.length < 2) {
       continue; // Invalid call, skip
     }
 
-    const getSnapshotArg = args[1];
-
-    // Case 1: Inline arrow function that returns new object/array
-    // useSyncExternalStore(subscribe, () => ({ data }))
-    if (isInlineFunction(getSnapshotArg)) {
-      const fn = getSnapshotArg as t.ArrowFunctionExpression | t.FunctionExpression;
-
-      if (returnsNewObjectOrArray(fn)) {
-        results.push(
-          createAnalysis({
-            type: 'confirmed-infinite-loop',
-            errorCode: 'RLD-407' as ErrorCode,
-            category: 'critical',
-            severity: 'high',
-            confidence: 'high',
-            hookType: 'useSyncExternalStore',
-            line,
-            column,
-            file: filePath,
-            problematicDependency: 'getSnapshot',
-            stateVariable: undefined,
-            setterFunction: undefined,
-            actualStateModifications: [],
-            stateReads: [],
-            explanation:
-              `The getSnapshot function passed to useSyncExternalStore returns a new object/array on every call. ` +
-              `This causes a synchronous infinite loop because React compares snapshots by reference, ` +
-              `and a new object is never equal to the previous one.`,
-            suggestion: `Return a cached value, use a primitive, or memoize the result outside the callback.`,
-            debugInfo: {
-              reason: 'Inline getSnapshot function returns new object/array literal',
-            },
-          })
-        );
-        continue;
-      }
-    }
+    const subscribeIssue = checkSubscribeArgument(call, unstableVars, filePath);
+    if (subscribeIssue) results.push(subscribeIssue);
 
-    // Case 2: Variable reference that's an unstable function
-    // const getSnapshot = () => ({ data });
-    // useSyncExternalStore(subscribe, getSnapshot)
-    if (t.isIdentifier(getSnapshotArg)) {
-      const varName = getSnapshotArg.name;
-      const unstableVar = findUnstableVar(unstableVars, varName, line);
-
-      if (unstableVar && !unstableVar.isMemoized) {
-        // Check if it's a function type
-        if (unstableVar.type === 'function' || unstableVar.type === 'function-call') {
-          const confidenceContext = {
-            usedTypeInference: true,
-            isConditional: false,
-            isStrictMode: isStrictModeEnabled(),
-          };
-          const confidenceExplanation = getConfidenceExplanation('medium', confidenceContext);
-          results.push(
-            createAnalysis({
-              type: 'potential-issue',
-              errorCode: 'RLD-407' as ErrorCode,
-              category: 'performance',
-              severity: 'medium',
-              confidence: 'medium',
-              hookType: 'useSyncExternalStore',
-              line,
-              column,
-              file: filePath,
-              problematicDependency: varName,
-              stateVariable: undefined,
-              setterFunction: undefined,
-              actualStateModifications: [],
-              stateReads: [],
-              explanation:
-                `'${varName}' passed as getSnapshot to useSyncExternalStore is recreated on every render. ` +
-                `If it returns a new object/array each time, this will cause an infinite loop.${confidenceExplanation}`,
-              suggestion: `Wrap '${varName}' with useCallback, or ensure it returns a stable reference.`,
-              debugInfo: {
-                reason: `Unstable ${unstableVar.type} '${varName}' used as getSnapshot argument`,
-                stateTracking: {
-                  declaredStateVars: [],
-                  setterFunctions: [],
-                  stableVariables: [],
-                  unstableVariables: Array.from(unstableVars.keys()),
-                },
-              },
-            })
-          );
-        }
-      }
+    const snapshotIssue = checkSnapshotArgument(
+      call,
+      args[1],
+      'getSnapshot',
+      unstableVars,
+      filePath
+    );
+    if (snapshotIssue) results.push(snapshotIssue);
+
+    if (args[2]) {
+      const serverSnapshotIssue = checkSnapshotArgument(
+        call,
+        args[2],
+        'getServerSnapshot',
+        unstableVars,
+        filePath
+      );
+      if (serverSnapshotIssue) results.push(serverSnapshotIssue);
     }
   }
 
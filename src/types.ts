@@ -13,17 +13,28 @@ import type { TypeChecker, TypeCheckerPool } from './type-checker';
  * - RLD-2XX: Critical issues from effect loops (useEffect/useLayoutEffect)
  * - RLD-3XX: Warning-level cross-file risks
  * - RLD-4XX: Performance issues (unstable references)
- * - RLD-5XX: Performance issues (missing dependencies)
- * - RLD-6XX: Ref mutation issues
+ * - RLD-5XX: Effect correctness (missing dependencies, stale closures, async races, leaked cleanups)
+ * - RLD-6XX: Ref access during render (mutations and reads)
+ * - RLD-7XX: Server Components (client hooks in server modules)
  */
 export type ErrorCode =
   | 'RLD-100' // Render phase setState (synchronous loop)
   | 'RLD-101' // Render phase setState via function call
+  | 'RLD-102' // Class component this.setState in render()
+  | 'RLD-103' // getDerivedStateFromProps always returns a new object
+  | 'RLD-104' // use() with a promise created during render
+  | 'RLD-105' // Jotai/Recoil atom created during render
+  | 'RLD-106' // navigation.setOptions()/setParams() called during render (React Navigation)
   | 'RLD-200' // useEffect unconditional setState loop
   | 'RLD-201' // useEffect missing deps with setState
   | 'RLD-202' // useLayoutEffect unconditional setState loop
+  | 'RLD-203' // componentDidUpdate unguarded this.setState loop
+  | 'RLD-204' // Update cycle spanning multiple effects in one component
   | 'RLD-300' // Cross-file loop risk
   | 'RLD-301' // Cross-file conditional modification
+  | 'RLD-302' // Parent/child loop through a callback prop called in a child effect
+  | 'RLD-303' // Context consumer effect updates its own provider's value
+  | 'RLD-304' // Unstable key remounts a child whose mount effect updates the parent
   | 'RLD-400' // Unstable object reference in deps
   | 'RLD-401' // Unstable array reference in deps
   | 'RLD-402' // Unstable function reference in deps
@@ -32,11 +43,23 @@ export type ErrorCode =
   | 'RLD-405' // Unstable JSX prop
   | 'RLD-406' // Unstable callback in useCallback deps (dependency chain)
   | 'RLD-407' // useSyncExternalStore unstable getSnapshot function
+  | 'RLD-408' // Component declared inside another component
+  | 'RLD-409' // Store selector returns a new object/array on every call
   | 'RLD-410' // Object spread guard risk
+  | 'RLD-411' // useSyncExternalStore subscribe function changes on every render
+  | 'RLD-412' // Effect only sets state derived from its dependencies
+  | 'RLD-413' // Unstable key prop (random, time-based or serialized) remounts the element
   | 'RLD-420' // useCallback/useMemo modifies dependency (no direct loop but review)
-  | 'RLD-500' // useEffect missing dependency array
+  | 'RLD-430' // Network request storm (effect with unstable deps sends a request)
+  | 'RLD-500' // Missing dependency array (useImperativeHandle recreates its handle every render)
   | 'RLD-501' // Conditional modification needs review
-  | 'RLD-600'; // Ref mutation with state value during render phase (effect-phase is safe)
+  | 'RLD-502' // Effect reads a reactive value missing from its dependencies (stale closure)
+  | 'RLD-503' // useCallback/useMemo/useImperativeHandle reads a reactive value missing from its dependencies
+  | 'RLD-504' // Effect sets state after async work without cancellation (race condition)
+  | 'RLD-505' // Effect subscribes without a matching cleanup (leaked listener/timer)
+  | 'RLD-600' // Ref mutation with state value during render phase (effect-phase is safe)
+  | 'RLD-601' // ref.current read during render (lazy initialization is safe)
+  | 'RLD-700'; // Client hook called in a Server Component or "use server" module
 
 /**
  * Issue categories for filtering and display.
@@ -152,12 +175,33 @@ export interface FunctionReference {
 export interface GuardedModification {
   setter: string;
   stateVariable: string;
-  guardType: 'toggle-guard' | 'equality-guard' | 'early-return' | 'object-spread-risk' | 'unknown';
+  guardType:
+    | 'toggle-guard'
+    | 'equality-guard'
+    | 'early-return'
+    | 'object-spread-risk'
+    | 'fetcher-data-guard'
+    | 'fetcher-idle-guard'
+    | 'unknown';
   isSafe: boolean;
   /** Warning message for risky but not definitely unsafe patterns */
   warning?: string;
 }
 
+/**
+ * How an effect hook decides whether its dependencies changed:
+ * - reference: Object.is per dependency, like useEffect
+ * - deep-equal: structural comparison (e.g. useDeepCompareEffect), so inline objects/arrays are fine
+ * - debounced: the effect runs after a delay (e.g. useDebouncedEffect), so updates never loop synchronously
+ */
+export type EffectComparison = 'reference' | 'deep-equal' | 'debounced';
+
+/** Configuration for a hook that behaves like useEffect */
+export interface EffectHookConfig {
+  /** How dependencies are compared between renders (default: 'reference') */
+  comparison?: EffectComparison;
+}
+
 /** Options for intelligent hooks analysis */
 export interface AnalyzerOptions {
   /** Hooks known to return stable references */
@@ -174,8 +218,17 @@ export interface AnalyzerOptions {
     {
       stable?: boolean;
       deferred?: boolean;
+      network?: boolean;
     }
   >;
+  /** Additional hooks that behave like useEffect, keyed by hook name */
+  effectHooks?: Record<string, EffectHookConfig>;
+  /** Additional functions that create atoms or selectors (wrappers around Jotai/Recoil) */
+  atomFactories?: string[];
+  /** Treat Next.js App Router route files without "use client" as Server Components */
+  serverComponents?: boolean;
+  /** Subscribe-style calls and the calls that undo them in effect cleanups */
+  cleanupPairs?: Record<string, string[]>;
   /** Enable debug mode to collect detailed decision information */
   debug?: boolean;
   /** Enable TypeScript strict mode for type-based stability detection */
@@ -9,12 +9,27 @@
  * - Array literals in dependencies
  * - Functions defined in component body
  * - Function call results that return new objects
+ *
+ * Effects that send a network request (fetch, axios, GraphQL clients, refetch) are
+ * reported separately as request storms (RLD-430): every re-run hits the backend.
+ * Effects that call `navigation.setOptions()`/`setParams()` (React Navigation, Expo Router)
+ * re-render the screen on every run, so an unstable dependency makes them loop.
  */
 
 import * as t from '@babel/types';
+import traverse, { NodePath } from '@babel/traverse';
 import { HookAnalysis, HookNodeInfo, ErrorCode } from './types';
 import { UnstableVariable } from './state-extractor';
-import { isHookIgnored, createAnalysis } from './utils';
+import {
+  isHookIgnored,
+  createAnalysis,
+  isEffectHook,
+  getEffectHookComparison,
+  getEffectDependencyArray,
+  findNetworkCall,
+  findNavigationUpdateCall,
+  getHookCallbackIndex,
+} from './utils';
 import { hasUnconditionalSetStateCFG } from './control-flow';
 
 /**
@@ -43,6 +58,36 @@ function findUnstableVar(
   return unstableVars.get(varName);
 }
 
+/** Promise methods that call the function passed to them with the result */
+const PROMISE_CALLBACK_METHODS = new Set(['then', 'catch', 'finally']);
+
+/**
+ * Check if a hook body calls any state setter, including inside promise callbacks or
+ * passed to one (e.g. storing a fetched response: `.then(setData)`).
+ */
+function callsAnySetter(body: t.Node, stateInfo: Map<string, string>): boolean {
+  const setters = new Set(stateInfo.values());
+  let found = false;
+
+  traverse(body, {
+    noScope: true,
+    CallExpression(callPath: NodePath<t.CallExpression>) {
+      const { callee, arguments: args } = callPath.node;
+      const passesSetter =
+        t.isMemberExpression(callee) &&
+        t.isIdentifier(callee.property) &&
+        PROMISE_CALLBACK_METHODS.has(callee.property.name) &&
+        args.some((arg) => t.isIdentifier(arg) && setters.has(arg.name));
+      if ((t.isIdentifier(callee) && setters.has(callee.name)) || passesSetter) {
+        found = true;
+        callPath.stop();
+      }
+    },
+  });
+
+  return found;
+}
+
 /**
  * Check if a hook has unstable references in its dependency array.
  * Returns an analysis if an issue is found, null otherwise.
@@ -65,18 +110,21 @@ export function checkUnstableReferences(
     return null; // No dependencies array
   }
 
-  // Get the effect/callback body (first argument)
-  const effectBody = node.arguments[0];
+  // Get the effect/callback body (after the ref for useImperativeHandle)
+  const effectBody = node.arguments[getHookCallbackIndex(hookName)];
+
+  // For effect hooks, check if there are unconditional setState calls
+  const isUseEffect = isEffectHook(hookName);
+  const comparison = getEffectHookComparison(hookName);
 
-  // Get dependencies array
-  const depsArray = node.arguments[node.arguments.length - 1];
+  // Get dependencies array (custom effect hooks may take extra arguments, e.g. a debounce delay)
+  const depsArray = isUseEffect
+    ? getEffectDependencyArray(node)
+    : node.arguments[node.arguments.length - 1];
   if (!t.isArrayExpression(depsArray)) {
     return null;
   }
 
-  // For useEffect/useLayoutEffect, check if there are unconditional setState calls
-  const isUseEffect = hookName === 'useEffect' || hookName === 'useLayoutEffect';
-
   // Use CFG-based analysis to check for unconditional setState calls
   let hasUnconditionalStateUpdate = false;
   if (isUseEffect && effectBody) {
@@ -94,19 +142,126 @@ export function checkUnstableReferences(
 
     // Check if this dependency is an unstable variable (using component-scoped lookup)
     const unstableVar = findUnstableVar(unstableVars, depName, line);
+
+    // Deep-compare effects compare object and array literals by contents, not identity
+    if (
+      unstableVar &&
+      comparison === 'deep-equal' &&
+      (unstableVar.type === 'object' || unstableVar.type === 'array')
+    ) {
+      continue;
+    }
+
     if (unstableVar) {
       const typeDescriptions: Record<string, string> = {
         object: 'object literal',
         array: 'array literal',
         function: 'function',
         'function-call': 'function call result',
+        'hook-return': 'custom hook return value',
       };
 
+      // Defaulted parameters point at the default expression rather than a local declaration,
+      // hook return values at the hook that recreates them
+      const origin = unstableVar.defaultValue
+        ? `'${depName}' defaults to \`${unstableVar.defaultValue}\` in the parameters of ` +
+          `'${unstableVar.componentName}', a new ${typeDescriptions[unstableVar.type]} whenever '${depName}' is omitted`
+        : unstableVar.sourceHook
+          ? `'${depName}' is returned by ${unstableVar.sourceHook}(), which creates it anew on every render`
+          : `'${depName}' is a ${typeDescriptions[unstableVar.type]} created inside the component`;
+      const defaultSuggestion = unstableVar.defaultValue
+        ? `Hoist the default \`${unstableVar.defaultValue}\` of '${depName}' into a module-level constant ` +
+          `and use that constant as the default value.`
+        : unstableVar.sourceHook
+          ? `Memoize '${depName}' inside ${unstableVar.sourceHook}() with useMemo/useCallback, ` +
+            `or depend on the primitive values it contains.`
+          : null;
+      // A default is only recreated on the renders where the caller omits the value
+      const everyRender = unstableVar.defaultValue
+        ? `every render where '${depName}' is omitted`
+        : 'every render';
+
       // Determine severity based on whether there's an unconditional setState
       // - If useEffect with unconditional setState: confirmed infinite loop (high severity)
       // - If useEffect with only conditional setState: potential issue (medium severity) - effect runs often but won't loop
       // - If useCallback/useMemo: potential issue (medium severity) - unnecessary re-creation
-      const isConfirmedLoop = isUseEffect && hasUnconditionalStateUpdate;
+      // - Debounced effects never loop synchronously, so they are at most a potential issue
+      // - Defaulted parameters only loop for callers that omit the value, so they are a potential loop
+      const loops = isUseEffect && hasUnconditionalStateUpdate && comparison !== 'debounced';
+      const isConfirmedLoop = loops && !unstableVar.defaultValue;
+      const isPotentialLoop = loops && !isConfirmedLoop;
+
+      // Effects that send a request on every re-run flood the backend (request storm).
+      // Storing the response in state re-renders, recreates the dependency and refetches forever.
+      const networkCall = isUseEffect ? findNetworkCall(effectBody) : null;
+      if (networkCall) {
+        const storesResponse =
+          loops || (callsAnySetter(effectBody, stateInfo) && comparison !== 'debounced');
+        const confirmed = storesResponse && !unstableVar.defaultValue;
+        // Like the other RLD-4xx results, requests without a loop are a performance issue
+        return createAnalysis({
+          type: confirmed ? 'confirmed-infinite-loop' : 'potential-issue',
+          errorCode: 'RLD-430',
+          category: confirmed ? 'critical' : storesResponse ? 'warning' : 'performance',
+          severity: confirmed ? 'high' : 'medium',
+          confidence: confirmed ? 'high' : 'medium',
+          hookType: hookName,
+          line,
+          file: filePath,
+          problematicDependency: depName,
+          stateVariable: undefined,
+          setterFunction: undefined,
+          actualStateModifications: [],
+          stateReads: [],
+          explanation:
+            `${origin}, ` +
+            `so this ${hookName} re-runs on ${everyRender} and calls ${networkCall.name}() ` +
+            `(line ${networkCall.line}) each time. ` +
+            (storesResponse
+              ? `The response is stored in state, which re-renders the component and sends the request again - an infinite loop of requests.`
+              : `Every render of the component sends another request.`),
+          suggestion:
+            defaultSuggestion ??
+            (unstableVar.type === 'function'
+              ? `Wrap '${depName}' with useCallback, move it outside the component, or depend on the primitive values the request needs.`
+              : `Wrap '${depName}' with useMemo, move it outside the component, or depend on the primitive values the request needs.`),
+        });
+      }
+
+      // setOptions/setParams store the update in the navigator's state, which re-renders the
+      // screen: the dependency is recreated and the effect updates the navigator again
+      const navigationCall =
+        isUseEffect && comparison !== 'debounced' ? findNavigationUpdateCall(effectBody) : null;
+      if (navigationCall) {
+        const updates = navigationCall.name.endsWith('setParams')
+          ? `creates a new route.params object`
+          : `stores the options in the navigator's state and re-renders the header`;
+        return createAnalysis({
+          type: unstableVar.defaultValue ? 'potential-issue' : 'confirmed-infinite-loop',
+          errorCode: hookName === 'useLayoutEffect' ? 'RLD-202' : 'RLD-200',
+          category: unstableVar.defaultValue ? 'warning' : 'critical',
+          severity: 'high',
+          confidence: 'medium',
+          hookType: hookName,
+          line,
+          file: filePath,
+          problematicDependency: depName,
+          stateVariable: undefined,
+          setterFunction: navigationCall.name,
+          actualStateModifications: [navigationCall.name],
+          stateReads: [],
+          explanation:
+            `${origin}, ` +
+            `so this ${hookName} re-runs on ${everyRender} and calls ${navigationCall.name}() ` +
+            `(line ${navigationCall.line}) each time. ${navigationCall.name}() ${updates}, ` +
+            `which re-renders the screen, recreates '${depName}' and runs the effect again.`,
+          suggestion:
+            defaultSuggestion ??
+            (unstableVar.type === 'function'
+              ? `Wrap '${depName}' with useCallback or move it outside the screen, and define header components (headerRight, headerLeft) outside the screen or with useCallback.`
+              : `Wrap '${depName}' with useMemo or move it outside the screen, or depend on the primitive values the header needs.`),
+        });
+      }
 
       // Determine error code based on unstable variable type
       const unstableTypeToErrorCode: Record<UnstableVariable['type'], ErrorCode> = {
@@ -114,14 +269,15 @@ export function checkUnstableReferences(
         array: 'RLD-401',
         function: 'RLD-402',
         'function-call': 'RLD-403',
+        'hook-return': 'RLD-403',
       };
 
       return createAnalysis({
         type: isConfirmedLoop ? 'confirmed-infinite-loop' : 'potential-issue',
-        errorCode: isConfirmedLoop ? 'RLD-200' : unstableTypeToErrorCode[unstableVar.type],
-        category: isConfirmedLoop ? 'critical' : 'performance',
-        severity: isConfirmedLoop ? 'high' : 'low',
-        confidence: 'high',
+        errorCode: loops ? 'RLD-200' : unstableTypeToErrorCode[unstableVar.type],
+        category: isConfirmedLoop ? 'critical' : isPotentialLoop ? 'warning' : 'performance',
+        severity: isConfirmedLoop ? 'high' : isPotentialLoop ? 'medium' : 'low',
+        confidence: isPotentialLoop ? 'medium' : 'high',
         hookType: hookName,
         line,
         file: filePath,
@@ -131,21 +287,31 @@ export function checkUnstableReferences(
         actualStateModifications: [],
         stateReads: [],
         explanation: isConfirmedLoop
-          ? `'${depName}' is a ${typeDescriptions[unstableVar.type]} created inside the component. ` +
+          ? `${origin}. ` +
             `It gets a new reference on every render, and this ${hookName} has an unconditional setState, ` +
             `causing an infinite re-render loop.`
-          : isUseEffect
-            ? `'${depName}' is a ${typeDescriptions[unstableVar.type]} created inside the component. ` +
-              `It gets a new reference on every render, causing this ${hookName} to run on every render. ` +
-              `This is a performance issue but won't cause an infinite loop since setState calls are conditional.`
-            : `'${depName}' is a ${typeDescriptions[unstableVar.type]} created inside the component. ` +
-              `It gets a new reference on every render, causing unnecessary ${hookName} re-creation.`,
+          : isPotentialLoop
+            ? `${origin}. ` +
+              `It only gets a new reference on renders where '${depName}' is omitted. On those renders ` +
+              `this ${hookName}'s unconditional setState re-renders the component, which recreates the ` +
+              `default and runs the effect again: an infinite loop for callers that omit '${depName}'.`
+            : isUseEffect
+              ? `${origin}. ` +
+                `It gets a new reference on ${everyRender}, causing this ${hookName} to run on ${everyRender}. ` +
+                `This is a performance issue but won't cause an infinite loop since setState calls are conditional.`
+              : hookName === 'useImperativeHandle'
+                ? `${origin}. ` +
+                  `It gets a new reference on ${everyRender}, so useImperativeHandle creates a new handle ` +
+                  `after ${everyRender} and parents depending on the handle re-run their effects.`
+                : `${origin}. ` +
+                  `It gets a new reference on ${everyRender}, causing unnecessary ${hookName} re-creation.`,
         suggestion:
-          unstableVar.type === 'function'
+          defaultSuggestion ??
+          (unstableVar.type === 'function'
             ? `Wrap '${depName}' with useCallback, or move it outside the component.`
             : unstableVar.type === 'function-call'
               ? `Wrap the result of '${depName}' with useMemo, or move the call outside the component.`
-              : `Wrap '${depName}' with useMemo, move it outside the component, or remove it from dependencies.`,
+              : `Wrap '${depName}' with useMemo, move it outside the component, or remove it from dependencies.`),
         debugInfo: {
           reason: `Detected unstable ${unstableVar.type} '${depName}' in dependency array`,
           stateTracking: {
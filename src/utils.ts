@@ -4,9 +4,11 @@
  * This module contains utility functions used across the analyzer modules.
  */
 
+import * as path from 'path';
 import * as t from '@babel/types';
-import traverse from '@babel/traverse';
-import { HookAnalysis, CreateAnalysisParams, AnalyzerOptions } from './types';
+import traverse, { NodePath } from '@babel/traverse';
+import { HookAnalysis, CreateAnalysisParams, AnalyzerOptions, EffectComparison } from './types';
+import type { ParsedFile, ImportInfo } from './parser';
 
 /**
  * Module-level options storage for helper functions.
@@ -117,11 +119,21 @@ function getDescriptionForErrorCode(errorCode: string, hookType: string): string
   const descriptions: Record<string, string> = {
     'RLD-100': 'setState during render phase',
     'RLD-101': 'setState via function call during render',
+    'RLD-102': 'this.setState in class component render()',
+    'RLD-103': 'getDerivedStateFromProps always returns a new object',
+    'RLD-104': 'use() with a promise created during render',
+    'RLD-105': 'Atom created during render',
+    'RLD-106': 'Navigation update during render',
     'RLD-200': 'Unconditional setState in effect dependency loop',
     'RLD-201': 'Missing dependency array with setState',
     'RLD-202': 'Unconditional setState in useLayoutEffect',
+    'RLD-203': 'Unguarded this.setState in componentDidUpdate',
+    'RLD-204': 'Update cycle across multiple effects',
     'RLD-300': 'Cross-file infinite loop',
     'RLD-301': 'Cross-file conditional modification',
+    'RLD-302': 'Parent/child loop through callback prop',
+    'RLD-303': 'Context provider/consumer feedback loop',
+    'RLD-304': 'Remount loop through unstable key',
     'RLD-400': 'Unstable object in dependency array',
     'RLD-401': 'Unstable array in dependency array',
     'RLD-402': 'Unstable function in dependency array',
@@ -130,11 +142,23 @@ function getDescriptionForErrorCode(errorCode: string, hookType: string): string
     'RLD-405': 'Unstable prop to memoized component',
     'RLD-406': 'Unstable callback in useCallback deps',
     'RLD-407': 'Unstable getSnapshot in useSyncExternalStore',
+    'RLD-408': 'Component declared inside another component',
+    'RLD-409': 'Store selector returns a new reference',
     'RLD-410': 'Object spread guard may not prevent loop',
+    'RLD-411': 'Unstable subscribe in useSyncExternalStore',
+    'RLD-412': 'Derived state set in effect',
+    'RLD-413': 'Unstable key prop',
     'RLD-420': 'Memoized hook modifies its dependency',
+    'RLD-430': 'Network request storm from effect with unstable dependency',
     'RLD-500': 'Missing dependency array',
     'RLD-501': 'Conditional modification needs review',
+    'RLD-502': 'Missing effect dependency (stale closure)',
+    'RLD-503': 'Missing memo dependency (stale closure)',
+    'RLD-504': 'Async effect race condition',
+    'RLD-505': 'Subscription without cleanup',
     'RLD-600': 'Render-phase ref mutation with state value',
+    'RLD-601': 'Ref read during render',
+    'RLD-700': 'Client hook in a Server Component',
   };
 
   return descriptions[errorCode] || `${hookType} issue`;
@@ -248,6 +272,425 @@ export function isMemoCallExpression(node: t.Node | null | undefined): boolean {
   );
 }
 
+/** HOCs that render the function they wrap as a component: memo(() => ...), forwardRef(() => ...) */
+export const COMPONENT_WRAPPERS = new Set(['memo', 'forwardRef']);
+
+/**
+ * Get the name of the function a call or constructor invokes: `useEffect` for
+ * `React.useEffect(...)`, `addEventListener` for `window.addEventListener(...)`,
+ * `WebSocket` for `new WebSocket(url)`. Returns null for anything else.
+ */
+export function getCalleeName(node: t.Node | null | undefined): string | null {
+  if (!t.isCallExpression(node) && !t.isNewExpression(node)) return null;
+  if (t.isIdentifier(node.callee)) return node.callee.name;
+  if (t.isMemberExpression(node.callee) && t.isIdentifier(node.callee.property)) {
+    return node.callee.property.name;
+  }
+  return null;
+}
+
+/**
+ * Get the static member path of an expression: `user`, `user.id`, `timer.current`,
+ * `this.props`, `Math.random`. Returns null for computed or dynamic access.
+ */
+export function getMemberPath(node: t.Node | null | undefined): string | null {
+  if (t.isIdentifier(node)) return node.name;
+  if (t.isThisExpression(node)) return 'this';
+  if (
+    (t.isMemberExpression(node) || t.isOptionalMemberExpression(node)) &&
+    !node.computed &&
+    t.isIdentifier(node.property)
+  ) {
+    const objectPath = getMemberPath(node.object);
+    return objectPath ? `${objectPath}.${node.property.name}` : null;
+  }
+  return null;
+}
+
+/**
+ * Get the name a function is declared or assigned under, unwrapping memo()/forwardRef():
+ * `function Row() {}`, `const Row = memo(() => ...)`, or 'default' for an anonymous
+ * default export. Returns null for callbacks and other unnamed functions.
+ */
+export function getFunctionName(fnPath: NodePath<t.Function>): string | null {
+  const node = fnPath.node;
+  if (t.isFunctionDeclaration(node)) {
+    if (node.id) return node.id.name;
+    return t.isExportDefaultDeclaration(fnPath.parent) ? 'default' : null;
+  }
+
+  let current: NodePath = fnPath;
+  while (current.parentPath?.isCallExpression()) {
+    const call = current.parentPath.node;
+    const wrapperName = getCalleeName(call);
+    if (
+      !wrapperName ||
+      !COMPONENT_WRAPPERS.has(wrapperName) ||
+      call.arguments[0] !== current.node
+    ) {
+      return null;
+    }
+    current = current.parentPath;
+  }
+
+  const parent = current.parent;
+  if (t.isVariableDeclarator(parent) && t.isIdentifier(parent.id)) return parent.id.name;
+  if (t.isExportDefaultDeclaration(parent)) return 'default';
+  return null;
+}
+
+/**
+ * Get the name of a function component (PascalCase, or 'default' for an anonymous default
+ * export), unwrapping memo()/forwardRef(). Returns null for any other function.
+ */
+export function getComponentName(fnPath: NodePath<t.Function>): string | null {
+  const name = getFunctionName(fnPath);
+  return name && (name === 'default' || /^[A-Z]/.test(name)) ? name : null;
+}
+
+/** Function calls that return stable/primitive values */
+const STABLE_FUNCTION_CALLS = new Set([
+  'require',
+  'String',
+  'Number',
+  'Boolean',
+  'parseInt',
+  'parseFloat',
+]);
+
+/**
+ * Method calls that return primitive values (string, number, boolean).
+ * Primitives are compared by value, not reference, so they're stable.
+ */
+const PRIMITIVE_RETURNING_METHODS = new Set([
+  // String methods
+  'join',
+  'toString',
+  'toLocaleString',
+  'valueOf',
+  'charAt',
+  'charCodeAt',
+  'codePointAt',
+  'substring',
+  'substr',
+  'slice',
+  'trim',
+  'trimStart',
+  'trimEnd',
+  'toLowerCase',
+  'toUpperCase',
+  'toLocaleLowerCase',
+  'toLocaleUpperCase',
+  'normalize',
+  'padStart',
+  'padEnd',
+  'repeat',
+  'replace',
+  'replaceAll',
+  // Number methods
+  'toFixed',
+  'toExponential',
+  'toPrecision',
+  // Array methods that return primitives
+  'indexOf',
+  'lastIndexOf',
+  'length', // Not a method but included for member expressions
+  // Boolean checks
+  'includes',
+  'startsWith',
+  'endsWith',
+  'every',
+  'some',
+  // Reduce can return primitives (commonly does)
+  // Note: We'll be conservative here - reduce CAN return objects
+]);
+
+/**
+ * Static methods on built-in objects that return primitives.
+ */
+const PRIMITIVE_RETURNING_STATIC_METHODS: Record<string, Set<string>> = {
+  Math: new Set([
+    'abs',
+    'acos',
+    'acosh',
+    'asin',
+    'asinh',
+    'atan',
+    'atan2',
+    'atanh',
+    'cbrt',
+    'ceil',
+    'clz32',
+    'cos',
+    'cosh',
+    'exp',
+    'expm1',
+    'floor',
+    'fround',
+    'hypot',
+    'imul',
+    'log',
+    'log10',
+    'log1p',
+    'log2',
+    'max',
+    'min',
+    'pow',
+    'random',
+    'round',
+    'sign',
+    'sin',
+    'sinh',
+    'sqrt',
+    'tan',
+    'tanh',
+    'trunc',
+  ]),
+  Number: new Set(['isFinite', 'isInteger', 'isNaN', 'isSafeInteger', 'parseFloat', 'parseInt']),
+  String: new Set(['fromCharCode', 'fromCodePoint']),
+  Object: new Set(['is', 'hasOwn']),
+  Array: new Set(['isArray']),
+  Date: new Set(['now', 'parse', 'UTC']),
+  JSON: new Set(['stringify']), // Returns string
+};
+
+/**
+ * Check if a call to a built-in returns a stable or primitive value: `String(x)`,
+ * `items.join(',')`, `Math.round(x)`. Primitives are compared by value, not reference.
+ */
+export function isBuiltinStableCall(node: t.CallExpression): boolean {
+  const callee = node.callee;
+  if (t.isIdentifier(callee)) return STABLE_FUNCTION_CALLS.has(callee.name);
+  if (!t.isMemberExpression(callee) || !t.isIdentifier(callee.property)) return false;
+
+  const methodName = callee.property.name;
+  if (PRIMITIVE_RETURNING_METHODS.has(methodName)) return true;
+  return (
+    t.isIdentifier(callee.object) &&
+    PRIMITIVE_RETURNING_STATIC_METHODS[callee.object.name]?.has(methodName) === true
+  );
+}
+
+/** React's own effect hooks, all comparing dependencies by reference */
+const BUILTIN_EFFECT_HOOKS = new Set(['useEffect', 'useLayoutEffect', 'useInsertionEffect']);
+
+/**
+ * Get how an effect hook compares its dependencies, or null if the hook is not an effect hook.
+ * Covers React's built-in effects plus hooks registered via the `effectHooks` option
+ * (from user config or library presets).
+ */
+export function getEffectHookComparison(hookName: string): EffectComparison | null {
+  const configured = currentOptions.effectHooks?.[hookName];
+  if (configured) return configured.comparison ?? 'reference';
+  return BUILTIN_EFFECT_HOOKS.has(hookName) ? 'reference' : null;
+}
+
+/**
+ * Check if a hook behaves like useEffect (runs after render and re-runs when its deps change).
+ */
+export function isEffectHook(hookName: string): boolean {
+  return getEffectHookComparison(hookName) !== null;
+}
+
+/**
+ * Get the dependency array of an effect hook call.
+ * Custom effect hooks don't all put it second (e.g. `useDebouncedEffect(fn, 500, [value])`),
+ * so this returns the first array literal after the callback.
+ */
+export function getEffectDependencyArray(node: t.CallExpression): t.ArrayExpression | null {
+  const depsArray = node.arguments.slice(1).find((arg) => t.isArrayExpression(arg));
+  return depsArray && t.isArrayExpression(depsArray) ? depsArray : null;
+}
+
+/**
+ * Get the index of a hook's callback argument. useImperativeHandle takes the ref first:
+ * `useImperativeHandle(ref, () => handle, [deps])`.
+ */
+export function getHookCallbackIndex(hookName: string): number {
+  return hookName === 'useImperativeHandle' ? 1 : 0;
+}
+
+/**
+ * Check if a function is configured as an atom/selector factory with the `atomFactories`
+ * option. Factories imported from the atom libraries are recognized by the atom analyzer.
+ */
+export function isAtomFactory(name: string): boolean {
+  return currentOptions.atomFactories?.includes(name) === true;
+}
+
+/**
+ * Check if App Router route files without "use client" are treated as Server Components
+ */
+export function isServerComponentsEnabled(): boolean {
+  return currentOptions.serverComponents === true;
+}
+
+/**
+ * Get the subscribe/teardown pairs from the `cleanupPairs` option (added to the built-in pairs)
+ */
+export function getConfiguredCleanupPairs(): Record<string, string[]> {
+  return currentOptions.cleanupPairs ?? {};
+}
+
+/** Functions that send a request when called, directly or via a method (`axios.get()`) */
+const BUILTIN_NETWORK_FUNCTIONS = new Set(['fetch', 'axios', 'ky', 'refetch']);
+
+/** GraphQL client methods, matched on objects named like a client (`client`, `apolloClient`) */
+const GRAPHQL_CLIENT_METHODS = new Set(['query', 'mutate', 'request']);
+
+/**
+ * Get the name of the network function a call invokes, or null if it isn't a network call.
+ * Covers fetch, axios, ky, GraphQL clients and React Query's refetch, plus functions marked
+ * `network: true` in `customFunctions` (by name, `object.method` or method name).
+ */
+export function getNetworkCallName(node: t.CallExpression): string | null {
+  const isConfigured = (name: string) => currentOptions.customFunctions?.[name]?.network === true;
+
+  if (t.isIdentifier(node.callee)) {
+    const name = node.callee.name;
+    return BUILTIN_NETWORK_FUNCTIONS.has(name) || isConfigured(name) ? name : null;
+  }
+
+  if (!t.isMemberExpression(node.callee) || !t.isIdentifier(node.callee.property)) return null;
+
+  // Walk down to the root object: api.users.get() -> api
+  const path: string[] = [node.callee.property.name];
+  let object: t.Node = node.callee.object;
+  while (t.isMemberExpression(object) && t.isIdentifier(object.property)) {
+    path.unshift(object.property.name);
+    object = object.object;
+  }
+  if (!t.isIdentifier(object)) return null;
+  path.unshift(object.name);
+
+  const name = path.join('.');
+  const method = path[path.length - 1];
+  const root = path[0];
+  const isGraphQLClient =
+    /client$/i.test(path[path.length - 2]) && GRAPHQL_CLIENT_METHODS.has(method);
+
+  if (
+    BUILTIN_NETWORK_FUNCTIONS.has(root) ||
+    BUILTIN_NETWORK_FUNCTIONS.has(method) ||
+    isGraphQLClient ||
+    isConfigured(name) ||
+    isConfigured(root) ||
+    isConfigured(method)
+  ) {
+    return name;
+  }
+  return null;
+}
+
+/** Methods that update the current screen's options or route params (React Navigation) */
+const NAVIGATION_UPDATE_METHODS = new Set(['setOptions', 'setParams']);
+
+/**
+ * Get the name of a call that updates the current screen (`navigation.setOptions`,
+ * `navigation.setParams`), or null. Matched on objects named like a navigation prop
+ * (`navigation`, `stackNavigation`), plus Expo Router's `router.setParams`.
+ */
+export function getNavigationUpdateCallName(node: t.CallExpression): string | null {
+  const callee = node.callee;
+  if (
+    !t.isMemberExpression(callee) ||
+    !t.isIdentifier(callee.object) ||
+    !t.isIdentifier(callee.property) ||
+    !NAVIGATION_UPDATE_METHODS.has(callee.property.name)
+  ) {
+    return null;
+  }
+  const objectName = callee.object.name;
+  const isNavigation =
+    /^navigation$/i.test(objectName) ||
+    /Navigation$/.test(objectName) ||
+    (objectName === 'router' && callee.property.name === 'setParams');
+  return isNavigation ? `${objectName}.${callee.property.name}` : null;
+}
+
+/**
+ * Find the first navigation update in a hook body. Nested functions (header components,
+ * event handlers) are skipped: they don't run as part of the hook.
+ */
+export function findNavigationUpdateCall(body: t.Node): { name: string; line: number } | null {
+  let found: { name: string; line: number } | null = null;
+
+  traverse(body, {
+    noScope: true,
+    Function(fnPath: NodePath<t.Function>) {
+      fnPath.skip();
+    },
+    CallExpression(callPath: NodePath<t.CallExpression>) {
+      const name = getNavigationUpdateCallName(callPath.node);
+      if (name) {
+        found = { name, line: callPath.node.loc?.start.line || 0 };
+        callPath.stop();
+      }
+    },
+  });
+
+  return found;
+}
+
+/** Promise methods whose callbacks run once the effect's own request settles */
+const PROMISE_CALLBACK_METHODS = new Set(['then', 'catch', 'finally']);
+
+/**
+ * Check if a nested function runs as part of the effect: an immediately-invoked wrapper
+ * (`(async () => { ... })()`), a local wrapper the effect calls (`const load = async () => ...;
+ * load();`) or a promise callback. Event handlers, timers and the returned cleanup don't.
+ */
+function runsWithEffect(fnPath: NodePath<t.Function>, calledNames: Set<string>): boolean {
+  const { node, parent } = fnPath;
+  if (t.isCallExpression(parent) && parent.callee === node) return true;
+  if (t.isFunctionDeclaration(node)) return node.id ? calledNames.has(node.id.name) : false;
+  if (t.isVariableDeclarator(parent) && t.isIdentifier(parent.id)) {
+    return calledNames.has(parent.id.name);
+  }
+  return (
+    t.isCallExpression(parent) &&
+    t.isMemberExpression(parent.callee) &&
+    t.isIdentifier(parent.callee.property) &&
+    PROMISE_CALLBACK_METHODS.has(parent.callee.property.name)
+  );
+}
+
+/**
+ * Find the first network call a hook body makes when it runs, including immediately-invoked
+ * async wrappers and promise callbacks. Other nested functions are skipped.
+ */
+export function findNetworkCall(body: t.Node): { name: string; line: number } | null {
+  let found: { name: string; line: number } | null = null;
+
+  // Local functions the body calls directly: const load = async () => { ... }; load();
+  const calledNames = new Set<string>();
+  traverse(body, {
+    noScope: true,
+    Function(fnPath: NodePath<t.Function>) {
+      fnPath.skip();
+    },
+    CallExpression(callPath: NodePath<t.CallExpression>) {
+      if (t.isIdentifier(callPath.node.callee)) calledNames.add(callPath.node.callee.name);
+    },
+  });
+
+  traverse(body, {
+    noScope: true,
+    Function(fnPath: NodePath<t.Function>) {
+      if (!runsWithEffect(fnPath, calledNames)) fnPath.skip();
+    },
+    CallExpression(callPath: NodePath<t.CallExpression>) {
+      const name = getNetworkCallName(callPath.node);
+      if (name) {
+        found = { name, line: callPath.node.loc?.start.line || 0 };
+        callPath.stop();
+      }
+    },
+  });
+
+  return found;
+}
+
 /**
  * Check if strict mode (TypeScript type checking) is enabled.
  */
@@ -360,3 +803,149 @@ export function shouldLogToConsole(): boolean {
     !process.argv.includes('--quiet')
   );
 }
+
+/** Statements that make everything nested inside them conditional */
+const CONDITIONAL_ANCESTOR_TYPES = new Set([
+  'IfStatement',
+  'ConditionalExpression',
+  'SwitchCase',
+  'ForStatement',
+  'ForInStatement',
+  'ForOfStatement',
+  'WhileStatement',
+  'DoWhileStatement',
+  'TryStatement',
+  'CatchClause',
+]);
+
+/**
+ * Check if a call inside an effect only runs on some executions of the effect:
+ * nested in a branch/loop, on the right of && / ||, or after an early return.
+ */
+export function isConditionalInEffect(callPath: NodePath, effectFn: NodePath<t.Function>): boolean {
+  let current: NodePath = callPath;
+  while (current.parentPath && current.parentPath !== effectFn) {
+    const parent = current.parentPath;
+    if (CONDITIONAL_ANCESTOR_TYPES.has(parent.node.type)) {
+      // The test of an if/ternary always runs
+      const isTest =
+        (t.isIfStatement(parent.node) || t.isConditionalExpression(parent.node)) &&
+        parent.node.test === current.node;
+      if (!isTest) return true;
+    }
+    if (t.isLogicalExpression(parent.node) && parent.node.right === current.node) {
+      return true;
+    }
+    current = parent;
+  }
+
+  // Early return before the call: `if (!ready) return;`
+  const body = effectFn.node.body;
+  if (t.isBlockStatement(body)) {
+    const callStart = callPath.node.start ?? 0;
+    for (const stmt of body.body) {
+      if ((stmt.start ?? 0) >= callStart) break;
+      if (t.isIfStatement(stmt)) {
+        let hasReturn = false;
+        traverse(stmt, {
+          noScope: true,
+          Function(fnPath) {
+            fnPath.skip();
+          },
+          ReturnStatement(returnPath) {
+            hasReturn = true;
+            returnPath.stop();
+          },
+        });
+        if (hasReturn) return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Find the parsed file a relative import points to.
+ * Returns null for package imports or files that weren't parsed.
+ */
+export function findImportedFile(
+  file: ParsedFile,
+  imp: ImportInfo,
+  allParsedFiles: ParsedFile[]
+): ParsedFile | null {
+  if (!imp.source.startsWith('.')) return null;
+
+  // Resolve the import path relative to the current file
+  const resolvedImportPath = path.resolve(path.dirname(file.file), imp.source);
+  const extensions = ['', '.ts', '.tsx', '.js', '.jsx'];
+  const possiblePaths = extensions.flatMap((ext) => [
+    `${resolvedImportPath}${ext}`,
+    path.join(resolvedImportPath, `index${ext}`),
+  ]);
+  return allParsedFiles.find((f) => possiblePaths.includes(f.file)) ?? null;
+}
+
+/**
+ * Find the initializer of a top-level variable: `const useCart = create(...)`.
+ * Returns null for functions and other declarations without an initializer.
+ */
+function findModuleLevelInit(ast: t.File, name: string): t.Node | null {
+  for (const statement of ast.program.body) {
+    const declaration = t.isExportNamedDeclaration(statement) ? statement.declaration : statement;
+    if (!t.isVariableDeclaration(declaration)) continue;
+    for (const declarator of declaration.declarations) {
+      if (t.isIdentifier(declarator.id, { name })) return declarator.init ?? null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the initializer behind an export: `export const useCart = create(...)`,
+ * `export { useCart }`, `export default create(...)`.
+ */
+function findExportedInit(ast: t.File, exportedName: string): t.Node | null {
+  let localName = exportedName;
+  for (const statement of ast.program.body) {
+    if (exportedName === 'default' && t.isExportDefaultDeclaration(statement)) {
+      const declaration = statement.declaration;
+      if (!t.isIdentifier(declaration)) return declaration;
+      localName = declaration.name;
+    }
+    if (t.isExportNamedDeclaration(statement) && !statement.source) {
+      for (const specifier of statement.specifiers) {
+        const exported = specifier.exported;
+        const name = t.isIdentifier(exported) ? exported.name : exported.value;
+        if (t.isExportSpecifier(specifier) && name === exportedName) {
+          localName = specifier.local.name;
+        }
+      }
+    }
+  }
+  return findModuleLevelInit(ast, localName);
+}
+
+/**
+ * Find the module-level initializer of an imported function, resolving the import to one of
+ * the analyzed files. `data.getUser` resolves through a namespace import. Returns undefined
+ * when the import points outside the analyzed files.
+ */
+export function findImportedInit(
+  localName: string,
+  callee: t.Node,
+  filePath: string,
+  allParsedFiles: ParsedFile[]
+): t.Node | null | undefined {
+  const file = allParsedFiles.find((parsed) => parsed.file === filePath);
+  const imp = file?.imports.find((candidate) => candidate.imports.includes(localName));
+  const sourceFile = file && imp ? findImportedFile(file, imp, allParsedFiles) : null;
+  if (!imp || !sourceFile) return undefined;
+
+  let exportedName = imp.importedNames.get(localName) ?? localName;
+  if (exportedName === '*') {
+    if (!t.isMemberExpression(callee) || !t.isIdentifier(callee.property)) return undefined;
+    exportedName = callee.property.name;
+  }
+  return findExportedInit(sourceFile.ast, exportedName);
+}
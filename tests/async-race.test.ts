@@ -0,0 +1,258 @@
+import { useTempProject } from './helpers/temp-project';
+
+describe('Async Effect Race Conditions', () => {
+  const project = useTempProject('rcd-async-race-');
+
+  const analyzeComponent = (content: string) =>
+    project.analyze({ 'Profile.tsx': content }, { errorCodes: ['RLD-504'] });
+
+  it('should flag setters passed to .then() in effects with changing dependencies', async () => {
+    const issues = await analyzeComponent(`import { useEffect, useState } from 'react';
+
+export function Profile({ id }: { id: string }) {
+  const [user, setUser] = useState(null);
+  useEffect(() => {
+    fetchUser(id).then(setUser);
+  }, [id]);
+  return <div>{String(user)}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].type).toBe('potential-issue');
+    expect(issues[0].category).toBe('warning');
+    expect(issues[0].setterFunction).toBe('setUser');
+    expect(issues[0].problematicDependency).toBe('id');
+    expect(issues[0].explanation).toContain("If 'id' changes before it finishes");
+    expect(issues[0].suggestion).toContain('if (!ignore) setUser(data)');
+  });
+
+  it('should flag effects depending on router params or store selectors', async () => {
+    project.writePackageJson({ 'react-router-dom': '^6.0.0', 'react-redux': '^9.0.0' });
+    const issues = await analyzeComponent(`import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+
+export function Profile() {
+  const { id } = useParams();
+  const teamId = useSelector((state: { teamId: string }) => state.teamId);
+  const dispatch = useDispatch();
+  const [user, setUser] = useState(null);
+  const [team, setTeam] = useState(null);
+  useEffect(() => {
+    fetchUser(id).then(setUser);
+  }, [id]);
+  useEffect(() => {
+    fetchTeam(teamId).then(setTeam);
+  }, [teamId]);
+  useEffect(() => {
+    fetchUser('me').then(setUser);
+  }, [dispatch]);
+  return <div>{String(user)}{String(team)}</div>;
+}
+`);
+
+    expect(issues.map((issue) => [issue.line, issue.problematicDependency])).toEqual([
+      [11, 'id'],
+      [14, 'teamId'],
+    ]);
+  });
+
+  it('should flag setters called after await, directly or through local functions', async () => {
+    const issues = await analyzeComponent(`import { useEffect, useState } from 'react';
+
+export function Search({ query }: { query: string }) {
+  const [results, setResults] = useState([]);
+  const [error, setError] = useState(null);
+  const [loading, setLoading] = useState(false);
+  const finish = () => setLoading(false);
+
+  useEffect(() => {
+    async function load() {
+      setLoading(true);
+      try {
+        const response = await fetch('/api/search?q=' + query);
+        setResults(await response.json());
+      } catch (e) {
+        setError(e);
+      }
+      finish();
+    }
+    load();
+  }, [query]);
+
+  return <div>{results.length}{String(error)}{String(loading)}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].actualStateModifications).toEqual(['setResults', 'setError', 'setLoading']);
+    expect(issues[0].explanation).toContain('setLoading() (via finish())');
+  });
+
+  it('should flag async loaders unless the cleanup sets a cancellation flag', async () => {
+    const loader = (guarded: boolean) => `import { useEffect, useState } from 'react';
+
+export function Gallery({ children }: { children: { id: string }[] }) {
+  const [photoUrls, setPhotoUrls] = useState<string[]>([]);
+  useEffect(() => {
+    let cancelled = false;
+    const loadPhotoUrls = async () => {
+      const urls = await Promise.all(children.map((child) => getUrl(child.id)));
+      ${guarded ? 'if (!cancelled) setPhotoUrls(urls);' : 'setPhotoUrls(urls);'}
+    };
+    if (children.length > 0) {
+      loadPhotoUrls();
+    }
+    ${guarded ? 'return () => {\n      cancelled = true;\n    };' : ''}
+  }, [children]);
+  return <div>{photoUrls.length}</div>;
+}
+
+async function getUrl(id: string) {
+  return id;
+}
+`;
+
+    const unguarded = await analyzeComponent(loader(false));
+    expect(unguarded).toHaveLength(1);
+    expect(unguarded[0].setterFunction).toBe('setPhotoUrls');
+    expect(unguarded[0].line).toBe(5);
+
+    expect(await analyzeComponent(loader(true))).toEqual([]);
+  });
+
+  it('should not flag effects that cancel stale requests', async () => {
+    const issues = await analyzeComponent(`import { useEffect, useState } from 'react';
+
+export function Profile({ id }: { id: string }) {
+  const [user, setUser] = useState(null);
+  const [posts, setPosts] = useState([]);
+  const [stats, setStats] = useState(null);
+
+  useEffect(() => {
+    let ignore = false;
+    fetchUser(id).then((data) => {
+      if (!ignore) setUser(data);
+    });
+    return () => {
+      ignore = true;
+    };
+  }, [id]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch('/api/posts/' + id, { signal: controller.signal })
+      .then((response) => response.json())
+      .then(setPosts);
+    return () => controller.abort();
+  }, [id]);
+
+  useEffect(() => {
+    const request = loadStats(id);
+    request.promise.then(setStats);
+    return () => request.cancel();
+  }, [id]);
+
+  return <div>{String(user)}{posts.length}{String(stats)}</div>;
+}
+`);
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should not count controllers that are never aborted or variables that are never checked', async () => {
+    const issues = await analyzeComponent(`import { useEffect, useState } from 'react';
+
+export function Profile({ id }: { id: string }) {
+  const [user, setUser] = useState(null);
+  const [posts, setPosts] = useState([]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchUser(id).then(setUser);
+    return () => console.log(controller.signal.aborted);
+  }, [id]);
+
+  useEffect(() => {
+    let timer: number | null = window.setTimeout(() => {}, 100);
+    fetchPosts(id).then((data) => {
+      setPosts(data);
+    });
+    return () => {
+      timer = null;
+    };
+  }, [id]);
+
+  return <div>{String(user)}{posts.length}</div>;
+}
+`);
+
+    expect(issues.map((issue) => issue.setterFunction)).toEqual(['setUser', 'setPosts']);
+  });
+
+  it('should not flag effects that only run once or set state synchronously', async () => {
+    const issues = await analyzeComponent(`import { useEffect, useRef, useState } from 'react';
+
+export function Dashboard({ id }: { id: string }) {
+  const [data, setData] = useState(null);
+  const [selected, setSelected] = useState(id);
+  const timer = useRef(0);
+
+  useEffect(() => {
+    fetchDashboard().then(setData);
+  }, []);
+
+  useEffect(() => {
+    fetchDashboard().then(setData);
+  }, [setData, timer]);
+
+  useEffect(() => {
+    setSelected(id);
+    timer.current = window.setTimeout(() => setData(null), 1000);
+  }, [id]);
+
+  return <div>{String(data)}{selected}</div>;
+}
+`);
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should only count setters after the await and flags set in the cleanup', async () => {
+    const issues = await analyzeComponent(`import { useEffect, useState } from 'react';
+
+export function Search({ query }: { query: string }) {
+  const [loading, setLoading] = useState(false);
+  const [results, setResults] = useState([]);
+
+  useEffect(() => {
+    async function run() {
+      setLoading(true);
+      await fetch('/api/search?q=' + query);
+    }
+    run();
+  }, [query]);
+
+  useEffect(() => {
+    let ignore = false;
+    const reset = () => {
+      ignore = true;
+    };
+    fetch('/api/search?q=' + query)
+      .then((response) => response.json())
+      .then((data) => {
+        if (!ignore) setResults(data);
+      });
+    window.addEventListener('beforeunload', reset);
+  }, [query]);
+
+  return <div>{String(loading)}{results.length}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].line).toBe(15);
+    expect(issues[0].setterFunction).toBe('setResults');
+  });
+});
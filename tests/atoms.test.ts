@@ -0,0 +1,134 @@
+import { useTempProject } from './helpers/temp-project';
+import { RcdConfig } from '../src/config';
+
+describe('Atoms Created During Render', () => {
+  const project = useTempProject('rcd-atoms-');
+
+  const analyzeAtoms = (content: string, config?: RcdConfig) =>
+    project.analyze({ 'Counter.tsx': content }, { config, errorCodes: ['RLD-105'] });
+
+  it('should flag Jotai atoms created in a component body', async () => {
+    const issues = await analyzeAtoms(`import { atom, useAtom, useAtomValue } from 'jotai';
+import { atomWithStorage } from 'jotai/utils';
+
+export function Counter() {
+  const [count, setCount] = useAtom(atom(0));
+  const themeAtom = atomWithStorage('theme', 'light');
+  const theme = useAtomValue(themeAtom);
+  return <button className={theme} onClick={() => setCount(count + 1)}>{count}</button>;
+}
+`);
+
+    expect(issues).toHaveLength(2);
+    expect(issues[0].type).toBe('potential-issue');
+    expect(issues[0].category).toBe('warning');
+    expect(issues[0].severity).toBe('high');
+    expect(issues[0].line).toBe(5);
+    expect(issues[0].explanation).toContain("during the render of 'Counter'");
+    expect(issues[0].explanation).toContain('useAtom() subscribes to a different atom');
+    expect(issues[0].suggestion).toContain('module scope');
+    expect(issues[1].problematicDependency).toBe('themeAtom');
+    expect(issues[1].hookType).toBe('atomWithStorage');
+  });
+
+  it('should flag Recoil atoms and selectors created in custom hooks', async () => {
+    const issues = await analyzeAtoms(`import { atom, selector, useRecoilValue } from 'recoil';
+
+export function useFilteredTodos(filter: string) {
+  const todos = atom({ key: 'todos', default: [] as string[] });
+  const filtered = selector({
+    key: 'filtered',
+    get: ({ get }) => get(todos).filter((todo) => todo.includes(filter)),
+  });
+  return useRecoilValue(filtered);
+}
+`);
+
+    expect(issues.map((issue) => issue.problematicDependency)).toEqual(['todos', 'filtered']);
+    expect(issues[0].severity).toBe('medium');
+    expect(issues[1].severity).toBe('high');
+  });
+
+  it('should not flag module-level atoms, useMemo, initializers and callbacks', async () => {
+    const issues = await analyzeAtoms(`import { useMemo, useRef, useState } from 'react';
+import { atom, useAtom, useSetAtom } from 'jotai';
+import { atomFamily } from 'jotai/utils';
+
+const countAtom = atom(0);
+const todoAtoms = atomFamily((id: string) => atom({ id, done: false }));
+
+export function Counter({ initial }: { initial: number }) {
+  const [count] = useAtom(countAtom);
+  const localAtom = useMemo(() => atom(initial), [initial]);
+  const [stateAtom] = useState(() => atom(initial));
+  const refAtom = useRef(atom(initial));
+  const setLocal = useSetAtom(localAtom);
+  const handleReset = () => {
+    const resetAtom = atom(null, (_get, set) => set(countAtom, 0));
+    return resetAtom;
+  };
+  return <button onClick={() => setLocal(count + 1)}>{String(stateAtom)} {String(refAtom)} {String(todoAtoms)} {String(handleReset)}</button>;
+}
+`);
+
+    expect(issues).toHaveLength(0);
+  });
+
+  it('should only analyze factories imported from atom libraries or listed in atomFactories', async () => {
+    const content = `import { createAppAtom, useAppAtom } from './state';
+import { atom } from './not-jotai';
+
+export function Counter() {
+  const [count] = useAppAtom(createAppAtom(0));
+  const local = atom(1);
+  return <div>{count} {String(local)}</div>;
+}
+`;
+
+    expect(await analyzeAtoms(content)).toHaveLength(0);
+
+    const issues = await analyzeAtoms(content, { atomFactories: ['createAppAtom'] });
+    expect(issues).toHaveLength(1);
+    expect(issues[0].hookType).toBe('createAppAtom');
+  });
+
+  it('should match library factories by import, not by name', async () => {
+    project.writePackageJson({ jotai: '^2.0.0' });
+    const issues = await analyzeAtoms(`import { atom as jotaiAtom, useAtomValue } from 'jotai';
+import { loadable } from './loading';
+
+function unwrap<T>(value: T | undefined, fallback: T): T {
+  return value ?? fallback;
+}
+
+export function Counter({ count }: { count?: number }) {
+  const state = loadable(count);
+  const value = unwrap(count, 0);
+  const doubled = useAtomValue(jotaiAtom(value * 2));
+  return <div>{String(state)} {doubled}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].hookType).toBe('jotaiAtom');
+    expect(issues[0].line).toBe(11);
+  });
+
+  it('should not flag atom families created at module level and called during render', async () => {
+    const issues = await analyzeAtoms(`import { atom, useAtomValue } from 'jotai';
+import { atomFamily } from 'jotai/utils';
+
+const todoAtomFamily = atomFamily((id: string) => atom(id));
+
+export function Todo({ id }: { id: string }) {
+  const todo = useAtomValue(todoAtomFamily(id));
+  const perRender = useAtomValue(atomFamily((key: string) => atom(key))(id));
+  return <div>{todo}{perRender}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].line).toBe(8);
+    expect(issues[0].hookType).toBe('atomFamily');
+  });
+});
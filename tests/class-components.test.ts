@@ -0,0 +1,374 @@
+import { useTempProject } from './helpers/temp-project';
+
+describe('Class Component Lifecycle Detection', () => {
+  const project = useTempProject('rcd-class-components-');
+
+  const analyze = (fileName: string, content: string) => project.analyze({ [fileName]: content });
+
+  describe('this.setState in render() (RLD-102)', () => {
+    it('should detect unconditional this.setState in render', async () => {
+      const issues = await analyze(
+        'RenderSetState.tsx',
+        `
+        import React from 'react';
+
+        class Counter extends React.Component {
+          state = { count: 0 };
+
+          render() {
+            this.setState({ count: this.state.count + 1 });
+            return <div>{this.state.count}</div>;
+          }
+        }
+      `
+      );
+
+      const renderIssues = issues.filter((issue) => issue.errorCode === 'RLD-102');
+      expect(renderIssues).toHaveLength(1);
+      expect(renderIssues[0].type).toBe('confirmed-infinite-loop');
+      expect(renderIssues[0].category).toBe('critical');
+      expect(renderIssues[0].hookType).toBe('render');
+      expect(renderIssues[0].explanation).toContain('Counter.render()');
+    });
+
+    it('should report guarded this.setState in render as a potential issue', async () => {
+      const issues = await analyze(
+        'GuardedRenderSetState.tsx',
+        `
+        import { Component } from 'react';
+
+        class Loader extends Component {
+          render() {
+            if (this.props.ready) {
+              this.setState({ loaded: true });
+            }
+            return <div />;
+          }
+        }
+      `
+      );
+
+      const renderIssues = issues.filter((issue) => issue.errorCode === 'RLD-102');
+      expect(renderIssues).toHaveLength(1);
+      expect(renderIssues[0].type).toBe('potential-issue');
+      expect(renderIssues[0].category).toBe('warning');
+    });
+
+    it('should not flag this.setState inside event handlers defined in render', async () => {
+      const issues = await analyze(
+        'RenderHandler.tsx',
+        `
+        import React from 'react';
+
+        class Toggle extends React.PureComponent {
+          render() {
+            return <button onClick={() => this.setState({ on: true })}>Toggle</button>;
+          }
+        }
+      `
+      );
+
+      expect(issues.filter((issue) => issue.errorCode === 'RLD-102')).toHaveLength(0);
+    });
+
+    it('should ignore classes that are not React components', async () => {
+      const issues = await analyze(
+        'PlainClass.tsx',
+        `
+        class Store {
+          setState(value: unknown) {}
+
+          render() {
+            this.setState({});
+          }
+        }
+      `
+      );
+
+      expect(issues.filter((issue) => issue.errorCode === 'RLD-102')).toHaveLength(0);
+    });
+  });
+
+  describe('componentDidUpdate (RLD-203)', () => {
+    it('should detect unconditional this.setState in componentDidUpdate', async () => {
+      const issues = await analyze(
+        'DidUpdateLoop.tsx',
+        `
+        import React from 'react';
+
+        class Profile extends React.Component {
+          componentDidUpdate() {
+            this.setState({ loaded: true });
+          }
+
+          render() {
+            return <div />;
+          }
+        }
+      `
+      );
+
+      const loopIssues = issues.filter((issue) => issue.errorCode === 'RLD-203');
+      expect(loopIssues).toHaveLength(1);
+      expect(loopIssues[0].type).toBe('confirmed-infinite-loop');
+      expect(loopIssues[0].category).toBe('critical');
+      expect(loopIssues[0].hookType).toBe('componentDidUpdate');
+      expect(loopIssues[0].line).toBe(6);
+    });
+
+    it('should treat prevProps comparison guards as safe', async () => {
+      const issues = await analyze(
+        'DidUpdateGuarded.tsx',
+        `
+        import React from 'react';
+
+        class Profile extends React.Component {
+          componentDidUpdate(prevProps) {
+            if (prevProps.userId !== this.props.userId) {
+              this.setState({ user: null });
+            }
+          }
+
+          render() {
+            return <div />;
+          }
+        }
+      `
+      );
+
+      const didUpdateIssues = issues.filter((issue) => issue.hookType === 'componentDidUpdate');
+      expect(didUpdateIssues).toHaveLength(1);
+      expect(didUpdateIssues[0].type).toBe('safe-pattern');
+      expect(didUpdateIssues[0].category).toBe('safe');
+    });
+
+    it('should treat early-return prevState guards as safe', async () => {
+      const issues = await analyze(
+        'DidUpdateEarlyReturn.tsx',
+        `
+        import React from 'react';
+
+        class Search extends React.Component {
+          componentDidUpdate(prevProps, prevState) {
+            if (prevState.query === this.state.query) return;
+            this.setState({ results: [] });
+          }
+
+          render() {
+            return <div />;
+          }
+        }
+      `
+      );
+
+      const didUpdateIssues = issues.filter((issue) => issue.hookType === 'componentDidUpdate');
+      expect(didUpdateIssues).toHaveLength(1);
+      expect(didUpdateIssues[0].type).toBe('safe-pattern');
+    });
+
+    it('should report conditions that do not compare previous values as potential issues', async () => {
+      const issues = await analyze(
+        'DidUpdateWeakGuard.tsx',
+        `
+        import React from 'react';
+
+        class Poller extends React.Component {
+          componentDidUpdate() {
+            if (this.props.enabled) {
+              this.setState({ tick: Date.now() });
+            }
+          }
+
+          render() {
+            return <div />;
+          }
+        }
+      `
+      );
+
+      const didUpdateIssues = issues.filter((issue) => issue.hookType === 'componentDidUpdate');
+      expect(didUpdateIssues).toHaveLength(1);
+      expect(didUpdateIssues[0].type).toBe('potential-issue');
+      expect(didUpdateIssues[0].errorCode).toBe('RLD-501');
+    });
+
+    it('should not treat one-sided prevProps checks as comparison guards', async () => {
+      const issues = await analyze(
+        'DidUpdateOneSided.tsx',
+        `
+        import React from 'react';
+
+        class Loader extends React.Component {
+          componentDidUpdate(prevProps) {
+            if (prevProps.id !== undefined) {
+              this.setState({ loading: true });
+            }
+            if (prevProps.id !== this.props.userId) {
+              this.setState({ loading: false });
+            }
+          }
+
+          render() {
+            return <div />;
+          }
+        }
+      `
+      );
+
+      const didUpdateIssues = issues.filter((issue) => issue.hookType === 'componentDidUpdate');
+      expect(didUpdateIssues).toHaveLength(1);
+      expect(didUpdateIssues[0].type).toBe('potential-issue');
+      expect(didUpdateIssues[0].errorCode).toBe('RLD-501');
+    });
+
+    it('should treat comparisons of destructured previous and current values as safe', async () => {
+      const issues = await analyze(
+        'DidUpdateDestructured.tsx',
+        `
+        import React from 'react';
+
+        class Profile extends React.Component {
+          componentDidUpdate({ userId }, { page: prevPage }) {
+            const { page } = this.state;
+            if (userId !== this.props.userId || prevPage !== page) {
+              this.setState({ user: null });
+            }
+          }
+
+          render() {
+            return <div />;
+          }
+        }
+      `
+      );
+
+      const didUpdateIssues = issues.filter((issue) => issue.hookType === 'componentDidUpdate');
+      expect(didUpdateIssues).toHaveLength(1);
+      expect(didUpdateIssues[0].type).toBe('safe-pattern');
+    });
+
+    it('should not flag deferred this.setState in componentDidUpdate', async () => {
+      const issues = await analyze(
+        'DidUpdateDeferred.tsx',
+        `
+        import React from 'react';
+
+        class Clock extends React.Component {
+          componentDidUpdate() {
+            setTimeout(() => {
+              this.setState({ now: Date.now() });
+            }, 1000);
+          }
+
+          render() {
+            return <div />;
+          }
+        }
+      `
+      );
+
+      expect(issues.filter((issue) => issue.hookType === 'componentDidUpdate')).toHaveLength(0);
+    });
+
+    it('should report an unconditional call next to a guarded one in either order', async () => {
+      const guarded = `if (prevProps.id !== this.props.id) {
+              this.setState({ user: null });
+            }`;
+      const unconditional = 'this.setState({ loaded: true });';
+      const component = (first: string, second: string) => `
+        import React from 'react';
+
+        class Profile extends React.Component {
+          componentDidUpdate(prevProps) {
+            ${first}
+            ${second}
+          }
+
+          render() {
+            return <div />;
+          }
+        }
+      `;
+
+      for (const [first, second] of [
+        [unconditional, guarded],
+        [guarded, unconditional],
+      ]) {
+        const issues = await analyze('DidUpdateMixed.tsx', component(first, second));
+        const didUpdateIssues = issues.filter((issue) => issue.hookType === 'componentDidUpdate');
+        expect(didUpdateIssues).toHaveLength(1);
+        expect(didUpdateIssues[0].type).toBe('confirmed-infinite-loop');
+        expect(didUpdateIssues[0].errorCode).toBe('RLD-203');
+      }
+    });
+  });
+
+  describe('getDerivedStateFromProps (RLD-103)', () => {
+    it('should detect getDerivedStateFromProps that always returns a new object', async () => {
+      const issues = await analyze(
+        'DerivedAlwaysNew.tsx',
+        `
+        import React from 'react';
+
+        class List extends React.Component {
+          static getDerivedStateFromProps(props) {
+            return { items: props.items.slice() };
+          }
+
+          render() {
+            return <div />;
+          }
+        }
+      `
+      );
+
+      const derivedIssues = issues.filter((issue) => issue.errorCode === 'RLD-103');
+      expect(derivedIssues).toHaveLength(1);
+      expect(derivedIssues[0].type).toBe('potential-issue');
+      expect(derivedIssues[0].hookType).toBe('getDerivedStateFromProps');
+    });
+
+    it('should detect static arrow property returning an object literal', async () => {
+      const issues = await analyze(
+        'DerivedArrow.tsx',
+        `
+        import React from 'react';
+
+        class List extends React.Component {
+          static getDerivedStateFromProps = (props) => ({ count: props.count });
+
+          render() {
+            return <div />;
+          }
+        }
+      `
+      );
+
+      expect(issues.filter((issue) => issue.errorCode === 'RLD-103')).toHaveLength(1);
+    });
+
+    it('should not flag getDerivedStateFromProps that can return null', async () => {
+      const issues = await analyze(
+        'DerivedGuarded.tsx',
+        `
+        import React from 'react';
+
+        class List extends React.Component {
+          static getDerivedStateFromProps(props, state) {
+            if (props.items !== state.prevItems) {
+              return { items: props.items, prevItems: props.items };
+            }
+            return null;
+          }
+
+          render() {
+            return <div />;
+          }
+        }
+      `
+      );
+
+      expect(issues.filter((issue) => issue.errorCode === 'RLD-103')).toHaveLength(0);
+    });
+  });
+});
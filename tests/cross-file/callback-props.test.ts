@@ -0,0 +1,174 @@
+import { useTempProject } from '../helpers/temp-project';
+
+describe('Cross-Component Callback Prop Loops (RLD-302)', () => {
+  const project = useTempProject('rcd-callback-props-');
+
+  const analyzeCallbackLoops = (files: Record<string, string>) =>
+    project.analyze(files, { errorCodes: ['RLD-302'] });
+
+  const childWithEffect = `import { useEffect } from 'react';
+
+export function Field({ value, onChange }: { value: string; onChange: (v: string) => void }) {
+  useEffect(() => {
+    onChange(value.trim());
+  }, [value, onChange]);
+
+  return <input value={value} />;
+}
+`;
+
+  it('should detect a loop through an inline handler across files', async () => {
+    const issues = await analyzeCallbackLoops({
+      'Field.tsx': childWithEffect,
+      'Form.tsx': `import { useState } from 'react';
+import { Field } from './Field';
+
+export function Form() {
+  const [name, setName] = useState('');
+  return <Field value={name} onChange={(v) => setName(v)} />;
+}
+`,
+    });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].type).toBe('confirmed-infinite-loop');
+    expect(issues[0].category).toBe('critical');
+    expect(issues[0].file).toContain('Form.tsx');
+    expect(issues[0].line).toBe(6);
+    expect(issues[0].setterFunction).toBe('setName');
+    // Both locations are reported: the parent attribute and the child effect
+    expect(issues[0].explanation).toContain('Field.tsx:4');
+    expect(issues[0].explanation).toContain("Form's handler (line 6) calls 'setName()'");
+  });
+
+  it('should detect a loop through a state-bound prop even with a stable handler', async () => {
+    const issues = await analyzeCallbackLoops({
+      'Field.tsx': `import { useEffect } from 'react';
+
+export default function Field(props: { value: string; onChange: (v: string) => void }) {
+  useEffect(() => {
+    props.onChange(props.value + '!');
+  }, [props.value]);
+
+  return <input value={props.value} />;
+}
+`,
+      'Form.tsx': `import { useState, useCallback } from 'react';
+import Field from './Field';
+
+export function Form() {
+  const [name, setName] = useState('');
+  const handleChange = useCallback((v: string) => setName(v), []);
+  return <Field value={name} onChange={handleChange} />;
+}
+`,
+    });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].problematicDependency).toBe('value');
+  });
+
+  it('should not report stable handlers when the effect does not depend on parent state', async () => {
+    const issues = await analyzeCallbackLoops({
+      'Field.tsx': `import { useEffect } from 'react';
+
+export function Field({ onReady }: { onReady: (ready: boolean) => void }) {
+  useEffect(() => {
+    onReady(true);
+  }, [onReady]);
+
+  return <input />;
+}
+`,
+      'Form.tsx': `import { useState } from 'react';
+import { Field } from './Field';
+
+export function Form() {
+  const [ready, setReady] = useState(false);
+  return <Field onReady={setReady} />;
+}
+`,
+    });
+
+    expect(issues).toHaveLength(0);
+  });
+
+  it('should report conditional callback calls as potential issues', async () => {
+    const issues = await analyzeCallbackLoops({
+      'Field.tsx': `import { useEffect } from 'react';
+
+export function Field({ value, onChange }: { value: string; onChange: (v: string) => void }) {
+  useEffect(() => {
+    if (value.length > 10) {
+      onChange(value.slice(0, 10));
+    }
+  }, [value, onChange]);
+
+  return <input value={value} />;
+}
+`,
+      'Form.tsx': `import { useState } from 'react';
+import { Field } from './Field';
+
+export function Form() {
+  const [name, setName] = useState('');
+  return <Field value={name} onChange={(v) => setName(v)} />;
+}
+`,
+    });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].type).toBe('potential-issue');
+    expect(issues[0].category).toBe('warning');
+  });
+
+  it('should not report callbacks called from deferred or event handler code', async () => {
+    const issues = await analyzeCallbackLoops({
+      'Field.tsx': `import { useEffect } from 'react';
+
+export function Field({ value, onChange }: { value: string; onChange: (v: string) => void }) {
+  useEffect(() => {
+    const id = setTimeout(() => onChange(value), 500);
+    return () => clearTimeout(id);
+  }, [value, onChange]);
+
+  return <input value={value} onChange={(e) => onChange(e.target.value)} />;
+}
+`,
+      'Form.tsx': `import { useState } from 'react';
+import { Field } from './Field';
+
+export function Form() {
+  const [name, setName] = useState('');
+  return <Field value={name} onChange={(v) => setName(v)} />;
+}
+`,
+    });
+
+    expect(issues).toHaveLength(0);
+  });
+
+  it('should detect a loop with a memoized child defined in the same file', async () => {
+    const issues = await analyzeCallbackLoops({
+      'Page.tsx': `import { useState, useEffect, memo } from 'react';
+
+const Counter = memo(({ count, onCount }: { count: number; onCount: (n: number) => void }) => {
+  useEffect(() => {
+    onCount(count + 1);
+  });
+  return <span>{count}</span>;
+});
+
+export function Page() {
+  const [count, setCount] = useState(0);
+  const handleCount = (n: number) => setCount(n);
+  return <Counter count={count} onCount={handleCount} />;
+}
+`,
+    });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].explanation).toContain('no dependency array');
+    expect(issues[0].explanation).toContain('line 4');
+  });
+});
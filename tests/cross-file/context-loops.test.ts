@@ -0,0 +1,157 @@
+import { useTempProject } from '../helpers/temp-project';
+
+describe('Context Provider/Consumer Feedback Loops (RLD-303)', () => {
+  const project = useTempProject('rcd-context-loops-');
+
+  const analyzeContextLoops = (files: Record<string, string>) =>
+    project.analyze(files, { errorCodes: ['RLD-303'] });
+
+  const unstableProvider = `import { createContext, useState } from 'react';
+
+export const SettingsContext = createContext<any>(null);
+
+export function SettingsProvider({ children }: { children: React.ReactNode }) {
+  const [settings, setSettings] = useState({ theme: 'light' });
+  const value = { settings, update: setSettings };
+  return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>;
+}
+`;
+
+  it('should detect a consumer effect that updates an unstable provider value it depends on', async () => {
+    const issues = await analyzeContextLoops({
+      'SettingsProvider.tsx': unstableProvider,
+      'Toolbar.tsx': `import { useContext, useEffect } from 'react';
+import { SettingsContext } from './SettingsProvider';
+
+export function Toolbar() {
+  const ctx = useContext(SettingsContext);
+
+  useEffect(() => {
+    ctx.update({ ...ctx.settings, ready: true });
+  }, [ctx]);
+
+  return <div />;
+}
+`,
+    });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].type).toBe('confirmed-infinite-loop');
+    expect(issues[0].file).toContain('Toolbar.tsx');
+    expect(issues[0].line).toBe(7);
+    expect(issues[0].stateVariable).toBe('settings');
+    // Both the consumer effect and the provider are reported
+    expect(issues[0].explanation).toContain("Toolbar's useEffect (line 7)");
+    expect(issues[0].explanation).toContain('SettingsProvider.tsx:8');
+    expect(issues[0].explanation).toContain('RLD-404');
+  });
+
+  it('should detect loops through a memoized value when the effect depends on the updated field', async () => {
+    const issues = await analyzeContextLoops({
+      'CartProvider.tsx': `import { createContext, useMemo, useState } from 'react';
+
+export const CartContext = createContext<any>(null);
+
+export function CartProvider({ children }: { children: React.ReactNode }) {
+  const [items, setItems] = useState<string[]>([]);
+  const value = useMemo(() => ({ items, replaceItems: setItems }), [items]);
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
+}
+`,
+      'CartSync.tsx': `import { useContext, useEffect } from 'react';
+import { CartContext } from './CartProvider';
+
+export function CartSync() {
+  const { items, replaceItems } = useContext(CartContext);
+
+  useEffect(() => {
+    replaceItems([...items].sort());
+  }, [items, replaceItems]);
+
+  return null;
+}
+`,
+    });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].problematicDependency).toBe('items');
+    expect(issues[0].explanation).toContain("'items' field is derived from 'items'");
+  });
+
+  it('should not report a memoized value when the effect only depends on the stable setter', async () => {
+    const issues = await analyzeContextLoops({
+      'CartProvider.tsx': `import { createContext, useMemo, useState } from 'react';
+
+export const CartContext = createContext<any>(null);
+
+export function CartProvider({ children }: { children: React.ReactNode }) {
+  const [items, setItems] = useState<string[]>([]);
+  const value = useMemo(() => ({ items, replaceItems: setItems }), [items]);
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
+}
+`,
+      'CartReset.tsx': `import { useContext, useEffect } from 'react';
+import { CartContext } from './CartProvider';
+
+export function CartReset() {
+  const { replaceItems } = useContext(CartContext);
+
+  useEffect(() => {
+    replaceItems([]);
+  }, [replaceItems]);
+
+  return null;
+}
+`,
+    });
+
+    expect(issues).toHaveLength(0);
+  });
+
+  it('should report conditional provider updates as potential issues', async () => {
+    const issues = await analyzeContextLoops({
+      'SettingsProvider.tsx': unstableProvider,
+      'Toolbar.tsx': `import { useContext, useEffect } from 'react';
+import { SettingsContext } from './SettingsProvider';
+
+export function Toolbar() {
+  const ctx = useContext(SettingsContext);
+
+  useEffect(() => {
+    if (!ctx.settings.ready) {
+      ctx.update({ ...ctx.settings, ready: true });
+    }
+  }, [ctx]);
+
+  return <div />;
+}
+`,
+    });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].type).toBe('potential-issue');
+    expect(issues[0].category).toBe('warning');
+  });
+
+  it('should ignore consumers of a different context', async () => {
+    const issues = await analyzeContextLoops({
+      'SettingsProvider.tsx': unstableProvider,
+      'Other.tsx': `import { createContext, useContext, useEffect } from 'react';
+
+const OtherContext = createContext<any>(null);
+
+export function Other() {
+  const ctx = useContext(OtherContext);
+
+  useEffect(() => {
+    ctx.update({});
+  }, [ctx]);
+
+  return <div />;
+}
+`,
+    });
+
+    expect(issues).toHaveLength(0);
+  });
+});
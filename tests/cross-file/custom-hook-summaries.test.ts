@@ -0,0 +1,284 @@
+import { useTempProject } from '../helpers/temp-project';
+import { RcdConfig } from '../../src/config';
+import { parseFile } from '../../src/parser';
+import { summarizeCustomHooks } from '../../src/custom-hook-summary';
+
+describe('Custom Hook Summaries', () => {
+  const project = useTempProject('rcd-hook-summaries-');
+
+  async function analyzeFiles(files: Record<string, string>, config?: RcdConfig) {
+    const issues = await project.analyze(files, { config });
+    return issues.filter((issue) => issue.file.includes('Caller.tsx'));
+  }
+
+  const useItemsHook = `import { useState, useCallback } from 'react';
+
+export function useItems() {
+  const [items, setItems] = useState<string[]>([]);
+  const reload = useCallback(() => setItems(['a', 'b']), []);
+  return { items, reload };
+}
+`;
+
+  it('should summarize returned values, exposed setters and where state is set', () => {
+    const filePath = project.writeFile(
+      'useCounter.tsx',
+      `import { useState, useEffect } from 'react';
+
+export const useCounter = (start: number) => {
+  const [count, setCount] = useState(start);
+  const increment = () => setCount((c) => c + 1);
+  useEffect(() => {
+    setCount(start);
+  }, [start]);
+  return [count, increment, { start }];
+};
+`
+    );
+
+    const summary = summarizeCustomHooks(parseFile(filePath)).get('useCounter');
+
+    expect(summary).toBeDefined();
+    expect(summary!.returnShape).toBe('array');
+    expect(summary!.returnsStableValue).toBe(false);
+    expect(summary!.values.get('0')).toMatchObject({ role: 'state', isStable: true });
+    expect(summary!.values.get('1')).toMatchObject({
+      role: 'updater',
+      isStable: false,
+      updates: '0',
+    });
+    expect(summary!.values.get('2')).toMatchObject({ role: 'value', isStable: false });
+  });
+
+  it('should treat an imported hook updater like a setter of the state it returns', async () => {
+    const issues = await analyzeFiles({
+      'useItems.tsx': useItemsHook,
+      'Caller.tsx': `import { useEffect } from 'react';
+import { useItems } from './useItems';
+
+export function Caller() {
+  const { items, reload } = useItems();
+
+  useEffect(() => {
+    reload();
+  }, [items, reload]);
+
+  return <div>{items.length}</div>;
+}
+`,
+    });
+
+    const loop = issues.find((issue) => issue.errorCode === 'RLD-200');
+    expect(loop).toBeDefined();
+    expect(loop!.type).toBe('confirmed-infinite-loop');
+    expect(loop!.stateVariable).toBe('items');
+    expect(loop!.setterFunction).toBe('reload');
+  });
+
+  it('should not report updaters that only set state asynchronously', async () => {
+    const issues = await analyzeFiles({
+      'useItems.tsx': `import { useState, useCallback } from 'react';
+
+export function useItems() {
+  const [items, setItems] = useState<string[]>([]);
+  const reload = useCallback(async () => {
+    const response = await fetch('/api/items');
+    setItems(await response.json());
+  }, []);
+  return { items, reload };
+}
+`,
+      'Caller.tsx': `import { useEffect } from 'react';
+import { useItems } from './useItems';
+
+export function Caller() {
+  const { items, reload } = useItems();
+
+  useEffect(() => {
+    reload();
+  }, [items, reload]);
+
+  return <div>{items.length}</div>;
+}
+`,
+    });
+
+    expect(issues.filter((issue) => issue.type === 'confirmed-infinite-loop')).toHaveLength(0);
+  });
+
+  it('should flag values the hook recreates on every render', async () => {
+    const issues = await analyzeFiles({
+      'useFilters.tsx': `import { useState } from 'react';
+
+export default function useFilters() {
+  const [query, setQuery] = useState('');
+  return { query, setQuery, options: { query, limit: 10 } };
+}
+`,
+      'Caller.tsx': `import { useEffect, useState } from 'react';
+import useFilters from './useFilters';
+
+export function Caller() {
+  const { options } = useFilters();
+  const [results, setResults] = useState<string[]>([]);
+
+  useEffect(() => {
+    setResults([options.query]);
+  }, [options]);
+
+  return <div>{results.length}</div>;
+}
+`,
+    });
+
+    const issue = issues.find((i) => i.problematicDependency === 'options');
+    expect(issue).toBeDefined();
+    expect(issue!.errorCode).toBe('RLD-200');
+    expect(issue!.type).toBe('confirmed-infinite-loop');
+  });
+
+  it('should not flag memoized return values', async () => {
+    const issues = await analyzeFiles({
+      'useFilters.tsx': `import { useMemo, useState } from 'react';
+
+export function useFilters() {
+  const [query, setQuery] = useState('');
+  const value = useMemo(() => ({ query, setQuery, options: { query, limit: 10 } }), [query]);
+  return value;
+}
+`,
+      'Caller.tsx': `import { useEffect, useState } from 'react';
+import { useFilters } from './useFilters';
+
+export function Caller() {
+  const filters = useFilters();
+  const { options } = useFilters();
+  const [results, setResults] = useState<string[]>([]);
+
+  useEffect(() => {
+    setResults([filters.query, options.query]);
+  }, [filters, options]);
+
+  return <div>{results.length}</div>;
+}
+`,
+    });
+
+    // The effect only derives state (RLD-412); the memoized values must not be reported
+    expect(
+      issues.filter((issue) => issue.type !== 'safe-pattern' && issue.errorCode !== 'RLD-412')
+    ).toHaveLength(0);
+  });
+
+  it('should let stableHooks config override the summary', async () => {
+    const issues = await analyzeFiles(
+      {
+        'useFilters.tsx': `export function useFilters() {
+  return { limit: 10 };
+}
+`,
+        'Caller.tsx': `import { useEffect, useState } from 'react';
+import { useFilters } from './useFilters';
+
+export function Caller() {
+  const filters = useFilters();
+  const [results, setResults] = useState<number[]>([]);
+
+  useEffect(() => {
+    setResults([filters.limit]);
+  }, [filters]);
+
+  return <div>{results.length}</div>;
+}
+`,
+      },
+      { stableHooks: ['useFilters'] }
+    );
+
+    // The effect only derives state (RLD-412); the configured stable hook must not be reported
+    expect(
+      issues.filter((issue) => issue.type !== 'safe-pattern' && issue.errorCode !== 'RLD-412')
+    ).toHaveLength(0);
+  });
+
+  it('should only treat calls to known-stable functions as stable return values', () => {
+    const filePath = project.writeFile(
+      'useDerived.tsx',
+      `import { useState } from 'react';
+
+export function useVisibleItems(items: string[]) {
+  return items.filter((item) => item !== '');
+}
+
+export function useFieldNames(values: Record<string, string>) {
+  return Object.keys(values);
+}
+
+export function useLabel(items: string[]) {
+  const [separator] = useState(', ');
+  return items.join(separator);
+}
+`
+    );
+
+    const summaries = summarizeCustomHooks(parseFile(filePath));
+
+    expect(summaries.get('useVisibleItems')!.returnsStableValue).toBe(false);
+    expect(summaries.get('useFieldNames')!.returnsStableValue).toBe(false);
+    expect(summaries.get('useLabel')!.returnsStableValue).toBe(true);
+  });
+
+  it('should report unstable values as returned by the hook', async () => {
+    const issues = await analyzeFiles({
+      'useVisibleItems.tsx': `export function useVisibleItems(items: string[]) {
+  return items.filter((item) => item !== '');
+}
+`,
+      'Caller.tsx': `import { useEffect, useState } from 'react';
+import { useVisibleItems } from './useVisibleItems';
+
+export function Caller({ items }: { items: string[] }) {
+  const visible = useVisibleItems(items);
+  const [count, setCount] = useState(0);
+
+  useEffect(() => {
+    setCount(visible.length);
+  }, [visible]);
+
+  return <div>{count}</div>;
+}
+`,
+    });
+
+    const issue = issues.find((i) => i.problematicDependency === 'visible');
+    expect(issue).toBeDefined();
+    expect(issue!.type).toBe('confirmed-infinite-loop');
+    expect(issue!.explanation).toContain('returned by useVisibleItems()');
+    expect(issue!.explanation).not.toContain('function call result');
+  });
+
+  it('should let configured hooks take precedence over summarized state pairs', async () => {
+    const issues = await analyzeFiles(
+      {
+        'useItems.tsx': useItemsHook,
+        'Caller.tsx': `import { useEffect } from 'react';
+import { useItems } from './useItems';
+
+export function Caller() {
+  const { items, reload } = useItems();
+
+  useEffect(() => {
+    reload();
+  }, [items, reload]);
+
+  return <div>{items.length}</div>;
+}
+`,
+      },
+      { stableHooks: ['useItems'] }
+    );
+
+    // Configured as stable, the summary's items -> reload pair is not used
+    expect(issues.filter((issue) => issue.setterFunction === 'reload')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,186 @@
+import { useTempProject } from '../helpers/temp-project';
+
+describe('useReducer Dispatch Analysis', () => {
+  const project = useTempProject('rcd-reducer-');
+
+  async function analyzeFiles(files: Record<string, string>) {
+    const issues = await project.analyze(files);
+    return issues.filter((issue) => issue.file.includes('Counter.tsx'));
+  }
+
+  const counter = (dispatchedType: string) => `import { useEffect, useReducer } from 'react';
+
+function reducer(state: { count: number }, action: { type: string }) {
+  switch (action.type) {
+    case 'sync':
+    case 'noop':
+      return state;
+    case 'increment':
+      return { ...state, count: state.count + 1 };
+    default:
+      return state;
+  }
+}
+
+export function Counter() {
+  const [state, dispatch] = useReducer(reducer, { count: 0 });
+
+  useEffect(() => {
+    dispatch({ type: '${dispatchedType}' });
+  }, [state]);
+
+  return <div>{state.count}</div>;
+}
+`;
+
+  it('should treat actions whose case returns the current state as safe', async () => {
+    const issues = await analyzeFiles({ 'Counter.tsx': counter('sync') });
+
+    expect(issues.filter((issue) => issue.type !== 'safe-pattern')).toHaveLength(0);
+    const safe = issues.find((issue) => issue.setterFunction === 'dispatch');
+    expect(safe).toBeDefined();
+    expect(safe!.explanation).toContain('returns the current state');
+  });
+
+  it('should confirm a loop when the dispatched case returns a new object', async () => {
+    const issues = await analyzeFiles({ 'Counter.tsx': counter('increment') });
+
+    const loop = issues.find((issue) => issue.errorCode === 'RLD-200');
+    expect(loop).toBeDefined();
+    expect(loop!.type).toBe('confirmed-infinite-loop');
+    expect(loop!.setterFunction).toBe('dispatch');
+  });
+
+  it('should warn when the reducer only returns the current state behind a guard', async () => {
+    const issues = await analyzeFiles({
+      'Counter.tsx': `import { useEffect, useReducer } from 'react';
+
+const reducer = (state: { count: number }, { type, count }: { type: string; count: number }) => {
+  if (type === 'set') {
+    if (state.count === count) return state;
+    return { ...state, count };
+  }
+  return state;
+};
+
+export function Counter({ initial }: { initial: number }) {
+  const [state, dispatch] = useReducer(reducer, { count: initial });
+
+  useEffect(() => {
+    dispatch({ type: 'set', count: initial });
+  }, [state, initial]);
+
+  return <div>{state.count}</div>;
+}
+`,
+    });
+
+    const issue = issues.find((i) => i.setterFunction === 'dispatch' && i.type !== 'safe-pattern');
+    expect(issue).toBeDefined();
+    expect(issue!.errorCode).toBe('RLD-501');
+    expect(issue!.type).toBe('potential-issue');
+    expect(issue!.category).toBe('warning');
+  });
+
+  it('should combine cases that break out of the switch with the final return', async () => {
+    const issues = await analyzeFiles({
+      'Counter.tsx': `import { useEffect, useReducer } from 'react';
+
+function reducer(state: { count: number; synced: boolean }, action: { type: string }) {
+  switch (action.type) {
+    case 'sync':
+      if (state.synced) return state;
+      break;
+    case 'increment':
+      return { ...state, count: state.count + 1 };
+  }
+  return { ...state, synced: true };
+}
+
+export function Counter() {
+  const [state, dispatch] = useReducer(reducer, { count: 0, synced: false });
+
+  useEffect(() => {
+    dispatch({ type: 'sync' });
+  }, [state]);
+
+  return <div>{state.count}</div>;
+}
+`,
+    });
+
+    const issue = issues.find((i) => i.setterFunction === 'dispatch' && i.type !== 'safe-pattern');
+    expect(issue).toBeDefined();
+    expect(issue!.errorCode).toBe('RLD-501');
+    expect(issue!.type).toBe('potential-issue');
+  });
+
+  it('should resolve reducers imported from another file', async () => {
+    const issues = await analyzeFiles({
+      'counterReducer.tsx': `export default function counterReducer(
+  state: { count: number },
+  action: { type: 'sync' | 'reset' | 'increment' }
+) {
+  switch (action.type) {
+    case 'sync':
+      return state;
+    case 'reset':
+      return state.count === 0 ? state : { count: 0 };
+    case 'increment':
+      return { count: state.count + 1 };
+  }
+  return state;
+}
+`,
+      'Counter.tsx': `import { useEffect, useReducer } from 'react';
+import counterReducer from './counterReducer';
+
+export function Counter() {
+  const [state, dispatch] = useReducer(counterReducer, { count: 0 });
+
+  useEffect(() => {
+    dispatch({ type: 'sync' });
+  }, [state]);
+
+  useEffect(() => {
+    dispatch({ type: 'reset' });
+  }, [state.count]);
+
+  return <div>{state.count}</div>;
+}
+`,
+    });
+
+    const dispatchIssues = issues.filter((issue) => issue.setterFunction === 'dispatch');
+    expect(dispatchIssues.filter((issue) => issue.type === 'confirmed-infinite-loop')).toHaveLength(
+      0
+    );
+    expect(dispatchIssues.some((issue) => issue.type === 'safe-pattern')).toBe(true);
+    expect(dispatchIssues.some((issue) => issue.errorCode === 'RLD-501')).toBe(true);
+  });
+
+  it('should fall back to setter analysis when the action type is dynamic', async () => {
+    const issues = await analyzeFiles({
+      'Counter.tsx': `import { useEffect, useReducer } from 'react';
+
+function reducer(state: { count: number }, action: { type: string }) {
+  return action.type === 'sync' ? state : { count: state.count + 1 };
+}
+
+export function Counter({ actionType }: { actionType: string }) {
+  const [state, dispatch] = useReducer(reducer, { count: 0 });
+
+  useEffect(() => {
+    dispatch({ type: actionType });
+  }, [state, actionType]);
+
+  return <div>{state.count}</div>;
+}
+`,
+    });
+
+    const loop = issues.find((issue) => issue.setterFunction === 'dispatch');
+    expect(loop).toBeDefined();
+    expect(loop!.type).toBe('confirmed-infinite-loop');
+  });
+});
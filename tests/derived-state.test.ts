@@ -0,0 +1,158 @@
+import { useTempProject } from './helpers/temp-project';
+import { RcdConfig } from '../src/config';
+
+describe('Derived State in Effects', () => {
+  const project = useTempProject('rcd-derived-');
+
+  const analyzeComponent = (content: string, config?: RcdConfig) =>
+    project.analyze({ 'Profile.tsx': content }, { config, errorCodes: ['RLD-412'] });
+
+  it('should flag effects that set state computed from their dependencies', async () => {
+    const issues = await analyzeComponent(`import { useEffect, useState } from 'react';
+
+export function Profile({ first, last }: { first: string; last: string }) {
+  const [fullName, setFullName] = useState('');
+  useEffect(() => {
+    setFullName(first + ' ' + last);
+  }, [first, last]);
+  return <div>{fullName}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].type).toBe('potential-issue');
+    expect(issues[0].category).toBe('performance');
+    expect(issues[0].stateVariable).toBe('fullName');
+    expect(issues[0].explanation).toContain("setFullName(first + ' ' + last)");
+    expect(issues[0].suggestion).toContain("const fullName = first + ' ' + last;");
+  });
+
+  it('should suggest useMemo for computed collections and mirror state from props', async () => {
+    const issues = await analyzeComponent(`import { useEffect, useState } from 'react';
+
+const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+
+export function List({ items, query, value }: any) {
+  const [visible, setVisible] = useState([]);
+  const [draft, setDraft] = useState(value);
+  useEffect(() => {
+    setVisible(items.filter((item: any) => item.name.includes(query)).sort(byName));
+  }, [items, query]);
+  useEffect(() => setDraft(value), [value]);
+  return <div>{visible.length}{draft}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(2);
+    expect(issues[0].suggestion).toContain(
+      'const visible = useMemo(() => items.filter((item: any) => item.name.includes(query)).sort(byName), [items, query]);'
+    );
+    expect(issues[1].explanation).toContain('setDraft(value)');
+  });
+
+  it('should not flag effects that do more than derive state', async () => {
+    const issues = await analyzeComponent(`import { useEffect, useRef, useState } from 'react';
+
+export function Profile({ first, last, id }: any) {
+  const [fullName, setFullName] = useState('');
+  const [updatedAt, setUpdatedAt] = useState(0);
+  const [count, setCount] = useState(0);
+  const prefix = useRef('');
+
+  useEffect(() => {
+    if (first) setFullName(first + ' ' + last);
+  }, [first, last]);
+  useEffect(() => {
+    setFullName(first + ' ' + last);
+    document.title = first;
+  }, [first, last]);
+  useEffect(() => {
+    setFullName(prefix.current + first);
+  }, [first]);
+  useEffect(() => {
+    setUpdatedAt(Date.now() + id);
+  }, [id]);
+  useEffect(() => {
+    setCount((c) => c + id);
+  }, [id]);
+  useEffect(() => {
+    setFullName('');
+  }, [id]);
+
+  return <div>{fullName}{updatedAt}{count}</div>;
+}
+`);
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should not flag state that is also set outside the effect', async () => {
+    const issues = await analyzeComponent(`import { useEffect, useState } from 'react';
+
+export function NameField({ value }: { value: string }) {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+  return <input value={draft} onChange={(e) => setDraft(e.target.value)} />;
+}
+`);
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should leave loops on the effect state to the loop detector', async () => {
+    const results = await project.analyze({
+      'Counter.tsx': `import { useEffect, useState } from 'react';
+
+export function Counter() {
+  const [count, setCount] = useState(0);
+  const [doubled, setDoubled] = useState(0);
+  useEffect(() => {
+    setCount(count + 1);
+  }, [count]);
+  useEffect(() => {
+    setDoubled(count * 2);
+  }, [count]);
+  return <div>{doubled}</div>;
+}
+`,
+    });
+    const issues = results.filter((issue) => issue.category !== 'safe');
+
+    expect(issues.map((issue) => [issue.line, issue.errorCode])).toEqual([
+      [6, 'RLD-200'],
+      [9, 'RLD-412'],
+    ]);
+    expect(issues[1].suggestion).toContain('const doubled = count * 2;');
+  });
+
+  it('should analyze configured effect hooks that compare dependencies by reference', async () => {
+    const issues = await analyzeComponent(
+      `import { useState } from 'react';
+import { useDebouncedEffect, useIsomorphicLayoutEffect } from './hooks';
+
+export function Profile({ first, last }: { first: string; last: string }) {
+  const [fullName, setFullName] = useState('');
+  const [initials, setInitials] = useState('');
+  useIsomorphicLayoutEffect(() => {
+    setFullName(first + ' ' + last);
+  }, [first, last]);
+  useDebouncedEffect(() => {
+    setInitials(first[0] + last[0]);
+  }, [first, last], 300);
+  return <div>{fullName} {initials}</div>;
+}
+`,
+      {
+        effectHooks: {
+          useIsomorphicLayoutEffect: {},
+          useDebouncedEffect: { comparison: 'debounced' },
+        },
+      }
+    );
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].hookType).toBe('useIsomorphicLayoutEffect');
+  });
+});
@@ -0,0 +1,190 @@
+import { useTempProject } from './helpers/temp-project';
+
+describe('Multi-Effect Cascade Detection (RLD-204)', () => {
+  const project = useTempProject('rcd-effect-cascade-');
+
+  const analyzeCascades = (fileName: string, content: string) =>
+    project.analyze({ [fileName]: content }, { errorCodes: ['RLD-204'] });
+
+  it('should detect a cycle spanning three effects and list every hop', async () => {
+    const issues = await analyzeCascades(
+      'ThreeEffects.tsx',
+      `import { useState, useEffect } from 'react';
+
+function Dashboard() {
+  const [a, setA] = useState(0);
+  const [b, setB] = useState(0);
+  const [c, setC] = useState(0);
+
+  useEffect(() => {
+    setB(a + 1);
+  }, [a]);
+
+  useEffect(() => {
+    setC(b + 1);
+  }, [b]);
+
+  useEffect(() => {
+    setA(c + 1);
+  }, [c]);
+
+  return <div>{a}{b}{c}</div>;
+}
+`
+    );
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].type).toBe('confirmed-infinite-loop');
+    expect(issues[0].category).toBe('critical');
+    expect(issues[0].line).toBe(8);
+    expect(issues[0].actualStateModifications).toEqual(['setB', 'setC', 'setA']);
+    expect(issues[0].explanation).toContain("useEffect (line 8) sets 'b' via setB()");
+    expect(issues[0].explanation).toContain(
+      "useEffect (line 12) depends on 'b' and sets 'c' via setC()"
+    );
+    expect(issues[0].explanation).toContain(
+      "useEffect (line 16) depends on 'c' and sets 'a' via setA()"
+    );
+    expect(issues[0].explanation).toContain("back to useEffect (line 8), which depends on 'a'");
+  });
+
+  it('should detect a two-effect ping-pong', async () => {
+    const issues = await analyzeCascades(
+      'PingPong.tsx',
+      `
+      import { useState, useEffect } from 'react';
+
+      function Form() {
+        const [value, setValue] = useState('');
+        const [draft, setDraft] = useState('');
+
+        useEffect(() => {
+          setDraft(value.trim());
+        }, [value]);
+
+        useEffect(() => {
+          setValue(draft + ' ');
+        }, [draft]);
+
+        return <input value={value} />;
+      }
+    `
+    );
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].explanation).toMatch(/2 effects in 'Form'/);
+  });
+
+  it('should report conditional hops as a potential issue', async () => {
+    const issues = await analyzeCascades(
+      'ConditionalCascade.tsx',
+      `
+      import { useState, useEffect } from 'react';
+
+      function Filters({ enabled }: { enabled: boolean }) {
+        const [query, setQuery] = useState('');
+        const [results, setResults] = useState<string[]>([]);
+
+        useEffect(() => {
+          if (enabled) {
+            setResults(query.split(' '));
+          }
+        }, [query]);
+
+        useEffect(() => {
+          setQuery(results.join(' '));
+        }, [results]);
+
+        return <div />;
+      }
+    `
+    );
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].type).toBe('potential-issue');
+    expect(issues[0].category).toBe('warning');
+  });
+
+  it('should not report a chain that does not close into a cycle', async () => {
+    const issues = await analyzeCascades(
+      'Chain.tsx',
+      `
+      import { useState, useEffect } from 'react';
+
+      function Chain() {
+        const [a, setA] = useState(0);
+        const [b, setB] = useState(0);
+        const [c, setC] = useState(0);
+
+        useEffect(() => {
+          setB(a + 1);
+        }, [a]);
+
+        useEffect(() => {
+          setC(b + 1);
+        }, [b]);
+
+        return <button onClick={() => setA(c)}>{c}</button>;
+      }
+    `
+    );
+
+    expect(issues).toHaveLength(0);
+  });
+
+  it('should not report cycles broken by deferred updates', async () => {
+    const issues = await analyzeCascades(
+      'DeferredCascade.tsx',
+      `
+      import { useState, useEffect } from 'react';
+
+      function Ticker() {
+        const [a, setA] = useState(0);
+        const [b, setB] = useState(0);
+
+        useEffect(() => {
+          setB(a + 1);
+        }, [a]);
+
+        useEffect(() => {
+          const id = setTimeout(() => setA(b), 1000);
+          return () => clearTimeout(id);
+        }, [b]);
+
+        return <div />;
+      }
+    `
+    );
+
+    expect(issues).toHaveLength(0);
+  });
+
+  it('should only link effects within the same component', async () => {
+    const issues = await analyzeCascades(
+      'SeparateComponents.tsx',
+      `
+      import { useState, useEffect } from 'react';
+
+      function First() {
+        const [a, setA] = useState(0);
+        const [b, setB] = useState(0);
+        useEffect(() => {
+          setB(a + 1);
+        }, [a]);
+        return <div>{b}</div>;
+      }
+
+      function Second() {
+        const [a, setA] = useState(0);
+        const [b, setB] = useState(0);
+        useEffect(() => {
+          setA(b + 1);
+        }, [b]);
+        return <div>{a}</div>;
+      }
+    `
+    );
+
+    expect(issues).toHaveLength(0);
+  });
+});
@@ -0,0 +1,228 @@
+import { useTempProject } from './helpers/temp-project';
+import { RcdConfig } from '../src/config';
+
+describe('Missing Effect Cleanups', () => {
+  const project = useTempProject('rcd-cleanup-');
+
+  const analyzeComponent = (content: string, config?: RcdConfig) =>
+    project.analyze({ 'Widget.tsx': content }, { config, errorCodes: ['RLD-505'] });
+
+  it('should flag listeners and intervals that are never removed', async () => {
+    const issues = await analyzeComponent(`import { useEffect, useState } from 'react';
+
+export function Widget({ onResize }: { onResize: () => void }) {
+  const [ticks, setTicks] = useState(0);
+  useEffect(() => {
+    window.addEventListener('resize', onResize);
+  }, [onResize]);
+  useEffect(() => {
+    setInterval(() => setTicks((t) => t + 1), 1000);
+  }, []);
+  return <div>{ticks}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(2);
+    expect(issues[0].type).toBe('potential-issue');
+    expect(issues[0].category).toBe('warning');
+    expect(issues[0].severity).toBe('medium');
+    expect(issues[0].explanation).toContain('useEffect calls addEventListener()');
+    expect(issues[0].suggestion).toContain("window.removeEventListener('resize', onResize)");
+    expect(issues[1].explanation).toContain('keeps running after the component unmounts');
+    expect(issues[1].suggestion).toContain('return () => clearInterval(id)');
+  });
+
+  it('should raise severity when unstable dependencies re-subscribe on every render', async () => {
+    const issues = await analyzeComponent(`import { useEffect, useState } from 'react';
+
+export function Chat({ socket, room }: { socket: any; room: string }) {
+  const [messages, setMessages] = useState<string[]>([]);
+  const options = { room };
+  useEffect(() => {
+    socket.on('message', (message: string) => setMessages((list) => [...list, message]));
+  }, [socket, options]);
+  return <div>{messages.length}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].severity).toBe('high');
+    expect(issues[0].problematicDependency).toBe('options');
+    expect(issues[0].setterFunction).toBe('setMessages');
+    expect(issues[0].explanation).toContain("'options' is recreated on every render");
+    expect(issues[0].explanation).toContain('the renders cascade');
+  });
+
+  it('should not flag subscriptions undone by the cleanup', async () => {
+    const issues = await analyzeComponent(`import { useEffect, useRef, useState } from 'react';
+
+export function Widget({ store, url, onResize, target }: any) {
+  const [value, setValue] = useState(0);
+  const timer = useRef(0);
+
+  useEffect(() => {
+    window.addEventListener('resize', onResize);
+    return () => window.removeEventListener('resize', onResize);
+  }, [onResize]);
+
+  useEffect(() => store.subscribe(() => setValue(store.get())), [store]);
+
+  useEffect(() => {
+    const unsubscribe = store.subscribe(() => setValue(store.get()));
+    return unsubscribe;
+  }, [store]);
+
+  useEffect(() => {
+    timer.current = window.setInterval(() => setValue((v) => v + 1), 1000);
+    const socket = new WebSocket(url);
+    const observer = new ResizeObserver(() => setValue(0));
+    observer.observe(target);
+    return () => {
+      clearInterval(timer.current);
+      socket.close();
+      observer.disconnect();
+    };
+  }, [url, target]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    window.addEventListener('scroll', onResize, { signal: controller.signal });
+    window.addEventListener('load', onResize, { once: true });
+    return () => controller.abort();
+  }, [onResize]);
+
+  return <div>{value}</div>;
+}
+`);
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should accept teardowns passed by reference in the cleanup', async () => {
+    const issues = await analyzeComponent(`import { useEffect, useState } from 'react';
+
+export function Ticker({ delays }: { delays: number[] }) {
+  const [ticks, setTicks] = useState(0);
+  useEffect(() => {
+    const timers: number[] = [];
+    for (const delay of delays) {
+      timers.push(setInterval(() => setTicks((t) => t + 1), delay));
+    }
+    return () => timers.forEach(clearInterval);
+  }, [delays]);
+  useEffect(() => {
+    const timers: number[] = [];
+    timers.push(setInterval(() => setTicks(0), 1000));
+    return () => timers.forEach(clearTimeout);
+  }, [delays]);
+  return <div>{ticks}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].line).toBe(12);
+  });
+
+  it('should accept optional calls and local functions called by the cleanup', async () => {
+    const issues = await analyzeComponent(`import { useEffect, useRef, useState } from 'react';
+
+export function Panel({ onScroll }: { onScroll: () => void }) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [ticks, setTicks] = useState(0);
+  useEffect(() => {
+    const node = ref.current;
+    node.addEventListener('scroll', onScroll);
+    return () => node?.removeEventListener('scroll', onScroll);
+  }, [onScroll]);
+  useEffect(() => {
+    const id = setInterval(() => setTicks((t) => t + 1), 1000);
+    const stop = () => clearInterval(id);
+    return () => stop();
+  }, []);
+  useEffect(() => {
+    window.addEventListener('resize', onScroll);
+    const log = () => console.log('unmount');
+    return () => log();
+  }, [onScroll]);
+  return <div ref={ref}>{ticks}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].line).toBe(16);
+  });
+
+  it('should use configured cleanup pairs', async () => {
+    const content = `import { useEffect, useState } from 'react';
+import { subscribeToChat, unsubscribeFromChat, listen } from './chat';
+
+export function Chat({ room }: { room: string }) {
+  const [message, setMessage] = useState('');
+  useEffect(() => {
+    subscribeToChat(room, setMessage);
+    return () => unsubscribeFromChat(room, setMessage);
+  }, [room]);
+  useEffect(() => {
+    listen(room, setMessage);
+  }, [room]);
+  return <div>{message}</div>;
+}
+`;
+
+    expect(await analyzeComponent(content)).toEqual([]);
+
+    const issues = await analyzeComponent(content, {
+      cleanupPairs: { subscribeToChat: ['unsubscribeFromChat'], listen: [] },
+    });
+    expect(issues).toHaveLength(1);
+    expect(issues[0].line).toBe(10);
+    expect(issues[0].explanation).toContain('listen()');
+    expect(issues[0].suggestion).toContain('const unsubscribe = listen(...); return unsubscribe;');
+  });
+
+  it('should only count cleanups returned on every path that subscribes', async () => {
+    const issues = await analyzeComponent(`import { useEffect } from 'react';
+
+export function Widget({ enabled, mode, onResize, tick }: any) {
+  useEffect(() => {
+    window.addEventListener('resize', onResize);
+    if (enabled) return () => window.removeEventListener('resize', onResize);
+  }, [enabled, onResize]);
+
+  useEffect(() => {
+    if (enabled) {
+      const id = setInterval(tick, 1000);
+      return () => clearInterval(id);
+    }
+  }, [enabled, tick]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const id = setInterval(tick, 1000);
+    return () => clearInterval(id);
+  }, [enabled, tick]);
+
+  useEffect(() => {
+    switch (mode) {
+      case 'poll': {
+        const id = setInterval(tick, 1000);
+        return () => clearInterval(id);
+      }
+      default:
+        return;
+    }
+  }, [mode, tick]);
+
+  return null;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].line).toBe(4);
+    expect(issues[0].confidence).toBe('medium');
+    expect(issues[0].explanation).toContain(
+      'only returns the cleanup that undoes it on some paths'
+    );
+    expect(issues[0].suggestion).toContain('Return the cleanup on every path that subscribes');
+  });
+});
@@ -0,0 +1,120 @@
+import { useTempProject } from './helpers/temp-project';
+import { RcdConfig } from '../src/config';
+
+describe('Effect Hook Registry', () => {
+  const project = useTempProject('rcd-effect-hooks-');
+
+  async function analyzeEffectHooks(content: string, config?: RcdConfig) {
+    const issues = await project.analyze({ 'Component.tsx': content }, { config });
+    return issues.filter((issue) => issue.type !== 'safe-pattern');
+  }
+
+  it('should analyze useInsertionEffect like useEffect', async () => {
+    const issues = await analyzeEffectHooks(`import { useInsertionEffect, useState } from 'react';
+
+export function Styled() {
+  const [count, setCount] = useState(0);
+  useInsertionEffect(() => {
+    setCount(count + 1);
+  }, [count]);
+  return <div>{count}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].errorCode).toBe('RLD-200');
+    expect(issues[0].type).toBe('confirmed-infinite-loop');
+    expect(issues[0].hookType).toBe('useInsertionEffect');
+  });
+
+  it('should analyze hooks registered in effectHooks config', async () => {
+    const content = `import { useState } from 'react';
+import { useUpdateEffect } from './hooks';
+
+export function Counter() {
+  const [count, setCount] = useState(0);
+  useUpdateEffect(() => {
+    setCount(count + 1);
+  }, [count]);
+  return <div>{count}</div>;
+}
+`;
+
+    expect(await analyzeEffectHooks(content)).toHaveLength(0);
+
+    const issues = await analyzeEffectHooks(content, { effectHooks: { useUpdateEffect: {} } });
+    expect(issues).toHaveLength(1);
+    expect(issues[0].type).toBe('confirmed-infinite-loop');
+    expect(issues[0].hookType).toBe('useUpdateEffect');
+  });
+
+  it('should not flag inline object dependencies of deep-compare effects', async () => {
+    const component = (hookName: string) => `import { useEffect, useState } from 'react';
+import { useDeepCompareEffect } from './hooks';
+
+export function Results({ query }: { query: string }) {
+  const [results, setResults] = useState<string[]>([]);
+  const options = { query, limit: 10 };
+  ${hookName}(() => {
+    setResults([options.query]);
+  }, [options]);
+  return <div>{results.length}</div>;
+}
+`;
+    const config: RcdConfig = {
+      effectHooks: { useDeepCompareEffect: { comparison: 'deep-equal' } },
+    };
+
+    const referenceIssues = await analyzeEffectHooks(component('useEffect'), config);
+    expect(referenceIssues.some((issue) => issue.problematicDependency === 'options')).toBe(true);
+
+    const deepCompareIssues = await analyzeEffectHooks(component('useDeepCompareEffect'), config);
+    expect(deepCompareIssues).toHaveLength(0);
+  });
+
+  it('should report debounced effect loops as warnings and find deps after the delay', async () => {
+    const issues = await analyzeEffectHooks(
+      `import { useState } from 'react';
+import { useDebouncedEffect } from './hooks';
+
+export function Search() {
+  const [text, setText] = useState('');
+  useDebouncedEffect(
+    () => {
+      setText(text.trim() + ' ');
+    },
+    300,
+    [text]
+  );
+  return <input value={text} />;
+}
+`,
+      { effectHooks: { useDebouncedEffect: { comparison: 'debounced' } } }
+    );
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].errorCode).toBe('RLD-200');
+    expect(issues[0].type).toBe('potential-issue');
+    expect(issues[0].category).toBe('warning');
+    expect(issues[0].explanation).toContain('runs after a delay');
+  });
+
+  it('should pick up effect hooks from library presets', async () => {
+    project.writePackageJson({ '@react-hookz/web': '^24.0.0' });
+
+    const issues = await analyzeEffectHooks(`import { useState } from 'react';
+import { useUpdateEffect } from '@react-hookz/web';
+
+export function Counter() {
+  const [count, setCount] = useState(0);
+  useUpdateEffect(() => {
+    setCount(count + 1);
+  }, [count]);
+  return <div>{count}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].type).toBe('confirmed-infinite-loop');
+  });
+});
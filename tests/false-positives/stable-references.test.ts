@@ -204,8 +204,11 @@ describe('Stable Reference False Positives', () => {
       `);
 
       const results = analyzeHooks([parsed]);
+      // The un-cancelled request is a real race (RLD-504), covered in async-race.test.ts
       const issues = results.filter(
-        (r) => r.type === 'confirmed-infinite-loop' || r.type === 'potential-issue'
+        (r) =>
+          (r.type === 'confirmed-infinite-loop' || r.type === 'potential-issue') &&
+          r.errorCode !== 'RLD-504'
       );
 
       // childrenTimestampKey is a string (primitive), compared by value not reference
@@ -557,8 +560,9 @@ describe('Stable Reference False Positives', () => {
         (r) => r.type === 'confirmed-infinite-loop' || r.type === 'potential-issue'
       );
 
-      // user and setUser from useAuthStore should be treated as stable
-      expect(issues).toHaveLength(0);
+      // user and setUser from useAuthStore should be treated as stable. user still changes
+      // with the store, so the unguarded fetch is reported as a race
+      expect(issues.map((issue) => issue.errorCode)).toEqual(['RLD-504']);
     });
 
     it('should NOT flag useLibraryStore selector as unstable', () => {
@@ -721,8 +725,9 @@ describe('Stable Reference False Positives', () => {
         (r) => r.type === 'confirmed-infinite-loop' || r.type === 'potential-issue'
       );
 
-      // storyId from useLocalSearchParams destructuring should be stable
-      expect(issues).toHaveLength(0);
+      // storyId from useLocalSearchParams destructuring should be stable. It still changes
+      // with the route, so the unguarded fetch is reported as a race
+      expect(issues.map((issue) => issue.errorCode)).toEqual(['RLD-504']);
     });
 
     it('should NOT flag useSegments as unstable', () => {
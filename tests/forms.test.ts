@@ -0,0 +1,152 @@
+import { useTempProject } from './helpers/temp-project';
+
+describe('React Hook Form Loop Patterns', () => {
+  const project = useTempProject('rcd-forms-');
+
+  beforeEach(() => {
+    project.writePackageJson({ 'react-hook-form': '^7.50.0' });
+  });
+
+  const analyzeForm = (content: string) => project.analyze({ 'OrderForm.tsx': content });
+
+  it('should flag effects that setValue a field they watch', async () => {
+    const issues = await analyzeForm(`import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+
+export function OrderForm() {
+  const { watch, setValue } = useForm();
+  const items = watch('items');
+  useEffect(() => {
+    setValue('items', items.filter((item: { qty: number }) => item.qty > 0));
+  }, [items]);
+  useEffect(() => {
+    setValue('total', watch('items').length);
+  }, [watch('total')]);
+  return <form />;
+}
+`);
+
+    expect(issues).toHaveLength(2);
+    expect(issues[0].type).toBe('confirmed-infinite-loop');
+    expect(issues[0].problematicDependency).toBe('items');
+    expect(issues[0].explanation).toContain("setValue('items')");
+    expect(issues[0].suggestion).toContain("getValues('items')");
+    expect(issues[1].problematicDependency).toBe("watch('total')");
+  });
+
+  it('should treat useWatch, form.reset and nested field paths as overlapping', async () => {
+    const issues = await analyzeForm(`import { useEffect } from 'react';
+import { useForm, useWatch } from 'react-hook-form';
+
+export function OrderForm({ defaults }: { defaults: object }) {
+  const form = useForm();
+  const address = useWatch({ control: form.control, name: 'address' });
+  const values = form.watch();
+  useEffect(() => {
+    form.setValue('address.zip', address.zip.trim());
+  }, [address]);
+  useEffect(() => {
+    form.reset(defaults);
+  }, [values, defaults]);
+  return <form />;
+}
+`);
+
+    expect(issues.map((issue) => [issue.problematicDependency, issue.setterFunction])).toEqual([
+      ['address', 'form.setValue'],
+      ['values', 'form.reset'],
+    ]);
+    expect(issues[1].explanation).toContain('every field');
+    expect(issues[1].suggestion).toContain('useForm({ values })');
+  });
+
+  it('should run updates through the guard analysis', async () => {
+    const issues = await analyzeForm(`import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+
+export function OrderForm({ enabled }: { enabled: boolean }) {
+  const { watch, setValue, getValues, trigger } = useForm();
+  const [price, quantity] = watch(['price', 'quantity']);
+  const total = watch('total');
+  useEffect(() => {
+    const next = price * quantity;
+    if (getValues('total') !== next) {
+      setValue('total', next);
+    }
+  }, [price, quantity, total]);
+  useEffect(() => {
+    if (total !== price) setValue('total', price);
+  }, [total, price]);
+  useEffect(() => {
+    if (enabled) trigger('quantity');
+  }, [quantity, enabled]);
+  return <form />;
+}
+`);
+
+    const problems = issues.filter((issue) => issue.type !== 'safe-pattern');
+    expect(problems).toHaveLength(1);
+    expect(problems[0].errorCode).toBe('RLD-501');
+    expect(problems[0].setterFunction).toBe('trigger');
+    expect(problems[0].suggestion).toContain("'deps' option");
+    expect(issues.filter((issue) => issue.type === 'safe-pattern')).toHaveLength(2);
+  });
+
+  it('should not flag updates of other fields, callbacks or watch subscriptions', async () => {
+    const issues = await analyzeForm(`import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+
+export function OrderForm() {
+  const { watch, setValue } = useForm();
+  const items = watch('items');
+  useEffect(() => {
+    setValue('count', items.length);
+  }, [items]);
+  useEffect(() => {
+    const subscription = watch((value, { name }) => {
+      if (name === 'items') setValue('items', value.items);
+    });
+    return () => subscription.unsubscribe();
+  }, [watch]);
+  useEffect(() => {
+    const timer = setTimeout(() => setValue('items', []), 1000);
+    return () => clearTimeout(timer);
+  }, [items]);
+  return <form />;
+}
+`);
+
+    expect(issues.filter((issue) => issue.type !== 'safe-pattern')).toHaveLength(0);
+  });
+
+  it('should only treat watch and getValues as stable when they come from useForm', async () => {
+    project.writePackageJson({ 'react-hook-form': '^7.50.0', zustand: '^4.5.0' });
+    const issues = await analyzeForm(`import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { createSettings } from './settings';
+
+export function OrderForm() {
+  const { getValues } = useForm();
+  const settings = createSettings();
+  const values = getValues('items');
+  const defaults = settings.getValues();
+  const snapshot = settings.getState();
+  const [count, setCount] = useState(0);
+  useEffect(() => {
+    setCount(values.length);
+  }, [values]);
+  useEffect(() => {
+    setCount(Object.keys(defaults).length);
+  }, [defaults]);
+  useEffect(() => {
+    setCount(Object.keys(snapshot).length);
+  }, [snapshot]);
+  return <form>{count}</form>;
+}
+`);
+
+    // Results of other objects' getValues()/getState() are new on every render
+    const loops = issues.filter((issue) => issue.type === 'confirmed-infinite-loop');
+    expect(loops.map((issue) => issue.problematicDependency)).toEqual(['defaults', 'snapshot']);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Shared setup for detector tests that analyze small projects written to a temp directory.
+ *
+ * ```ts
+ * const project = useTempProject('rcd-async-race-');
+ * const issues = await project.analyze({ 'Profile.tsx': content }, { errorCodes: ['RLD-504'] });
+ * ```
+ */
+
+import { detectCircularDependencies } from '../../src/detector';
+import { RcdConfig } from '../../src/config';
+import { ErrorCode, HookAnalysis } from '../../src/types';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+export interface AnalyzeOptions {
+  /** Config merged over the project's config file and presets */
+  config?: RcdConfig;
+  /** Glob of files to analyze (default: '*.tsx') */
+  pattern?: string;
+  /** Only return results with these error codes */
+  errorCodes?: ErrorCode[];
+}
+
+export interface TempProject {
+  /** The project directory of the current test */
+  readonly dir: string;
+  /** Write a file into the project, creating parent directories as needed, and return its path */
+  writeFile(relativePath: string, content: string): string;
+  /** Write a package.json with these dependencies, which enables their library presets */
+  writePackageJson(dependencies: Record<string, string>): void;
+  /** Write the files, run the detector on the project and return its hook analysis */
+  analyze(files: Record<string, string>, options?: AnalyzeOptions): Promise<HookAnalysis[]>;
+}
+
+/**
+ * Create a fresh temp project before each test of the enclosing `describe` and remove it after.
+ *
+ * @param prefix - Prefix of the temp directory name
+ */
+export function useTempProject(prefix: string): TempProject {
+  let tempDir = '';
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeFile = (relativePath: string, content: string) => {
+    const filePath = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  return {
+    get dir() {
+      return tempDir;
+    },
+    writeFile,
+    writePackageJson(dependencies) {
+      writeFile('package.json', JSON.stringify({ dependencies }));
+    },
+    async analyze(files, options = {}) {
+      for (const [name, content] of Object.entries(files)) {
+        writeFile(name, content);
+      }
+      const result = await detectCircularDependencies(tempDir, {
+        pattern: options.pattern ?? '*.tsx',
+        ignore: [],
+        config: options.config,
+      });
+      const { errorCodes } = options;
+      return errorCodes
+        ? result.intelligentHooksAnalysis.filter((issue) => errorCodes.includes(issue.errorCode))
+        : result.intelligentHooksAnalysis;
+    },
+  };
+}
@@ -0,0 +1,141 @@
+import { useTempProject } from './helpers/temp-project';
+
+describe('useImperativeHandle Dependencies', () => {
+  const project = useTempProject('rcd-imperative-');
+
+  async function analyzeComponent(content: string) {
+    const issues = await project.analyze({ 'Input.tsx': content });
+    return issues.filter(
+      (issue) => issue.hookType === 'useImperativeHandle' && issue.category !== 'safe'
+    );
+  }
+
+  it('should flag useImperativeHandle without a dependency array', async () => {
+    const issues =
+      await analyzeComponent(`import { forwardRef, useImperativeHandle, useRef } from 'react';
+
+export const Input = forwardRef(function Input(_props: {}, ref) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  useImperativeHandle(ref, () => ({
+    focus: () => inputRef.current?.focus(),
+  }));
+  return <input ref={inputRef} />;
+});
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].errorCode).toBe('RLD-500');
+    expect(issues[0].category).toBe('warning');
+    expect(issues[0].line).toBe(5);
+    expect(issues[0].explanation).toContain('creates a new handle after every render');
+    expect(issues[0].suggestion).toContain(
+      'useImperativeHandle(ref, () => ({ ... }), [dep1, dep2])'
+    );
+  });
+
+  it('should not report a dependency array passed as a variable as missing', async () => {
+    const issues =
+      await analyzeComponent(`import { forwardRef, useImperativeHandle, useRef } from 'react';
+
+export const Input = forwardRef(function Input({ deps }: { deps: unknown[] }, ref) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  useImperativeHandle(
+    ref,
+    () => ({
+      focus: () => inputRef.current?.focus(),
+    }),
+    deps
+  );
+  return <input ref={inputRef} />;
+});
+`);
+
+    expect(issues.filter((issue) => issue.errorCode === 'RLD-500')).toEqual([]);
+  });
+
+  it('should flag dependencies recreated on every render', async () => {
+    const issues = await analyzeComponent(`import { forwardRef, useImperativeHandle } from 'react';
+
+export const Editor = forwardRef(function Editor({ text }: { text: string }, ref) {
+  const options = { trim: true };
+  const getText = () => (options.trim ? text.trim() : text);
+  useImperativeHandle(ref, () => ({ getText }), [getText]);
+  return <textarea defaultValue={text} />;
+});
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].errorCode).toBe('RLD-402');
+    expect(issues[0].problematicDependency).toBe('getText');
+    expect(issues[0].explanation).toContain(
+      'useImperativeHandle creates a new handle after every render'
+    );
+    expect(issues[0].suggestion).toContain('useCallback');
+  });
+
+  it('should flag handles that capture state missing from the dependencies', async () => {
+    const issues =
+      await analyzeComponent(`import { forwardRef, useImperativeHandle, useState } from 'react';
+
+export const Counter = forwardRef(function Counter({ step }: { step: number }, ref) {
+  const [count, setCount] = useState(0);
+  useImperativeHandle(
+    ref,
+    () => ({
+      getCount: () => count,
+      increment: () => setCount((c) => c + step),
+    }),
+    []
+  );
+  return <span>{count}</span>;
+});
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].errorCode).toBe('RLD-503');
+    expect(issues[0].stateVariable).toBe('count');
+    expect(issues[0].stateReads).toEqual(['count', 'step']);
+    expect(issues[0].explanation).toContain('a parent calling its methods after');
+  });
+
+  it('should report missing state next to an unstable dependency of the same handle', async () => {
+    const issues =
+      await analyzeComponent(`import { forwardRef, useImperativeHandle, useState } from 'react';
+
+export const Counter = forwardRef(function Counter({ n }: { n: number }, ref) {
+  const [count] = useState(0);
+  const opts = { n };
+  useImperativeHandle(ref, () => ({ get: () => count + opts.n }), [opts]);
+  return <span>{count}</span>;
+});
+`);
+
+    expect(issues.map((issue) => issue.errorCode)).toEqual(['RLD-400', 'RLD-503']);
+    expect(issues[1].problematicDependency).toBe('count');
+  });
+
+  it('should not flag handles with complete, stable dependencies', async () => {
+    const issues =
+      await analyzeComponent(`import { forwardRef, useCallback, useImperativeHandle, useRef, useState } from 'react';
+
+export const Field = forwardRef(function Field({ label }: { label: string }, ref) {
+  const [value, setValue] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const clear = useCallback(() => setValue(''), []);
+  useImperativeHandle(
+    ref,
+    () => ({
+      focus: () => inputRef.current?.focus(),
+      clear,
+      getValue: () => value,
+      getLabel: () => label,
+    }),
+    [clear, value, label]
+  );
+  return <input ref={inputRef} value={value} onChange={(e) => setValue(e.target.value)} />;
+});
+`);
+
+    expect(issues).toEqual([]);
+  });
+});
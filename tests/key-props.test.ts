@@ -0,0 +1,161 @@
+import { useTempProject } from './helpers/temp-project';
+
+describe('Unstable Key Props', () => {
+  const project = useTempProject('rcd-keys-');
+
+  const analyzeFiles = (files: Record<string, string>) =>
+    project.analyze(files, { errorCodes: ['RLD-413', 'RLD-304'] });
+
+  it('should flag random, time-based and generated keys', async () => {
+    const issues = await analyzeFiles({
+      'List.tsx': `import { nanoid } from 'nanoid';
+
+export function List({ items }: { items: { name: string }[] }) {
+  const sectionKey = \`section-\${Date.now()}\`;
+  return (
+    <section key={sectionKey}>
+      {items.map((item) => (
+        <li key={Math.random()}>{item.name}</li>
+      ))}
+      <footer key={nanoid()} />
+    </section>
+  );
+}
+`,
+    });
+
+    expect(issues.map((issue) => [issue.line, issue.errorCode])).toEqual([
+      [6, 'RLD-413'],
+      [8, 'RLD-413'],
+      [10, 'RLD-413'],
+    ]);
+    expect(issues[0].category).toBe('warning');
+    expect(issues[0].problematicDependency).toBe('Date.now()');
+    expect(issues[1].explanation).toContain('remounts <li> after every render');
+    expect(issues[2].problematicDependency).toBe('nanoid()');
+  });
+
+  it('should escalate when the remounted child updates the parent on mount', async () => {
+    const issues = await analyzeFiles({
+      'Row.tsx': `import { useEffect } from 'react';
+
+export function Row({ label, onLoad }: { label: string; onLoad: () => void }) {
+  useEffect(() => {
+    onLoad();
+  }, []);
+  return <li>{label}</li>;
+}
+`,
+      'Table.tsx': `import { useState } from 'react';
+import { Row } from './Row';
+
+export function Table({ rows }: { rows: string[] }) {
+  const [loaded, setLoaded] = useState(0);
+  const onLoad = () => setLoaded((count) => count + 1);
+  return (
+    <ul data-loaded={loaded}>
+      {rows.map((row) => (
+        <Row key={crypto.randomUUID()} label={row} onLoad={onLoad} />
+      ))}
+    </ul>
+  );
+}
+`,
+    });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].errorCode).toBe('RLD-304');
+    expect(issues[0].type).toBe('confirmed-infinite-loop');
+    expect(issues[0].category).toBe('critical');
+    expect(issues[0].setterFunction).toBe('setLoaded');
+    expect(issues[0].explanation).toContain("its useEffect (Row.tsx:4) calls 'onLoad' on mount");
+  });
+
+  it('should warn about serialized keys and loops through the serialized state', async () => {
+    const issues = await analyzeFiles({
+      'Dashboard.tsx': `import { useEffect, useState } from 'react';
+
+function Chart({ onReady }: { onReady: (size: number) => void }) {
+  useEffect(() => {
+    onReady(window.innerWidth);
+  }, [onReady]);
+  return <canvas />;
+}
+
+export function Dashboard({ options }: { options: object }) {
+  const [layout, setLayout] = useState({ width: 0 });
+  const handleReady = (width: number) => setLayout({ width });
+  return (
+    <div>
+      <Chart key={JSON.stringify(options)} onReady={() => {}} />
+      <Chart key={JSON.stringify(layout)} onReady={handleReady} />
+    </div>
+  );
+}
+`,
+    });
+
+    expect(issues.map((issue) => [issue.line, issue.errorCode, issue.category])).toEqual([
+      [15, 'RLD-413', 'warning'],
+      [16, 'RLD-304', 'warning'],
+    ]);
+    expect(issues[0].severity).toBe('low');
+    expect(issues[1].stateVariable).toBe('layout');
+    expect(issues[1].explanation).toContain("The key serializes 'layout'");
+  });
+
+  it('should not flag stable keys', async () => {
+    const issues = await analyzeFiles({
+      'List.tsx': `import { useMemo, useState } from 'react';
+import { v4 as uuid } from 'uuid';
+
+const listKey = uuid();
+
+export function List({ items, version }: { items: { id: string }[]; version: number }) {
+  const [formKey] = useState(() => uuid());
+  const [sessionKey] = useState(uuid());
+  const memoKey = useMemo(() => Math.random(), [version]);
+  return (
+    <div key={listKey}>
+      <form key={formKey} />
+      <form key={sessionKey} />
+      <form key={memoKey} />
+      <form key={\`v-\${version}\`} />
+      {items.map((item, index) => (
+        <p key={item.id || index}>{new Date(item.id).toISOString()}</p>
+      ))}
+    </div>
+  );
+}
+`,
+    });
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should flag generated keys in nested lists but not ids generated once in useMemo', async () => {
+    const issues = await analyzeFiles({
+      'Table.tsx': `import { useMemo } from 'react';
+
+export function Table({ rows }: { rows: { id: string; cells: string[] }[] }) {
+  const withIds = useMemo(() => rows.map((row) => ({ ...row, key: crypto.randomUUID() })), [rows]);
+  return (
+    <table>
+      {withIds.map((row) => (
+        <tr key={row.key}>
+          {row.cells.map((cell) => (
+            <td key={crypto.randomUUID()}>{cell}</td>
+          ))}
+        </tr>
+      ))}
+    </table>
+  );
+}
+`,
+    });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].line).toBe(10);
+    expect(issues[0].problematicDependency).toBe('crypto.randomUUID()');
+  });
+});
@@ -0,0 +1,124 @@
+import { useTempProject } from './helpers/temp-project';
+
+describe('Nested Component Detection', () => {
+  const project = useTempProject('rcd-nested-components-');
+
+  const analyzeNested = (content: string) =>
+    project.analyze({ 'List.tsx': content }, { errorCodes: ['RLD-408'] });
+
+  it('should flag arrow and function components declared and rendered inside a component', async () => {
+    const issues = await analyzeNested(`import { useState } from 'react';
+
+export function List({ items }: { items: string[] }) {
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const Row = ({ item }: { item: string }) => <li onClick={() => setSelected(item)}>{item}</li>;
+
+  function Empty() {
+    return <p>Nothing selected</p>;
+  }
+
+  return (
+    <ul>
+      {items.map((item) => <Row key={item} item={item} />)}
+      {selected ? null : <Empty />}
+    </ul>
+  );
+}
+`);
+
+    expect(issues.map((issue) => issue.problematicDependency)).toEqual(['Row', 'Empty']);
+    expect(issues[0].type).toBe('potential-issue');
+    expect(issues[0].category).toBe('warning');
+    expect(issues[0].line).toBe(6);
+    expect(issues[0].suggestion).toContain("Move 'Row' outside of 'List'");
+  });
+
+  it('should flag memo() components and raise severity when the inner component uses hooks', async () => {
+    const issues = await analyzeNested(`import { memo, useEffect, useState } from 'react';
+
+export const List = ({ items, onCount }: { items: string[]; onCount: (n: number) => void }) => {
+  const Counter = memo(() => {
+    const [count] = useState(items.length);
+    useEffect(() => {
+      onCount(count);
+    }, []);
+    return <span>{count}</span>;
+  });
+
+  return <Counter />;
+};
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].problematicDependency).toBe('Counter');
+    expect(issues[0].severity).toBe('high');
+    expect(issues[0].explanation).toContain('mount effects run again');
+  });
+
+  it('should not flag components that are not rendered, memoized factories or render helpers', async () => {
+    const issues = await analyzeNested(`import { useMemo } from 'react';
+
+const Row = ({ item }: { item: string }) => <li>{item}</li>;
+
+export function List({ items }: { items: string[] }) {
+  const Unused = () => <p>unused</p>;
+  const Header = useMemo(() => () => <h1>Items</h1>, []);
+  const renderItem = (item: string) => <Row key={item} item={item} />;
+
+  return (
+    <ul>
+      <Header />
+      {items.map(renderItem)}
+    </ul>
+  );
+}
+`);
+
+    expect(issues).toHaveLength(0);
+  });
+
+  it('should respect rld-ignore comments', async () => {
+    const issues = await analyzeNested(`export function List({ items }: { items: string[] }) {
+  // rld-ignore-next-line
+  const Row = ({ item }: { item: string }) => <li>{item}</li>;
+  return <ul>{items.map((item) => <Row key={item} item={item} />)}</ul>;
+}
+`);
+
+    expect(issues).toHaveLength(0);
+  });
+
+  it('should flag class components declared inside a component', async () => {
+    const issues = await analyzeNested(`import React, { Component } from 'react';
+
+export function List({ items }: { items: string[] }) {
+  class Row extends Component<{ item: string }> {
+    render() {
+      return <li>{this.props.item}</li>;
+    }
+  }
+  const Footer = class extends React.PureComponent {
+    render() {
+      return <p>{items.length} items</p>;
+    }
+  };
+  class Formatter {}
+
+  return (
+    <ul>
+      {items.map((item) => <Row key={item} item={item} />)}
+      <Footer />
+      {String(new Formatter())}
+    </ul>
+  );
+}
+`);
+
+    expect(issues.map((issue) => [issue.problematicDependency, issue.line])).toEqual([
+      ['Row', 4],
+      ['Footer', 9],
+    ]);
+    expect(issues[0].severity).toBe('medium');
+  });
+});
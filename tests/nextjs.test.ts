@@ -0,0 +1,127 @@
+import { useTempProject } from './helpers/temp-project';
+import { RcdConfig } from '../src/config';
+import * as path from 'path';
+
+describe('Next.js App Router', () => {
+  const project = useTempProject('rcd-nextjs-');
+
+  const analyzeProject = (config?: RcdConfig) =>
+    project.analyze({}, { pattern: '**/*.{ts,tsx}', config });
+
+  const loopingPage = `import { useEffect, useState } from 'react';
+
+export default function Page() {
+  const [count, setCount] = useState(0);
+  useEffect(() => {
+    setCount(count + 1);
+  }, [count]);
+  return <div>{count}</div>;
+}
+`;
+
+  it('should report client hooks in route files without "use client" instead of loops', async () => {
+    project.writePackageJson({ next: '^15.0.0', react: '^19.0.0' });
+    project.writeFile('app/dashboard/page.tsx', loopingPage);
+    project.writeFile('app/settings/page.tsx', `"use client";\n${loopingPage}`);
+    project.writeFile('app/components/Counter.tsx', loopingPage.replace('Page', 'Counter'));
+
+    const issues = await analyzeProject();
+    const dashboardIssues = issues.filter((issue) => issue.file.includes('dashboard'));
+
+    expect(dashboardIssues.map((issue) => issue.hookType)).toEqual(['useState', 'useEffect']);
+    expect(dashboardIssues.every((issue) => issue.errorCode === 'RLD-700')).toBe(true);
+    expect(dashboardIssues[0].severity).toBe('high');
+    expect(dashboardIssues[0].explanation).toContain("'page.tsx' is a Server Component");
+    expect(dashboardIssues[0].suggestion).toContain('"use client"');
+
+    const clientIssues = issues.filter((issue) => !issue.file.includes('dashboard'));
+    expect(clientIssues.some((issue) => issue.errorCode === 'RLD-700')).toBe(false);
+    const loopFiles = clientIssues
+      .filter((issue) => issue.type === 'confirmed-infinite-loop')
+      .map((issue) => path.relative(project.dir, issue.file))
+      .sort();
+    expect(loopFiles).toEqual([
+      path.join('app', 'components', 'Counter.tsx'),
+      path.join('app', 'settings', 'page.tsx'),
+    ]);
+  });
+
+  it('should only treat route files as Server Components with the preset or config', async () => {
+    project.writeFile('app/page.tsx', loopingPage);
+
+    const withoutNext = await analyzeProject();
+    expect(withoutNext.some((issue) => issue.errorCode === 'RLD-700')).toBe(false);
+    expect(withoutNext.some((issue) => issue.type === 'confirmed-infinite-loop')).toBe(true);
+
+    const withConfig = await analyzeProject({ serverComponents: true });
+    expect(withConfig.map((issue) => issue.errorCode)).toEqual(['RLD-700', 'RLD-700']);
+  });
+
+  it('should report hooks in "use server" modules', async () => {
+    project.writeFile(
+      'lib/actions.ts',
+      `"use server";
+import { useState } from 'react';
+
+export async function saveDraft(text: string) {
+  const [saved] = useState(false);
+  return { text, saved };
+}
+`
+    );
+
+    const issues = await analyzeProject();
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].errorCode).toBe('RLD-700');
+    expect(issues[0].explanation).toContain('marked "use server"');
+  });
+
+  it('should treat router.push/replace as navigation in client effects', async () => {
+    project.writePackageJson({ next: '^15.0.0', react: '^19.0.0' });
+    project.writeFile(
+      'pages/profile.tsx',
+      `import { useEffect } from 'react';
+import { useRouter } from 'next/router';
+
+export default function Profile() {
+  const router = useRouter();
+  useEffect(() => {
+    router.replace({ query: { ...router.query, tab: 'info' } });
+  }, [router]);
+  return <div>{router.query.tab}</div>;
+}
+`
+    );
+    project.writeFile(
+      'components/Pager.tsx',
+      `"use client";
+import { useEffect } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+
+export function Pager() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  useEffect(() => {
+    router.push(pathname + '?page=' + (Number(searchParams.get('page')) + 1));
+  }, [router, pathname, searchParams]);
+  return null;
+}
+`
+    );
+
+    const issues = await analyzeProject();
+    const profileIssues = issues.filter((issue) => issue.file.includes('profile'));
+    const pagerIssues = issues.filter((issue) => issue.file.includes('Pager'));
+
+    expect(profileIssues).toHaveLength(1);
+    expect(profileIssues[0].type).toBe('confirmed-infinite-loop');
+    expect(profileIssues[0].setterFunction).toBe('router.replace');
+    expect(profileIssues[0].explanation).toContain('new router object');
+
+    expect(pagerIssues.map((issue) => issue.errorCode)).toEqual(['RLD-501']);
+    expect(pagerIssues[0].setterFunction).toBe('router.push');
+    expect(pagerIssues[0].suggestion).toContain('if (pathname !== target) router.push(target)');
+  });
+});
@@ -194,6 +194,30 @@ describe('Library Presets', () => {
       expect(merged.customFunctions.funcA).toEqual({ stable: true });
       expect(merged.customFunctions.funcB).toEqual({ deferred: true });
     });
+
+    it('should merge effectHooks', () => {
+      const presets: LibraryPreset[] = [
+        {
+          name: 'Preset A',
+          packages: ['a'],
+          stableHooks: [],
+          unstableHooks: [],
+          effectHooks: { useUpdateEffect: { comparison: 'reference' } },
+        },
+        {
+          name: 'Preset B',
+          packages: ['b'],
+          stableHooks: [],
+          unstableHooks: [],
+          effectHooks: { useDeepCompareEffect: { comparison: 'deep-equal' } },
+        },
+      ];
+
+      const merged = mergePresets(presets);
+
+      expect(merged.effectHooks.useUpdateEffect).toEqual({ comparison: 'reference' });
+      expect(merged.effectHooks.useDeepCompareEffect).toEqual({ comparison: 'deep-equal' });
+    });
   });
 
   describe('getDetectedPresetNames', () => {
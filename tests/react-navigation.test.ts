@@ -0,0 +1,118 @@
+import { useTempProject } from './helpers/temp-project';
+
+describe('React Navigation Screen Updates', () => {
+  const project = useTempProject('rcd-navigation-');
+
+  async function analyzeScreen(content: string) {
+    const issues = await project.analyze({ 'ProfileScreen.tsx': content });
+    return issues.filter((issue) => issue.category !== 'safe');
+  }
+
+  it('should flag setOptions in effects with dependencies recreated on every render', async () => {
+    project.writePackageJson({ '@react-navigation/native': '^7.0.0' });
+    const issues = await analyzeScreen(`import { useLayoutEffect } from 'react';
+import { Button } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+
+export function ProfileScreen({ color }: { color: string }) {
+  const navigation = useNavigation();
+  const headerStyle = { backgroundColor: color };
+  useLayoutEffect(() => {
+    navigation.setOptions({ headerStyle, headerRight: () => <Button title="Save" /> });
+  }, [navigation, headerStyle]);
+  return null;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].type).toBe('confirmed-infinite-loop');
+    expect(issues[0].errorCode).toBe('RLD-202');
+    expect(issues[0].problematicDependency).toBe('headerStyle');
+    expect(issues[0].setterFunction).toBe('navigation.setOptions');
+    expect(issues[0].explanation).toContain("stores the options in the navigator's state");
+    expect(issues[0].suggestion).toContain('useMemo');
+  });
+
+  it('should flag setOptions/setParams called during render', async () => {
+    project.writePackageJson({ '@react-navigation/native-stack': '^7.0.0' });
+    const issues = await analyzeScreen(`import { useLayoutEffect } from 'react';
+import { Button } from 'react-native';
+
+export function ProfileScreen({ navigation, title }: any) {
+  navigation.setOptions({ title });
+  if (!title) {
+    navigation.setParams({ title: 'Profile' });
+  }
+  useLayoutEffect(() => {
+    navigation.setOptions({ title });
+  }, [navigation, title]);
+  const onSave = () => navigation.setParams({ saved: true });
+  return <Button title="Save" onPress={onSave} />;
+}
+`);
+
+    expect(issues.map((issue) => issue.errorCode)).toEqual(['RLD-106', 'RLD-106']);
+    expect(issues[0].line).toBe(5);
+    expect(issues[0].explanation).toContain('navigation.setOptions() is called during render');
+    expect(issues[0].suggestion).toContain('useLayoutEffect');
+    expect(issues[1].setterFunction).toBe('navigation.setParams');
+  });
+
+  it('should treat setParams as a modification of the route it depends on', async () => {
+    project.writePackageJson({ '@react-navigation/native': '^7.0.0' });
+    const issues = await analyzeScreen(`import { useEffect } from 'react';
+import { useNavigation, useRoute } from '@react-navigation/native';
+
+export function ProfileScreen({ route: screenRoute }: any) {
+  const navigation = useNavigation();
+  const route = useRoute();
+  useEffect(() => {
+    navigation.setParams({ tab: 'posts' });
+  }, [route.params]);
+  useEffect(() => {
+    if (route.params?.tab !== 'posts') navigation.setParams({ tab: 'posts' });
+  }, [route.params]);
+  return <>{screenRoute.key}</>;
+}
+
+export function SettingsScreen({ navigation, route }: any) {
+  useEffect(() => {
+    navigation.setParams({ visited: true });
+  }, [route]);
+  return null;
+}
+`);
+
+    const loops = issues.filter((issue) => issue.type === 'confirmed-infinite-loop');
+    expect(loops.map((issue) => issue.line)).toEqual([7, 17]);
+    expect(loops[0].setterFunction).toBe('navigation.setParams');
+    expect(loops[0].explanation).toContain('creates a new route object, even with the same values');
+    expect(loops[0].suggestion).toContain('if (route.params?.tab !== tab) navigation.setParams');
+    expect(issues.some((issue) => issue.line === 10)).toBe(false);
+  });
+
+  it('should handle Expo Router params and ignore stable setOptions dependencies', async () => {
+    project.writePackageJson({ 'expo-router': '^4.0.0' });
+    const issues = await analyzeScreen(`import { useEffect, useLayoutEffect } from 'react';
+import { useLocalSearchParams, useNavigation, useRouter } from 'expo-router';
+
+export function ProfileScreen() {
+  const router = useRouter();
+  const navigation = useNavigation();
+  const params = useLocalSearchParams();
+  useEffect(() => {
+    router.setParams({ sort: 'recent' });
+  }, [params]);
+  useLayoutEffect(() => {
+    navigation.setOptions({ title: String(params.id) });
+  }, [navigation, params.id]);
+  return null;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].type).toBe('confirmed-infinite-loop');
+    expect(issues[0].setterFunction).toBe('router.setParams');
+    expect(issues[0].explanation).toContain('creates a new params object');
+  });
+});
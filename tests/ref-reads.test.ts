@@ -0,0 +1,144 @@
+import { useTempProject } from './helpers/temp-project';
+
+describe('Ref Reads During Render', () => {
+  const project = useTempProject('rcd-ref-read-');
+
+  const analyzeComponent = (content: string) =>
+    project.analyze({ 'Player.tsx': content }, { errorCodes: ['RLD-601'] });
+
+  it('should flag refs written in handlers and read to choose what to render', async () => {
+    const issues = await analyzeComponent(`import { useRef } from 'react';
+
+export function Player() {
+  const playingRef = useRef(false);
+  const toggle = () => {
+    playingRef.current = !playingRef.current;
+  };
+  const label = playingRef.current ? 'Pause' : 'Play';
+  return (
+    <button onClick={toggle} className={playingRef.current ? 'active' : ''}>
+      {label}
+    </button>
+  );
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].type).toBe('potential-issue');
+    expect(issues[0].category).toBe('warning');
+    expect(issues[0].line).toBe(8);
+    expect(issues[0].problematicDependency).toBe('playingRef');
+    expect(issues[0].explanation).toContain("'playingRef.current' is read during render");
+    expect(issues[0].explanation).toContain('also read during render on line 10');
+    expect(issues[0].suggestion).toContain('useState');
+  });
+
+  it('should flag DOM refs and refs updated in effects', async () => {
+    const issues = await analyzeComponent(`import { useEffect, useRef } from 'react';
+
+export const Field = ({ value }: { value: string }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const previous = useRef(value);
+  useEffect(() => {
+    previous.current = value;
+  });
+  const width = inputRef.current?.offsetWidth ?? 0;
+  return (
+    <div>
+      <input ref={inputRef} style={{ width }} />
+      {previous.current !== value && <span>changed</span>}
+    </div>
+  );
+};
+`);
+
+    expect(issues.map((issue) => [issue.line, issue.problematicDependency])).toEqual([
+      [9, 'inputRef'],
+      [13, 'previous'],
+    ]);
+  });
+
+  it('should not flag lazy initialization or refs that are never written', async () => {
+    const issues = await analyzeComponent(`import { useRef } from 'react';
+
+class VideoPlayer {}
+
+export function Video({ id }: { id: string }) {
+  const playerRef = useRef<VideoPlayer | null>(null);
+  if (playerRef.current === null) {
+    playerRef.current = new VideoPlayer();
+  }
+  const cacheRef = useRef<Map<string, string>>();
+  if (!cacheRef.current) cacheRef.current = new Map();
+  const idRef = useRef(id);
+  const playerInfo = String(playerRef.current);
+  return <div id={idRef.current}>{playerInfo}{cacheRef.current.size}</div>;
+}
+`);
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should not flag reads in effects, handlers or ignored lines', async () => {
+    const issues = await analyzeComponent(`import { useEffect, useRef } from 'react';
+
+export function Counter() {
+  const clicks = useRef(0);
+  const rendered = useRef(0);
+  useEffect(() => {
+    rendered.current += 1;
+    console.log(rendered.current);
+  });
+  const onClick = () => {
+    clicks.current += 1;
+    console.log(clicks.current);
+  };
+  // rld-ignore-next-line
+  const debug = rendered.current;
+  return <button onClick={onClick}>{debug}</button>;
+}
+`);
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should flag reads in callbacks that run during render', async () => {
+    const issues = await analyzeComponent(`import { useEffect, useRef } from 'react';
+
+export function Player({ tracks }: { tracks: string[] }) {
+  const playedRef = useRef(new Set<string>());
+  useEffect(() => {
+    playedRef.current = new Set(tracks);
+  }, [tracks]);
+  return (
+    <ul>
+      {tracks.map((track) => (
+        <li key={track} onClick={() => playedRef.current.add(track)}>
+          {playedRef.current.has(track) ? 'Played' : track}
+        </li>
+      ))}
+    </ul>
+  );
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].line).toBe(12);
+    expect(issues[0].problematicDependency).toBe('playedRef');
+  });
+
+  it('should not flag lazy initialization through a ?? or || fallback', async () => {
+    const issues = await analyzeComponent(`import { useRef } from 'react';
+
+export function Player() {
+  const cacheRef = useRef<Map<string, string> | null>(null);
+  const cache = cacheRef.current ?? (cacheRef.current = new Map());
+  const queueRef = useRef<string[] | null>(null);
+  const queue = queueRef.current || (queueRef.current = []);
+  return <div>{cache.size}{queue.length}</div>;
+}
+`);
+
+    expect(issues).toEqual([]);
+  });
+});
@@ -0,0 +1,211 @@
+import { useTempProject } from './helpers/temp-project';
+import { RcdConfig } from '../src/config';
+
+describe('Network Request Storms', () => {
+  const project = useTempProject('rcd-request-storm-');
+
+  async function analyzeRequests(content: string, config?: RcdConfig) {
+    const issues = await project.analyze({ 'Users.tsx': content }, { config });
+    return issues.filter((issue) => issue.type !== 'safe-pattern');
+  }
+
+  it('should report a storm when the fetched response is stored in state', async () => {
+    const issues = await analyzeRequests(`import { useEffect, useState } from 'react';
+
+export function Users({ team }: { team: string }) {
+  const [users, setUsers] = useState<string[]>([]);
+  const params = { team, limit: 20 };
+
+  useEffect(() => {
+    fetch('/api/users?team=' + params.team)
+      .then((response) => response.json())
+      .then((data) => setUsers(data));
+  }, [params]);
+
+  return <div>{users.length}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].errorCode).toBe('RLD-430');
+    expect(issues[0].type).toBe('confirmed-infinite-loop');
+    expect(issues[0].category).toBe('critical');
+    expect(issues[0].problematicDependency).toBe('params');
+    expect(issues[0].explanation).toContain('fetch() (line 8)');
+  });
+
+  it('should report a storm when the setter is passed to .then()', async () => {
+    const issues = await analyzeRequests(`import { useEffect, useState } from 'react';
+
+export function Users({ team }: { team: string }) {
+  const [users, setUsers] = useState<string[]>([]);
+  const options = { headers: { team } };
+
+  useEffect(() => {
+    fetch('/api/users', options)
+      .then((response) => response.json())
+      .then(setUsers);
+  }, [options]);
+
+  return <div>{users.length}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].errorCode).toBe('RLD-430');
+    expect(issues[0].type).toBe('confirmed-infinite-loop');
+    expect(issues[0].problematicDependency).toBe('options');
+  });
+
+  it('should warn about requests sent on every render without state updates', async () => {
+    const issues = await analyzeRequests(`import { useEffect } from 'react';
+import axios from 'axios';
+
+export function Users({ team }: { team: string }) {
+  const filters = [team];
+
+  useEffect(() => {
+    axios.post('/api/track', { filters });
+  }, [filters]);
+
+  return <div>{team}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].errorCode).toBe('RLD-430');
+    expect(issues[0].type).toBe('potential-issue');
+    expect(issues[0].category).toBe('performance');
+    expect(issues[0].severity).toBe('medium');
+    expect(issues[0].explanation).toContain('axios.post()');
+  });
+
+  it('should recognize GraphQL clients and refetch', async () => {
+    const issues = await analyzeRequests(`import { useEffect, useState } from 'react';
+
+export function Users({ client, query }: { client: any; query: any }) {
+  const [users, setUsers] = useState([]);
+  const variables = { first: 10 };
+  const options = { exact: true };
+
+  useEffect(() => {
+    client.query({ query, variables }).then((result: any) => setUsers(result.data.users));
+  }, [variables]);
+
+  useEffect(() => {
+    query.refetch(options);
+  }, [query, options]);
+
+  return <div>{users.length}</div>;
+}
+`);
+
+    expect(issues.map((issue) => issue.errorCode)).toEqual(['RLD-430', 'RLD-430']);
+    expect(issues[0].explanation).toContain('client.query()');
+    expect(issues[1].explanation).toContain('query.refetch()');
+  });
+
+  it('should recognize network functions from customFunctions', async () => {
+    const content = `import { useEffect, useState } from 'react';
+import { api } from './api';
+
+export function Users({ team }: { team: string }) {
+  const [users, setUsers] = useState<string[]>([]);
+  const params = { team };
+
+  useEffect(() => {
+    api.users.list(params).then(setUsers);
+  }, [params]);
+
+  return <div>{users.length}</div>;
+}
+`;
+
+    const defaultIssues = await analyzeRequests(content);
+    expect(defaultIssues.map((issue) => issue.errorCode)).toEqual(['RLD-400', 'RLD-504']);
+
+    const issues = await analyzeRequests(content, {
+      customFunctions: { 'api.users.list': { network: true } },
+    });
+    expect(issues).toHaveLength(1);
+    expect(issues[0].errorCode).toBe('RLD-430');
+  });
+
+  it('should not report requests with stable dependencies', async () => {
+    const issues = await analyzeRequests(`import { useEffect, useMemo, useState } from 'react';
+
+export function Users({ team }: { team: string }) {
+  const [users, setUsers] = useState<string[]>([]);
+  const params = useMemo(() => ({ team }), [team]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch('/api/users?team=' + params.team, { signal: controller.signal })
+      .then((response) => response.json())
+      .then(setUsers);
+    return () => controller.abort();
+  }, [params]);
+
+  return <div>{users.length}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(0);
+  });
+
+  it('should find requests in async wrappers the effect invokes', async () => {
+    const issues = await analyzeRequests(`import { useEffect, useState } from 'react';
+
+export function Users({ team }: { team: string }) {
+  const [users, setUsers] = useState<string[]>([]);
+  const [teams, setTeams] = useState<string[]>([]);
+  const params = { team };
+  const filters = { team };
+
+  useEffect(() => {
+    (async () => {
+      const response = await fetch('/api/users?team=' + params.team);
+      setUsers(await response.json());
+    })();
+  }, [params]);
+
+  useEffect(() => {
+    const load = async () => {
+      const response = await fetch('/api/teams?team=' + filters.team);
+      setTeams(await response.json());
+    };
+    load();
+  }, [filters]);
+
+  return <div>{users.length} {teams.length}</div>;
+}
+`);
+
+    const storms = issues.filter((issue) => issue.errorCode === 'RLD-430');
+    expect(storms.map((issue) => issue.problematicDependency)).toEqual(['params', 'filters']);
+    expect(storms[0].explanation).toContain('fetch() (line 11)');
+  });
+
+  it('should not treat requests in handlers or the cleanup as sent by the effect', async () => {
+    const issues = await analyzeRequests(`import { useEffect } from 'react';
+
+export function Users({ team }: { team: string }) {
+  const params = { team };
+
+  useEffect(() => {
+    const onClick = () => fetch('/api/click?team=' + params.team);
+    window.addEventListener('click', onClick);
+    return () => {
+      window.removeEventListener('click', onClick);
+      fetch('/api/leave?team=' + params.team);
+    };
+  }, [params]);
+
+  return <div>{team}</div>;
+}
+`);
+
+    expect(issues.filter((issue) => issue.errorCode === 'RLD-430')).toHaveLength(0);
+    expect(issues.map((issue) => issue.errorCode)).toEqual(['RLD-400']);
+  });
+});
@@ -0,0 +1,118 @@
+import { useTempProject } from './helpers/temp-project';
+
+describe('React Router Loop Patterns', () => {
+  const project = useTempProject('rcd-router-');
+
+  beforeEach(() => {
+    project.writePackageJson({ 'react-router-dom': '^6.22.0' });
+  });
+
+  const analyzeRouter = (content: string) => project.analyze({ 'Page.tsx': content });
+
+  it('should flag fetcher.load() in an effect that depends on the fetcher', async () => {
+    const issues = await analyzeRouter(`import { useEffect } from 'react';
+import { useFetcher } from 'react-router-dom';
+
+export function Page({ userId }: { userId: string }) {
+  const fetcher = useFetcher();
+  useEffect(() => {
+    fetcher.load('/api/users/' + userId);
+  }, [fetcher, userId]);
+  return <div>{fetcher.data?.name}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].type).toBe('confirmed-infinite-loop');
+    expect(issues[0].errorCode).toBe('RLD-200');
+    expect(issues[0].setterFunction).toBe('fetcher.load');
+    expect(issues[0].explanation).toContain('idle → loading → idle');
+  });
+
+  it('should understand fetcher.state and fetcher.data guards', async () => {
+    const issues = await analyzeRouter(`import { useEffect } from 'react';
+import { useFetcher } from 'react-router-dom';
+
+export function Page() {
+  const fetcher = useFetcher();
+  const search = useFetcher();
+  useEffect(() => {
+    if (fetcher.state === 'idle' && !fetcher.data) {
+      fetcher.load('/api/user');
+    }
+  }, [fetcher]);
+  useEffect(() => {
+    if (search.state !== 'idle') return;
+    search.submit({ q: 'all' }, { method: 'post' });
+  }, [search.state]);
+  return <div>{fetcher.data?.name} {search.data?.length}</div>;
+}
+`);
+
+    const problems = issues.filter((issue) => issue.type !== 'safe-pattern');
+    // search.submit() reads the fetcher, which is missing from [search.state]
+    expect(problems.map((issue) => issue.errorCode)).toEqual(['RLD-501', 'RLD-502']);
+    expect(problems[0].setterFunction).toBe('search.submit');
+    expect(problems[0].explanation).toContain("returns to 'idle' after every load");
+    expect(issues.find((issue) => issue.type === 'safe-pattern')?.explanation).toContain(
+      'fetcher-data-guard'
+    );
+  });
+
+  it('should flag navigate() in an effect that depends on the location or params', async () => {
+    const issues = await analyzeRouter(`import { useEffect } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+
+export function Page({ user }: { user: string | null }) {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { id } = useParams();
+  useEffect(() => {
+    navigate(location.pathname + '?visited=1');
+  }, [location]);
+  useEffect(() => {
+    if (!user) navigate('/login');
+  }, [id, user, navigate]);
+  useEffect(() => {
+    if (location.pathname !== '/home') navigate('/home');
+  }, [location.pathname, navigate]);
+  return <div>{id}</div>;
+}
+`);
+
+    const problems = issues.filter((issue) => issue.type !== 'safe-pattern');
+    expect(problems.map((issue) => [issue.errorCode, issue.problematicDependency])).toEqual([
+      ['RLD-200', 'location'],
+      ['RLD-501', 'id'],
+    ]);
+    expect(problems[0].explanation).toContain('new location object');
+  });
+
+  it('should treat setSearchParams as a setter and understand searchParams.get() guards', async () => {
+    const issues = await analyzeRouter(`import { useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+export function Page() {
+  const [searchParams, updateSearchParams] = useSearchParams();
+  useEffect(() => {
+    updateSearchParams({ page: '1', sort: searchParams.get('sort') ?? 'name' });
+  }, [searchParams]);
+  useEffect(() => {
+    if (searchParams.get('tab') !== 'overview') {
+      updateSearchParams({ tab: 'overview' });
+    }
+    if (!searchParams.has('view')) {
+      updateSearchParams({ view: 'list' });
+    }
+  }, [searchParams, updateSearchParams]);
+  return <div>{searchParams.toString()}</div>;
+}
+`);
+
+    const problems = issues.filter((issue) => issue.type !== 'safe-pattern');
+    expect(problems).toHaveLength(1);
+    expect(problems[0].type).toBe('confirmed-infinite-loop');
+    expect(problems[0].setterFunction).toBe('updateSearchParams');
+    expect(problems[0].line).toBe(6);
+  });
+});
@@ -0,0 +1,171 @@
+import { useTempProject } from './helpers/temp-project';
+
+describe('Store Selector Analysis', () => {
+  const project = useTempProject('rcd-selectors-');
+
+  const cartStore = `import { create } from 'zustand';
+import { createWithEqualityFn } from 'zustand/traditional';
+
+export const useCartStore = create<any>()((set) => ({ items: [], total: 0, tax: 0 }));
+export const useLegacyCartStore = createWithEqualityFn<any>()((set) => ({ items: [], total: 0 }));
+`;
+
+  const analyzeSelectors = (content: string, files: Record<string, string> = {}) =>
+    project.analyze({ 'Cart.tsx': content, ...files }, { errorCodes: ['RLD-409'] });
+
+  it('should flag Zustand selectors that return object literals', async () => {
+    const issues = await analyzeSelectors(
+      `import { useCartStore } from './store';
+
+export function Cart() {
+  const { items, total } = useCartStore((state) => ({ items: state.items, total: state.total }));
+  return <div>{items.length} {total}</div>;
+}
+`,
+      { 'store.tsx': cartStore }
+    );
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].hookType).toBe('useCartStore');
+    expect(issues[0].category).toBe('warning');
+    expect(issues[0].severity).toBe('high');
+    expect(issues[0].explanation).toContain('returns an object literal');
+    expect(issues[0].explanation).toContain('Maximum update depth');
+    expect(issues[0].suggestion).toContain('useShallow');
+  });
+
+  it('should flag Redux selectors returning filter/map results, spreads and fallbacks', async () => {
+    const issues = await analyzeSelectors(`import { useSelector } from 'react-redux';
+
+const selectOpenItems = (state: any) => {
+  return state.items.filter((item: any) => item.open);
+};
+
+export function Cart() {
+  const names = useSelector((state: any) => state.items.map((item: any) => item.name));
+  const open = useSelector(selectOpenItems);
+  const user = useSelector((state: any) => [...state.users]);
+  const tags = useSelector((state: any) => state.tags ?? []);
+  return <div>{names.length} {open.length} {user.length} {tags.length}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(4);
+    expect(issues.every((issue) => issue.category === 'performance')).toBe(true);
+    expect(issues[0].explanation).toContain('.map() result');
+    expect(issues[1].explanation).toContain("'selectOpenItems'");
+    expect(issues[2].explanation).toContain('array literal');
+    expect(issues[3].explanation).toContain('array literal');
+  });
+
+  it('should recognize useShallow, equality functions and memoized selectors as safe', async () => {
+    const issues = await analyzeSelectors(
+      `import { shallowEqual, useSelector } from 'react-redux';
+import { createSelector } from '@reduxjs/toolkit';
+import { useShallow } from 'zustand/react/shallow';
+import { shallow } from 'zustand/shallow';
+import { useStore } from 'zustand';
+import { useLegacyCartStore, useCartStore, cartStore } from './store';
+
+const selectOpenItems = createSelector(
+  [(state: any) => state.items],
+  (items: any[]) => items.filter((item) => item.open)
+);
+
+export function Cart() {
+  const { items } = useCartStore(useShallow((state) => ({ items: state.items })));
+  const totals = useLegacyCartStore((state) => [state.total, state.tax], shallow);
+  const open = useSelector(selectOpenItems);
+  const names = useSelector((state: any) => state.items.map((item: any) => item.name), shallowEqual);
+  const count = useStore(cartStore, (state: any) => state.items.length);
+  const first = useSelector((state: any) => state.items[0]);
+  return <div>{items.length} {totals.length} {open.length} {names.length} {count} {first}</div>;
+}
+`,
+      { 'store.tsx': cartStore }
+    );
+
+    expect(issues).toHaveLength(0);
+  });
+
+  it('should analyze the selector argument of useStore(storeApi, selector)', async () => {
+    const issues = await analyzeSelectors(`import { useStore } from 'zustand';
+import { cartStore } from './store';
+
+export function Cart() {
+  const summary = useStore(cartStore, (state: any) => ({ count: state.items.length }));
+  return <div>{summary.count}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].hookType).toBe('useStore');
+  });
+
+  it('should flag equality functions passed to hooks created with create()', async () => {
+    const issues = await analyzeSelectors(
+      `import { shallow } from 'zustand/shallow';
+import { useCartStore } from './store';
+
+export function Cart() {
+  const totals = useCartStore((state) => [state.total, state.tax], shallow);
+  return <div>{totals.length}</div>;
+}
+`,
+      { 'store.tsx': cartStore }
+    );
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].explanation).toContain(
+      'equality function passed to useCartStore() is ignored'
+    );
+  });
+
+  it('should only treat useXxxStore hooks as Zustand stores when they come from Zustand', async () => {
+    const cart = `import { useRootStore } from './stores';
+
+export function Cart() {
+  const { items } = useRootStore((root: any) => ({ items: root.cart.items }));
+  return <div>{items.length}</div>;
+}
+`;
+    const stores = `import { useContext } from 'react';
+import { StoreContext } from './context';
+
+export function useRootStore(select: (root: any) => any) {
+  return select(useContext(StoreContext));
+}
+`;
+
+    expect(await analyzeSelectors(cart, { 'stores.tsx': stores })).toHaveLength(0);
+
+    // Unresolved imports are matched by name once the Zustand preset is detected
+    project.writePackageJson({ zustand: '^5.0.0' });
+    const withPreset = await analyzeSelectors(cart.replace("'./stores'", "'@/stores'"));
+    expect(withPreset).toHaveLength(1);
+    expect(withPreset[0].hookType).toBe('useRootStore');
+  });
+
+  it('should resolve selectors declared outside the component and skip primitive results', async () => {
+    const issues = await analyzeSelectors(
+      `import { useCartStore } from './store';
+
+const selectTotals = (state: any) => ({ total: state.total, tax: state.tax });
+const selectCount = (state: any) => state.items.length;
+
+export function Cart() {
+  const totals = useCartStore(selectTotals);
+  const count = useCartStore(selectCount);
+  const first = useCartStore((state) => state.items[0]);
+  const empty = useCartStore((state) => state.items.length === 0);
+  return <div>{totals.total} {count} {String(first)} {String(empty)}</div>;
+}
+`,
+      { 'store.tsx': cartStore }
+    );
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].line).toBe(7);
+    expect(issues[0].problematicDependency).toBe('selectTotals');
+  });
+});
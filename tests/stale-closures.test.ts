@@ -0,0 +1,179 @@
+import { useTempProject } from './helpers/temp-project';
+
+describe('Stale Closures', () => {
+  const project = useTempProject('rcd-stale-');
+
+  const analyzeComponent = (content: string) =>
+    project.analyze({ 'Component.tsx': content }, { errorCodes: ['RLD-502', 'RLD-503'] });
+
+  it('should flag useCallback reading state missing from its dependencies', async () => {
+    const issues = await analyzeComponent(`import { useCallback, useState } from 'react';
+
+export function Counter() {
+  const [count, setCount] = useState(0);
+  const [step] = useState(1);
+  const increment = useCallback(() => {
+    setCount(count + step);
+  }, [step]);
+  return <button onClick={increment}>{count}</button>;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].errorCode).toBe('RLD-503');
+    expect(issues[0].type).toBe('potential-issue');
+    expect(issues[0].severity).toBe('high');
+    expect(issues[0].problematicDependency).toBe('count');
+    expect(issues[0].explanation).toContain("'count' (state)");
+    expect(issues[0].suggestion).toContain('Use a functional update (setCount(count => ...))');
+  });
+
+  it('should flag effects missing props and context values', async () => {
+    const issues = await analyzeComponent(`import { useContext, useEffect } from 'react';
+import { ThemeContext } from './theme';
+
+export function Chat({ roomId, user }: { roomId: string; user: { name: string } }) {
+  const theme = useContext(ThemeContext);
+  const title = roomId + ' - ' + user.name;
+  useEffect(() => {
+    const connection = connect(roomId);
+    document.title = title + theme.suffix;
+    return () => connection.close();
+  }, []);
+  return null;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].errorCode).toBe('RLD-502');
+    expect(issues[0].stateReads).toEqual(['roomId', 'title', 'theme.suffix']);
+    expect(issues[0].explanation).toContain("'roomId' (prop)");
+    expect(issues[0].explanation).toContain("'theme.suffix' (context)");
+    expect(issues[0].suggestion).toContain(
+      'Add roomId, title, theme.suffix to the dependency array'
+    );
+  });
+
+  it('should not flag values that are stable or not reactive', async () => {
+    const issues =
+      await analyzeComponent(`import { useCallback, useEffect, useMemo, useReducer, useRef, useState } from 'react';
+
+const PAGE_SIZE = 20;
+
+export function List({ items }: { items: string[] }) {
+  const [page, setPage] = useState(0);
+  const [, dispatch] = useReducer((s: number) => s + 1, 0);
+  const lastPage = useRef(0);
+  const label = 'Page';
+  const visible = useMemo(() => items.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE), [items, page]);
+  const next = useCallback(() => {
+    setPage((p) => p + 1);
+    dispatch();
+    lastPage.current = PAGE_SIZE;
+    console.log(label);
+  }, []);
+  useEffect(() => {
+    lastPage.current = page;
+  }, [page]);
+  useEffect(() => {
+    console.log(visible.length);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+  return <button onClick={next}>{visible.join(',')}</button>;
+}
+`);
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should use preset stability knowledge to skip stable hook values', async () => {
+    project.writePackageJson({ 'react-redux': '^9.0.0' });
+    const issues = await analyzeComponent(`import { useEffect } from 'react';
+import { useDispatch } from 'react-redux';
+
+export function Loader({ id }: { id: string }) {
+  const dispatch = useDispatch();
+  useEffect(() => {
+    dispatch({ type: 'load', id });
+  }, [id]);
+  useEffect(() => {
+    dispatch({ type: 'track', id });
+  }, [dispatch]);
+  return null;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].line).toBe(9);
+    expect(issues[0].problematicDependency).toBe('id');
+    expect(issues[0].severity).toBe('medium');
+  });
+
+  it('should report values from preset stable hooks, which change with their data', async () => {
+    project.writePackageJson({
+      'react-redux': '^9.0.0',
+      '@tanstack/react-query': '^5.0.0',
+      'react-router-dom': '^6.0.0',
+    });
+    const issues = await analyzeComponent(`import { useCallback } from 'react';
+import { useSelector } from 'react-redux';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate, useParams } from 'react-router-dom';
+
+export function Editor({ onSave }: { onSave: (total: number) => void }) {
+  const count = useSelector((state: { count: number }) => state.count);
+  const { data } = useQuery({ queryKey: ['total'], queryFn: () => 1 });
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const save = useCallback(() => onSave(count + (data ?? 0) + Number(id)), [onSave]);
+  const back = useCallback(() => navigate('..'), []);
+  return <div onClick={save} onBlur={back} />;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].line).toBe(11);
+    expect(issues[0].stateReads).toEqual(['count', 'data', 'id']);
+  });
+
+  it('should ignore shadowing parameters, updater arguments and type-only reads', async () => {
+    const issues = await analyzeComponent(`import { useCallback, useEffect, useState } from 'react';
+
+export function Counter() {
+  const [count, setCount] = useState(0);
+  const [step] = useState(1);
+  const [value] = useState(0);
+  const set = useCallback((count: number) => setCount(count), []);
+  const add = useCallback(() => setCount((count) => count + step), []);
+  useEffect(() => {
+    type Value = typeof value;
+    const initial: Value = 0;
+    console.log(initial);
+  }, []);
+  return <button onClick={() => { set(count); add(); }}>{count}</button>;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].line).toBe(8);
+    expect(issues[0].problematicDependency).toBe('step');
+  });
+
+  it('should match member reads against member and object dependencies', async () => {
+    const issues = await analyzeComponent(`import { useCallback } from 'react';
+
+type User = { id: string; name: string };
+
+export function UserActions({ user, onSave }: { user: User; onSave: (id: string) => void }) {
+  const save = useCallback(() => onSave(user.id), [user.id, onSave]);
+  const rename = useCallback(() => onSave(user.name), [user, onSave]);
+  const remove = useCallback(() => onSave(user.id), [onSave]);
+  return <div onClick={save} onBlur={rename} onKeyDown={remove} />;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].line).toBe(8);
+    expect(issues[0].problematicDependency).toBe('user.id');
+  });
+});
@@ -626,4 +626,136 @@ describe('Unstable Reference Detection', () => {
       expect(unstableIssues[0].problematicDependency).toBe('config');
     });
   });
+
+  describe('Default parameter values', () => {
+    async function analyzeDefaults(content: string) {
+      fs.writeFileSync(path.join(tempDir, 'Defaults.tsx'), content);
+      const result = await detectCircularDependencies(tempDir, {
+        pattern: '*.tsx',
+        ignore: [],
+      });
+      return result.intelligentHooksAnalysis.filter((issue) => issue.type !== 'safe-pattern');
+    }
+
+    it('should detect array and object defaults of destructured props', async () => {
+      const issues = await analyzeDefaults(`
+        import { useEffect, useState } from 'react';
+
+        export function List({ items = [], options = { sort: true } }) {
+          const [count, setCount] = useState(0);
+
+          useEffect(() => {
+            if (items.length !== count) setCount(items.length);
+          }, [items]);
+
+          useEffect(() => {
+            if (options.sort) setCount(0);
+          }, [options]);
+
+          return <div>{count}</div>;
+        }
+      `);
+
+      // The first effect also reads 'count' without listing it (RLD-502)
+      expect(issues.map((issue) => issue.errorCode)).toEqual(['RLD-401', 'RLD-400', 'RLD-502']);
+      expect(issues[0].problematicDependency).toBe('items');
+      expect(issues[0].explanation).toContain(
+        "'items' defaults to `[]` in the parameters of 'List'"
+      );
+      expect(issues[0].suggestion).toContain('module-level constant');
+      expect(issues[1].explanation).toContain('defaults to `{ ... }`');
+    });
+
+    it('should detect defaults of custom hook parameters', async () => {
+      const issues = await analyzeDefaults(`
+        import { useEffect, useState } from 'react';
+
+        export function useFilters(filters = {}) {
+          const [active, setActive] = useState({});
+
+          useEffect(() => {
+            setActive({ ...filters });
+          }, [filters]);
+
+          return active;
+        }
+      `);
+
+      // The default is only recreated when the caller omits 'filters', so the loop is potential
+      expect(issues).toHaveLength(1);
+      expect(issues[0].type).toBe('potential-issue');
+      expect(issues[0].errorCode).toBe('RLD-200');
+      expect(issues[0].category).toBe('warning');
+      expect(issues[0].problematicDependency).toBe('filters');
+      expect(issues[0].explanation).toContain("defaults to `{}` in the parameters of 'useFilters'");
+      expect(issues[0].explanation).toContain("renders where 'filters' is omitted");
+    });
+
+    it('should report defaulted props feeding an unconditional setState as a potential loop', async () => {
+      const issues = await analyzeDefaults(`
+        import { useEffect, useState } from 'react';
+
+        export function Search({ opts = {} }) {
+          const [query, setQuery] = useState({});
+
+          useEffect(() => {
+            setQuery({ ...opts });
+          }, [opts]);
+
+          return <div>{Object.keys(query).length}</div>;
+        }
+      `);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({
+        type: 'potential-issue',
+        errorCode: 'RLD-200',
+        category: 'warning',
+        problematicDependency: 'opts',
+      });
+      expect(issues[0].explanation).toContain("only gets a new reference on renders where 'opts'");
+    });
+
+    it('should detect defaults of props destructured in the component body', async () => {
+      const issues = await analyzeDefaults(`
+        import { useEffect, useState } from 'react';
+
+        export const Chart = (props) => {
+          const { series = [] } = props;
+          const [points, setPoints] = useState(0);
+
+          useEffect(() => {
+            if (series.length) setPoints(series.length);
+          }, [series]);
+
+          return <div>{points}</div>;
+        };
+      `);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].errorCode).toBe('RLD-401');
+      expect(issues[0].problematicDependency).toBe('series');
+    });
+
+    it('should not flag primitive or module-level defaults', async () => {
+      const issues = await analyzeDefaults(`
+        import { useEffect, useState } from 'react';
+
+        const EMPTY_ITEMS: string[] = [];
+
+        export function List({ items = EMPTY_ITEMS, limit = 10, label = 'Items' }) {
+          const [count, setCount] = useState(0);
+
+          useEffect(() => {
+            setCount(Math.min(items.length, limit));
+          }, [items, limit, label]);
+
+          return <div>{count}</div>;
+        }
+      `);
+
+      // The effect only derives state (RLD-412), but none of its dependencies are unstable
+      expect(issues.filter((issue) => issue.errorCode !== 'RLD-412')).toHaveLength(0);
+    });
+  });
 });
@@ -0,0 +1,157 @@
+import { useTempProject } from './helpers/temp-project';
+
+describe('React 19 use() with render-created promises', () => {
+  const project = useTempProject('rcd-use-promise-');
+
+  const analyzeUse = (content: string) =>
+    project.analyze({ 'Profile.tsx': content }, { errorCodes: ['RLD-104'] });
+
+  it('should flag use() with a promise created by a call during render', async () => {
+    const issues = await analyzeUse(`import { use } from 'react';
+
+async function fetchUser(id: string) {
+  const response = await fetch('/api/users/' + id);
+  return response.json();
+}
+
+export function Profile({ id }: { id: string }) {
+  const user = use(fetchUser(id));
+  const posts = use(fetch('/api/posts?user=' + id).then((response) => response.json()));
+  return <div>{user.name} {posts.length}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(2);
+    expect(issues[0].type).toBe('confirmed-infinite-loop');
+    expect(issues[0].category).toBe('critical');
+    expect(issues[0].line).toBe(9);
+    expect(issues[0].explanation).toContain('fetchUser(...)');
+    expect(issues[1].explanation).toContain('fetch(...).then(...)');
+  });
+
+  it('should flag new Promise and promises stored in a local variable', async () => {
+    const issues = await analyzeUse(`import React from 'react';
+
+export const Profile = ({ delay }: { delay: number }) => {
+  const ready = React.use(new Promise((resolve) => setTimeout(resolve, delay)));
+  const settingsPromise = Promise.all([fetch('/api/a'), fetch('/api/b')]);
+  const settings = React.use(settingsPromise);
+  return <div>{String(ready)} {settings.length}</div>;
+};
+`);
+
+    expect(issues).toHaveLength(2);
+    expect(issues[0].explanation).toContain('new Promise(...)');
+    expect(issues[1].explanation).toContain("'settingsPromise' (Promise.all(...))");
+  });
+
+  it('should treat cache(), useMemo, module-level maps, props and context as safe', async () => {
+    const issues = await analyzeUse(`import { cache, createContext, use, useMemo } from 'react';
+
+const ThemeContext = createContext('light');
+const getUser = cache(async (id: string) => (await fetch('/api/users/' + id)).json());
+const postPromises = new Map<string, Promise<string[]>>();
+
+export function Profile({ id, commentsPromise }: { id: string; commentsPromise: Promise<string[]> }) {
+  const theme = use(ThemeContext);
+  const user = use(getUser(id));
+  const posts = use(postPromises.get(id)!);
+  const comments = use(commentsPromise);
+  const friendsPromise = useMemo(() => fetch('/api/friends/' + id).then((r) => r.json()), [id]);
+  const friends = use(friendsPromise);
+  const likes = use(useMemo(() => fetch('/api/likes/' + id), [id]));
+  return <div className={theme}>{user.name} {posts.length} {comments.length} {friends.length} {String(likes)}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(0);
+  });
+
+  it('should resolve cache() wrappers imported from other files', async () => {
+    project.writeFile(
+      'data.tsx',
+      `import { cache } from 'react';
+
+export const getUser = cache(async (id: string) => (await fetch('/api/users/' + id)).json());
+const loadTeam = cache(async (id: string) => (await fetch('/api/teams/' + id)).json());
+export { loadTeam as getTeam };
+export async function getPosts(id: string) {
+  return (await fetch('/api/posts/' + id)).json();
+}
+`
+    );
+    const issues = await analyzeUse(`import { use } from 'react';
+import * as data from './data';
+import { getUser, getTeam, getPosts } from './data';
+
+export function Profile({ id }: { id: string }) {
+  const user = use(getUser(id));
+  const team = use(data.getTeam(id));
+  const sameTeam = use(getTeam(id));
+  const posts = use(getPosts(id));
+  return <div>{user.name} {team.name} {sameTeam.name} {posts.length}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].type).toBe('confirmed-infinite-loop');
+    expect(issues[0].line).toBe(9);
+    expect(issues[0].problematicDependency).toBe('getPosts(...)');
+  });
+
+  it('should warn about functions imported from outside the analyzed files', async () => {
+    const issues = await analyzeUse(`import { use } from 'react';
+import { getUser } from '@acme/api';
+
+export function Profile({ id }: { id: string }) {
+  const user = use(getUser(id));
+  return <div>{user.name}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].type).toBe('potential-issue');
+    expect(issues[0].category).toBe('warning');
+    expect(issues[0].explanation).toContain('could not be checked for caching');
+  });
+
+  it('should only treat use() from react as React.use', async () => {
+    const issues = await analyzeUse(`import { use as readResource } from 'react';
+import { use } from './resources';
+
+const store = { use: (promise: Promise<string>) => promise };
+
+export function Profile({ id }: { id: string }) {
+  const plugin = use(fetch('/api/plugins/' + id));
+  const value = store.use(fetch('/api/values/' + id));
+  const user = readResource(fetch('/api/users/' + id));
+  return <div>{String(plugin)} {String(value)} {String(user)}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].line).toBe(9);
+  });
+
+  it('should warn about promises created in only one branch of the argument', async () => {
+    const issues = await analyzeUse(`import { use, useState } from 'react';
+
+export function Profile({ id, userPromise }: { id: string; userPromise?: Promise<any> }) {
+  const user = use(userPromise ?? fetch('/api/users/' + id).then((response) => response.json()));
+  const posts = use(userPromise ? userPromise : new Promise((resolve) => resolve([])));
+  const [teamPromise] = useState(() => fetch('/api/teams/' + id));
+  const team = use(userPromise ?? teamPromise);
+  return <div>{user.name} {posts.length} {String(team)}</div>;
+}
+`);
+
+    expect(issues).toHaveLength(2);
+    expect(issues[0].type).toBe('potential-issue');
+    expect(issues[0].category).toBe('warning');
+    expect(issues[0].severity).toBe('high');
+    expect(issues[0].problematicDependency).toBe('fetch(...).then(...)');
+    expect(issues[0].explanation).toContain('falls back to that branch');
+    expect(issues[1].line).toBe(5);
+    expect(issues[1].problematicDependency).toBe('new Promise(...)');
+  });
+});
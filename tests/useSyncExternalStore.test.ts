@@ -510,8 +510,13 @@ describe('useSyncExternalStore Detection (RLD-407)', () => {
         (issue) => issue.errorCode === 'RLD-407'
       );
 
-      // Should detect the unstable getSnapshot (2nd argument)
-      expect(issues.length).toBe(1);
+      // Both the getSnapshot (2nd) and getServerSnapshot (3rd) arguments return new objects
+      expect(issues.map((issue) => issue.problematicDependency)).toEqual([
+        'getSnapshot',
+        'getServerSnapshot',
+      ]);
+      expect(issues[1].type).toBe('confirmed-infinite-loop');
+      expect(issues[1].explanation).toContain('hydration');
     });
 
     it('should handle multiple useSyncExternalStore calls in same component', async () => {
@@ -563,4 +568,108 @@ describe('useSyncExternalStore Detection (RLD-407)', () => {
       expect(issues[0].line).toBeLessThan(20); // First store
     });
   });
+
+  describe('Unstable subscribe (RLD-411)', () => {
+    async function analyzeSubscribe(content: string) {
+      fs.writeFileSync(path.join(tempDir, 'Subscribe.tsx'), content);
+      const result = await detectCircularDependencies(tempDir, {
+        pattern: '*.tsx',
+        ignore: [],
+      });
+      return result.intelligentHooksAnalysis.filter((issue) => issue.errorCode === 'RLD-411');
+    }
+
+    it('should detect inline subscribe functions', async () => {
+      const issues = await analyzeSubscribe(`
+        import { useSyncExternalStore } from 'react';
+        import { store } from './store';
+
+        function Counter() {
+          const count = useSyncExternalStore(
+            (callback) => store.subscribe(callback),
+            () => store.getState().count
+          );
+          return <div>{count}</div>;
+        }
+      `);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].type).toBe('potential-issue');
+      expect(issues[0].category).toBe('performance');
+      expect(issues[0].problematicDependency).toBe('subscribe');
+      expect(issues[0].explanation).toContain('unsubscribes and subscribes again');
+      expect(issues[0].suggestion).toContain('useCallback');
+    });
+
+    it('should flag subscribe functions that notify while subscribing as loop risks', async () => {
+      const issues = await analyzeSubscribe(`
+        import { useSyncExternalStore } from 'react';
+
+        function useWindowWidth() {
+          const subscribe = (onChange: () => void) => {
+            window.addEventListener('resize', onChange);
+            onChange();
+            return () => window.removeEventListener('resize', onChange);
+          };
+          return useSyncExternalStore(subscribe, () => window.innerWidth);
+        }
+      `);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].category).toBe('warning');
+      expect(issues[0].severity).toBe('high');
+      expect(issues[0].problematicDependency).toBe('subscribe');
+      expect(issues[0].explanation).toContain("calls 'onChange' while subscribing");
+    });
+
+    it('should detect useCallback subscribe functions with unstable dependencies', async () => {
+      const issues = await analyzeSubscribe(`
+        import { useCallback, useSyncExternalStore } from 'react';
+        import { createStore } from './store';
+
+        function Feed({ topic }: { topic: string }) {
+          const options = { topic };
+          const subscribe = useCallback(
+            (callback: () => void) => createStore(options).subscribe(callback),
+            [options]
+          );
+          const subscribeAll = useCallback((callback: () => void) => createStore({}).subscribe(callback));
+          useSyncExternalStore(subscribeAll, () => 0);
+          return <div>{useSyncExternalStore(subscribe, () => topic)}</div>;
+        }
+      `);
+
+      expect(issues.map((issue) => issue.problematicDependency).sort()).toEqual([
+        'subscribe',
+        'subscribeAll',
+      ]);
+      const withDeps = issues.find((issue) => issue.problematicDependency === 'subscribe');
+      expect(withDeps?.explanation).toContain("its dependency 'options' is recreated");
+    });
+
+    it('should NOT flag module-level, memoized or store method subscribe functions', async () => {
+      const issues = await analyzeSubscribe(`
+        import { useCallback, useSyncExternalStore } from 'react';
+        import { store } from './store';
+
+        function subscribeToResize(callback: () => void) {
+          window.addEventListener('resize', callback);
+          return () => window.removeEventListener('resize', callback);
+        }
+
+        function Dashboard({ topic }: { topic: string }) {
+          const width = useSyncExternalStore(subscribeToResize, () => window.innerWidth);
+          const count = useSyncExternalStore(store.subscribe, store.getSnapshot);
+          const subscribe = useCallback(
+            (callback: () => void) => store.subscribeTo(topic, callback),
+            [topic]
+          );
+          const items = useSyncExternalStore(subscribe, () => store.getSnapshot().length);
+          return <div>{width} {count} {items}</div>;
+        }
+      `);
+
+      expect(issues).toHaveLength(0);
+    });
+  });
 });
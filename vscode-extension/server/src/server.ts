@@ -496,6 +496,10 @@ async function runSingleFileAnalysis(uri: string, content: string): Promise<void
       stableHooks: rldConfig?.stableHooks,
       unstableHooks: rldConfig?.unstableHooks,
       customFunctions: rldConfig?.customFunctions,
+      effectHooks: rldConfig?.effectHooks,
+      atomFactories: rldConfig?.atomFactories,
+      serverComponents: rldConfig?.serverComponents,
+      cleanupPairs: rldConfig?.cleanupPairs,
       strictMode: globalSettings.strictMode,
       projectRoot: workspaceRoot || undefined,
       // Use pool for monorepos, single checker for single-project workspaces